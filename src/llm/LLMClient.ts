@@ -6,10 +6,29 @@
  * - OpenAI (GPT)
  * - Google (Gemini)
  * - Ollama (Local models)
- * - LLama.cpp (Local server)
+ * - OpenAI-compatible endpoints (LM Studio, llama.cpp server, vLLM, OpenRouter, gateways)
  *
  * Uses factory pattern to instantiate appropriate provider
  * based on configuration.
+ *
+ * An optional Redactor replaces personal data in every request and
+ * restores it in responses.
+ *
+ * Optional fallback clients are tried in order when the provider is
+ * unreachable, rejects the key or is rate limited/out of quota.
+ * Content errors (safety filters, empty or invalid responses) and
+ * cancellation are never retried elsewhere.
+ *
+ * An optional UsageLedger records tokens and cost of every successful
+ * call and blocks calls once the monthly budget is reached.
+ *
+ * An optional ResponseCache answers repeated non-streaming calls that
+ * opt in (options.cache) without contacting the provider. Cache hits are
+ * free, so they skip the budget check and are not recorded.
+ *
+ * Providers make a single attempt and throw LLMError. Timeouts and
+ * retries with exponential backoff (honouring Retry-After) are applied
+ * here, so every provider behaves the same.
  */
 
 import { ILLMProvider, ProviderConfig } from './providers/ILLMProvider';
@@ -17,7 +36,45 @@ import { AnthropicProvider } from './providers/AnthropicProvider';
 import { OpenAIProvider } from './providers/OpenAIProvider';
 import { GeminiProvider } from './providers/GeminiProvider';
 import { OllamaProvider } from './providers/OllamaProvider';
-import { LLMCallOptions } from '../types';
+import { OpenAICompatibleProvider } from './providers/OpenAICompatibleProvider';
+import { ChatMessage, LLMCallOptions, LLMProviderType, LLMResponse, LLMResponseSource } from '../types';
+import { Redactor } from './Redactor';
+import { UsageLedger } from '../managers/UsageLedger';
+import { ResponseCache } from '../managers/ResponseCache';
+import { CANCELLED_MESSAGE, LLMError, toLLMError } from './LLMError';
+
+/** Attempts per provider for non-streaming calls */
+const MAX_ATTEMPTS = 3;
+
+/** First retry delay, doubled on each attempt */
+const BASE_RETRY_DELAY_MS = 1000;
+
+/** Timeout per attempt when the caller sets none */
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/** Longest Retry-After worth waiting for; longer waits move on to a fallback */
+const MAX_RETRY_AFTER_MS = 60000;
+
+/**
+ * Wait before the next attempt
+ * Resolves early (without error) if the caller cancels
+ *
+ * @param ms - Delay in milliseconds
+ * @param signal - Caller's abort signal
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      resolve();
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
 
 /**
  * LLMClient - Main client class with provider abstraction
@@ -25,6 +82,11 @@ import { LLMCallOptions } from '../types';
  */
 export class LLMClient {
   private provider: ILLMProvider;
+  private providerType: LLMProviderType = 'anthropic';
+  private redactor: Redactor | null = null;
+  private usageLedger: UsageLedger | null = null;
+  private responseCache: ResponseCache | null = null;
+  private fallbacks: LLMClient[] = [];
 
   /**
    * Legacy constructor for backward compatibility
@@ -48,49 +110,89 @@ export class LLMClient {
    * @param providerType - Type of provider to use
    * @param config - Provider configuration
    * @returns Configured LLMClient instance
+   * @throws LLMError (kind "auth" or "config") if required configuration is missing
    */
   static createFromConfig(
     providerType: string,
     config: ProviderConfig
   ): LLMClient {
+    return LLMClient.fromProvider(
+      LLMClient.createProvider(providerType, config),
+      providerType.toLowerCase() as LLMProviderType
+    );
+  }
+
+  /**
+   * Create LLMClient around an existing provider
+   * Used for mock and recording providers in tests
+   *
+   * @param provider - Provider instance
+   * @param providerType - Provider type reported to callbacks and the usage ledger
+   * @returns LLMClient instance
+   */
+  static fromProvider(provider: ILLMProvider, providerType: LLMProviderType): LLMClient {
+    const client = Object.create(LLMClient.prototype);
+    client.provider = provider;
+    client.providerType = providerType;
+    client.redactor = null;
+    client.usageLedger = null;
+    client.responseCache = null;
+    client.fallbacks = [];
+    return client;
+  }
+
+  /**
+   * Instantiate the provider for a type and configuration
+   *
+   * @param providerType - Type of provider to use
+   * @param config - Provider configuration
+   * @returns Provider instance
+   * @throws LLMError (kind "auth" or "config") if the API key, endpoint or type is missing or unknown
+   */
+  static createProvider(providerType: string, config: ProviderConfig): ILLMProvider {
     let provider: ILLMProvider;
 
     switch (providerType.toLowerCase()) {
       case 'anthropic':
         if (!config.apiKey) {
-          throw new Error('Anthropic provider requires API key');
+          throw new LLMError('auth', 'Anthropic provider requires API key');
         }
         provider = new AnthropicProvider(config.apiKey, config.model);
         break;
 
       case 'openai':
         if (!config.apiKey) {
-          throw new Error('OpenAI provider requires API key');
+          throw new LLMError('auth', 'OpenAI provider requires API key');
         }
         provider = new OpenAIProvider(config.apiKey, config.model);
         break;
 
       case 'gemini':
         if (!config.apiKey) {
-          throw new Error('Gemini provider requires API key');
+          throw new LLMError('auth', 'Gemini provider requires API key');
         }
         provider = new GeminiProvider(config.apiKey, config.model);
         break;
 
       case 'ollama':
         if (!config.endpoint) {
-          throw new Error('Ollama provider requires endpoint');
+          throw new LLMError('config', 'Ollama provider requires endpoint');
         }
         provider = new OllamaProvider(config.endpoint, config.model);
         break;
 
+      case 'openai-compatible':
+        if (!config.endpoint) {
+          throw new LLMError('config', 'OpenAI-compatible provider requires base URL');
+        }
+        provider = new OpenAICompatibleProvider(config.endpoint, config.model, config.apiKey, config.headers);
+        break;
+
       default:
-        throw new Error(`Unknown provider type: ${providerType}`);
+        throw new LLMError('config', `Unknown provider type: ${providerType}`);
     }
 
-    const client = Object.create(LLMClient.prototype);
-    client.provider = provider;
-    return client;
+    return provider;
   }
 
   // ========================================================================
@@ -106,11 +208,65 @@ export class LLMClient {
   }
 
   /**
-   * Call LLM API via provider
+   * Enable or disable request redaction
+   *
+   * @param redactor - Redactor to apply, or null to send text unchanged
+   */
+  setRedactor(redactor: Redactor | null): void {
+    this.redactor = redactor;
+  }
+
+  /**
+   * Get active redactor
+   * @returns Redactor, or null if redaction is off
+   */
+  getRedactor(): Redactor | null {
+    return this.redactor;
+  }
+
+  /**
+   * Record usage of calls made through this client, and enforce the budget
+   * Calls answered by fallback clients are recorded here too
+   *
+   * @param usageLedger - Ledger to record to, or null to disable tracking
+   */
+  setUsageLedger(usageLedger: UsageLedger | null): void {
+    this.usageLedger = usageLedger;
+  }
+
+  /**
+   * Serve repeated calls that opt in from the response cache
+   *
+   * @param responseCache - Cache to use, or null to always call the provider
+   */
+  setResponseCache(responseCache: ResponseCache | null): void {
+    this.responseCache = responseCache;
+  }
+
+  /**
+   * Set clients to try when this provider is unavailable
+   * Fallback clients keep their own model and redaction settings
+   *
+   * @param fallbacks - Clients in the order they should be tried
+   */
+  setFallbacks(fallbacks: LLMClient[]): void {
+    this.fallbacks = fallbacks;
+  }
+
+  /**
+   * Get provider type of this client
+   * @returns Provider type
+   */
+  getProviderType(): LLMProviderType {
+    return this.providerType;
+  }
+
+  /**
+   * Call LLM API via provider, falling back to other providers if unavailable
    *
    * @param systemPrompt - System instruction
    * @param userPrompt - User message
-   * @param options - Call options (temperature, tokens, timeout)
+   * @param options - Call options (temperature, tokens, timeout, cache)
    * @returns LLM response text
    */
   async callAPI(
@@ -118,7 +274,334 @@ export class LLMClient {
     userPrompt: string,
     options?: LLMCallOptions
   ): Promise<string> {
-    return await this.provider.callAPI(systemPrompt, userPrompt, options);
+    return await this.withCache(options, systemPrompt, userPrompt, (callOptions) =>
+      this.withFallback(callOptions, (client) => client.callProviderAPI(systemPrompt, userPrompt, callOptions))
+    );
+  }
+
+  /**
+   * Call LLM API with message history, falling back to other providers if unavailable
+   *
+   * @param systemPrompt - System instruction
+   * @param messages - Conversation so far (starting with a user message)
+   * @param options - Call options (temperature, tokens, timeout, cache)
+   * @returns Next assistant message text
+   */
+  async callChat(
+    systemPrompt: string,
+    messages: ChatMessage[],
+    options?: LLMCallOptions
+  ): Promise<string> {
+    return await this.withCache(options, systemPrompt, messages, (callOptions) =>
+      this.withFallback(callOptions, (client) => client.callProviderChat(systemPrompt, messages, callOptions))
+    );
+  }
+
+  /**
+   * Stream LLM response via provider
+   * Falls back to other providers only if nothing has been streamed yet
+   *
+   * @param systemPrompt - System instruction
+   * @param userPrompt - User message
+   * @param onChunk - Called with each text delta
+   * @param options - Call options (temperature, tokens, idle timeout, signal)
+   * @returns Full response text
+   */
+  async streamAPI(
+    systemPrompt: string,
+    userPrompt: string,
+    onChunk: (text: string) => void,
+    options?: LLMCallOptions
+  ): Promise<string> {
+    let delivered = false;
+    const forward = (text: string) => {
+      delivered = true;
+      onChunk(text);
+    };
+
+    return await this.withFallback(
+      options,
+      (client) => client.streamProviderAPI(systemPrompt, userPrompt, forward, options),
+      () => !delivered
+    );
+  }
+
+  // ========================================================================
+  // Response Cache
+  // ========================================================================
+
+  /**
+   * Answer from the response cache, or run the call and store its response
+   * Only used when options.cache is set; options.forceRefresh skips the lookup.
+   * Responses failing options.validate are not stored, and such cached ones are ignored.
+   * Responses are keyed by this client's provider/model even if a fallback answered.
+   *
+   * @param options - Call options
+   * @param systemPrompt - System instruction
+   * @param prompt - User prompt or message history
+   * @param call - Call to run on a cache miss, with options that capture the source
+   * @returns Cached or fresh response text
+   */
+  private async withCache(
+    options: LLMCallOptions | undefined,
+    systemPrompt: string,
+    prompt: string | ChatMessage[],
+    call: (options: LLMCallOptions | undefined) => Promise<string>
+  ): Promise<string> {
+    const cache = this.responseCache;
+    if (!cache || !options?.cache) {
+      return await call(options);
+    }
+
+    const key = await cache.createKey({
+      provider: this.providerType,
+      model: this.getModel(),
+      systemPrompt,
+      prompt,
+      options,
+    });
+
+    if (!options.forceRefresh) {
+      const cached = await cache.get(key);
+      if (cached && (!options.validate || options.validate(cached.text))) {
+        options.onSource?.({ ...cached.source, cached: true });
+        return cached.text;
+      }
+    }
+
+    let source = null as LLMResponseSource | null;
+    const text = await call({
+      ...options,
+      onSource: (answered) => {
+        source = answered;
+        options.onSource?.(answered);
+      },
+    });
+
+    if (source && (!options.validate || options.validate(text))) {
+      await cache.set(key, { text, source });
+    }
+    return text;
+  }
+
+  // ========================================================================
+  // Fallback
+  // ========================================================================
+
+  /**
+   * Run a call on this client, then on each fallback while the failure is a provider outage
+   * Reports the answering provider through options.onSource and records usage
+   *
+   * @param options - Call options
+   * @param call - Call to run against a single client
+   * @param canRetry - Extra condition for moving to the next client
+   * @returns Response text of the first client that succeeds
+   * @throws LLMError if the monthly budget is reached
+   * @throws Error of the only client, or a combined error if all clients fail
+   */
+  private async withFallback(
+    options: LLMCallOptions | undefined,
+    call: (client: LLMClient) => Promise<LLMResponse>,
+    canRetry: () => boolean = () => true
+  ): Promise<string> {
+    await this.usageLedger?.checkBudget();
+
+    const clients: LLMClient[] = [this, ...this.fallbacks];
+    const failures: string[] = [];
+
+    for (const client of clients) {
+      try {
+        const response = await call(client);
+        options?.onSource?.({
+          provider: client.providerType,
+          model: client.getModel(),
+          fallback: client !== this,
+        });
+        await this.usageLedger?.record({
+          timestamp: new Date().toISOString(),
+          provider: client.providerType,
+          model: response.usage.model,
+          task: options?.task ?? null,
+          entryId: options?.entryId ?? null,
+          inputTokens: response.usage.inputTokens,
+          outputTokens: response.usage.outputTokens,
+          latencyMs: response.usage.latencyMs,
+          fallback: client !== this,
+        });
+        return response.text;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        if (this.fallbacks.length === 0 || !(error instanceof LLMError && error.failover) || !canRetry()) {
+          throw error;
+        }
+
+        failures.push(`${client.providerType}: ${errorMessage}`);
+        console.warn(`[Weaklog] ${client.providerType} unavailable (${errorMessage})`);
+      }
+    }
+
+    throw new Error(`All providers failed. ${failures.join('; ')}`);
+  }
+
+  // ========================================================================
+  // Provider Calls (this client only)
+  // ========================================================================
+
+  /**
+   * Call this client's provider with retries, applying redaction
+   */
+  private async callProviderAPI(
+    systemPrompt: string,
+    userPrompt: string,
+    options?: LLMCallOptions
+  ): Promise<LLMResponse> {
+    const redactor = this.redactor;
+    if (!redactor) {
+      return await this.withRetry(options, (attemptOptions) =>
+        this.provider.callAPI(systemPrompt, userPrompt, attemptOptions)
+      );
+    }
+
+    const redactedSystem = redactor.redact(systemPrompt);
+    const redactedUser = redactor.redact(userPrompt);
+    const response = await this.withRetry(options, (attemptOptions) =>
+      this.provider.callAPI(redactedSystem, redactedUser, attemptOptions)
+    );
+    return { ...response, text: redactor.restore(response.text) };
+  }
+
+  /**
+   * Call this client's provider with message history and retries, applying redaction
+   */
+  private async callProviderChat(
+    systemPrompt: string,
+    messages: ChatMessage[],
+    options?: LLMCallOptions
+  ): Promise<LLMResponse> {
+    const redactor = this.redactor;
+    if (!redactor) {
+      return await this.withRetry(options, (attemptOptions) =>
+        this.provider.callChat(systemPrompt, messages, attemptOptions)
+      );
+    }
+
+    const redactedSystem = redactor.redact(systemPrompt);
+    const redactedMessages = messages.map((message) => ({ ...message, content: redactor.redact(message.content) }));
+    const response = await this.withRetry(options, (attemptOptions) =>
+      this.provider.callChat(redactedSystem, redactedMessages, attemptOptions)
+    );
+    return { ...response, text: redactor.restore(response.text) };
+  }
+
+  /**
+   * Stream from this client's provider, applying redaction
+   */
+  private async streamProviderAPI(
+    systemPrompt: string,
+    userPrompt: string,
+    onChunk: (text: string) => void,
+    options?: LLMCallOptions
+  ): Promise<LLMResponse> {
+    const redactor = this.redactor;
+
+    try {
+      if (!redactor) {
+        return await this.provider.streamAPI(systemPrompt, userPrompt, onChunk, options);
+      }
+
+      const restorer = redactor.createStreamRestorer(onChunk);
+      const response = await this.provider.streamAPI(
+        redactor.redact(systemPrompt),
+        redactor.redact(userPrompt),
+        (chunk) => restorer.push(chunk),
+        options
+      );
+      restorer.flush();
+      return { ...response, text: redactor.restore(response.text) };
+
+    } catch (error) {
+      throw this.classifyError(error);
+    }
+  }
+
+  // ========================================================================
+  // Retry and Timeout
+  // ========================================================================
+
+  /**
+   * Run a single-attempt provider call with a timeout per attempt,
+   * retrying transient failures with exponential backoff
+   * Rate limits wait for the server's Retry-After when given, else double the backoff
+   *
+   * @param options - Caller's options (timeoutMs, signal)
+   * @param call - Provider call, given options with a per-attempt abort signal
+   * @returns Provider response
+   * @throws LLMError once attempts are exhausted or the error is not retryable
+   */
+  private async withRetry(
+    options: LLMCallOptions | undefined,
+    call: (attemptOptions: LLMCallOptions) => Promise<LLMResponse>
+  ): Promise<LLMResponse> {
+    const callerSignal = options?.signal;
+    const timeoutMs = options?.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    for (let attempt = 1; ; attempt++) {
+      if (callerSignal?.aborted) {
+        throw new LLMError('cancelled', CANCELLED_MESSAGE);
+      }
+
+      // Abort the attempt on timeout or when the caller cancels
+      const controller = new AbortController();
+      const onCallerAbort = () => controller.abort();
+      callerSignal?.addEventListener('abort', onCallerAbort);
+      let timedOut = false;
+      const timeoutId = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs);
+
+      try {
+        console.log(`[Weaklog] ${this.providerType} API call attempt ${attempt}/${MAX_ATTEMPTS}`);
+        return await call({ ...options, signal: controller.signal });
+
+      } catch (error) {
+        const llmError = callerSignal?.aborted
+          ? new LLMError('cancelled', CANCELLED_MESSAGE)
+          : timedOut
+            ? new LLMError('timeout', `No response from ${this.getModel() || this.providerType} within ${Math.ceil(timeoutMs / 1000)}s. Please check your connection and try again.`)
+            : this.classifyError(error);
+
+        console.error(`[Weaklog] ${this.providerType} API call attempt ${attempt} failed (${llmError.kind}):`, llmError.message);
+
+        if (!llmError.retryable || attempt >= MAX_ATTEMPTS) {
+          throw llmError;
+        }
+
+        // A long Retry-After is better spent on a fallback provider
+        if (llmError.retryAfterMs !== null && llmError.retryAfterMs > MAX_RETRY_AFTER_MS) {
+          throw llmError;
+        }
+
+        const backoff = BASE_RETRY_DELAY_MS * Math.pow(2, attempt - 1) * (llmError.kind === 'rate-limit' ? 2 : 1);
+        const delay = llmError.retryAfterMs ?? backoff;
+        console.log(`[Weaklog] Waiting ${delay}ms before retry`);
+        await sleep(delay, callerSignal);
+
+      } finally {
+        clearTimeout(timeoutId);
+        callerSignal?.removeEventListener('abort', onCallerAbort);
+      }
+    }
+  }
+
+  /**
+   * Classify an error from this client's provider
+   *
+   * @param error - Thrown error
+   * @returns LLMError (unchanged if the provider already classified it)
+   */
+  private classifyError(error: unknown): LLMError {
+    return toLLMError(error, { provider: this.providerType, model: this.getModel() });
   }
 
   /**
@@ -0,0 +1,360 @@
+/**
+ * LLMError - Typed error taxonomy for LLM calls
+ *
+ * Every provider failure is converted to one kind:
+ * - auth: API key missing or rejected (401/403)
+ * - rate-limit: Too many requests (429), with Retry-After when the server sends one
+ * - quota: Billing or quota exhausted
+ * - timeout: No response within the timeout
+ * - network: Server unreachable
+ * - model-not-found: Model unknown to the provider
+ * - content-filter: Input or output blocked by a safety filter
+ * - server: Provider-side failure (5xx, overloaded)
+ * - invalid-response: Response without usable content
+ * - cancelled: Cancelled by the caller
+ * - budget: Monthly budget cap reached (raised before any request is sent)
+ * - config: Endpoint or base URL missing or invalid (raised before any request is sent)
+ * - unknown: Anything else
+ *
+ * Messages are user-facing and never contain API keys or auth headers.
+ * LLMClient decides retries and provider fallback from the kind.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Error class of a failed LLM call
+ */
+export type LLMErrorKind =
+  | 'auth'
+  | 'rate-limit'
+  | 'quota'
+  | 'timeout'
+  | 'network'
+  | 'model-not-found'
+  | 'content-filter'
+  | 'server'
+  | 'invalid-response'
+  | 'cancelled'
+  | 'budget'
+  | 'config'
+  | 'unknown';
+
+/**
+ * Provider details used to build user-facing messages
+ */
+export interface LLMErrorContext {
+  /** Provider display name (e.g. "Anthropic") */
+  provider: string;
+
+  /** Model sent with the request */
+  model: string;
+
+  /** Server URL for self-hosted providers */
+  endpoint?: string;
+
+  /** Values that must never appear in messages (API keys, header values) */
+  secrets?: string[];
+
+  /** Provider-specific advice appended to the message per kind */
+  hints?: Partial<Record<LLMErrorKind, string>>;
+}
+
+/**
+ * Message used when the caller cancels a call
+ * Callers check `kind === 'cancelled'` rather than this text to suppress error notices
+ */
+export const CANCELLED_MESSAGE = 'Generation cancelled';
+
+/** Kinds worth retrying on the same provider */
+const RETRYABLE_KINDS: LLMErrorKind[] = ['rate-limit', 'timeout', 'network', 'server', 'invalid-response', 'unknown'];
+
+/** Kinds that mean the provider is unavailable, so another provider may succeed */
+const FAILOVER_KINDS: LLMErrorKind[] = ['auth', 'config', 'rate-limit', 'quota', 'timeout', 'network', 'server', 'model-not-found'];
+
+// ============================================================================
+// Error Class
+// ============================================================================
+
+/**
+ * LLMError class
+ * Error with kind, HTTP status and server-requested retry delay
+ */
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind;
+
+  /** HTTP status, if the failure came from a response */
+  readonly status: number | null;
+
+  /** Delay requested by the server (Retry-After), if any */
+  readonly retryAfterMs: number | null;
+
+  constructor(
+    kind: LLMErrorKind,
+    message: string,
+    details: { status?: number | null; retryAfterMs?: number | null } = {}
+  ) {
+    super(message);
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.status = details.status ?? null;
+    this.retryAfterMs = details.retryAfterMs ?? null;
+  }
+
+  /**
+   * Whether retrying on the same provider may succeed
+   */
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+
+  /**
+   * Whether another provider may succeed
+   */
+  get failover(): boolean {
+    return FAILOVER_KINDS.includes(this.kind);
+  }
+}
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+/**
+ * Convert any provider/SDK/fetch error into an LLMError
+ * Reads HTTP status and retry headers from SDK errors, then falls back to message patterns
+ *
+ * @param error - Thrown error
+ * @param context - Provider details for the message
+ * @returns Classified error (unchanged if already an LLMError)
+ */
+export function toLLMError(error: unknown, context: LLMErrorContext): LLMError {
+  if (error instanceof LLMError) {
+    return error;
+  }
+
+  const rawMessage = error instanceof Error ? error.message : String(error);
+  const status = getStatus(error, rawMessage);
+  const kind = classify(error, status, rawMessage);
+  const retryAfterMs = kind === 'rate-limit' ? getRetryAfter(error) : null;
+
+  return new LLMError(kind, describe(kind, context, status, retryAfterMs, rawMessage), { status, retryAfterMs });
+}
+
+/**
+ * Convert a failed fetch Response into an LLMError
+ * Used by fetch-based providers (Ollama, OpenAI-compatible)
+ *
+ * @param response - Response with a non-OK status
+ * @param context - Provider details for the message
+ * @returns Classified error
+ */
+export async function fromHttpResponse(response: Response, context: LLMErrorContext): Promise<LLMError> {
+  const body = await response.text().catch(() => '');
+  const rawMessage = `${response.status} ${body}`.slice(0, 500);
+  const kind = classify(null, response.status, rawMessage);
+  const retryAfterMs = kind === 'rate-limit'
+    ? parseRetryAfter(response.headers.get('retry-after-ms'), true) ?? parseRetryAfter(response.headers.get('retry-after'))
+    : null;
+
+  return new LLMError(kind, describe(kind, context, response.status, retryAfterMs, rawMessage), {
+    status: response.status,
+    retryAfterMs,
+  });
+}
+
+/**
+ * Remove API keys and auth headers from a message
+ *
+ * @param message - Raw message
+ * @param secrets - Known secret values to remove
+ * @returns Safe message
+ */
+export function sanitizeErrorMessage(message: string, secrets: string[] = []): string {
+  let safe = message;
+
+  for (const secret of secrets) {
+    if (secret && secret.length >= 8) {
+      safe = safe.split(secret).join('[REDACTED]');
+    }
+  }
+
+  return safe
+    .replace(/sk-(?:ant-)?[a-zA-Z0-9_-]{8,}/g, '[API_KEY_REDACTED]')
+    .replace(/AIza[a-zA-Z0-9_-]+/g, '[API_KEY_REDACTED]')
+    .replace(/(authorization|x-goog-api-key|x-api-key|api-key):?\s*(?:bearer\s+)?[^\s,]+/gi, '$1: [REDACTED]')
+    .replace(/bearer\s+[^\s,]+/gi, 'Bearer [REDACTED]');
+}
+
+/**
+ * Decide the error kind
+ * Order matters: quota before rate limit (both can be 429), status before message
+ */
+function classify(error: unknown, status: number | null, message: string): LLMErrorKind {
+  const name = error instanceof Error ? error.name : '';
+
+  if (name === 'AbortError' || /APIUserAbortError|request was aborted/i.test(`${name} ${message}`)) {
+    return 'cancelled';
+  }
+  if (/\bSAFETY\b|content[_ ]filter|content_policy|blocked by (?:safety|content)/i.test(message)) {
+    return 'content-filter';
+  }
+  if (/insufficient_quota|billing|exceeded your current quota|QUOTA_EXCEEDED/i.test(message)) {
+    return 'quota';
+  }
+  if (status === 401 || status === 403 || /API_KEY_INVALID|invalid[_ ]api[_ ]key|authentication|unauthorized|permission denied/i.test(message)) {
+    return 'auth';
+  }
+  if (status === 429 || /rate[_ ]limit|RESOURCE_EXHAUSTED|too many requests/i.test(message)) {
+    return 'rate-limit';
+  }
+  if (status === 404 || /model.*not found|not_found_error|model_not_found|does not exist/i.test(message)) {
+    return 'model-not-found';
+  }
+  if ((status !== null && status >= 500) || /overloaded/i.test(message)) {
+    return 'server';
+  }
+  if (/timed? ?out|timeout|ETIMEDOUT/i.test(`${name} ${message}`)) {
+    return 'timeout';
+  }
+  if (/fetch failed|failed to fetch|networkerror|connection error|ECONNREFUSED|ECONNRESET|ENOTFOUND|EAI_AGAIN|socket hang up/i.test(message)) {
+    return 'network';
+  }
+  if (/no (?:text )?content|no response body|empty response/i.test(message)) {
+    return 'invalid-response';
+  }
+
+  return 'unknown';
+}
+
+/**
+ * Build the user-facing message for a kind
+ */
+function describe(
+  kind: LLMErrorKind,
+  context: LLMErrorContext,
+  status: number | null,
+  retryAfterMs: number | null,
+  rawMessage: string
+): string {
+  const { provider } = context;
+  let message: string;
+
+  switch (kind) {
+    case 'auth':
+      message = `Invalid API key. Please check your ${provider} API key in settings.`;
+      break;
+    case 'rate-limit':
+      message = retryAfterMs !== null
+        ? `${provider} rate limit exceeded. Try again in ${Math.ceil(retryAfterMs / 1000)}s.`
+        : `${provider} rate limit exceeded. Please try again later.`;
+      break;
+    case 'quota':
+      message = `${provider} quota exceeded. Please check your billing settings.`;
+      break;
+    case 'timeout':
+      message = `${provider} did not respond in time. Please check your connection and try again.`;
+      break;
+    case 'network':
+      message = context.endpoint
+        ? `Cannot connect to ${provider} at ${context.endpoint}.`
+        : `Cannot connect to ${provider}. Please check your internet connection.`;
+      break;
+    case 'model-not-found':
+      message = `Model "${context.model}" not found on ${provider}.`;
+      break;
+    case 'content-filter':
+      message = `Content was blocked by ${provider} safety filters. Please try different input.`;
+      break;
+    case 'server':
+      message = `${provider} server error${status !== null ? ` (${status})` : ''}. Please try again later.`;
+      break;
+    case 'invalid-response':
+      message = `${provider} returned no usable content. Please try again.`;
+      break;
+    case 'cancelled':
+      return CANCELLED_MESSAGE;
+    default:
+      message = `${provider} request failed: ${sanitizeErrorMessage(rawMessage, context.secrets)}`;
+  }
+
+  const hint = context.hints?.[kind];
+  return hint ? `${message} ${hint}` : message;
+}
+
+// ============================================================================
+// Status and Retry-After
+// ============================================================================
+
+/**
+ * Read HTTP status from SDK errors or "[429 Too Many Requests]"-style messages
+ */
+function getStatus(error: unknown, message: string): number | null {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') {
+    return status;
+  }
+
+  const match = message.match(/\[(\d{3})[ \]]|\bstatus(?: code)?:? (\d{3})\b|^(\d{3}) /i);
+  const code = match ? Number(match[1] || match[2] || match[3]) : NaN;
+  return code >= 400 && code < 600 ? code : null;
+}
+
+/**
+ * Read server-requested retry delay from SDK errors
+ * Supports Retry-After / retry-after-ms headers and Gemini RetryInfo details
+ */
+function getRetryAfter(error: unknown): number | null {
+  const { headers, errorDetails } = (error ?? {}) as {
+    headers?: Headers | Record<string, string | null | undefined>;
+    errorDetails?: Array<Record<string, unknown>>;
+  };
+
+  if (headers) {
+    const read = (name: string): string | null => {
+      if (typeof (headers as Headers).get === 'function') {
+        return (headers as Headers).get(name);
+      }
+      return (headers as Record<string, string | null | undefined>)[name] ?? null;
+    };
+
+    const delay = parseRetryAfter(read('retry-after-ms'), true) ?? parseRetryAfter(read('retry-after'));
+    if (delay !== null) {
+      return delay;
+    }
+  }
+
+  // Gemini: { "@type": "...RetryInfo", retryDelay: "17s" }
+  const retryInfo = errorDetails?.find((detail) => typeof detail.retryDelay === 'string');
+  if (retryInfo) {
+    const seconds = parseFloat(retryInfo.retryDelay as string);
+    if (!isNaN(seconds)) {
+      return Math.round(seconds * 1000);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse a Retry-After value (seconds or HTTP date)
+ *
+ * @param value - Header value
+ * @param milliseconds - Value is already in milliseconds (retry-after-ms)
+ * @returns Delay in ms, or null if absent/invalid
+ */
+function parseRetryAfter(value: string | null, milliseconds: boolean = false): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const number = Number(value);
+  if (!isNaN(number)) {
+    return Math.max(0, Math.round(milliseconds ? number : number * 1000));
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
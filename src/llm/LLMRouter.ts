@@ -0,0 +1,110 @@
+/**
+ * LLMRouter - Per-task provider and model routing
+ *
+ * Gives each task its own LLM profile:
+ * - triage: TriageAnalyzer
+ * - questions: Synthesis questions, replacements and chat follow-ups
+ * - draft: Draft suggestions and revisions
+ *
+ * Tasks without a custom profile use the default provider/model.
+ * Clients are created lazily and shared between tasks with the same provider/model.
+ */
+
+import { LLMClient } from './LLMClient';
+import { LLMCallOptions, LLMProviderType, LLMTask, TaskProfile, WeaklogSettings } from '../types';
+import { getDefaultModel } from '../settings';
+
+/**
+ * Creates an initialized client for a provider/model pair
+ */
+export type LLMClientFactory = (provider: LLMProviderType, model: string) => Promise<LLMClient>;
+
+/**
+ * LLMRouter class
+ * Resolves client and call options per task
+ */
+export class LLMRouter {
+  private settings: WeaklogSettings;
+  private createClient: LLMClientFactory;
+  private clients = new Map<string, Promise<LLMClient>>();
+
+  constructor(settings: WeaklogSettings, createClient: LLMClientFactory) {
+    this.settings = settings;
+    this.createClient = createClient;
+  }
+
+  // ========================================================================
+  // Routing
+  // ========================================================================
+
+  /**
+   * Get client for a task
+   *
+   * @param task - LLM task
+   * @returns Initialized client (cached per provider/model)
+   * @throws Error if the provider is not configured
+   */
+  async getClient(task: LLMTask): Promise<LLMClient> {
+    const { provider, model } = this.getTarget(task);
+    const key = `${provider}:${model}`;
+
+    let client = this.clients.get(key);
+    if (!client) {
+      client = this.createClient(provider, model);
+      this.clients.set(key, client);
+      // Do not cache failures; a fixed setting should work on the next call
+      client.catch(() => this.clients.delete(key));
+    }
+
+    return client;
+  }
+
+  /**
+   * Apply the task profile to call options
+   * Custom profiles override temperature and max tokens; other options are kept.
+   * The task is recorded in the usage ledger.
+   *
+   * @param task - LLM task
+   * @param defaults - Options the caller would use without a profile
+   * @returns Call options for the task
+   */
+  resolveOptions(task: LLMTask, defaults: LLMCallOptions): LLMCallOptions {
+    const profile = this.getProfile(task);
+    if (!profile) {
+      return { ...defaults, task };
+    }
+
+    return {
+      ...defaults,
+      task,
+      temperature: profile.temperature,
+      maxTokens: profile.maxTokens,
+    };
+  }
+
+  /**
+   * Get provider and model used for a task
+   *
+   * @param task - LLM task
+   * @returns Provider and model
+   */
+  getTarget(task: LLMTask): { provider: LLMProviderType; model: string } {
+    const profile = this.getProfile(task);
+    const provider = profile?.provider || this.settings.llmProvider;
+    return {
+      provider,
+      model: profile?.model || getDefaultModel(this.settings, provider),
+    };
+  }
+
+  /**
+   * Get enabled custom profile for a task
+   *
+   * @param task - LLM task
+   * @returns Profile, or null if the task uses the default provider/model
+   */
+  getProfile(task: LLMTask): TaskProfile | null {
+    const profile = this.settings.taskProfiles[task];
+    return profile?.enabled ? profile : null;
+  }
+}
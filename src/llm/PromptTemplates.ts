@@ -0,0 +1,431 @@
+/**
+ * PromptTemplates - Built-in prompt templates and variables
+ *
+ * All LLM prompts are templates with {{variable}} placeholders:
+ * - Built-in defaults live here
+ * - Users can override any template with a vault note (see PromptTemplateManager)
+ * - Variable builders are shared by the analyzers and the settings preview
+ *
+ * Unknown {{variables}} are left untouched so typos stay visible in the preview.
+ */
+
+import { ResponseLanguage, TriageResult, TriageRubric } from '../types';
+
+// ============================================================================
+// Template IDs
+// ============================================================================
+
+/**
+ * Identifier of an overridable prompt template
+ * Also the vault note basename (e.g. "triage-system.md")
+ */
+export type PromptTemplateId =
+  | 'triage-system'
+  | 'triage-user'
+  | 'synthesis-system'
+  | 'synthesis-user'
+  | 'question-system'
+  | 'question-user'
+  | 'synthesis-chat-system'
+  | 'synthesis-chat-user'
+  | 'draft-system'
+  | 'draft-user'
+  | 'revise-system'
+  | 'revise-user';
+
+/**
+ * Template IDs with human-readable names (settings preview)
+ */
+export const PROMPT_TEMPLATE_NAMES: Record<PromptTemplateId, string> = {
+  'triage-system': 'Triage (system)',
+  'triage-user': 'Triage (user)',
+  'synthesis-system': 'Synthesis questions (system)',
+  'synthesis-user': 'Synthesis questions (user)',
+  'question-system': 'Replacement question (system)',
+  'question-user': 'Replacement question (user)',
+  'synthesis-chat-system': 'Synthesis chat (system)',
+  'synthesis-chat-user': 'Synthesis chat (opening message)',
+  'draft-system': 'Draft suggestion (system)',
+  'draft-user': 'Draft suggestion (user)',
+  'revise-system': 'Draft revision (system)',
+  'revise-user': 'Draft revision (user)',
+};
+
+/**
+ * Variables available in every template
+ */
+export type PromptVariables = Record<string, string>;
+
+// ============================================================================
+// Built-in Templates
+// ============================================================================
+
+/**
+ * Built-in templates, used when no vault override exists
+ */
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateId, string> = {
+  'triage-system': `You are an objective evaluator for a creative writing project.
+Your task is to evaluate raw journal entries to determine if they have potential to be transformed into universal, transferable creative works.
+
+Evaluate the entry against these {{criteriaCount}} criteria:
+
+{{criteria}}
+
+For each criterion, provide:
+- pass: true/false
+- reason: Brief explanation (1-2 sentences, ~30 chars)
+
+Also provide:
+- coreQuestion: The essential question distilled from the entry (max 40 chars)
+
+Respond ONLY with JSON in this exact format:
+{
+  "checks": {
+{{checksExample}}
+  },
+  "coreQuestion": "..."
+}
+
+IMPORTANT: Respond in {{language}}. All explanations, reasons, and the core question must be in {{language}}.`,
+
+  'triage-user': `Evaluate this journal entry:
+
+{{content}}`,
+
+  'synthesis-system': `You are a creative writing coach helping transform personal journal entries into universal, transferable creative works.
+
+Your task is to generate 3-5 deepening questions that help the author:
+1. Move from personal experience to universal insight
+2. Explore the "why" and "how", not just the "what"
+3. Discover patterns and transferable wisdom
+4. Transform weakness into creative strength
+
+Guidelines for questions:
+- Focus on universal aspects (not overly personal details)
+- Encourage reflection on patterns and meanings
+- Help extract transferable insights
+- Prompt deeper "why/how" exploration
+- Keep questions clear and thought-provoking
+
+Generate exactly 3-5 questions. Do NOT number them.
+
+Respond with JSON in this exact format:
+{
+  "questions": [
+    "Question 1 text here?",
+    "Question 2 text here?",
+    "Question 3 text here?"
+  ],
+  "suggestedTone": "reflective" or "analytical" or "exploratory"
+}
+
+IMPORTANT: Generate ALL questions in {{language}}. The suggestedTone should also be in {{language}}.`,
+
+  'synthesis-user': `Generate synthesis questions for this entry:
+
+Core Question: {{coreQuestion}}
+
+Entry Content:
+{{content}}
+
+Context from triage:
+{{triageContext}}`,
+
+  'question-system': `You are a creative writing coach helping transform personal journal entries into universal, transferable creative works.
+
+The author is working through a list of deepening questions and wants to replace ONE of them.
+
+{{instruction}}
+
+Guidelines:
+- Do not repeat or paraphrase the other questions
+- Use the author's existing answers to avoid asking what they already covered
+- Focus on "why" and "how", and on what others could learn
+- Keep it to one clear sentence
+
+Output ONLY the new question, with no preamble or numbering.
+
+IMPORTANT: Write the question in {{language}}.`,
+
+  'question-user': `Core Question: {{coreQuestion}}
+
+Entry Content:
+{{content}}
+
+Question to replace:
+{{currentQuestion}}
+
+Other questions and answers so far:
+{{qa}}`,
+
+  'synthesis-chat-system': `You are a creative writing coach in a one-on-one conversation with the author of a personal journal entry.
+Your goal is to help them discover the universal, transferable insight hidden in their experience.
+
+How to run the conversation:
+- Ask exactly ONE question per message
+- Read the author's latest answer carefully and build on it
+- Drill into "why" and "how": motives, patterns, turning points, what changed
+- If an answer is vague, ask for a concrete moment or example
+- If an answer reveals something surprising, follow that thread instead of changing topic
+- Move gradually from personal details toward what others could learn
+- Keep each message short (1-3 sentences); do not summarize or lecture
+
+Output ONLY your next question, with no preamble or numbering.
+
+IMPORTANT: Converse in {{language}}.`,
+
+  'synthesis-chat-user': `Here is my journal entry. Ask me your first question.
+
+Core Question: {{coreQuestion}}
+
+Entry Content:
+{{content}}
+
+Context from triage:
+{{triageContext}}`,
+
+  'draft-system': `You are a creative writing coach helping transform personal reflections into universal, transferable creative works.
+
+Your task is to synthesize the user's answers into a cohesive, creative piece that:
+1. Transforms personal experience into universal insight
+2. Is accessible and valuable to others
+3. Maintains authenticity while being transferable
+4. Has a clear narrative or conceptual arc
+5. Speaks to broader human experiences
+
+Guidelines:
+- Write in a clear, engaging style
+- Focus on insights and patterns, not just personal details
+- Make it relatable to a wider audience
+- Use the suggested tone appropriately
+- Keep it concise but impactful (300-600 words)
+- Do NOT just summarize the answers - transform them into creative work
+
+Output ONLY the draft content. Do not include meta-commentary, titles, or explanations.
+
+IMPORTANT: Write the entire draft in {{language}}.`,
+
+  'draft-user': `Transform the following reflections into a creative work:
+
+Core Question: {{coreQuestion}}
+
+Synthesis Questions & Answers:
+
+{{qa}}
+
+Original Entry (for context):
+{{content}}`,
+
+  'revise-system': `You are a creative writing coach helping the author revise a draft, one instruction at a time.
+
+Apply the author's instruction to the draft:
+- Change only what the instruction asks for; keep everything else as close to the original as possible
+- Keep the author's voice and the core insight
+- If the instruction asks for something new (e.g. a concrete scene), draw on the original entry rather than inventing facts
+
+Output ONLY the revised draft. Do not include meta-commentary, titles, or explanations.
+
+IMPORTANT: Write the entire draft in {{language}}.`,
+
+  'revise-user': `Instruction: {{instruction}}
+
+Current Draft:
+{{draft}}
+
+Core Question: {{coreQuestion}}
+
+Original Entry (for context):
+{{content}}`,
+};
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Replace {{variable}} placeholders
+ * Unknown variables are left as-is
+ *
+ * @param template - Template text
+ * @param variables - Variable values
+ * @returns Rendered prompt
+ */
+export function renderTemplate(template: string, variables: PromptVariables): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match
+  );
+}
+
+// ============================================================================
+// Variable Builders
+// ============================================================================
+
+/**
+ * Get language name for {{language}}
+ */
+function getLanguageName(language: ResponseLanguage): string {
+  return language === 'japanese' ? 'Japanese (日本語)' : 'English';
+}
+
+/**
+ * Variables for triage templates
+ * {{content}}, {{language}}, {{criteria}}, {{criteriaCount}}, {{checksExample}}
+ *
+ * @param content - Entry content
+ * @param language - Response language
+ * @param rubric - Triage rubric
+ */
+export function buildTriageVariables(
+  content: string,
+  language: ResponseLanguage,
+  rubric: TriageRubric
+): PromptVariables {
+  const criteria = rubric.criteria
+    .map((criterion, index) => {
+      const lines = [`${index + 1}. **${criterion.label}** (key: "${criterion.key}"): ${criterion.description}`];
+      criterion.examples.forEach((example) => lines.push(`   - ${example}`));
+      return lines.join('\n');
+    })
+    .join('\n\n');
+
+  const checksExample = rubric.criteria
+    .map((criterion) => `    "${criterion.key}": { "pass": true, "reason": "..." }`)
+    .join(',\n');
+
+  return {
+    content,
+    language: getLanguageName(language),
+    criteria,
+    criteriaCount: String(rubric.criteria.length),
+    checksExample,
+  };
+}
+
+/**
+ * Variables for synthesis question templates
+ * {{content}}, {{language}}, {{coreQuestion}}, {{triageContext}}
+ *
+ * @param content - Entry content
+ * @param triageResult - Triage evaluation
+ * @param language - Response language
+ */
+export function buildSynthesisVariables(
+  content: string,
+  triageResult: TriageResult,
+  language: ResponseLanguage
+): PromptVariables {
+  const context: string[] = [];
+  const checks = triageResult.checks;
+  if (checks.hasSpecifics?.pass) {
+    context.push('- Contains concrete specifics');
+  }
+  if (checks.isTransferable?.pass) {
+    context.push('- Has universal relevance');
+  }
+
+  return {
+    content,
+    language: getLanguageName(language),
+    coreQuestion: triageResult.coreQuestion,
+    triageContext: context.join('\n'),
+  };
+}
+
+/**
+ * How a replacement question should differ from the current one
+ * - regenerate: A different question on another angle
+ * - deeper: A more probing version of the same question
+ */
+export type QuestionRewriteMode = 'regenerate' | 'deeper';
+
+/**
+ * Variables for replacement question templates
+ * {{content}}, {{language}}, {{coreQuestion}}, {{currentQuestion}}, {{qa}}, {{instruction}}
+ *
+ * @param content - Entry content
+ * @param triageResult - Triage evaluation
+ * @param currentQuestion - Question being replaced
+ * @param otherQuestions - Remaining questions with answers ('' if unanswered)
+ * @param mode - Rewrite mode
+ * @param language - Response language
+ */
+export function buildQuestionVariables(
+  content: string,
+  triageResult: TriageResult,
+  currentQuestion: string,
+  otherQuestions: Array<{ question: string; answer: string }>,
+  mode: QuestionRewriteMode,
+  language: ResponseLanguage
+): PromptVariables {
+  const qa = otherQuestions.length > 0
+    ? otherQuestions
+        .map((pair) => `- ${pair.question}\n  Answer: ${pair.answer || '(not answered yet)'}`)
+        .join('\n')
+    : '(none)';
+
+  const instruction = mode === 'deeper'
+    ? 'Rewrite the question to go deeper: keep its topic but ask about the underlying motive, assumption or pattern behind it.'
+    : 'Write a different question that explores an angle none of the other questions cover.';
+
+  return {
+    content,
+    language: getLanguageName(language),
+    coreQuestion: triageResult.coreQuestion,
+    currentQuestion,
+    qa,
+    instruction,
+  };
+}
+
+/**
+ * Variables for draft suggestion templates
+ * {{content}}, {{language}}, {{coreQuestion}}, {{qa}}
+ *
+ * @param content - Original entry content
+ * @param triageResult - Triage evaluation
+ * @param questionsAndAnswers - Question-answer pairs
+ * @param language - Response language
+ */
+export function buildDraftVariables(
+  content: string,
+  triageResult: TriageResult,
+  questionsAndAnswers: Array<{ question: string; answer: string }>,
+  language: ResponseLanguage
+): PromptVariables {
+  const qa = questionsAndAnswers
+    .map((pair, index) => `Q${index + 1}: ${pair.question}\nA${index + 1}: ${pair.answer}`)
+    .join('\n\n');
+
+  return {
+    content,
+    language: getLanguageName(language),
+    coreQuestion: triageResult.coreQuestion,
+    qa,
+  };
+}
+
+/**
+ * Variables for draft revision templates
+ * {{content}}, {{language}}, {{coreQuestion}}, {{draft}}, {{instruction}}
+ *
+ * @param content - Original entry content
+ * @param triageResult - Triage evaluation
+ * @param draft - Draft being revised
+ * @param instruction - User's revision instruction
+ * @param language - Response language
+ */
+export function buildRevisionVariables(
+  content: string,
+  triageResult: TriageResult,
+  draft: string,
+  instruction: string,
+  language: ResponseLanguage
+): PromptVariables {
+  return {
+    content,
+    language: getLanguageName(language),
+    coreQuestion: triageResult.coreQuestion,
+    draft,
+    instruction,
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * Redactor - Local PII redaction for LLM requests
+ *
+ * Sits between the analyzers and the provider (see LLMClient):
+ * - Replaces names, emails, phone numbers, addresses, URLs and custom patterns with placeholders
+ * - The same value always gets the same placeholder (e.g. "[NAME_1]")
+ * - Placeholders in responses are restored to the original values
+ * - Streaming responses are restored chunk by chunk
+ *
+ * Nothing leaves the device unredacted when enabled for a provider.
+ */
+
+import { SensitiveMatchType } from '../types';
+import { detectSensitive } from '../utils/pii';
+
+/** Placeholder label per match type */
+const PLACEHOLDER_LABELS: Record<SensitiveMatchType, string> = {
+  name: 'NAME',
+  email: 'EMAIL',
+  phone: 'PHONE',
+  address: 'ADDRESS',
+  url: 'URL',
+  custom: 'REDACTED',
+};
+
+/** Placeholder pattern in responses */
+const PLACEHOLDER_PATTERN = /\[(NAME|EMAIL|PHONE|ADDRESS|URL|REDACTED)_(\d+)\]/g;
+
+/** Longest possible placeholder; longer unclosed "[" runs are never held back */
+const MAX_PLACEHOLDER_LENGTH = 16;
+
+/**
+ * Streaming restorer
+ * Holds back a trailing partial placeholder until the next chunk completes it
+ */
+export interface StreamRestorer {
+  /** Feed a raw chunk; forwards restored text */
+  push(chunk: string): void;
+
+  /** Forward any held-back text */
+  flush(): void;
+}
+
+/**
+ * Redactor class
+ * Keeps a stable value ↔ placeholder mapping for one LLM client
+ */
+export class Redactor {
+  private names: string[];
+  private customPatterns: string[];
+  private placeholders = new Map<string, string>();
+  private originals = new Map<string, string>();
+  private counters = new Map<string, number>();
+
+  /**
+   * @param names - Names to redact (from the vault name list)
+   * @param customPatterns - Extra regex sources to redact
+   */
+  constructor(names: string[] = [], customPatterns: string[] = []) {
+    this.names = names;
+    this.customPatterns = customPatterns;
+  }
+
+  // ========================================================================
+  // Redaction
+  // ========================================================================
+
+  /**
+   * Replace sensitive values with placeholders
+   *
+   * @param text - Text to send
+   * @returns Redacted text
+   */
+  redact(text: string): string {
+    const matches = detectSensitive(text, {
+      names: this.names,
+      customPatterns: this.customPatterns,
+    });
+
+    // Earliest match wins; at the same position, the longest
+    matches.sort((a, b) => a.index - b.index || b.text.length - a.text.length);
+
+    let result = '';
+    let cursor = 0;
+    for (const match of matches) {
+      if (match.index < cursor) {
+        continue;
+      }
+      result += text.slice(cursor, match.index) + this.getPlaceholder(match.type, match.text);
+      cursor = match.index + match.text.length;
+    }
+
+    return result + text.slice(cursor);
+  }
+
+  /**
+   * Restore placeholders in a response
+   * Unknown placeholders are left as-is
+   *
+   * @param text - Response text
+   * @returns Text with original values
+   */
+  restore(text: string): string {
+    return text.replace(PLACEHOLDER_PATTERN, (placeholder) => this.originals.get(placeholder) ?? placeholder);
+  }
+
+  /**
+   * Create a restorer for streamed responses
+   *
+   * @param onChunk - Receives restored text
+   * @returns Stream restorer
+   */
+  createStreamRestorer(onChunk: (text: string) => void): StreamRestorer {
+    let buffer = '';
+
+    return {
+      push: (chunk: string) => {
+        buffer += chunk;
+
+        // Hold back an unclosed "[" that could still become a placeholder
+        const open = buffer.lastIndexOf('[');
+        const holdFrom = open !== -1 && !buffer.includes(']', open) && buffer.length - open < MAX_PLACEHOLDER_LENGTH
+          ? open
+          : buffer.length;
+
+        const ready = buffer.slice(0, holdFrom);
+        buffer = buffer.slice(holdFrom);
+        if (ready.length > 0) {
+          onChunk(this.restore(ready));
+        }
+      },
+      flush: () => {
+        if (buffer.length > 0) {
+          onChunk(this.restore(buffer));
+          buffer = '';
+        }
+      },
+    };
+  }
+
+  /**
+   * Number of distinct values redacted so far
+   */
+  getRedactionCount(): number {
+    return this.originals.size;
+  }
+
+  // ========================================================================
+  // Helpers
+  // ========================================================================
+
+  /**
+   * Get (or assign) the placeholder for a value
+   * Names and emails are matched case-insensitively
+   */
+  private getPlaceholder(type: SensitiveMatchType, value: string): string {
+    const label = PLACEHOLDER_LABELS[type];
+    const key = `${label}:${type === 'name' || type === 'email' ? value.toLowerCase() : value}`;
+
+    let placeholder = this.placeholders.get(key);
+    if (!placeholder) {
+      const next = (this.counters.get(label) || 0) + 1;
+      this.counters.set(label, next);
+      placeholder = `[${label}_${next}]`;
+      this.placeholders.set(key, placeholder);
+      this.originals.set(placeholder, value);
+    }
+
+    return placeholder;
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * ResponseSchemas - Structured output definitions and validation
+ *
+ * Provides JSON schemas for LLM responses and a small validator:
+ * - Schemas are passed to providers via LLMCallOptions.responseSchema
+ *   (Anthropic tool use, OpenAI response_format, Gemini responseSchema,
+ *   Ollama format)
+ * - Responses are validated before being turned into typed results
+ * - Validation errors feed the repair-retry prompt
+ */
+
+import { JsonSchema, ResponseSchema, TriageRubric } from '../types';
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/**
+ * Schema for a single pass/fail criterion
+ */
+const CHECK_RESULT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    pass: { type: 'boolean' },
+    reason: { type: 'string' },
+  },
+  required: ['pass', 'reason'],
+};
+
+/**
+ * Build triage evaluation response schema for a rubric
+ * One required check per criterion (matches TriageResult minus derived fields)
+ *
+ * @param rubric - Triage rubric
+ * @returns Response schema
+ */
+export function buildTriageResponseSchema(rubric: TriageRubric): ResponseSchema {
+  const checkProperties: Record<string, JsonSchema> = {};
+  for (const criterion of rubric.criteria) {
+    checkProperties[criterion.key] = { ...CHECK_RESULT_SCHEMA, description: criterion.label };
+  }
+
+  return {
+    name: 'triage_result',
+    description: 'Evaluation of a journal entry against the triage criteria',
+    schema: {
+      type: 'object',
+      properties: {
+        checks: {
+          type: 'object',
+          properties: checkProperties,
+          required: rubric.criteria.map((c) => c.key),
+        },
+        coreQuestion: { type: 'string' },
+      },
+      required: ['checks', 'coreQuestion'],
+    },
+  };
+}
+
+/**
+ * Synthesis question generation response (matches SynthesisGuide)
+ */
+export const SYNTHESIS_RESPONSE_SCHEMA: ResponseSchema = {
+  name: 'synthesis_guide',
+  description: 'Deepening questions for transforming a journal entry',
+  schema: {
+    type: 'object',
+    properties: {
+      questions: {
+        type: 'array',
+        items: { type: 'string' },
+        minItems: 3,
+        maxItems: 5,
+      },
+      suggestedTone: { type: 'string' },
+    },
+    required: ['questions', 'suggestedTone'],
+  },
+};
+
+// ============================================================================
+// Parsing & Validation
+// ============================================================================
+
+/**
+ * Result of parsing and validating a structured response
+ */
+export interface StructuredParseResult {
+  /** Parsed value (undefined if JSON could not be parsed) */
+  value?: any;
+
+  /** Validation errors (empty if valid) */
+  errors: string[];
+}
+
+/**
+ * Parse JSON from LLM response and validate against schema
+ * Tolerates text or code fences around the JSON object
+ *
+ * @param response - Raw response text
+ * @param schema - Expected response schema
+ * @returns Parsed value and validation errors
+ */
+export function parseStructuredResponse(response: string, schema: ResponseSchema): StructuredParseResult {
+  const jsonMatch = response.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    return { errors: ['No JSON object found in response'] };
+  }
+
+  let value: any;
+  try {
+    value = JSON.parse(jsonMatch[0]);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return { errors: [`Invalid JSON: ${errorMessage}`] };
+  }
+
+  return { value, errors: validateAgainstSchema(value, schema.schema) };
+}
+
+/**
+ * Validate a value against a (subset of) JSON schema
+ * Supports type, properties, required, items, minItems, maxItems, enum
+ *
+ * @param value - Value to validate
+ * @param schema - JSON schema
+ * @param path - Path prefix for error messages
+ * @returns Array of validation error messages
+ */
+export function validateAgainstSchema(value: any, schema: JsonSchema, path: string = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    errors.push(`${path}: expected ${schema.type}`);
+    return errors;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path}: must be one of ${schema.enum.join(', ')}`);
+  }
+
+  if (schema.type === 'object' && schema.properties) {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined || value[key] === null) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    }
+
+    for (const [key, propertySchema] of Object.entries(schema.properties)) {
+      if (value[key] !== undefined && value[key] !== null) {
+        errors.push(...validateAgainstSchema(value[key], propertySchema, `${path}.${key}`));
+      }
+    }
+  }
+
+  if (schema.type === 'array') {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: expected at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: expected at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item: any, index: number) => {
+        errors.push(...validateAgainstSchema(item, schema.items!, `${path}[${index}]`));
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check JSON schema primitive type
+ */
+function matchesType(value: any, type: JsonSchema['type']): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'string':
+      return typeof value === 'string';
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && !isNaN(value);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Build a repair prompt asking the model to fix an invalid response
+ *
+ * @param previousResponse - The invalid response text
+ * @param errors - Validation errors found
+ * @returns User prompt for the repair retry
+ */
+export function buildRepairPrompt(previousResponse: string, errors: string[]): string {
+  return [
+    'Your previous response did not match the required JSON format.',
+    '',
+    'Problems found:',
+    ...errors.map((e) => `- ${e}`),
+    '',
+    'Previous response:',
+    previousResponse,
+    '',
+    'Respond again with ONLY the corrected JSON object, keeping the same content where possible.',
+  ].join('\n');
+}
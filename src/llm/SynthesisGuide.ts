@@ -8,47 +8,34 @@
  * - Universal aspects (not just personal details)
  * - "Why/how" questions (not just "what")
  * - Deepening reflection and insight
+ *
+ * Question generation uses structured output with one repair retry.
+ * Chat mode asks one adaptive question at a time over the message history.
+ * Single questions can be regenerated or deepened in place.
+ * Drafts can be revised repeatedly with free-form instructions.
+ * Prompts come from the "synthesis-*", "question-*", "draft-*" and "revise-*" templates.
+ * Questions use the "questions" task route, drafts and revisions the "draft" route (see LLMRouter).
  */
 
-import { LLMClient } from './LLMClient';
-import { SynthesisGuide as SynthesisGuideType, TriageResult, ResponseLanguage } from '../types';
-
-/**
- * Generate system prompt for synthesis question generation
- * Guides LLM to create reflective, deepening questions in specified language
- */
-function getSynthesisSystemPrompt(language: ResponseLanguage): string {
-  const languageInstruction = language === 'japanese'
-    ? '\n\nIMPORTANT: Generate ALL questions in Japanese (日本語). The suggestedTone should also be in Japanese.'
-    : '\n\nIMPORTANT: Generate ALL questions in English.';
-
-  return `You are a creative writing coach helping transform personal journal entries into universal, transferable creative works.
-
-Your task is to generate 3-5 deepening questions that help the author:
-1. Move from personal experience to universal insight
-2. Explore the "why" and "how", not just the "what"
-3. Discover patterns and transferable wisdom
-4. Transform weakness into creative strength
-
-Guidelines for questions:
-- Focus on universal aspects (not overly personal details)
-- Encourage reflection on patterns and meanings
-- Help extract transferable insights
-- Prompt deeper "why/how" exploration
-- Keep questions clear and thought-provoking
-
-Generate exactly 3-5 questions. Do NOT number them.
-
-Respond with JSON in this exact format:
-{
-  "questions": [
-    "Question 1 text here?",
-    "Question 2 text here?",
-    "Question 3 text here?"
-  ],
-  "suggestedTone": "reflective" or "analytical" or "exploratory"
-}${languageInstruction}`;
-}
+import { LLMRouter } from './LLMRouter';
+import { SynthesisGuide as SynthesisGuideType, TriageResult, ResponseLanguage, LLMCallOptions, LLMResponseSource, LLMTask, ChatMessage } from '../types';
+import {
+  SYNTHESIS_RESPONSE_SCHEMA,
+  buildRepairPrompt,
+  parseStructuredResponse,
+} from './ResponseSchemas';
+import { PromptTemplateManager } from '../managers/PromptTemplateManager';
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  PromptTemplateId,
+  PromptVariables,
+  QuestionRewriteMode,
+  buildDraftVariables,
+  buildQuestionVariables,
+  buildRevisionVariables,
+  buildSynthesisVariables,
+  renderTemplate,
+} from './PromptTemplates';
 
 /**
  * Get fallback questions when parsing fails
@@ -77,12 +64,21 @@ function getFallbackQuestions(language: ResponseLanguage): string[] {
  * Generates AI-powered questions for entry transformation
  */
 export class SynthesisGuide {
-  private llmClient: LLMClient;
+  private router: LLMRouter;
   private temperature: number;
-
-  constructor(llmClient: LLMClient, temperature: number = 0.7) {
-    this.llmClient = llmClient;
+  private templates: PromptTemplateManager | null;
+  private entryId: string | null;
+
+  constructor(
+    router: LLMRouter,
+    temperature: number = 0.7,
+    templates: PromptTemplateManager | null = null,
+    entryId: string | null = null
+  ) {
+    this.router = router;
     this.temperature = temperature;
+    this.templates = templates;
+    this.entryId = entryId;
   }
 
   // ========================================================================
@@ -96,12 +92,14 @@ export class SynthesisGuide {
    * @param content - Raw entry content
    * @param triageResult - Results from triage analysis
    * @param language - Response language for AI output
+   * @param forceRefresh - Ignore cached questions for the same content and prompt
    * @returns SynthesisGuide with 3-5 questions
    */
   async generateQuestions(
     content: string,
     triageResult: TriageResult,
-    language: ResponseLanguage = 'english'
+    language: ResponseLanguage = 'english',
+    forceRefresh: boolean = false
   ): Promise<SynthesisGuideType> {
     if (!content || content.trim().length === 0) {
       throw new Error('Content cannot be empty');
@@ -110,27 +108,51 @@ export class SynthesisGuide {
     console.log('[Weaklog] Generating synthesis questions');
 
     try {
-      // Build user prompt with context from triage
-      const userPrompt = this.buildUserPrompt(content, triageResult);
-
-      // Get system prompt for specified language
-      const systemPrompt = getSynthesisSystemPrompt(language);
+      // Build prompts from templates with context from triage
+      const variables = buildSynthesisVariables(content, triageResult, language);
+      const systemPrompt = await this.renderPrompt('synthesis-system', variables);
+      const userPrompt = await this.renderPrompt('synthesis-user', variables);
+
+      const llmClient = await this.router.getClient('questions');
+      let source: LLMResponseSource | undefined;
+      const callOptions: LLMCallOptions = this.resolveOptions('questions', {
+        temperature: this.temperature,
+        maxTokens: 500,
+        timeoutMs: 20000,
+        responseSchema: SYNTHESIS_RESPONSE_SCHEMA,
+        cache: true,
+        forceRefresh,
+        validate: (text) => this.parseSynthesisResponse(text).guide !== undefined,
+        onSource: (answered) => {
+          source = answered;
+        },
+      });
 
       // Call API
-      const response = await this.llmClient.callAPI(
-        systemPrompt,
-        userPrompt,
-        {
-          temperature: this.temperature,
-          maxTokens: 500,
-          timeoutMs: 20000,
-        }
-      );
+      const response = await llmClient.callAPI(systemPrompt, userPrompt, callOptions);
 
       console.log('[Weaklog] Received synthesis response');
 
-      // Parse response
-      const guide = this.parseSynthesisResponse(response, language);
+      // Parse and validate response
+      let parsed = this.parseSynthesisResponse(response);
+
+      // Repair retry before falling back to generic questions
+      if (!parsed.guide) {
+        console.warn('[Weaklog] Invalid synthesis response, requesting repair:', parsed.errors);
+        const repairPrompt = `${userPrompt}\n\n---\n\n${buildRepairPrompt(response, parsed.errors)}`;
+        const repairedResponse = await llmClient.callAPI(systemPrompt, repairPrompt, { ...callOptions, cache: false });
+        parsed = this.parseSynthesisResponse(repairedResponse);
+
+        if (!parsed.guide) {
+          console.error('[Weaklog] Synthesis repair failed:', parsed.errors);
+          console.log('[Weaklog] Raw response:', repairedResponse);
+        }
+      }
+
+      const guide = parsed.guide || this.createFallbackGuide(language);
+      if (parsed.guide && source) {
+        guide.source = source;
+      }
 
       console.log(`[Weaklog] Generated ${guide.questions.length} synthesis questions`);
 
@@ -144,39 +166,156 @@ export class SynthesisGuide {
   }
 
   // ========================================================================
-  // Prompt Building
+  // Conversational Synthesis
   // ========================================================================
 
   /**
-   * Build user prompt with triage context
-   * Includes core question and passed criteria for better questions
+   * Ask the next question in a synthesis conversation
+   * The entry is sent as the opening user message; the transcript follows
    *
-   * @param content - Entry content
-   * @param triageResult - Triage evaluation
-   * @returns Formatted prompt
+   * @param content - Raw entry content
+   * @param triageResult - Results from triage analysis
+   * @param transcript - Conversation so far (assistant questions and user answers)
+   * @param language - Response language for AI output
+   * @returns Next question text
    */
-  private buildUserPrompt(content: string, triageResult: TriageResult): string {
-    const parts = [
-      'Generate synthesis questions for this entry:',
-      '',
-      `Core Question: ${triageResult.coreQuestion}`,
-      '',
-      'Entry Content:',
-      content,
-      '',
-      'Context from triage:',
-    ];
+  async askFollowUp(
+    content: string,
+    triageResult: TriageResult,
+    transcript: ChatMessage[],
+    language: ResponseLanguage = 'english'
+  ): Promise<string> {
+    if (!content || content.trim().length === 0) {
+      throw new Error('Content cannot be empty');
+    }
+
+    console.log(`[Weaklog] Asking synthesis chat question (turn ${Math.floor(transcript.length / 2) + 1})`);
+
+    try {
+      const variables = buildSynthesisVariables(content, triageResult, language);
+      const systemPrompt = await this.renderPrompt('synthesis-chat-system', variables);
+      const openingMessage = await this.renderPrompt('synthesis-chat-user', variables);
+
+      const messages: ChatMessage[] = [
+        { role: 'user', content: openingMessage },
+        ...transcript,
+      ];
+
+      const llmClient = await this.router.getClient('questions');
+      const response = await llmClient.callChat(systemPrompt, messages, this.resolveOptions('questions', {
+        temperature: this.temperature,
+        maxTokens: 300,
+        timeoutMs: 30000,
+      }));
+
+      const question = response.trim();
+      if (question.length === 0) {
+        throw new Error('Empty response from AI');
+      }
+
+      return question;
 
-    // Add triage insights
-    const checks = triageResult.checks;
-    if (checks.hasSpecifics.pass) {
-      parts.push('- Contains concrete specifics');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[Weaklog] Synthesis chat failed:', errorMessage);
+      throw new Error(`Synthesis chat failed: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Generate one replacement for a synthesis question
+   * The other questions and existing answers are sent as context
+   *
+   * @param content - Raw entry content
+   * @param triageResult - Results from triage analysis
+   * @param questions - Current question list
+   * @param answers - Answers by question index
+   * @param index - Index of the question to replace
+   * @param mode - "regenerate" for a new angle, "deeper" for a more probing version
+   * @param language - Response language for AI output
+   * @returns Replacement question text
+   */
+  async generateReplacementQuestion(
+    content: string,
+    triageResult: TriageResult,
+    questions: string[],
+    answers: Map<number, string>,
+    index: number,
+    mode: QuestionRewriteMode,
+    language: ResponseLanguage = 'english'
+  ): Promise<string> {
+    if (index < 0 || index >= questions.length) {
+      throw new Error(`Invalid question index: ${index}`);
     }
-    if (checks.isTransferable.pass) {
-      parts.push('- Has universal relevance');
+
+    console.log(`[Weaklog] Generating replacement question ${index + 1} (${mode})`);
+
+    try {
+      const otherQuestions = questions
+        .map((question, i) => ({ question, answer: answers.get(i) || '', index: i }))
+        .filter((pair) => pair.index !== index)
+        .map(({ question, answer }) => ({ question, answer }));
+
+      const variables = buildQuestionVariables(
+        content,
+        triageResult,
+        questions[index],
+        otherQuestions,
+        mode,
+        language
+      );
+      const systemPrompt = await this.renderPrompt('question-system', variables);
+      const userPrompt = await this.renderPrompt('question-user', variables);
+
+      const llmClient = await this.router.getClient('questions');
+      const response = await llmClient.callAPI(systemPrompt, userPrompt, this.resolveOptions('questions', {
+        temperature: this.temperature,
+        maxTokens: 200,
+        timeoutMs: 20000,
+      }));
+
+      // Strip list markers or quotes some models add
+      const question = response.trim().replace(/^(?:[-*]|\d+[.)])\s+/, '').replace(/^["「](.*)["」]$/s, '$1').trim();
+      if (question.length === 0) {
+        throw new Error('Empty response from AI');
+      }
+
+      return question;
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[Weaklog] Question replacement failed:', errorMessage);
+      throw new Error(`Question replacement failed: ${errorMessage}`);
     }
+  }
+
+  // ========================================================================
+  // Prompt Building
+  // ========================================================================
 
-    return parts.join('\n');
+  /**
+   * Resolve call options for a task, tagged with this guide's entry for the usage ledger
+   *
+   * @param task - LLM task
+   * @param defaults - Options the caller would use without a profile
+   * @returns Call options for the task
+   */
+  private resolveOptions(task: LLMTask, defaults: LLMCallOptions): LLMCallOptions {
+    return this.router.resolveOptions(task, { ...defaults, entryId: this.entryId ?? undefined });
+  }
+
+  /**
+   * Render a prompt template (vault override or built-in)
+   *
+   * @param id - Template ID
+   * @param variables - Template variables
+   * @returns Rendered prompt
+   */
+  private async renderPrompt(id: PromptTemplateId, variables: PromptVariables): Promise<string> {
+    if (this.templates) {
+      return this.templates.render(id, variables);
+    }
+    return renderTemplate(DEFAULT_PROMPT_TEMPLATES[id], variables);
   }
 
   // ========================================================================
@@ -185,64 +324,37 @@ export class SynthesisGuide {
 
   /**
    * Parse AI response into SynthesisGuide
-   * Validates 3-5 question count with fallback
+   * Validates against SYNTHESIS_RESPONSE_SCHEMA (3-5 questions)
    *
    * @param response - Raw API response
-   * @param language - Response language for fallback
-   * @returns Structured SynthesisGuide
+   * @returns SynthesisGuide if valid, otherwise validation errors
    */
-  private parseSynthesisResponse(response: string, language: ResponseLanguage): SynthesisGuideType {
-    try {
-      // Extract JSON from response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-
-      // Validate structure
-      if (!parsed.questions || !Array.isArray(parsed.questions)) {
-        throw new Error('Invalid response structure: missing questions array');
-      }
-
-      // Validate question count (3-5)
-      if (parsed.questions.length < 3 || parsed.questions.length > 5) {
-        console.warn(
-          `[Weaklog] Invalid question count: ${parsed.questions.length} (expected 3-5)`
-        );
-        throw new Error('Invalid question count');
-      }
+  private parseSynthesisResponse(response: string): { guide?: SynthesisGuideType; errors: string[] } {
+    const { value, errors } = parseStructuredResponse(response, SYNTHESIS_RESPONSE_SCHEMA);
+    if (errors.length > 0) {
+      return { errors };
+    }
 
-      // Clean and validate questions
-      const questions = parsed.questions
-        .map((q: any) => {
-          if (typeof q !== 'string') return null;
-          // Remove numbering if present (e.g., "1. " or "- ")
-          return q.replace(/^\d+\.\s*|^-\s*/, '').trim();
-        })
-        .filter((q: string | null) => q && q.length > 0);
+    // Clean questions: remove numbering if present (e.g., "1. " or "- ")
+    const questions: string[] = value.questions
+      .map((q: string) => q.replace(/^\d+\.\s*|^-\s*/, '').trim())
+      .filter((q: string) => q.length > 0);
 
-      if (questions.length < 3) {
-        throw new Error('Not enough valid questions after cleaning');
-      }
+    if (questions.length < 3) {
+      return { errors: ['$.questions: not enough non-empty questions after cleaning'] };
+    }
 
-      // Get suggested tone (with fallback)
-      const suggestedTone = this.validateTone(parsed.suggestedTone);
+    // Get suggested tone (with fallback)
+    const suggestedTone = this.validateTone(value.suggestedTone);
 
-      return {
+    return {
+      guide: {
         questions: questions.slice(0, 5), // Ensure max 5 questions
         suggestedTone,
         timestamp: new Date().toISOString(),
-      };
-
-    } catch (error) {
-      console.error('[Weaklog] Failed to parse synthesis response:', error);
-      console.log('[Weaklog] Raw response:', response);
-
-      // Return fallback questions
-      return this.createFallbackGuide(language);
-    }
+      },
+      errors: [],
+    };
   }
 
   /**
@@ -339,21 +451,19 @@ export class SynthesisGuide {
     console.log('[Weaklog] Generating AI draft suggestion');
 
     try {
-      const systemPrompt = this.getDraftSuggestionSystemPrompt(language);
-      const userPrompt = this.buildDraftSuggestionPrompt(
-        originalContent,
-        triageResult,
-        questionsAndAnswers
-      );
+      const variables = buildDraftVariables(originalContent, triageResult, questionsAndAnswers, language);
+      const systemPrompt = await this.renderPrompt('draft-system', variables);
+      const userPrompt = await this.renderPrompt('draft-user', variables);
 
-      const response = await this.llmClient.callAPI(
+      const llmClient = await this.router.getClient('draft');
+      const response = await llmClient.callAPI(
         systemPrompt,
         userPrompt,
-        {
+        this.resolveOptions('draft', {
           temperature: this.temperature,
           maxTokens: 1500,
           timeoutMs: 30000,
-        }
+        })
       );
 
       console.log('[Weaklog] Received draft suggestion');
@@ -367,59 +477,100 @@ export class SynthesisGuide {
   }
 
   /**
-   * Get system prompt for draft suggestion
+   * Stream AI-powered draft suggestion based on Q&A
+   * Same prompt as generateDraftSuggestion, delivered token by token
+   *
+   * @param originalContent - Original entry content
+   * @param triageResult - Triage evaluation results
+   * @param questionsAndAnswers - Array of question-answer pairs
+   * @param onChunk - Called with each text delta as it arrives
+   * @param language - Response language for AI output
+   * @param signal - Optional abort signal for cancellation
+   * @returns Full suggested draft content
    */
-  private getDraftSuggestionSystemPrompt(language: ResponseLanguage): string {
-    const languageInstruction = language === 'japanese'
-      ? '\n\nIMPORTANT: Write the entire draft in Japanese (日本語).'
-      : '\n\nIMPORTANT: Write the entire draft in English.';
-
-    return `You are a creative writing coach helping transform personal reflections into universal, transferable creative works.
-
-Your task is to synthesize the user's answers into a cohesive, creative piece that:
-1. Transforms personal experience into universal insight
-2. Is accessible and valuable to others
-3. Maintains authenticity while being transferable
-4. Has a clear narrative or conceptual arc
-5. Speaks to broader human experiences
-
-Guidelines:
-- Write in a clear, engaging style
-- Focus on insights and patterns, not just personal details
-- Make it relatable to a wider audience
-- Use the suggested tone appropriately
-- Keep it concise but impactful (300-600 words)
-- Do NOT just summarize the answers - transform them into creative work
-
-Output ONLY the draft content. Do not include meta-commentary, titles, or explanations.${languageInstruction}`;
+  async streamDraftSuggestion(
+    originalContent: string,
+    triageResult: TriageResult,
+    questionsAndAnswers: Array<{ question: string; answer: string }>,
+    onChunk: (text: string) => void,
+    language: ResponseLanguage = 'english',
+    signal?: AbortSignal
+  ): Promise<string> {
+    if (questionsAndAnswers.length === 0) {
+      throw new Error('At least one question-answer pair is required');
+    }
+
+    console.log('[Weaklog] Streaming AI draft suggestion');
+
+    const variables = buildDraftVariables(originalContent, triageResult, questionsAndAnswers, language);
+    const systemPrompt = await this.renderPrompt('draft-system', variables);
+    const userPrompt = await this.renderPrompt('draft-user', variables);
+
+    const llmClient = await this.router.getClient('draft');
+    const response = await llmClient.streamAPI(
+      systemPrompt,
+      userPrompt,
+      onChunk,
+      this.resolveOptions('draft', {
+        temperature: this.temperature,
+        maxTokens: 1500,
+        timeoutMs: 60000,
+        signal,
+      })
+    );
+
+    console.log('[Weaklog] Draft suggestion stream complete');
+    return response.trim();
   }
 
   /**
-   * Build user prompt for draft suggestion
+   * Stream a revision of a draft following a user instruction
+   *
+   * @param originalContent - Original entry content
+   * @param triageResult - Triage evaluation results
+   * @param draft - Draft to revise
+   * @param instruction - Revision instruction (e.g. "shorter", "add a concrete scene")
+   * @param onChunk - Called with each text delta as it arrives
+   * @param language - Response language for AI output
+   * @param signal - Optional abort signal for cancellation
+   * @returns Full revised draft
    */
-  private buildDraftSuggestionPrompt(
+  async streamDraftRevision(
     originalContent: string,
     triageResult: TriageResult,
-    questionsAndAnswers: Array<{ question: string; answer: string }>
-  ): string {
-    const parts = [
-      'Transform the following reflections into a creative work:',
-      '',
-      `Core Question: ${triageResult.coreQuestion}`,
-      '',
-      'Synthesis Questions & Answers:',
-      '',
-    ];
-
-    questionsAndAnswers.forEach((qa, index) => {
-      parts.push(`Q${index + 1}: ${qa.question}`);
-      parts.push(`A${index + 1}: ${qa.answer}`);
-      parts.push('');
-    });
-
-    parts.push('Original Entry (for context):');
-    parts.push(originalContent);
+    draft: string,
+    instruction: string,
+    onChunk: (text: string) => void,
+    language: ResponseLanguage = 'english',
+    signal?: AbortSignal
+  ): Promise<string> {
+    if (!draft || draft.trim().length === 0) {
+      throw new Error('Draft cannot be empty');
+    }
+    if (!instruction || instruction.trim().length === 0) {
+      throw new Error('Revision instruction cannot be empty');
+    }
 
-    return parts.join('\n');
+    console.log(`[Weaklog] Streaming draft revision: ${instruction}`);
+
+    const variables = buildRevisionVariables(originalContent, triageResult, draft, instruction.trim(), language);
+    const systemPrompt = await this.renderPrompt('revise-system', variables);
+    const userPrompt = await this.renderPrompt('revise-user', variables);
+
+    const llmClient = await this.router.getClient('draft');
+    const response = await llmClient.streamAPI(
+      systemPrompt,
+      userPrompt,
+      onChunk,
+      this.resolveOptions('draft', {
+        temperature: this.temperature,
+        maxTokens: 1500,
+        timeoutMs: 60000,
+        signal,
+      })
+    );
+
+    console.log('[Weaklog] Draft revision stream complete');
+    return response.trim();
   }
 }
@@ -1,82 +1,60 @@
 /**
  * TriageAnalyzer - AI-powered entry evaluation
  *
- * Analyzes weaklog entries against 4 criteria:
+ * Analyzes weaklog entries against the configured triage rubric
+ * (default: 4 criteria):
  * 1. HAS_SPECIFICS: Concrete situations vs. abstract feelings
  * 2. CAN_BE_CORE_PHRASE: Condensable to <40 char question
  * 3. IS_TRANSFERABLE: Universal relevance vs. overly personal
  * 4. IS_NON_HARMFUL: Constructive, safe for readers
  *
- * Returns structured evaluation with score and recommendation
+ * Returns structured evaluation with weighted score and recommendation.
+ * Prompts come from the "triage-system" / "triage-user" templates.
+ * Uses provider-native structured output, validates the response and
+ * asks the model to repair invalid JSON once before falling back.
+ * Runs on the "triage" task route (see LLMRouter).
+ * Each result carries a prompt version (hash of templates and rubric)
+ * so triage history can tell runs with different prompts apart.
  */
 
-import { LLMClient } from './LLMClient';
-import { TriageResult, CheckResult, ResponseLanguage } from '../types';
-
-/**
- * Generate system prompt for triage analysis
- * Instructs LLM to evaluate entries objectively in specified language
- */
-function getTriageSystemPrompt(language: ResponseLanguage): string {
-  const languageInstruction = language === 'japanese'
-    ? '\n\nIMPORTANT: Respond in Japanese (日本語). All explanations, reasons, and the core question must be in Japanese.'
-    : '\n\nIMPORTANT: Respond in English.';
-
-  return `You are an objective evaluator for a creative writing project.
-Your task is to evaluate raw journal entries to determine if they have potential to be transformed into universal, transferable creative works.
-
-Evaluate the entry against these 4 criteria:
-
-1. **HAS_SPECIFICS**: Does it contain concrete situations, experiences, or observations (not just abstract feelings)?
-   - Pass: Specific events, moments, scenarios
-   - Fail: Only vague emotions or generalizations
-
-2. **CAN_BE_CORE_PHRASE**: Can it be condensed into one essential question (under 40 characters)?
-   - Pass: Has a clear, focused theme
-   - Fail: Too scattered or unfocused
-
-3. **IS_TRANSFERABLE**: Is it universally relatable (not overly personal or niche)?
-   - Pass: Others could relate to similar experiences
-   - Fail: Too specific to author's unique circumstances
-
-4. **IS_NON_HARMFUL**: Is it constructive and safe for readers (not harmful or triggering)?
-   - Pass: Reflective, growth-oriented
-   - Fail: Harmful, destructive, or excessively dark
-
-For each criterion, provide:
-- pass: true/false
-- reason: Brief explanation (1-2 sentences, ~30 chars)
-
-Also provide:
-- coreQuestion: The essential question distilled from the entry (max 40 chars)
-- score: Count of passed checks (0-4)
-- recommendation: "adopt" (score=4), "review" (score=2-3), or "reject" (score=0-1)
-
-Respond ONLY with JSON in this exact format:
-{
-  "checks": {
-    "hasSpecifics": { "pass": true, "reason": "..." },
-    "canBeCorePhrase": { "pass": true, "reason": "..." },
-    "isTransferable": { "pass": true, "reason": "..." },
-    "isNonHarmful": { "pass": true, "reason": "..." }
-  },
-  "coreQuestion": "...",
-  "score": 4,
-  "recommendation": "adopt"
-}${languageInstruction}`;
-}
+import { LLMRouter } from './LLMRouter';
+import { TriageResult, CheckResult, ResponseLanguage, LLMCallOptions, LLMResponseSource, TriageRubric } from '../types';
+import { DEFAULT_TRIAGE_RUBRIC } from '../settings';
+import { PromptTemplateManager } from '../managers/PromptTemplateManager';
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  PromptTemplateId,
+  PromptVariables,
+  buildTriageVariables,
+  renderTemplate,
+} from './PromptTemplates';
+import {
+  buildRepairPrompt,
+  buildTriageResponseSchema,
+  parseStructuredResponse,
+} from './ResponseSchemas';
+import { sha256Hex } from '../utils/hash';
 
 /**
  * TriageAnalyzer class
  * Evaluates weaklog entries for creative potential
  */
 export class TriageAnalyzer {
-  private llmClient: LLMClient;
+  private router: LLMRouter;
   private temperature: number;
-
-  constructor(llmClient: LLMClient, temperature: number = 0.3) {
-    this.llmClient = llmClient;
+  private rubric: TriageRubric;
+  private templates: PromptTemplateManager | null;
+
+  constructor(
+    router: LLMRouter,
+    temperature: number = 0.3,
+    rubric: TriageRubric = DEFAULT_TRIAGE_RUBRIC,
+    templates: PromptTemplateManager | null = null
+  ) {
+    this.router = router;
     this.temperature = temperature;
+    this.rubric = rubric;
+    this.templates = templates;
   }
 
   // ========================================================================
@@ -85,13 +63,20 @@ export class TriageAnalyzer {
 
   /**
    * Analyze weaklog entry with AI triage
-   * Sends content to LLM for 4-criteria evaluation
+   * Sends content to LLM for evaluation against the rubric
    *
    * @param content - Raw entry content to evaluate
    * @param language - Response language for AI output
+   * @param entryId - Entry ID recorded in the usage ledger
+   * @param forceRefresh - Ignore a cached result for the same content and prompt
    * @returns TriageResult with checks, score, and recommendation
    */
-  async analyzeEntry(content: string, language: ResponseLanguage = 'english'): Promise<TriageResult> {
+  async analyzeEntry(
+    content: string,
+    language: ResponseLanguage = 'english',
+    entryId?: string,
+    forceRefresh: boolean = false
+  ): Promise<TriageResult> {
     if (!content || content.trim().length === 0) {
       throw new Error('Content cannot be empty');
     }
@@ -99,29 +84,55 @@ export class TriageAnalyzer {
     console.log('[Weaklog] Starting triage analysis');
 
     try {
-      // Build user prompt
-      const userPrompt = `Evaluate this journal entry:\n\n${content}`;
-
-      // Get system prompt for specified language
-      const systemPrompt = getTriageSystemPrompt(language);
+      // Build prompts from templates
+      const variables = buildTriageVariables(content, language, this.rubric);
+      const systemPrompt = await this.renderPrompt('triage-system', variables);
+      const userPrompt = await this.renderPrompt('triage-user', variables);
+
+      const llmClient = await this.router.getClient('triage');
+      let source: LLMResponseSource | undefined;
+      const callOptions: LLMCallOptions = this.router.resolveOptions('triage', {
+        temperature: this.temperature,
+        maxTokens: 1000,
+        timeoutMs: 30000,
+        responseSchema: buildTriageResponseSchema(this.rubric),
+        entryId,
+        cache: true,
+        forceRefresh,
+        validate: (text) => this.parseTriageResponse(text).result !== undefined,
+        onSource: (answered) => {
+          source = answered;
+        },
+      });
 
       // Call API
-      const response = await this.llmClient.callAPI(
-        systemPrompt,
-        userPrompt,
-        {
-          temperature: this.temperature,
-          maxTokens: 1000,
-          timeoutMs: 30000,
-        }
-      );
+      const response = await llmClient.callAPI(systemPrompt, userPrompt, callOptions);
 
       console.log('[Weaklog] Received triage response');
 
-      // Parse response
-      const result = this.parseTriageResponse(response, content);
+      // Parse and validate response
+      let parsed = this.parseTriageResponse(response);
+
+      // Repair retry: show the model its invalid output and the problems
+      if (!parsed.result) {
+        console.warn('[Weaklog] Invalid triage response, requesting repair:', parsed.errors);
+        const repairPrompt = `${userPrompt}\n\n---\n\n${buildRepairPrompt(response, parsed.errors)}`;
+        const repairedResponse = await llmClient.callAPI(systemPrompt, repairPrompt, { ...callOptions, cache: false });
+        parsed = this.parseTriageResponse(repairedResponse);
 
-      console.log(`[Weaklog] Triage complete - Score: ${result.score}/4, Recommendation: ${result.recommendation}`);
+        if (!parsed.result) {
+          console.error('[Weaklog] Triage repair failed:', parsed.errors);
+          console.log('[Weaklog] Raw response:', repairedResponse);
+        }
+      }
+
+      const result = parsed.result || this.createFallbackResult(content, parsed.errors);
+      if (source) {
+        result.source = source;
+      }
+      result.promptVersion = await this.getPromptVersion();
+
+      console.log(`[Weaklog] Triage complete - Score: ${result.score}/${result.maxScore}, Recommendation: ${result.recommendation}`);
 
       return result;
 
@@ -132,65 +143,96 @@ export class TriageAnalyzer {
     }
   }
 
+  // ========================================================================
+  // Prompt Building
+  // ========================================================================
+
+  /**
+   * Render a prompt template (vault override or built-in)
+   *
+   * @param id - Template ID
+   * @param variables - Template variables
+   * @returns Rendered prompt
+   */
+  private async renderPrompt(id: PromptTemplateId, variables: PromptVariables): Promise<string> {
+    return renderTemplate(await this.getTemplate(id), variables);
+  }
+
+  /**
+   * Get template text (vault override or built-in)
+   *
+   * @param id - Template ID
+   * @returns Template text
+   */
+  private async getTemplate(id: PromptTemplateId): Promise<string> {
+    if (this.templates) {
+      return this.templates.getTemplate(id);
+    }
+    return DEFAULT_PROMPT_TEMPLATES[id];
+  }
+
+  /**
+   * Get the prompt version: first 8 hex chars of a SHA-256 over the
+   * triage templates and the rubric. Changes whenever a template
+   * override or the rubric changes; independent of entry and language.
+   *
+   * @returns Prompt version (e.g. "3f9a0c12")
+   */
+  private async getPromptVersion(): Promise<string> {
+    const material = JSON.stringify([
+      await this.getTemplate('triage-system'),
+      await this.getTemplate('triage-user'),
+      this.rubric,
+    ]);
+    return (await sha256Hex(material)).substring(0, 8);
+  }
+
   // ========================================================================
   // Response Parsing
   // ========================================================================
 
   /**
    * Parse AI response into structured TriageResult
-   * Handles malformed JSON with fallbacks
+   * Validates against the rubric's response schema; score and
+   * recommendation are always computed from the checks
    *
    * @param response - Raw API response text
-   * @param originalContent - Original entry content (for fallback core question)
-   * @returns Structured TriageResult
+   * @returns TriageResult if valid, otherwise validation errors
    */
-  private parseTriageResponse(response: string, originalContent: string): TriageResult {
-    try {
-      // Extract JSON from response (might be wrapped in text)
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-
-      // Validate structure
-      if (!parsed.checks || !parsed.coreQuestion) {
-        throw new Error('Invalid response structure');
-      }
+  private parseTriageResponse(response: string): { result?: TriageResult; errors: string[] } {
+    const { value, errors } = parseStructuredResponse(response, buildTriageResponseSchema(this.rubric));
+    if (errors.length > 0) {
+      return { errors };
+    }
 
-      // Build CheckResults
-      const checks = {
-        hasSpecifics: this.validateCheckResult(parsed.checks.hasSpecifics),
-        canBeCorePhrase: this.validateCheckResult(parsed.checks.canBeCorePhrase),
-        isTransferable: this.validateCheckResult(parsed.checks.isTransferable),
-        isNonHarmful: this.validateCheckResult(parsed.checks.isNonHarmful),
-      };
+    // Build CheckResults for every rubric criterion
+    const checks: Record<string, CheckResult> = {};
+    for (const criterion of this.rubric.criteria) {
+      checks[criterion.key] = this.validateCheckResult(value.checks[criterion.key]);
+    }
 
-      // Calculate score (count passed checks)
-      const score = Object.values(checks).filter((check) => check.pass).length;
+    // Calculate weighted score
+    const score = TriageAnalyzer.calculateScore(checks, this.rubric);
+    const maxScore = TriageAnalyzer.getMaxScore(this.rubric);
 
-      // Determine recommendation
-      const recommendation = this.calculateRecommendation(score);
+    // Determine recommendation
+    const recommendation = TriageAnalyzer.calculateRecommendation(score, maxScore, this.rubric);
 
-      // Truncate core question to 40 chars
-      const coreQuestion = parsed.coreQuestion.substring(0, 40);
+    // Truncate core question to 40 chars
+    const coreQuestion = value.coreQuestion.substring(0, 40);
 
-      return {
+    return {
+      result: {
         checks,
         score,
+        maxScore,
         recommendation,
         coreQuestion,
         timestamp: new Date().toISOString(),
-      };
-
-    } catch (error) {
-      console.error('[Weaklog] Failed to parse triage response:', error);
-      console.log('[Weaklog] Raw response:', response);
-
-      // Return conservative fallback
-      return this.createFallbackResult(originalContent);
-    }
+        provenance: 'ai',
+      },
+      errors: [],
+    };
   }
 
   /**
@@ -206,43 +248,82 @@ export class TriageAnalyzer {
     };
   }
 
+  // ========================================================================
+  // Scoring (shared with manual triage)
+  // ========================================================================
+
+  /**
+   * Calculate weighted score: sum of weights of passed criteria
+   *
+   * @param checks - Check results keyed by criterion key
+   * @param rubric - Rubric providing the weights
+   * @returns Weighted score
+   */
+  static calculateScore(checks: Record<string, CheckResult>, rubric: TriageRubric): number {
+    return rubric.criteria
+      .filter((criterion) => checks[criterion.key]?.pass)
+      .reduce((sum, criterion) => sum + criterion.weight, 0);
+  }
+
+  /**
+   * Get maximum possible score for a rubric
+   *
+   * @param rubric - Triage rubric
+   * @returns Sum of all criterion weights
+   */
+  static getMaxScore(rubric: TriageRubric): number {
+    return rubric.criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+  }
+
   /**
    * Calculate recommendation based on score
-   * 4 = adopt, 2-3 = review, 0-1 = reject
+   * Compares score percentage against rubric thresholds
+   * (default rubric: 4 = adopt, 2-3 = review, 0-1 = reject)
+   * Shared with manual triage so both paths use the same rules
    *
-   * @param score - Score from 0-4
+   * @param score - Weighted score
+   * @param maxScore - Maximum possible score
+   * @param rubric - Rubric providing the thresholds
    * @returns Recommendation
    */
-  private calculateRecommendation(score: number): 'adopt' | 'review' | 'reject' {
-    if (score === 4) return 'adopt';
-    if (score >= 2) return 'review';
+  static calculateRecommendation(score: number, maxScore: number, rubric: TriageRubric): 'adopt' | 'review' | 'reject' {
+    const percentage = maxScore > 0 ? (score / maxScore) * 100 : 0;
+    if (percentage >= rubric.adoptThreshold) return 'adopt';
+    if (percentage >= rubric.reviewThreshold) return 'review';
     return 'reject';
   }
 
   /**
    * Create fallback result when parsing fails
-   * Conservative approach: mark as "review" to let user decide
+   * Explicitly marked as 'fallback' so the UI shows an error state
+   * instead of a score; no criterion is assumed to pass
    *
    * @param content - Original content (for generating fallback core question)
-   * @returns Conservative TriageResult
+   * @param errors - Validation errors from the last attempt
+   * @returns TriageResult with provenance 'fallback'
    */
-  private createFallbackResult(content: string): TriageResult {
+  private createFallbackResult(content: string, errors: string[]): TriageResult {
     console.warn('[Weaklog] Using fallback triage result due to parsing error');
 
     // Generate simple core question from first 40 chars
     const coreQuestion = content.substring(0, 37) + '...';
 
+    const checks: Record<string, CheckResult> = {};
+    for (const criterion of this.rubric.criteria) {
+      checks[criterion.key] = { pass: false, reason: 'Not evaluated - analysis failed' };
+    }
+
     return {
-      checks: {
-        hasSpecifics: { pass: false, reason: 'Analysis failed - please review' },
-        canBeCorePhrase: { pass: false, reason: 'Analysis failed - please review' },
-        isTransferable: { pass: false, reason: 'Analysis failed - please review' },
-        isNonHarmful: { pass: true, reason: 'Assumed safe' },
-      },
-      score: 1,
+      checks,
+      score: 0,
+      maxScore: TriageAnalyzer.getMaxScore(this.rubric),
       recommendation: 'review',
       coreQuestion,
       timestamp: new Date().toISOString(),
+      provenance: 'fallback',
+      failureReason: errors.length > 0
+        ? `The AI response could not be parsed: ${errors.slice(0, 3).join('; ')}`
+        : 'The AI response could not be parsed',
     };
   }
 
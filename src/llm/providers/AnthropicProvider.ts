@@ -3,15 +3,19 @@
  *
  * Implements ILLMProvider for Anthropic's Claude models:
  * - API initialization with key validation
- * - Retry logic with exponential backoff
- * - Timeout handling
- * - Error sanitization for security
+ * - Token streaming
+ * - Structured output via forced tool use
+ * - Error classification (LLMError)
  * - Connection testing
+ *
+ * Retries and timeouts are handled by LLMClient.
  */
 
 import Anthropic from '@anthropic-ai/sdk';
 import { ILLMProvider } from './ILLMProvider';
-import { LLMCallOptions } from '../../types';
+import { StreamController } from './StreamController';
+import { LLMError, LLMErrorContext, toLLMError } from '../LLMError';
+import { ChatMessage, LLMCallOptions, LLMResponse } from '../../types';
 
 /**
  * Anthropic Claude provider implementation
@@ -37,13 +41,14 @@ export class AnthropicProvider implements ILLMProvider {
    */
   initialize(): void {
     if (!this.apiKey || this.apiKey.trim().length === 0) {
-      throw new Error('API key is required');
+      throw new LLMError('auth', 'Anthropic API key is required. Please add it in settings.');
     }
 
     try {
       this.client = new Anthropic({
         apiKey: this.apiKey,
         dangerouslyAllowBrowser: true, // Safe for Obsidian (Electron desktop app)
+        maxRetries: 0, // LLMClient retries
       });
       console.log('[Weaklog] Anthropic provider initialized');
     } catch (error) {
@@ -57,19 +62,37 @@ export class AnthropicProvider implements ILLMProvider {
   // ========================================================================
 
   /**
-   * Call Anthropic API with retry logic
-   * Implements exponential backoff for transient errors
+   * Call Anthropic API with a single user message
+   * Convenience wrapper around callChat
    *
    * @param systemPrompt - System instruction for Claude
    * @param userPrompt - User message content
-   * @param options - Temperature, max tokens, timeout
-   * @returns API response text
+   * @param options - Temperature, max tokens, timeout, response schema
+   * @returns API response text and usage
    */
   async callAPI(
     systemPrompt: string,
     userPrompt: string,
     options: LLMCallOptions = {}
-  ): Promise<string> {
+  ): Promise<LLMResponse> {
+    return this.callChat(systemPrompt, [{ role: 'user', content: userPrompt }], options);
+  }
+
+  /**
+   * Call Anthropic API with a multi-turn message history
+   * Single attempt; LLMClient handles retries and timeouts
+   *
+   * @param systemPrompt - System instruction for Claude
+   * @param messages - Conversation so far (first message from the user)
+   * @param options - Temperature, max tokens, response schema, abort signal
+   * @returns API response text and usage
+   * @throws LLMError on failure
+   */
+  async callChat(
+    systemPrompt: string,
+    messages: ChatMessage[],
+    options: LLMCallOptions = {}
+  ): Promise<LLMResponse> {
     if (!this.client) {
       this.initialize();
     }
@@ -77,23 +100,108 @@ export class AnthropicProvider implements ILLMProvider {
     const {
       temperature = 0.5,
       maxTokens = 1000,
-      timeoutMs = 30000,
+      responseSchema,
+      signal,
     } = options;
 
-    const maxRetries = 3;
-    const baseDelay = 1000; // 1 second
+    const startedAt = Date.now();
+
+    try {
+      // Build API parameters
+      const apiParams: any = {
+        model: this.model,
+        max_tokens: maxTokens,
+        temperature: temperature,
+        system: systemPrompt,
+        messages: messages.map((message) => ({
+          role: message.role,
+          content: message.content,
+        })),
+      };
+
+      // Structured output: force a single tool call whose input is the schema
+      if (responseSchema) {
+        apiParams.tools = [
+          {
+            name: responseSchema.name,
+            description: responseSchema.description || 'Record the structured response',
+            input_schema: responseSchema.schema,
+          },
+        ];
+        apiParams.tool_choice = { type: 'tool', name: responseSchema.name };
+      }
+
+      const response = await this.client!.messages.create(apiParams, { signal }) as Anthropic.Message;
+      const usage = {
+        inputTokens: response.usage?.input_tokens ?? 0,
+        outputTokens: response.usage?.output_tokens ?? 0,
+        model: response.model || this.model,
+        latencyMs: Date.now() - startedAt,
+      };
+
+      // Structured output arrives as tool input
+      if (responseSchema && response.content) {
+        const toolBlock = response.content.find((block: any) => block.type === 'tool_use');
+        if (toolBlock && 'input' in toolBlock) {
+          console.log('[Weaklog] Anthropic API call successful (structured)');
+          return { text: JSON.stringify(toolBlock.input), usage };
+        }
+      }
+
+      // Extract text from response
+      if (response.content && response.content.length > 0) {
+        const textBlock = response.content.find((block: any) => block.type === 'text');
+        if (textBlock && 'text' in textBlock) {
+          console.log('[Weaklog] Anthropic API call successful');
+          return { text: textBlock.text, usage };
+        }
+      }
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        console.log(`[Weaklog] Anthropic API call attempt ${attempt}/${maxRetries}`);
+      throw new Error('No text content in API response');
 
-        // Create timeout promise
-        const timeoutPromise = new Promise<never>((_, reject) => {
-          setTimeout(() => reject(new Error('API request timeout')), timeoutMs);
-        });
+    } catch (error) {
+      throw toLLMError(error, this.getErrorContext());
+    }
+  }
 
-        // Create API call promise
-        const apiPromise = this.client!.messages.create({
+  /**
+   * Stream Anthropic API response
+   * Emits text deltas from content_block_delta events
+   *
+   * @param systemPrompt - System instruction for Claude
+   * @param userPrompt - User message content
+   * @param onChunk - Called with each text delta
+   * @param options - Temperature, max tokens, idle timeout, abort signal
+   * @returns Full response text and usage
+   */
+  async streamAPI(
+    systemPrompt: string,
+    userPrompt: string,
+    onChunk: (text: string) => void,
+    options: LLMCallOptions = {}
+  ): Promise<LLMResponse> {
+    if (!this.client) {
+      this.initialize();
+    }
+
+    const {
+      temperature = 0.5,
+      maxTokens = 1000,
+      timeoutMs = 30000,
+      signal,
+    } = options;
+
+    const stream = new StreamController(timeoutMs, signal);
+    const startedAt = Date.now();
+    let fullText = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    try {
+      console.log('[Weaklog] Anthropic streaming call started');
+
+      const events = await this.client!.messages.create(
+        {
           model: this.model,
           max_tokens: maxTokens,
           temperature: temperature,
@@ -104,70 +212,37 @@ export class AnthropicProvider implements ILLMProvider {
               content: userPrompt,
             },
           ],
-        });
-
-        // Race between API call and timeout
-        const response = await Promise.race([apiPromise, timeoutPromise]);
-
-        // Extract text from response
-        if (response.content && response.content.length > 0) {
-          const textBlock = response.content.find((block: any) => block.type === 'text');
-          if (textBlock && 'text' in textBlock) {
-            console.log('[Weaklog] Anthropic API call successful');
-            return textBlock.text;
-          }
+          stream: true,
+        },
+        { signal: stream.signal }
+      );
+
+      for await (const event of events) {
+        stream.touch();
+        if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          fullText += event.delta.text;
+          onChunk(event.delta.text);
+        } else if (event.type === 'message_start') {
+          inputTokens = event.message.usage.input_tokens;
+        } else if (event.type === 'message_delta') {
+          outputTokens = event.usage.output_tokens;
         }
+      }
 
-        throw new Error('No text content in API response');
-
-      } catch (error) {
-        const errorMessage = this.sanitizeError(error);
-        console.error(`[Weaklog] Anthropic API call attempt ${attempt} failed:`, errorMessage);
-
-        // Handle specific error types
-        if (error instanceof Error) {
-          // Auth errors - don't retry
-          if (error.message.includes('401') || error.message.includes('authentication')) {
-            throw new Error('Invalid API key. Please check your Anthropic API key in settings.');
-          }
-
-          // Rate limits - retry with longer backoff
-          if (error.message.includes('429') || error.message.includes('rate limit')) {
-            if (attempt === maxRetries) {
-              throw new Error('Rate limit exceeded. Please try again later.');
-            }
-
-            const delay = baseDelay * Math.pow(2, attempt) * 2; // Double backoff for rate limits
-            console.log(`[Weaklog] Rate limited, waiting ${delay}ms before retry`);
-            await this.sleep(delay);
-            continue;
-          }
-
-          // Timeout - retry with standard backoff
-          if (error.message.includes('timeout')) {
-            if (attempt === maxRetries) {
-              throw new Error('API request timed out. Please check your connection and try again.');
-            }
-
-            const delay = baseDelay * Math.pow(2, attempt - 1);
-            console.log(`[Weaklog] Timeout, waiting ${delay}ms before retry`);
-            await this.sleep(delay);
-            continue;
-          }
-        }
+      console.log('[Weaklog] Anthropic streaming call complete');
+      return {
+        text: fullText,
+        usage: { inputTokens, outputTokens, model: this.model, latencyMs: Date.now() - startedAt },
+      };
 
-        // Network or other transient errors - retry
-        if (attempt === maxRetries) {
-          throw new Error(`API call failed after ${maxRetries} attempts: ${errorMessage}`);
-        }
+    } catch (error) {
+      const streamError = stream.toError(error, this.getErrorContext());
+      console.error('[Weaklog] Anthropic streaming call failed:', streamError.message);
+      throw streamError;
 
-        const delay = baseDelay * Math.pow(2, attempt - 1);
-        console.log(`[Weaklog] Waiting ${delay}ms before retry`);
-        await this.sleep(delay);
-      }
+    } finally {
+      stream.dispose();
     }
-
-    throw new Error('API call failed: Maximum retries exceeded');
   }
 
   // ========================================================================
@@ -206,25 +281,9 @@ export class AnthropicProvider implements ILLMProvider {
       return true;
 
     } catch (error) {
-      const errorMessage = this.sanitizeError(error);
-      console.error('[Weaklog] Anthropic API connection test failed:', errorMessage);
-
-      // Provide user-friendly error messages
-      if (error instanceof Error) {
-        if (error.message.includes('401') || error.message.includes('authentication')) {
-          throw new Error('Invalid API key. Please check your Anthropic API key.');
-        }
-
-        if (error.message.includes('429') || error.message.includes('rate limit')) {
-          throw new Error('Rate limit exceeded. Please wait a moment and try again.');
-        }
-
-        if (error.message.includes('network') || error.message.includes('ENOTFOUND')) {
-          throw new Error('Network error. Please check your internet connection.');
-        }
-      }
-
-      throw new Error(`Connection test failed: ${errorMessage}`);
+      const testError = toLLMError(error, this.getErrorContext());
+      console.error('[Weaklog] Anthropic API connection test failed:', testError.message);
+      throw testError;
     }
   }
 
@@ -276,35 +335,10 @@ export class AnthropicProvider implements ILLMProvider {
   // ========================================================================
 
   /**
-   * Sleep for specified milliseconds
-   * Used for retry backoff
-   *
-   * @param ms - Milliseconds to sleep
+   * Provider details for error messages
+   * The API key is listed so it never appears in a message
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
-
-  /**
-   * Sanitize error messages to remove sensitive data
-   * Never expose API keys or sensitive information
-   *
-   * @param error - Error to sanitize
-   * @returns Safe error message
-   */
-  private sanitizeError(error: unknown): string {
-    if (error instanceof Error) {
-      let message = error.message;
-
-      // Remove any API keys (sk-ant-...)
-      message = message.replace(/sk-ant-[a-zA-Z0-9-_]+/g, '[API_KEY_REDACTED]');
-
-      // Remove any authorization headers
-      message = message.replace(/authorization:?\s*[^\s]+/gi, 'authorization: [REDACTED]');
-
-      return message;
-    }
-
-    return 'Unknown error';
+  private getErrorContext(): LLMErrorContext {
+    return { provider: 'Anthropic', model: this.model, secrets: [this.apiKey] };
   }
 }
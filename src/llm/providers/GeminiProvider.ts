@@ -3,15 +3,19 @@
  *
  * Implements ILLMProvider for Google's Gemini models:
  * - API initialization with key validation
- * - Retry logic with exponential backoff
- * - Timeout handling
- * - Error sanitization for security
+ * - Token streaming
+ * - Structured output via responseSchema
+ * - Error classification (LLMError)
  * - Connection testing
+ *
+ * Retries and timeouts are handled by LLMClient.
  */
 
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { ILLMProvider } from './ILLMProvider';
-import { LLMCallOptions } from '../../types';
+import { StreamController } from './StreamController';
+import { LLMError, LLMErrorContext, toLLMError } from '../LLMError';
+import { ChatMessage, JsonSchema, LLMCallOptions, LLMResponse } from '../../types';
 
 /**
  * Google Gemini provider implementation
@@ -37,7 +41,7 @@ export class GeminiProvider implements ILLMProvider {
    */
   initialize(): void {
     if (!this.apiKey || this.apiKey.trim().length === 0) {
-      throw new Error('API key is required');
+      throw new LLMError('auth', 'Gemini API key is required. Please add it in settings.');
     }
 
     try {
@@ -54,19 +58,37 @@ export class GeminiProvider implements ILLMProvider {
   // ========================================================================
 
   /**
-   * Call Gemini API with retry logic
-   * Implements exponential backoff for transient errors
+   * Call Gemini API with a single user message
+   * Convenience wrapper around callChat
    *
    * @param systemPrompt - System instruction for Gemini
    * @param userPrompt - User message content
-   * @param options - Temperature, max tokens, timeout
-   * @returns API response text
+   * @param options - Temperature, max tokens, timeout, response schema
+   * @returns API response text and usage
    */
   async callAPI(
     systemPrompt: string,
     userPrompt: string,
     options: LLMCallOptions = {}
-  ): Promise<string> {
+  ): Promise<LLMResponse> {
+    return this.callChat(systemPrompt, [{ role: 'user', content: userPrompt }], options);
+  }
+
+  /**
+   * Call Gemini API with a multi-turn message history
+   * Single attempt; LLMClient handles retries and timeouts
+   *
+   * @param systemPrompt - System instruction for Gemini
+   * @param messages - Conversation so far (first message from the user)
+   * @param options - Temperature, max tokens, response schema, abort signal
+   * @returns API response text and usage
+   * @throws LLMError on failure
+   */
+  async callChat(
+    systemPrompt: string,
+    messages: ChatMessage[],
+    options: LLMCallOptions = {}
+  ): Promise<LLMResponse> {
     if (!this.client) {
       this.initialize();
     }
@@ -74,115 +96,148 @@ export class GeminiProvider implements ILLMProvider {
     const {
       temperature = 0.5,
       maxTokens = 1000,
-      timeoutMs = 30000,
+      responseSchema,
+      signal,
     } = options;
 
-    const maxRetries = 3;
-    const baseDelay = 1000; // 1 second
+    const startedAt = Date.now();
+
+    try {
+      // Get generative model
+      const generativeModel = this.client!.getGenerativeModel({
+        model: this.model,
+      });
+
+      // Gemini doesn't have a system role, so the system prompt is
+      // prepended to the first user message; assistant turns map to "model"
+      const contents = messages.map((message, index) => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: index === 0 ? `${systemPrompt}\n\n${message.content}` : message.content }],
+      }));
+
+      // Build generation config (JSON mode when a schema is requested)
+      const generationConfig: any = {
+        temperature: temperature,
+        maxOutputTokens: maxTokens,
+      };
+      if (responseSchema) {
+        generationConfig.responseMimeType = 'application/json';
+        generationConfig.responseSchema = this.toGeminiSchema(responseSchema.schema);
+      }
+
+      const response = await generativeModel.generateContent(
+        {
+          contents,
+          generationConfig,
+        },
+        { signal }
+      );
+
+      // Extract text from response
+      const result = response.response;
+      if (result && result.text) {
+        const text = result.text();
+        console.log('[Weaklog] Gemini API call successful');
+        return {
+          text,
+          usage: {
+            inputTokens: result.usageMetadata?.promptTokenCount ?? 0,
+            outputTokens: result.usageMetadata?.candidatesTokenCount ?? 0,
+            model: this.model,
+            latencyMs: Date.now() - startedAt,
+          },
+        };
+      }
+
+      throw new Error('No text content in API response');
+
+    } catch (error) {
+      throw toLLMError(error, this.getErrorContext());
+    }
+  }
+
+  /**
+   * Stream Gemini API response
+   * Emits text from each generateContentStream chunk
+   *
+   * @param systemPrompt - System instruction for Gemini
+   * @param userPrompt - User message content
+   * @param onChunk - Called with each text delta
+   * @param options - Temperature, max tokens, idle timeout, abort signal
+   * @returns Full response text and usage
+   */
+  async streamAPI(
+    systemPrompt: string,
+    userPrompt: string,
+    onChunk: (text: string) => void,
+    options: LLMCallOptions = {}
+  ): Promise<LLMResponse> {
+    if (!this.client) {
+      this.initialize();
+    }
+
+    const {
+      temperature = 0.5,
+      maxTokens = 1000,
+      timeoutMs = 30000,
+      signal,
+    } = options;
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        console.log(`[Weaklog] Gemini API call attempt ${attempt}/${maxRetries}`);
+    const stream = new StreamController(timeoutMs, signal);
+    const startedAt = Date.now();
+    let fullText = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
 
-        // Get generative model
-        const generativeModel = this.client!.getGenerativeModel({
-          model: this.model,
-        });
+    try {
+      console.log('[Weaklog] Gemini streaming call started');
 
-        // Create timeout promise
-        const timeoutPromise = new Promise<never>((_, reject) => {
-          setTimeout(() => reject(new Error('API request timeout')), timeoutMs);
-        });
+      const generativeModel = this.client!.getGenerativeModel({
+        model: this.model,
+      });
 
-        // Combine system and user prompts
-        // Gemini doesn't have separate system/user roles, so we combine them
-        const combinedPrompt = `${systemPrompt}\n\n${userPrompt}`;
+      // Gemini doesn't have separate system/user roles, so we combine them
+      const combinedPrompt = `${systemPrompt}\n\n${userPrompt}`;
 
-        // Create API call promise
-        const apiPromise = generativeModel.generateContent({
+      const result = await generativeModel.generateContentStream(
+        {
           contents: [{ role: 'user', parts: [{ text: combinedPrompt }] }],
           generationConfig: {
             temperature: temperature,
             maxOutputTokens: maxTokens,
           },
-        });
-
-        // Race between API call and timeout
-        const response = await Promise.race([apiPromise, timeoutPromise]);
-
-        // Extract text from response
-        const result = response.response;
-        if (result && result.text) {
-          const text = result.text();
-          console.log('[Weaklog] Gemini API call successful');
-          return text;
+        },
+        { signal: stream.signal }
+      );
+
+      for await (const chunk of result.stream) {
+        stream.touch();
+        const delta = chunk.text();
+        if (delta) {
+          fullText += delta;
+          onChunk(delta);
         }
-
-        throw new Error('No text content in API response');
-
-      } catch (error) {
-        const errorMessage = this.sanitizeError(error);
-        console.error(`[Weaklog] Gemini API call attempt ${attempt} failed:`, errorMessage);
-
-        // Handle specific error types
-        if (error instanceof Error) {
-          // Auth errors - don't retry
-          if (error.message.includes('401') ||
-              error.message.includes('403') ||
-              error.message.includes('API_KEY_INVALID') ||
-              error.message.includes('authentication')) {
-            throw new Error('Invalid API key. Please check your Gemini API key in settings.');
-          }
-
-          // Rate limits - retry with longer backoff
-          if (error.message.includes('429') ||
-              error.message.includes('RESOURCE_EXHAUSTED') ||
-              error.message.includes('rate limit')) {
-            if (attempt === maxRetries) {
-              throw new Error('Rate limit exceeded. Please try again later.');
-            }
-
-            const delay = baseDelay * Math.pow(2, attempt) * 2; // Double backoff for rate limits
-            console.log(`[Weaklog] Rate limited, waiting ${delay}ms before retry`);
-            await this.sleep(delay);
-            continue;
-          }
-
-          // Timeout - retry with standard backoff
-          if (error.message.includes('timeout')) {
-            if (attempt === maxRetries) {
-              throw new Error('API request timed out. Please check your connection and try again.');
-            }
-
-            const delay = baseDelay * Math.pow(2, attempt - 1);
-            console.log(`[Weaklog] Timeout, waiting ${delay}ms before retry`);
-            await this.sleep(delay);
-            continue;
-          }
-
-          // Quota exceeded
-          if (error.message.includes('quota') || error.message.includes('QUOTA_EXCEEDED')) {
-            throw new Error('Gemini quota exceeded. Please check your billing settings.');
-          }
-
-          // Safety block
-          if (error.message.includes('SAFETY') || error.message.includes('blocked')) {
-            throw new Error('Content was blocked by Gemini safety filters. Please try different input.');
-          }
+        // Each chunk reports running totals
+        if (chunk.usageMetadata) {
+          inputTokens = chunk.usageMetadata.promptTokenCount ?? 0;
+          outputTokens = chunk.usageMetadata.candidatesTokenCount ?? 0;
         }
+      }
 
-        // Network or other transient errors - retry
-        if (attempt === maxRetries) {
-          throw new Error(`API call failed after ${maxRetries} attempts: ${errorMessage}`);
-        }
+      console.log('[Weaklog] Gemini streaming call complete');
+      return {
+        text: fullText,
+        usage: { inputTokens, outputTokens, model: this.model, latencyMs: Date.now() - startedAt },
+      };
 
-        const delay = baseDelay * Math.pow(2, attempt - 1);
-        console.log(`[Weaklog] Waiting ${delay}ms before retry`);
-        await this.sleep(delay);
-      }
-    }
+    } catch (error) {
+      const streamError = stream.toError(error, this.getErrorContext());
+      console.error('[Weaklog] Gemini streaming call failed:', streamError.message);
+      throw streamError;
 
-    throw new Error('API call failed: Maximum retries exceeded');
+    } finally {
+      stream.dispose();
+    }
   }
 
   // ========================================================================
@@ -221,34 +276,9 @@ export class GeminiProvider implements ILLMProvider {
       return true;
 
     } catch (error) {
-      const errorMessage = this.sanitizeError(error);
-      console.error('[Weaklog] Gemini API connection test failed:', errorMessage);
-
-      // Provide user-friendly error messages
-      if (error instanceof Error) {
-        if (error.message.includes('401') ||
-            error.message.includes('403') ||
-            error.message.includes('API_KEY_INVALID') ||
-            error.message.includes('authentication')) {
-          throw new Error('Invalid API key. Please check your Gemini API key.');
-        }
-
-        if (error.message.includes('429') ||
-            error.message.includes('RESOURCE_EXHAUSTED') ||
-            error.message.includes('rate limit')) {
-          throw new Error('Rate limit exceeded. Please wait a moment and try again.');
-        }
-
-        if (error.message.includes('quota') || error.message.includes('QUOTA_EXCEEDED')) {
-          throw new Error('Gemini quota exceeded. Please check your billing settings.');
-        }
-
-        if (error.message.includes('network') || error.message.includes('ENOTFOUND')) {
-          throw new Error('Network error. Please check your internet connection.');
-        }
-      }
-
-      throw new Error(`Connection test failed: ${errorMessage}`);
+      const testError = toLLMError(error, this.getErrorContext());
+      console.error('[Weaklog] Gemini API connection test failed:', testError.message);
+      throw testError;
     }
   }
 
@@ -302,36 +332,40 @@ export class GeminiProvider implements ILLMProvider {
   // ========================================================================
 
   /**
-   * Sleep for specified milliseconds
-   * Used for retry backoff
+   * Convert JSON schema to Gemini's OpenAPI-style schema
+   * Gemini rejects unsupported keywords, so only known fields are copied
    *
-   * @param ms - Milliseconds to sleep
+   * @param schema - JSON schema
+   * @returns Gemini response schema
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private toGeminiSchema(schema: JsonSchema): any {
+    const result: any = {};
+
+    if (schema.type) result.type = schema.type;
+    if (schema.description) result.description = schema.description;
+    if (schema.enum) {
+      result.format = 'enum';
+      result.enum = schema.enum.map(String);
+    }
+    if (schema.required) result.required = schema.required;
+    if (schema.minItems !== undefined) result.minItems = schema.minItems;
+    if (schema.maxItems !== undefined) result.maxItems = schema.maxItems;
+    if (schema.items) result.items = this.toGeminiSchema(schema.items);
+    if (schema.properties) {
+      result.properties = {};
+      for (const [key, value] of Object.entries(schema.properties)) {
+        result.properties[key] = this.toGeminiSchema(value);
+      }
+    }
+
+    return result;
   }
 
   /**
-   * Sanitize error messages to remove sensitive data
-   * Never expose API keys or sensitive information
-   *
-   * @param error - Error to sanitize
-   * @returns Safe error message
+   * Provider details for error messages
+   * The API key is listed so it never appears in a message
    */
-  private sanitizeError(error: unknown): string {
-    if (error instanceof Error) {
-      let message = error.message;
-
-      // Remove any API keys (AIza...)
-      message = message.replace(/AIza[a-zA-Z0-9_-]+/g, '[API_KEY_REDACTED]');
-
-      // Remove any authorization headers
-      message = message.replace(/authorization:?\s*[^\s]+/gi, 'authorization: [REDACTED]');
-      message = message.replace(/x-goog-api-key:?\s*[^\s]+/gi, 'x-goog-api-key: [REDACTED]');
-
-      return message;
-    }
-
-    return 'Unknown error';
+  private getErrorContext(): LLMErrorContext {
+    return { provider: 'Gemini', model: this.model, secrets: [this.apiKey] };
   }
 }
@@ -3,7 +3,10 @@
  *
  * Defines standard contract for LLM communication:
  * - Initialization with credentials
- * - API calls with retry logic
+ * - Single-attempt API calls that throw classified LLMErrors
+ * - Token usage and latency reporting
+ * - Multi-turn chat with message history
+ * - Token streaming with cancellation
  * - Connection testing
  * - Model enumeration
  *
@@ -12,10 +15,13 @@
  * - OpenAI (GPT)
  * - Google (Gemini)
  * - Ollama (Local models)
- * - LLama.cpp (Local server)
+ * - OpenAI-compatible endpoints (LM Studio, llama.cpp server, vLLM, OpenRouter, gateways)
+ *
+ * Retries, timeouts and fallback live in LLMClient; providers must
+ * honour options.signal so LLMClient can abort an attempt.
  */
 
-import { LLMCallOptions } from '../../types';
+import { ChatMessage, LLMCallOptions, LLMResponse } from '../../types';
 
 /**
  * LLM Provider Interface
@@ -32,26 +38,60 @@ export interface ILLMProvider {
 
   /**
    * Call LLM API with system and user prompts
-   * Implements retry logic and error handling
+   * Single attempt; aborts when options.signal fires
    *
    * @param systemPrompt - System instruction for LLM
    * @param userPrompt - User message content
-   * @param options - Temperature, max tokens, timeout
-   * @returns LLM response text
-   * @throws Error with user-friendly message on failure
+   * @param options - Temperature, max tokens, response schema, abort signal
+   * @returns Response text (JSON string when responseSchema is set) and usage
+   * @throws LLMError with user-friendly message on failure
    */
   callAPI(
     systemPrompt: string,
     userPrompt: string,
     options?: LLMCallOptions
-  ): Promise<string>;
+  ): Promise<LLMResponse>;
+
+  /**
+   * Call LLM API with a multi-turn message history
+   * Same single-attempt contract as callAPI
+   *
+   * @param systemPrompt - System instruction for LLM
+   * @param messages - Conversation so far, alternating user/assistant, starting with user
+   * @param options - Temperature, max tokens, response schema, abort signal
+   * @returns Next assistant message text and usage
+   * @throws LLMError with user-friendly message on failure
+   */
+  callChat(
+    systemPrompt: string,
+    messages: ChatMessage[],
+    options?: LLMCallOptions
+  ): Promise<LLMResponse>;
+
+  /**
+   * Stream LLM response token by token
+   * No retries: partial output has already been delivered to the caller
+   *
+   * @param systemPrompt - System instruction for LLM
+   * @param userPrompt - User message content
+   * @param onChunk - Called with each text delta as it arrives
+   * @param options - Temperature, max tokens, idle timeout, abort signal
+   * @returns Full response text and usage once the stream completes
+   * @throws LLMError (kind "cancelled") if options.signal aborts
+   */
+  streamAPI(
+    systemPrompt: string,
+    userPrompt: string,
+    onChunk: (text: string) => void,
+    options?: LLMCallOptions
+  ): Promise<LLMResponse>;
 
   /**
    * Test API connection
    * Makes minimal request to validate credentials
    *
    * @returns true if connection successful
-   * @throws Error with user-friendly message if failed
+   * @throws LLMError with user-friendly message if failed
    */
   testConnection(): Promise<boolean>;
 
@@ -93,9 +133,12 @@ export interface ProviderConfig {
   /** Model identifier */
   model: string;
 
-  /** Custom endpoint URL (for Ollama/LlamaCpp) */
+  /** Custom endpoint URL (Ollama server, or OpenAI-compatible base URL) */
   endpoint?: string;
 
+  /** Extra HTTP headers (OpenAI-compatible endpoints) */
+  headers?: Record<string, string>;
+
   /** Provider-specific options */
   options?: Record<string, any>;
 }
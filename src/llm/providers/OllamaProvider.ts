@@ -4,14 +4,19 @@
  * Implements ILLMProvider for Ollama locally hosted models:
  * - Direct REST API calls using fetch (no npm dependencies)
  * - Connection to local Ollama server
- * - Retry logic with exponential backoff
- * - Timeout handling
+ * - Token streaming (NDJSON from /api/chat)
+ * - Structured output via format (JSON schema)
  * - Dynamic model listing
+ * - Error classification (LLMError)
  * - Connection testing
+ *
+ * Retries and timeouts are handled by LLMClient.
  */
 
 import { ILLMProvider } from './ILLMProvider';
-import { LLMCallOptions } from '../../types';
+import { StreamController } from './StreamController';
+import { LLMError, LLMErrorContext, fromHttpResponse, toLLMError } from '../LLMError';
+import { ChatMessage, LLMCallOptions, LLMResponse } from '../../types';
 
 /**
  * Ollama API response interfaces
@@ -25,6 +30,10 @@ interface OllamaChatResponse {
   model: string;
   message: OllamaMessage;
   done: boolean;
+
+  /** Token counts (present once done) */
+  prompt_eval_count?: number;
+  eval_count?: number;
 }
 
 interface OllamaModel {
@@ -61,7 +70,7 @@ export class OllamaProvider implements ILLMProvider {
    */
   initialize(): void {
     if (!this.endpoint || this.endpoint.trim().length === 0) {
-      throw new Error('Endpoint is required');
+      throw new LLMError('config', 'Ollama endpoint is required. Please add it in settings.');
     }
 
     try {
@@ -70,7 +79,7 @@ export class OllamaProvider implements ILLMProvider {
       this.initialized = true;
       console.log('[Weaklog] Ollama provider initialized with endpoint:', this.endpoint);
     } catch (error) {
-      throw new Error(`Invalid Ollama endpoint URL: ${this.endpoint}`);
+      throw new LLMError('config', `Invalid Ollama endpoint URL: ${this.endpoint}`);
     }
   }
 
@@ -79,19 +88,37 @@ export class OllamaProvider implements ILLMProvider {
   // ========================================================================
 
   /**
-   * Call Ollama API with retry logic
-   * Uses fetch to call /api/chat endpoint
+   * Call Ollama API with a single user message
+   * Convenience wrapper around callChat
    *
-   * @param systemPrompt - System instruction
+   * @param systemPrompt - System instruction for the local model
    * @param userPrompt - User message content
-   * @param options - Temperature, max tokens, timeout
-   * @returns API response text
+   * @param options - Temperature, max tokens, timeout, response schema
+   * @returns API response text and usage
    */
   async callAPI(
     systemPrompt: string,
     userPrompt: string,
     options: LLMCallOptions = {}
-  ): Promise<string> {
+  ): Promise<LLMResponse> {
+    return this.callChat(systemPrompt, [{ role: 'user', content: userPrompt }], options);
+  }
+
+  /**
+   * Call Ollama API with a multi-turn message history
+   * Single attempt; LLMClient handles retries and timeouts
+   *
+   * @param systemPrompt - System instruction for the local model
+   * @param messages - Conversation so far (first message from the user)
+   * @param options - Temperature, max tokens, response schema, abort signal
+   * @returns API response text and usage
+   * @throws LLMError on failure
+   */
+  async callChat(
+    systemPrompt: string,
+    messages: ChatMessage[],
+    options: LLMCallOptions = {}
+  ): Promise<LLMResponse> {
     if (!this.initialized) {
       this.initialize();
     }
@@ -99,113 +126,187 @@ export class OllamaProvider implements ILLMProvider {
     const {
       temperature = 0.5,
       maxTokens = 1000,
-      timeoutMs = 60000, // Ollama can be slower on local hardware
+      responseSchema,
+      signal,
     } = options;
 
-    const maxRetries = 3;
-    const baseDelay = 2000; // 2 seconds
+    const startedAt = Date.now();
+
+    try {
+      const response = await fetch(`${this.endpoint}/api/chat`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: this.model,
+          messages: [
+            {
+              role: 'system',
+              content: systemPrompt,
+            },
+            ...messages.map((message) => ({
+              role: message.role,
+              content: message.content,
+            })),
+          ],
+          stream: false,
+          // Constrain output to the schema when requested
+          format: responseSchema ? responseSchema.schema : undefined,
+          options: {
+            temperature: temperature,
+            num_predict: maxTokens,
+          },
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw await fromHttpResponse(response, this.getErrorContext());
+      }
+
+      const data: OllamaChatResponse = await response.json();
+
+      if (data && data.message && data.message.content) {
+        console.log('[Weaklog] Ollama API call successful');
+        return {
+          text: data.message.content,
+          usage: {
+            inputTokens: data.prompt_eval_count ?? 0,
+            outputTokens: data.eval_count ?? 0,
+            model: this.model,
+            latencyMs: Date.now() - startedAt,
+          },
+        };
+      }
+
+      throw new Error('No content in API response');
+
+    } catch (error) {
+      throw toLLMError(error, this.getErrorContext());
+    }
+  }
+
+  /**
+   * Stream Ollama API response
+   * Calls /api/chat with stream: true and reads NDJSON lines
+   *
+   * @param systemPrompt - System instruction
+   * @param userPrompt - User message content
+   * @param onChunk - Called with each text delta
+   * @param options - Temperature, max tokens, idle timeout, abort signal
+   * @returns Full response text and usage
+   */
+  async streamAPI(
+    systemPrompt: string,
+    userPrompt: string,
+    onChunk: (text: string) => void,
+    options: LLMCallOptions = {}
+  ): Promise<LLMResponse> {
+    if (!this.initialized) {
+      this.initialize();
+    }
+
+    const {
+      temperature = 0.5,
+      maxTokens = 1000,
+      timeoutMs = 60000, // Ollama can be slower on local hardware
+      signal,
+    } = options;
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        console.log(`[Weaklog] Ollama API call attempt ${attempt}/${maxRetries}`);
+    const stream = new StreamController(timeoutMs, signal);
+    const startedAt = Date.now();
+    let fullText = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
 
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      console.log('[Weaklog] Ollama streaming call started');
 
-        try {
-          const response = await fetch(`${this.endpoint}/api/chat`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
+      const response = await fetch(`${this.endpoint}/api/chat`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: this.model,
+          messages: [
+            {
+              role: 'system',
+              content: systemPrompt,
             },
-            body: JSON.stringify({
-              model: this.model,
-              messages: [
-                {
-                  role: 'system',
-                  content: systemPrompt,
-                },
-                {
-                  role: 'user',
-                  content: userPrompt,
-                },
-              ],
-              stream: false,
-              options: {
-                temperature: temperature,
-                num_predict: maxTokens,
-              },
-            }),
-            signal: controller.signal,
-          });
-
-          clearTimeout(timeoutId);
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            if (response.status === 404) {
-              throw new Error(`Model "${this.model}" not found. Pull it with: ollama pull ${this.model}`);
-            }
-            throw new Error(`Ollama API error (${response.status}): ${errorText}`);
-          }
-
-          const data: OllamaChatResponse = await response.json();
-
-          if (data && data.message && data.message.content) {
-            console.log('[Weaklog] Ollama API call successful');
-            return data.message.content;
-          }
-
-          throw new Error('No content in API response');
-
-        } catch (fetchError) {
-          clearTimeout(timeoutId);
-          throw fetchError;
-        }
+            {
+              role: 'user',
+              content: userPrompt,
+            },
+          ],
+          stream: true,
+          options: {
+            temperature: temperature,
+            num_predict: maxTokens,
+          },
+        }),
+        signal: stream.signal,
+      });
 
-      } catch (error) {
-        const errorMessage = this.sanitizeError(error);
-        console.error(`[Weaklog] Ollama API call attempt ${attempt} failed:`, errorMessage);
-
-        // Handle specific error types
-        if (error instanceof Error) {
-          // Abort error = timeout
-          if (error.name === 'AbortError') {
-            if (attempt === maxRetries) {
-              throw new Error('Request timed out. Your local model may be too slow or overloaded.');
-            }
-
-            const delay = baseDelay * Math.pow(2, attempt - 1);
-            console.log(`[Weaklog] Timeout, waiting ${delay}ms before retry`);
-            await this.sleep(delay);
-            continue;
-          }
-
-          // Connection errors - likely server not running
-          if (error.message.includes('Failed to fetch') ||
-              error.message.includes('NetworkError') ||
-              error.message.includes('fetch failed')) {
-            throw new Error(`Cannot connect to Ollama server at ${this.endpoint}. Is Ollama running?`);
-          }
-
-          // Model not found - don't retry
-          if (error.message.includes('Model') && error.message.includes('not found')) {
-            throw error;
-          }
-        }
+      if (!response.ok) {
+        throw await fromHttpResponse(response, this.getErrorContext());
+      }
+
+      if (!response.body) {
+        throw new Error('No response body from Ollama server');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
 
-        // Network or other transient errors - retry
-        if (attempt === maxRetries) {
-          throw new Error(`API call failed after ${maxRetries} attempts: ${errorMessage}`);
+      const handleLine = (line: string) => {
+        if (line.trim().length === 0) return;
+        const data: OllamaChatResponse & { error?: string } = JSON.parse(line);
+        if (data.error) {
+          throw new Error(`Ollama API error: ${data.error}`);
+        }
+        const delta = data.message?.content;
+        if (delta) {
+          fullText += delta;
+          onChunk(delta);
         }
+        if (data.done) {
+          inputTokens = data.prompt_eval_count ?? 0;
+          outputTokens = data.eval_count ?? 0;
+        }
+      };
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
 
-        const delay = baseDelay * Math.pow(2, attempt - 1);
-        console.log(`[Weaklog] Waiting ${delay}ms before retry`);
-        await this.sleep(delay);
+        stream.touch();
+        buffer += decoder.decode(value, { stream: true });
+
+        // Each complete line is one JSON object
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach(handleLine);
       }
-    }
 
-    throw new Error('API call failed: Maximum retries exceeded');
+      handleLine(buffer);
+
+      console.log('[Weaklog] Ollama streaming call complete');
+      return {
+        text: fullText,
+        usage: { inputTokens, outputTokens, model: this.model, latencyMs: Date.now() - startedAt },
+      };
+
+    } catch (error) {
+      const streamError = stream.toError(error, this.getErrorContext());
+      console.error('[Weaklog] Ollama streaming call failed:', streamError.message);
+      throw streamError;
+
+    } finally {
+      stream.dispose();
+    }
   }
 
   // ========================================================================
@@ -236,7 +337,7 @@ export class OllamaProvider implements ILLMProvider {
       });
 
       if (!response.ok) {
-        throw new Error(`Ollama server returned error: ${response.status}`);
+        throw await fromHttpResponse(response, this.getErrorContext());
       }
 
       const data: OllamaListResponse = await response.json();
@@ -252,7 +353,8 @@ export class OllamaProvider implements ILLMProvider {
 
       if (!modelExists) {
         const availableModels = data.models.map((m) => m.name).join(', ');
-        throw new Error(
+        throw new LLMError(
+          'model-not-found',
           `Model "${this.model}" not found. Available models: ${availableModels || 'none'}. Pull with: ollama pull ${this.model}`
         );
       }
@@ -261,23 +363,9 @@ export class OllamaProvider implements ILLMProvider {
       return true;
 
     } catch (error) {
-      const errorMessage = this.sanitizeError(error);
-      console.error('[Weaklog] Ollama server connection test failed:', errorMessage);
-
-      // Provide user-friendly error messages
-      if (error instanceof Error) {
-        if (error.message.includes('Failed to fetch') ||
-            error.message.includes('NetworkError') ||
-            error.message.includes('fetch failed')) {
-          throw new Error(`Cannot connect to Ollama server at ${this.endpoint}. Please ensure Ollama is running.`);
-        }
-
-        if (error.message.includes('Model') && error.message.includes('not found')) {
-          throw error; // Already user-friendly from above
-        }
-      }
-
-      throw new Error(`Connection test failed: ${errorMessage}`);
+      const testError = toLLMError(error, this.getErrorContext());
+      console.error('[Weaklog] Ollama server connection test failed:', testError.message);
+      throw testError;
     }
   }
 
@@ -363,27 +451,19 @@ export class OllamaProvider implements ILLMProvider {
   // ========================================================================
 
   /**
-   * Sleep for specified milliseconds
-   * Used for retry backoff
-   *
-   * @param ms - Milliseconds to sleep
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
-
-  /**
-   * Sanitize error messages
-   * Ollama runs locally, so less sensitive data concern
-   *
-   * @param error - Error to sanitize
-   * @returns Safe error message
+   * Provider details for error messages
+   * Adds Ollama-specific advice for missing models and a stopped server
    */
-  private sanitizeError(error: unknown): string {
-    if (error instanceof Error) {
-      return error.message;
-    }
-
-    return 'Unknown error';
+  private getErrorContext(): LLMErrorContext {
+    return {
+      provider: 'Ollama',
+      model: this.model,
+      endpoint: this.endpoint,
+      hints: {
+        'model-not-found': `Pull it with: ollama pull ${this.model}`,
+        network: 'Is Ollama running?',
+        timeout: 'Your local model may be too slow or overloaded.',
+      },
+    };
   }
 }
@@ -0,0 +1,502 @@
+/**
+ * OpenAICompatibleProvider - Any server speaking the OpenAI chat completions API (fetch-based)
+ *
+ * Implements ILLMProvider for self-hosted and gateway endpoints:
+ * - LM Studio, llama.cpp server, vLLM, OpenRouter, Azure-style gateways
+ * - Configurable base URL (including /v1), optional API key, custom headers
+ * - Token streaming (server-sent events from /chat/completions)
+ * - Structured output via response_format json_schema
+ * - Model discovery via /models
+ * - Error classification (LLMError)
+ * - Connection testing
+ *
+ * Retries and timeouts are handled by LLMClient.
+ */
+
+import { ILLMProvider } from './ILLMProvider';
+import { StreamController } from './StreamController';
+import { LLMError, LLMErrorContext, fromHttpResponse, toLLMError } from '../LLMError';
+import { ChatMessage, LLMCallOptions, LLMResponse } from '../../types';
+
+/**
+ * OpenAI-compatible API response interfaces
+ */
+interface TokenUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{
+    message?: { content?: string | null };
+  }>;
+  usage?: TokenUsage;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: { content?: string | null };
+  }>;
+  usage?: TokenUsage | null;
+  error?: { message?: string };
+}
+
+interface ModelListResponse {
+  data?: Array<{ id: string }>;
+}
+
+/**
+ * OpenAI-compatible provider implementation using fetch API
+ * The model may be left empty to use the first model the server reports
+ */
+export class OpenAICompatibleProvider implements ILLMProvider {
+  private baseUrl: string;
+  private apiKey: string;
+  private headers: Record<string, string>;
+  private model: string;
+  private initialized: boolean = false;
+
+  constructor(baseUrl: string, model: string, apiKey: string = '', headers: Record<string, string> = {}) {
+    this.baseUrl = baseUrl.trim().replace(/\/+$/, ''); // Remove trailing slash
+    this.model = model;
+    this.apiKey = apiKey;
+    this.headers = headers;
+  }
+
+  // ========================================================================
+  // Initialization
+  // ========================================================================
+
+  /**
+   * Initialize provider
+   * Validates base URL format
+   */
+  initialize(): void {
+    if (!this.baseUrl || this.baseUrl.length === 0) {
+      throw new LLMError('config', 'Base URL is required. Please add it in settings.');
+    }
+
+    try {
+      new URL(this.baseUrl);
+      this.initialized = true;
+      console.log('[Weaklog] OpenAI-compatible provider initialized with base URL:', this.baseUrl);
+    } catch (error) {
+      throw new LLMError('config', `Invalid base URL: ${this.baseUrl}`);
+    }
+  }
+
+  // ========================================================================
+  // API Communication
+  // ========================================================================
+
+  /**
+   * Call chat completions with a single user message
+   * Convenience wrapper around callChat
+   *
+   * @param systemPrompt - System instruction
+   * @param userPrompt - User message content
+   * @param options - Temperature, max tokens, timeout, response schema
+   * @returns API response text and usage
+   */
+  async callAPI(
+    systemPrompt: string,
+    userPrompt: string,
+    options: LLMCallOptions = {}
+  ): Promise<LLMResponse> {
+    return this.callChat(systemPrompt, [{ role: 'user', content: userPrompt }], options);
+  }
+
+  /**
+   * Call chat completions with a multi-turn message history
+   * Single attempt; LLMClient handles retries and timeouts
+   *
+   * @param systemPrompt - System instruction
+   * @param messages - Conversation so far (first message from the user)
+   * @param options - Temperature, max tokens, response schema, abort signal
+   * @returns API response text and usage
+   * @throws LLMError on failure
+   */
+  async callChat(
+    systemPrompt: string,
+    messages: ChatMessage[],
+    options: LLMCallOptions = {}
+  ): Promise<LLMResponse> {
+    if (!this.initialized) {
+      this.initialize();
+    }
+
+    const {
+      temperature = 0.5,
+      maxTokens = 1000,
+      responseSchema,
+      signal,
+    } = options;
+
+    const startedAt = Date.now();
+
+    try {
+      const model = await this.resolveModel(signal);
+      const body: Record<string, unknown> = {
+        model,
+        messages: [
+          {
+            role: 'system',
+            content: systemPrompt,
+          },
+          ...messages.map((message) => ({
+            role: message.role,
+            content: message.content,
+          })),
+        ],
+        temperature,
+        max_tokens: maxTokens,
+        stream: false,
+      };
+
+      // Structured output
+      if (responseSchema) {
+        body.response_format = {
+          type: 'json_schema',
+          json_schema: {
+            name: responseSchema.name,
+            description: responseSchema.description,
+            schema: responseSchema.schema,
+            strict: false,
+          },
+        };
+      }
+
+      const response = await fetch(this.buildUrl('/chat/completions'), {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: JSON.stringify(body),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw await fromHttpResponse(response, this.getErrorContext());
+      }
+
+      const data: ChatCompletionResponse = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+
+      if (content) {
+        console.log('[Weaklog] OpenAI-compatible API call successful');
+        return {
+          text: content,
+          usage: {
+            inputTokens: data.usage?.prompt_tokens ?? 0,
+            outputTokens: data.usage?.completion_tokens ?? 0,
+            model: data.model || model,
+            latencyMs: Date.now() - startedAt,
+          },
+        };
+      }
+
+      throw new Error('No content in API response');
+
+    } catch (error) {
+      throw toLLMError(error, this.getErrorContext());
+    }
+  }
+
+  /**
+   * Stream chat completions
+   * Calls /chat/completions with stream: true and reads server-sent events
+   *
+   * @param systemPrompt - System instruction
+   * @param userPrompt - User message content
+   * @param onChunk - Called with each text delta
+   * @param options - Temperature, max tokens, idle timeout, abort signal
+   * @returns Full response text and usage
+   */
+  async streamAPI(
+    systemPrompt: string,
+    userPrompt: string,
+    onChunk: (text: string) => void,
+    options: LLMCallOptions = {}
+  ): Promise<LLMResponse> {
+    if (!this.initialized) {
+      this.initialize();
+    }
+
+    const {
+      temperature = 0.5,
+      maxTokens = 1000,
+      timeoutMs = 60000, // Self-hosted servers can be slow
+      signal,
+    } = options;
+
+    const stream = new StreamController(timeoutMs, signal);
+    const startedAt = Date.now();
+    let fullText = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    try {
+      console.log('[Weaklog] OpenAI-compatible streaming call started');
+
+      const model = await this.resolveModel(stream.signal);
+      const response = await fetch(this.buildUrl('/chat/completions'), {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: JSON.stringify({
+          model,
+          messages: [
+            {
+              role: 'system',
+              content: systemPrompt,
+            },
+            {
+              role: 'user',
+              content: userPrompt,
+            },
+          ],
+          temperature,
+          max_tokens: maxTokens,
+          stream: true,
+          // Servers that support it send token usage in the final chunk
+          stream_options: { include_usage: true },
+        }),
+        signal: stream.signal,
+      });
+
+      if (!response.ok) {
+        throw await fromHttpResponse(response, this.getErrorContext());
+      }
+
+      if (!response.body) {
+        throw new Error('No response body from server');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      // Each event is a "data: {...}" line; "data: [DONE]" ends the stream
+      const handleLine = (line: string) => {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) return;
+
+        const payload = trimmed.slice(5).trim();
+        if (payload.length === 0 || payload === '[DONE]') return;
+
+        const data: ChatCompletionChunk = JSON.parse(payload);
+        if (data.error) {
+          throw new Error(`API error: ${data.error.message || 'Unknown error'}`);
+        }
+        const delta = data.choices?.[0]?.delta?.content;
+        if (delta) {
+          fullText += delta;
+          onChunk(delta);
+        }
+        if (data.usage) {
+          inputTokens = data.usage.prompt_tokens ?? 0;
+          outputTokens = data.usage.completion_tokens ?? 0;
+        }
+      };
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        stream.touch();
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        lines.forEach(handleLine);
+      }
+
+      handleLine(buffer);
+
+      console.log('[Weaklog] OpenAI-compatible streaming call complete');
+      return {
+        text: fullText,
+        usage: { inputTokens, outputTokens, model: this.model, latencyMs: Date.now() - startedAt },
+      };
+
+    } catch (error) {
+      const streamError = stream.toError(error, this.getErrorContext());
+      console.error('[Weaklog] OpenAI-compatible streaming call failed:', streamError.message);
+      throw streamError;
+
+    } finally {
+      stream.dispose();
+    }
+  }
+
+  // ========================================================================
+  // Connection Testing
+  // ========================================================================
+
+  /**
+   * Test connection to the server
+   * Lists models, then checks the configured model is served
+   *
+   * @returns true if connection successful
+   * @throws Error with user-friendly message if failed
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      console.log('[Weaklog] Testing OpenAI-compatible server connection');
+
+      const models = await this.getAvailableModels();
+
+      // Gateways may serve models they do not list, so only check when a list came back
+      if (this.model && models.length > 0 && !models.includes(this.model)) {
+        const availableModels = models.slice(0, 10).join(', ');
+        throw new LLMError(
+          'model-not-found',
+          `Model "${this.model}" not found. Available models: ${availableModels}${models.length > 10 ? ', …' : ''}`
+        );
+      }
+
+      console.log('[Weaklog] OpenAI-compatible server connection test successful');
+      return true;
+
+    } catch (error) {
+      const testError = toLLMError(error, this.getErrorContext());
+      console.error('[Weaklog] OpenAI-compatible server connection test failed:', testError.message);
+      throw testError;
+    }
+  }
+
+  // ========================================================================
+  // Model Management
+  // ========================================================================
+
+  /**
+   * Get models served by the endpoint
+   * Fetches /models
+   *
+   * @param signal - Abort signal (per-attempt timeout or caller cancellation)
+   * @returns Model identifiers
+   * @throws LLMError if the server cannot be reached or rejects the request
+   */
+  async getAvailableModels(signal?: AbortSignal): Promise<string[]> {
+    if (!this.initialized) {
+      this.initialize();
+    }
+
+    try {
+      const response = await fetch(this.buildUrl('/models'), {
+        method: 'GET',
+        headers: this.buildHeaders(),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw await fromHttpResponse(response, this.getErrorContext());
+      }
+
+      const data: ModelListResponse = await response.json();
+      return (data.data || []).map((model) => model.id).filter((id) => typeof id === 'string');
+
+    } catch (error) {
+      throw toLLMError(error, this.getErrorContext());
+    }
+  }
+
+  /**
+   * Check if client is initialized
+   * @returns true if client ready to use
+   */
+  isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  /**
+   * Get current model
+   * @returns Model identifier (empty = first model served)
+   */
+  getModel(): string {
+    return this.model;
+  }
+
+  /**
+   * Update model
+   * @param model - New model to use
+   */
+  setModel(model: string): void {
+    this.model = model;
+    console.log(`[Weaklog] OpenAI-compatible model updated to ${model}`);
+  }
+
+  /**
+   * Get model to send with a request
+   * An empty model resolves to the first model the server lists (single-model servers)
+   *
+   * @param signal - Abort signal of the request being prepared
+   * @returns Model identifier
+   * @throws Error if no model is configured and none is listed
+   */
+  private async resolveModel(signal?: AbortSignal): Promise<string> {
+    if (this.model) {
+      return this.model;
+    }
+
+    const models = await this.getAvailableModels(signal);
+    if (models.length === 0) {
+      throw new LLMError('model-not-found', 'No model configured and the server lists none. Set a model in settings.');
+    }
+
+    this.model = models[0];
+    console.log(`[Weaklog] No model configured, using ${this.model}`);
+    return this.model;
+  }
+
+  // ========================================================================
+  // Utility Methods
+  // ========================================================================
+
+  /**
+   * Build a request URL below the base URL
+   * Query parameters on the base URL (e.g. api-version) are kept
+   *
+   * @param path - API path (e.g. "/chat/completions")
+   * @returns Full URL
+   */
+  private buildUrl(path: string): string {
+    const url = new URL(this.baseUrl);
+    url.pathname = `${url.pathname.replace(/\/+$/, '')}${path}`;
+    return url.toString();
+  }
+
+  /**
+   * Build request headers
+   * Custom headers override the defaults (e.g. "api-key" for Azure-style gateways)
+   *
+   * @returns Headers
+   */
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    return { ...headers, ...this.headers };
+  }
+
+  /**
+   * Provider details for error messages
+   * The API key and header values are listed so they never appear in a message
+   */
+  private getErrorContext(): LLMErrorContext {
+    return {
+      provider: 'OpenAI-compatible endpoint',
+      model: this.model,
+      endpoint: this.baseUrl,
+      secrets: [this.apiKey, ...Object.values(this.headers)],
+      hints: {
+        auth: 'Custom headers may also be wrong.',
+        'model-not-found': 'Otherwise the base URL may be wrong (it usually ends in /v1).',
+        network: 'Is it running?',
+      },
+    };
+  }
+}
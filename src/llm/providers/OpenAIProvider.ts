@@ -3,15 +3,19 @@
  *
  * Implements ILLMProvider for OpenAI's GPT models:
  * - API initialization with key validation
- * - Retry logic with exponential backoff
- * - Timeout handling
- * - Error sanitization for security
+ * - Token streaming
+ * - Structured output via response_format json_schema
+ * - Error classification (LLMError)
  * - Connection testing
+ *
+ * Retries and timeouts are handled by LLMClient.
  */
 
 import OpenAI from 'openai';
 import { ILLMProvider } from './ILLMProvider';
-import { LLMCallOptions } from '../../types';
+import { StreamController } from './StreamController';
+import { LLMError, LLMErrorContext, toLLMError } from '../LLMError';
+import { ChatMessage, LLMCallOptions, LLMResponse } from '../../types';
 
 /**
  * OpenAI GPT provider implementation
@@ -37,13 +41,14 @@ export class OpenAIProvider implements ILLMProvider {
    */
   initialize(): void {
     if (!this.apiKey || this.apiKey.trim().length === 0) {
-      throw new Error('API key is required');
+      throw new LLMError('auth', 'OpenAI API key is required. Please add it in settings.');
     }
 
     try {
       this.client = new OpenAI({
         apiKey: this.apiKey,
         dangerouslyAllowBrowser: true, // Safe for Obsidian (Electron desktop app)
+        maxRetries: 0, // LLMClient retries
       });
       console.log('[Weaklog] OpenAI provider initialized');
     } catch (error) {
@@ -57,19 +62,37 @@ export class OpenAIProvider implements ILLMProvider {
   // ========================================================================
 
   /**
-   * Call OpenAI API with retry logic
-   * Implements exponential backoff for transient errors
+   * Call OpenAI API with a single user message
+   * Convenience wrapper around callChat
    *
    * @param systemPrompt - System instruction for GPT
    * @param userPrompt - User message content
-   * @param options - Temperature, max tokens, timeout
-   * @returns API response text
+   * @param options - Temperature, max tokens, timeout, response schema
+   * @returns API response text and usage
    */
   async callAPI(
     systemPrompt: string,
     userPrompt: string,
     options: LLMCallOptions = {}
-  ): Promise<string> {
+  ): Promise<LLMResponse> {
+    return this.callChat(systemPrompt, [{ role: 'user', content: userPrompt }], options);
+  }
+
+  /**
+   * Call OpenAI API with a multi-turn message history
+   * Single attempt; LLMClient handles retries and timeouts
+   *
+   * @param systemPrompt - System instruction for GPT
+   * @param messages - Conversation so far (first message from the user)
+   * @param options - Temperature, max tokens, response schema, abort signal
+   * @returns API response text and usage
+   * @throws LLMError on failure
+   */
+  async callChat(
+    systemPrompt: string,
+    messages: ChatMessage[],
+    options: LLMCallOptions = {}
+  ): Promise<LLMResponse> {
     if (!this.client) {
       this.initialize();
     }
@@ -77,117 +100,172 @@ export class OpenAIProvider implements ILLMProvider {
     const {
       temperature = 0.5,
       maxTokens = 1000,
-      timeoutMs = 30000,
+      responseSchema,
+      signal,
     } = options;
 
-    const maxRetries = 3;
-    const baseDelay = 1000; // 1 second
-
     // Check if this is a GPT-5 reasoning model (doesn't support temperature)
     const isReasoningModel = this.model.toLowerCase().startsWith('gpt-5') ||
                              this.model.toLowerCase().startsWith('o1') ||
                              this.model.toLowerCase().startsWith('o3');
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        console.log(`[Weaklog] OpenAI API call attempt ${attempt}/${maxRetries}`);
-
-        // Create timeout promise
-        const timeoutPromise = new Promise<never>((_, reject) => {
-          setTimeout(() => reject(new Error('API request timeout')), timeoutMs);
-        });
-
-        // Build API parameters (reasoning models don't support temperature)
-        const apiParams: any = {
-          model: this.model,
-          max_completion_tokens: maxTokens, // GPT-5+ uses max_completion_tokens instead of max_tokens
-          messages: [
-            {
-              role: 'system',
-              content: systemPrompt,
-            },
-            {
-              role: 'user',
-              content: userPrompt,
-            },
-          ],
+    const startedAt = Date.now();
+
+    try {
+      // Build API parameters (reasoning models don't support temperature)
+      const apiParams: any = {
+        model: this.model,
+        max_completion_tokens: maxTokens, // GPT-5+ uses max_completion_tokens instead of max_tokens
+        messages: [
+          {
+            role: 'system',
+            content: systemPrompt,
+          },
+          ...messages.map((message) => ({
+            role: message.role,
+            content: message.content,
+          })),
+        ],
+      };
+
+      // Only add temperature for non-reasoning models
+      if (!isReasoningModel) {
+        apiParams.temperature = temperature;
+      }
+
+      // Structured output
+      if (responseSchema) {
+        apiParams.response_format = {
+          type: 'json_schema',
+          json_schema: {
+            name: responseSchema.name,
+            description: responseSchema.description,
+            schema: responseSchema.schema,
+            strict: false,
+          },
         };
+      }
 
-        // Only add temperature for non-reasoning models
-        if (!isReasoningModel) {
-          apiParams.temperature = temperature;
+      const response = await this.client!.chat.completions.create(apiParams, { signal }) as OpenAI.ChatCompletion;
+
+      // Extract text from response
+      if (response.choices && response.choices.length > 0) {
+        const message = response.choices[0].message;
+        if (message && message.content) {
+          console.log('[Weaklog] OpenAI API call successful');
+          return {
+            text: message.content,
+            usage: {
+              inputTokens: response.usage?.prompt_tokens ?? 0,
+              outputTokens: response.usage?.completion_tokens ?? 0,
+              model: response.model || this.model,
+              latencyMs: Date.now() - startedAt,
+            },
+          };
         }
+      }
 
-        // Create API call promise
-        const apiPromise = this.client!.chat.completions.create(apiParams);
+      throw new Error('No content in API response');
 
-        // Race between API call and timeout
-        const response = await Promise.race([apiPromise, timeoutPromise]);
+    } catch (error) {
+      throw toLLMError(error, this.getErrorContext());
+    }
+  }
 
-        // Extract text from response
-        if (response.choices && response.choices.length > 0) {
-          const message = response.choices[0].message;
-          if (message && message.content) {
-            console.log('[Weaklog] OpenAI API call successful');
-            return message.content;
-          }
-        }
+  /**
+   * Stream OpenAI API response
+   * Emits content deltas from chat completion chunks
+   *
+   * @param systemPrompt - System instruction for GPT
+   * @param userPrompt - User message content
+   * @param onChunk - Called with each text delta
+   * @param options - Temperature, max tokens, idle timeout, abort signal
+   * @returns Full response text and usage
+   */
+  async streamAPI(
+    systemPrompt: string,
+    userPrompt: string,
+    onChunk: (text: string) => void,
+    options: LLMCallOptions = {}
+  ): Promise<LLMResponse> {
+    if (!this.client) {
+      this.initialize();
+    }
 
-        throw new Error('No content in API response');
-
-      } catch (error) {
-        const errorMessage = this.sanitizeError(error);
-        console.error(`[Weaklog] OpenAI API call attempt ${attempt} failed:`, errorMessage);
-
-        // Handle specific error types
-        if (error instanceof Error) {
-          // Auth errors - don't retry
-          if (error.message.includes('401') || error.message.includes('authentication') || error.message.includes('invalid_api_key')) {
-            throw new Error('Invalid API key. Please check your OpenAI API key in settings.');
-          }
-
-          // Rate limits - retry with longer backoff
-          if (error.message.includes('429') || error.message.includes('rate_limit')) {
-            if (attempt === maxRetries) {
-              throw new Error('Rate limit exceeded. Please try again later.');
-            }
-
-            const delay = baseDelay * Math.pow(2, attempt) * 2; // Double backoff for rate limits
-            console.log(`[Weaklog] Rate limited, waiting ${delay}ms before retry`);
-            await this.sleep(delay);
-            continue;
-          }
-
-          // Timeout - retry with standard backoff
-          if (error.message.includes('timeout')) {
-            if (attempt === maxRetries) {
-              throw new Error('API request timed out. Please check your connection and try again.');
-            }
-
-            const delay = baseDelay * Math.pow(2, attempt - 1);
-            console.log(`[Weaklog] Timeout, waiting ${delay}ms before retry`);
-            await this.sleep(delay);
-            continue;
-          }
-
-          // Insufficient quota
-          if (error.message.includes('insufficient_quota')) {
-            throw new Error('OpenAI quota exceeded. Please check your billing settings.');
-          }
-        }
+    const {
+      temperature = 0.5,
+      maxTokens = 1000,
+      timeoutMs = 30000,
+      signal,
+    } = options;
 
-        // Network or other transient errors - retry
-        if (attempt === maxRetries) {
-          throw new Error(`API call failed after ${maxRetries} attempts: ${errorMessage}`);
-        }
+    // Check if this is a GPT-5 reasoning model (doesn't support temperature)
+    const isReasoningModel = this.model.toLowerCase().startsWith('gpt-5') ||
+                             this.model.toLowerCase().startsWith('o1') ||
+                             this.model.toLowerCase().startsWith('o3');
+
+    const stream = new StreamController(timeoutMs, signal);
+    const startedAt = Date.now();
+    let fullText = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    try {
+      console.log('[Weaklog] OpenAI streaming call started');
+
+      const apiParams: any = {
+        model: this.model,
+        max_completion_tokens: maxTokens,
+        messages: [
+          {
+            role: 'system',
+            content: systemPrompt,
+          },
+          {
+            role: 'user',
+            content: userPrompt,
+          },
+        ],
+        stream: true,
+        // Final chunk carries token usage
+        stream_options: { include_usage: true },
+      };
 
-        const delay = baseDelay * Math.pow(2, attempt - 1);
-        console.log(`[Weaklog] Waiting ${delay}ms before retry`);
-        await this.sleep(delay);
+      if (!isReasoningModel) {
+        apiParams.temperature = temperature;
       }
-    }
 
-    throw new Error('API call failed: Maximum retries exceeded');
+      const chunks = await this.client!.chat.completions.create(apiParams, {
+        signal: stream.signal,
+      });
+
+      for await (const chunk of chunks as any) {
+        stream.touch();
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) {
+          fullText += delta;
+          onChunk(delta);
+        }
+        if (chunk.usage) {
+          inputTokens = chunk.usage.prompt_tokens ?? 0;
+          outputTokens = chunk.usage.completion_tokens ?? 0;
+        }
+      }
+
+      console.log('[Weaklog] OpenAI streaming call complete');
+      return {
+        text: fullText,
+        usage: { inputTokens, outputTokens, model: this.model, latencyMs: Date.now() - startedAt },
+      };
+
+    } catch (error) {
+      const streamError = stream.toError(error, this.getErrorContext());
+      console.error('[Weaklog] OpenAI streaming call failed:', streamError.message);
+      throw streamError;
+
+    } finally {
+      stream.dispose();
+    }
   }
 
   // ========================================================================
@@ -225,29 +303,9 @@ export class OpenAIProvider implements ILLMProvider {
       return true;
 
     } catch (error) {
-      const errorMessage = this.sanitizeError(error);
-      console.error('[Weaklog] OpenAI API connection test failed:', errorMessage);
-
-      // Provide user-friendly error messages
-      if (error instanceof Error) {
-        if (error.message.includes('401') || error.message.includes('authentication') || error.message.includes('invalid_api_key')) {
-          throw new Error('Invalid API key. Please check your OpenAI API key.');
-        }
-
-        if (error.message.includes('429') || error.message.includes('rate_limit')) {
-          throw new Error('Rate limit exceeded. Please wait a moment and try again.');
-        }
-
-        if (error.message.includes('insufficient_quota')) {
-          throw new Error('OpenAI quota exceeded. Please check your billing settings.');
-        }
-
-        if (error.message.includes('network') || error.message.includes('ENOTFOUND')) {
-          throw new Error('Network error. Please check your internet connection.');
-        }
-      }
-
-      throw new Error(`Connection test failed: ${errorMessage}`);
+      const testError = toLLMError(error, this.getErrorContext());
+      console.error('[Weaklog] OpenAI API connection test failed:', testError.message);
+      throw testError;
     }
   }
 
@@ -300,36 +358,10 @@ export class OpenAIProvider implements ILLMProvider {
   // ========================================================================
 
   /**
-   * Sleep for specified milliseconds
-   * Used for retry backoff
-   *
-   * @param ms - Milliseconds to sleep
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
-
-  /**
-   * Sanitize error messages to remove sensitive data
-   * Never expose API keys or sensitive information
-   *
-   * @param error - Error to sanitize
-   * @returns Safe error message
+   * Provider details for error messages
+   * The API key is listed so it never appears in a message
    */
-  private sanitizeError(error: unknown): string {
-    if (error instanceof Error) {
-      let message = error.message;
-
-      // Remove any API keys (sk-...)
-      message = message.replace(/sk-[a-zA-Z0-9]+/g, '[API_KEY_REDACTED]');
-
-      // Remove any authorization headers
-      message = message.replace(/authorization:?\s*[^\s]+/gi, 'authorization: [REDACTED]');
-      message = message.replace(/bearer\s+[^\s]+/gi, 'Bearer [REDACTED]');
-
-      return message;
-    }
-
-    return 'Unknown error';
+  private getErrorContext(): LLMErrorContext {
+    return { provider: 'OpenAI', model: this.model, secrets: [this.apiKey] };
   }
 }
@@ -0,0 +1,91 @@
+/**
+ * StreamController - Cancellation and idle timeout for streaming calls
+ *
+ * Shared by all providers' streamAPI implementations:
+ * - Links an optional caller AbortSignal (e.g. a "Cancel" button)
+ * - Aborts when no chunk arrives within the idle timeout
+ * - Distinguishes user cancellation from timeout
+ */
+
+import { CANCELLED_MESSAGE, LLMError, LLMErrorContext, toLLMError } from '../LLMError';
+
+/**
+ * StreamController class
+ * Wraps an AbortController with idle-timeout semantics
+ */
+export class StreamController {
+  private controller = new AbortController();
+  private idleTimeoutMs: number;
+  private timeoutId: ReturnType<typeof setTimeout> | null = null;
+  private callerSignal?: AbortSignal;
+  private timedOut = false;
+  private onCallerAbort = () => this.controller.abort();
+
+  constructor(idleTimeoutMs: number, callerSignal?: AbortSignal) {
+    this.idleTimeoutMs = idleTimeoutMs;
+    this.callerSignal = callerSignal;
+
+    if (callerSignal) {
+      if (callerSignal.aborted) {
+        this.controller.abort();
+      } else {
+        callerSignal.addEventListener('abort', this.onCallerAbort);
+      }
+    }
+
+    this.touch();
+  }
+
+  /**
+   * Signal to pass to the underlying request
+   */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * Reset idle timer - call whenever a chunk arrives
+   */
+  touch(): void {
+    if (this.timeoutId !== null) {
+      clearTimeout(this.timeoutId);
+    }
+
+    this.timeoutId = setTimeout(() => {
+      this.timedOut = true;
+      this.controller.abort();
+    }, this.idleTimeoutMs);
+  }
+
+  /**
+   * Release timer and listeners
+   * Must be called when the stream ends (success or failure)
+   */
+  dispose(): void {
+    if (this.timeoutId !== null) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+    this.callerSignal?.removeEventListener('abort', this.onCallerAbort);
+  }
+
+  /**
+   * Translate an error thrown during streaming into a classified error
+   * Cancellation and idle timeout take precedence over provider errors
+   *
+   * @param error - Error thrown by the provider SDK or fetch
+   * @param context - Provider details for the message
+   * @returns Error to rethrow
+   */
+  toError(error: unknown, context: LLMErrorContext): LLMError {
+    if (this.callerSignal?.aborted) {
+      return new LLMError('cancelled', CANCELLED_MESSAGE);
+    }
+
+    if (this.timedOut) {
+      return new LLMError('timeout', `${context.provider} stopped responding while streaming. Please try again.`);
+    }
+
+    return toLLMError(error, context);
+  }
+}
@@ -7,17 +7,33 @@
  * - Command registration (Phase 2)
  */
 
-import { Notice, Plugin, normalizePath } from 'obsidian';
-import { WeaklogSettings } from './types';
-import { DEFAULT_SETTINGS, WeaklogSettingTab } from './settings';
+import { Notice, Plugin, TFile, normalizePath } from 'obsidian';
+import { LLMProviderType, LLMTask, TriageResult, WeaklogEntry, WeaklogSettings } from './types';
+import { DEFAULT_SETTINGS, WeaklogSettingTab, getDefaultModel } from './settings';
 import { FileManager } from './managers/FileManager';
 import { CooldownManager } from './managers/CooldownManager';
+import { CooldownScheduler } from './managers/CooldownScheduler';
+import { PromptTemplateManager } from './managers/PromptTemplateManager';
+import { PublishManager } from './managers/PublishManager';
+import { PrivacyGuard } from './managers/PrivacyGuard';
+import { UsageLedger } from './managers/UsageLedger';
+import { ResponseCache } from './managers/ResponseCache';
 import { LLMClient } from './llm/LLMClient';
+import { LLMError } from './llm/LLMError';
+import { LLMRouter } from './llm/LLMRouter';
+import { Redactor } from './llm/Redactor';
 import { TriageAnalyzer } from './llm/TriageAnalyzer';
 import { SynthesisGuide } from './llm/SynthesisGuide';
 import { RawLogModal } from './views/RawLogModal';
 import { TriageModal } from './views/TriageModal';
+import { ManualTriageModal } from './views/ManualTriageModal';
 import { SynthesisModal } from './views/SynthesisModal';
+import { SynthesisChatModal } from './views/SynthesisChatModal';
+import { PrivacyReportModal } from './views/PrivacyReportModal';
+import { UsageStatsModal } from './views/UsageStatsModal';
+import { TriageHistoryModal } from './views/TriageHistoryModal';
+import { BatchTriageItem, BatchTriageModal, BatchTriageResult } from './views/BatchTriageModal';
+import { DashboardView, VIEW_TYPE_WEAKLOG_DASHBOARD } from './views/DashboardView';
 
 /**
  * Main plugin class for Weaklog Processor
@@ -27,6 +43,12 @@ export default class WeaklogPlugin extends Plugin {
   settings!: WeaklogSettings;
   fileManager!: FileManager;
   cooldownManager!: CooldownManager;
+  cooldownScheduler!: CooldownScheduler;
+  promptTemplates!: PromptTemplateManager;
+  publishManager!: PublishManager;
+  privacyGuard!: PrivacyGuard;
+  usageLedger!: UsageLedger;
+  responseCache!: ResponseCache;
 
   /**
    * Called when plugin is loaded
@@ -44,13 +66,37 @@ export default class WeaklogPlugin extends Plugin {
     // Initialize managers
     this.fileManager = new FileManager(this.app, this.settings);
     this.cooldownManager = new CooldownManager(this.app, this.settings);
+    this.promptTemplates = new PromptTemplateManager(this.app, this.settings);
+    this.publishManager = new PublishManager(this.app, this.settings);
+    this.privacyGuard = new PrivacyGuard(this.app, this.settings, this.fileManager, this.publishManager);
+    const pluginDir = this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+    this.usageLedger = new UsageLedger(this.app, this.settings, pluginDir);
+    this.responseCache = new ResponseCache(this.app, this.settings, pluginDir);
 
     // Register settings tab
     this.addSettingTab(new WeaklogSettingTab(this.app, this));
 
+    // Register dashboard view
+    this.registerView(
+      VIEW_TYPE_WEAKLOG_DASHBOARD,
+      (leaf) => new DashboardView(leaf, this.fileManager, this.cooldownManager, this.settings)
+    );
+    this.addRibbonIcon('layout-dashboard', 'Open Weaklog Dashboard', () => {
+      this.activateDashboard();
+    });
+
     // Register commands
     this.registerCommands();
 
+    // Start background cooldown notifications once the vault is indexed
+    this.cooldownScheduler = new CooldownScheduler(
+      this,
+      this.cooldownManager,
+      this.settings,
+      () => this.activateDashboard()
+    );
+    this.app.workspace.onLayoutReady(() => this.cooldownScheduler.start());
+
     console.log('[Weaklog] Plugin loaded successfully');
   }
 
@@ -72,6 +118,31 @@ export default class WeaklogPlugin extends Plugin {
    */
   async loadSettings(): Promise<void> {
     this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+
+    // Copy rubric so settings edits never mutate the shared default
+    this.settings.triageRubric = JSON.parse(JSON.stringify(this.settings.triageRubric));
+
+    // Merge per-provider toggles so newly added providers get a default
+    this.settings.redactPersonalData = {
+      ...DEFAULT_SETTINGS.redactPersonalData,
+      ...this.settings.redactPersonalData,
+    };
+
+    // Copy prices so settings edits never mutate the shared default
+    this.settings.modelPrices = { ...this.settings.modelPrices };
+
+    // Copy lists and headers so settings edits never mutate the shared default
+    this.settings.exportTags = [...this.settings.exportTags];
+    this.settings.privacyCustomPatterns = [...this.settings.privacyCustomPatterns];
+    this.settings.redactionCustomPatterns = [...this.settings.redactionCustomPatterns];
+    this.settings.fallbackProviders = [...this.settings.fallbackProviders];
+    this.settings.openaiCompatibleHeaders = { ...this.settings.openaiCompatibleHeaders };
+
+    // Copy task profiles, filling tasks missing from older settings
+    this.settings.taskProfiles = JSON.parse(JSON.stringify({
+      ...DEFAULT_SETTINGS.taskProfiles,
+      ...this.settings.taskProfiles,
+    }));
   }
 
   /**
@@ -159,22 +230,64 @@ export default class WeaklogPlugin extends Plugin {
   }
 
   /**
-   * Get configured LLM client based on current provider settings
-   * Supports environment variable WEAKLOG_API_KEY for all providers
+   * Get configured LLM client for a provider/model, with the fallback chain attached
+   * Defaults to the main provider settings
+   *
+   * @param provider - Provider to use (default: settings.llmProvider)
+   * @param model - Model to use (default: settings.model)
+   * @returns Configured and initialized LLMClient
+   * @throws Error if provider not configured or API key missing
+   */
+  async getLLMClient(
+    provider: LLMProviderType = this.settings.llmProvider,
+    model: string = this.settings.model
+  ): Promise<LLMClient> {
+    const llmClient = await this.createProviderClient(provider, model);
+
+    // Fallbacks that cannot be configured are skipped; the primary still works
+    const fallbacks: LLMClient[] = [];
+    for (const fallbackProvider of this.settings.fallbackProviders) {
+      if (fallbackProvider === provider) {
+        continue;
+      }
+      try {
+        fallbacks.push(await this.createProviderClient(fallbackProvider, getDefaultModel(this.settings, fallbackProvider)));
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.warn(`[Weaklog] Skipping fallback provider ${fallbackProvider}: ${errorMessage}`);
+      }
+    }
+
+    if (fallbacks.length > 0) {
+      llmClient.setFallbacks(fallbacks);
+      console.log(`[Weaklog] Fallback providers: ${fallbacks.map((client) => client.getProviderType()).join(' → ')}`);
+    }
+
+    // Record tokens and cost, and enforce the monthly budget
+    llmClient.setUsageLedger(this.usageLedger);
+
+    // Reuse responses to identical triage and question requests
+    llmClient.setResponseCache(this.responseCache);
+
+    return llmClient;
+  }
+
+  /**
+   * Create LLM client for a single provider/model
    *
    * Priority for API keys:
-   * 1. Environment variable WEAKLOG_API_KEY (highest priority)
+   * 1. Environment variable WEAKLOG_API_KEY (highest priority, default provider only)
    * 2. Provider-specific settings (anthropicApiKey, openaiApiKey, etc.)
    * 3. Legacy apiKey field (Anthropic only)
    *
+   * @param provider - Provider to use
+   * @param model - Model to use
    * @returns Configured and initialized LLMClient
-   * @throws Error if provider not configured or API key missing
+   * @throws LLMError (kind "auth" or "config") if the API key or endpoint is missing
    */
-  async getLLMClient(): Promise<LLMClient> {
-    const provider = this.settings.llmProvider;
-
-    // Check environment variable first (universal for all providers)
-    const envKey = typeof process !== 'undefined' && process.env?.WEAKLOG_API_KEY
+  private async createProviderClient(provider: LLMProviderType, model: string): Promise<LLMClient> {
+    // Environment variable holds the default provider's key; never send it to another provider
+    const envKey = provider === this.settings.llmProvider && typeof process !== 'undefined' && process.env?.WEAKLOG_API_KEY
       ? process.env.WEAKLOG_API_KEY
       : null;
 
@@ -184,11 +297,11 @@ export default class WeaklogPlugin extends Plugin {
       case 'anthropic': {
         const apiKey = envKey || this.settings.anthropicApiKey || this.settings.apiKey;
         if (!apiKey) {
-          throw new Error('Anthropic API key not configured. Please set WEAKLOG_API_KEY environment variable or configure in settings.');
+          throw new LLMError('auth', 'Anthropic API key not configured. Please set WEAKLOG_API_KEY environment variable or configure in settings.');
         }
         llmClient = LLMClient.createFromConfig('anthropic', {
           apiKey,
-          model: this.settings.model,
+          model,
         });
         break;
       }
@@ -196,11 +309,11 @@ export default class WeaklogPlugin extends Plugin {
       case 'openai': {
         const apiKey = envKey || this.settings.openaiApiKey;
         if (!apiKey) {
-          throw new Error('OpenAI API key not configured. Please set WEAKLOG_API_KEY environment variable or configure in settings.');
+          throw new LLMError('auth', 'OpenAI API key not configured. Please set WEAKLOG_API_KEY environment variable or configure in settings.');
         }
         llmClient = LLMClient.createFromConfig('openai', {
           apiKey,
-          model: this.settings.model,
+          model,
         });
         break;
       }
@@ -208,11 +321,11 @@ export default class WeaklogPlugin extends Plugin {
       case 'gemini': {
         const apiKey = envKey || this.settings.geminiApiKey;
         if (!apiKey) {
-          throw new Error('Gemini API key not configured. Please set WEAKLOG_API_KEY environment variable or configure in settings.');
+          throw new LLMError('auth', 'Gemini API key not configured. Please set WEAKLOG_API_KEY environment variable or configure in settings.');
         }
         llmClient = LLMClient.createFromConfig('gemini', {
           apiKey,
-          model: this.settings.model,
+          model,
         });
         break;
       }
@@ -221,18 +334,42 @@ export default class WeaklogPlugin extends Plugin {
         const endpoint = this.settings.ollamaEndpoint || 'http://localhost:11434';
         llmClient = LLMClient.createFromConfig('ollama', {
           endpoint,
-          model: this.settings.model,
+          model,
+        });
+        break;
+      }
+
+      case 'openai-compatible': {
+        const endpoint = this.settings.openaiCompatibleBaseUrl;
+        if (!endpoint) {
+          throw new LLMError('config', 'OpenAI-compatible base URL not configured. Please set it in settings.');
+        }
+        llmClient = LLMClient.createFromConfig('openai-compatible', {
+          endpoint,
+          apiKey: envKey || this.settings.openaiCompatibleApiKey || undefined,
+          headers: this.settings.openaiCompatibleHeaders,
+          model,
         });
         break;
       }
 
       default:
-        throw new Error(`Unknown LLM provider: ${provider}`);
+        throw new LLMError('config', `Unknown LLM provider: ${provider}`);
     }
 
     // Initialize the client
     llmClient.initialize();
 
+    // Redact personal data locally before anything is sent
+    if (this.settings.redactPersonalData[provider]) {
+      const names = await this.fileManager.readNameList(this.settings.privacyNameListPath);
+      if (names === null) {
+        throw new Error(`Redaction name list not found: ${this.settings.privacyNameListPath}. Fix the path in settings before sending entries.`);
+      }
+      llmClient.setRedactor(new Redactor(names, this.settings.redactionCustomPatterns));
+      console.log(`[Weaklog] Redaction enabled for ${provider} (${names.length} names)`);
+    }
+
     if (envKey) {
       console.log(`[Weaklog] Using ${provider} provider with environment variable WEAKLOG_API_KEY`);
     } else {
@@ -242,6 +379,22 @@ export default class WeaklogPlugin extends Plugin {
     return llmClient;
   }
 
+  /**
+   * Create a task router for the current settings
+   * Clients for the given tasks are created up front so configuration errors surface immediately
+   *
+   * @param tasks - Tasks the caller will use
+   * @returns Router
+   * @throws Error if a required provider is not configured
+   */
+  async createLLMRouter(...tasks: LLMTask[]): Promise<LLMRouter> {
+    const router = new LLMRouter(this.settings, (provider, model) => this.getLLMClient(provider, model));
+    for (const task of tasks) {
+      await router.getClient(task);
+    }
+    return router;
+  }
+
   // ========================================================================
   // Folder Structure Management
   // ========================================================================
@@ -284,6 +437,25 @@ export default class WeaklogPlugin extends Plugin {
     console.log('[Weaklog] Folder structure verified');
   }
 
+  // ========================================================================
+  // Dashboard
+  // ========================================================================
+
+  /**
+   * Open the dashboard view, reusing an existing leaf if present
+   */
+  async activateDashboard(): Promise<void> {
+    const { workspace } = this.app;
+
+    let leaf = workspace.getLeavesOfType(VIEW_TYPE_WEAKLOG_DASHBOARD)[0];
+    if (!leaf) {
+      leaf = workspace.getLeaf('tab');
+      await leaf.setViewState({ type: VIEW_TYPE_WEAKLOG_DASHBOARD, active: true });
+    }
+
+    await workspace.revealLeaf(leaf);
+  }
+
   // ========================================================================
   // Command Registration
   // ========================================================================
@@ -371,6 +543,123 @@ export default class WeaklogPlugin extends Plugin {
       },
     });
 
+    // Command 6: Triage All Ready Entries (Step 3, batch)
+    this.addCommand({
+      id: 'weaklog:triage-all-ready',
+      name: 'Triage All Ready Entries',
+      callback: () => {
+        this.handleBatchTriageCommand();
+      },
+    });
+
+    // Command 7: Synthesize Entry as Conversation (Step 4, multi-turn)
+    this.addCommand({
+      id: 'weaklog:synthesize-chat',
+      name: 'Synthesize Entry (Conversation)',
+      checkCallback: (checking: boolean) => {
+        const file = this.app.workspace.getActiveFile();
+
+        // Only available if active file is in 03_Triaged
+        if (file && file.path.includes('/03_Triaged/')) {
+          if (!checking) {
+            this.handleSynthesizeChatCommand(file);
+          }
+          return true;
+        }
+        return false;
+      },
+    });
+
+    // Command 8: Triage Entry Manually (Step 3, no LLM)
+    this.addCommand({
+      id: 'weaklog:triage-manually',
+      name: 'Triage Entry Manually',
+      checkCallback: (checking: boolean) => {
+        const file = this.app.workspace.getActiveFile();
+
+        // Only available if active file is in 02_Cooling
+        if (file && file.path.includes('/02_Cooling/')) {
+          if (!checking) {
+            this.handleManualTriageCommand(file);
+          }
+          return true;
+        }
+        return false;
+      },
+    });
+
+    // Command 9: Open Dashboard
+    this.addCommand({
+      id: 'weaklog:open-dashboard',
+      name: 'Open Dashboard',
+      callback: () => {
+        this.activateDashboard();
+      },
+    });
+
+    // Command 10: Show LLM usage and cost
+    this.addCommand({
+      id: 'weaklog:usage-stats',
+      name: 'Show LLM Usage and Cost',
+      callback: () => {
+        new UsageStatsModal(this.app, this.usageLedger, this.settings).open();
+      },
+    });
+
+    // Command 11: Triage Entry without the response cache (Step 3)
+    this.addCommand({
+      id: 'weaklog:triage-refresh',
+      name: 'Triage Entry (Skip Cache)',
+      checkCallback: (checking: boolean) => {
+        const file = this.app.workspace.getActiveFile();
+
+        // Only available if active file is in 02_Cooling
+        if (file && file.path.includes('/02_Cooling/')) {
+          if (!checking) {
+            this.handleTriageCommand(file, true);
+          }
+          return true;
+        }
+        return false;
+      },
+    });
+
+    // Command 12: Synthesize Entry without the response cache (Step 4)
+    this.addCommand({
+      id: 'weaklog:synthesize-refresh',
+      name: 'Synthesize Entry (Skip Cache)',
+      checkCallback: (checking: boolean) => {
+        const file = this.app.workspace.getActiveFile();
+
+        // Only available if active file is in 03_Triaged
+        if (file && file.path.includes('/03_Triaged/')) {
+          if (!checking) {
+            this.handleSynthesizeCommand(file, true);
+          }
+          return true;
+        }
+        return false;
+      },
+    });
+
+    // Command 13: Show triage runs of the active entry
+    this.addCommand({
+      id: 'weaklog:triage-history',
+      name: 'Show Triage History',
+      checkCallback: (checking: boolean) => {
+        const file = this.app.workspace.getActiveFile();
+
+        // Available for any entry in the weaklog folder
+        if (file && file.path.startsWith(`${this.settings.weaklogFolderPath}/`)) {
+          if (!checking) {
+            this.handleTriageHistoryCommand(file);
+          }
+          return true;
+        }
+        return false;
+      },
+    });
+
     console.log('[Weaklog] Commands registered');
   }
 
@@ -381,8 +670,12 @@ export default class WeaklogPlugin extends Plugin {
   /**
    * Handle triage command
    * Analyzes entry with AI and displays results in TriageModal
+   * Unchanged entries are answered from the response cache unless refreshed
+   *
+   * @param file - Entry file in 02_Cooling
+   * @param forceRefresh - Call the LLM even if a cached result exists
    */
-  private async handleTriageCommand(file: any): Promise<void> {
+  private async handleTriageCommand(file: any, forceRefresh: boolean = false): Promise<void> {
     try {
       // Read entry
       const entry = await this.fileManager.readWeaklogEntry(file);
@@ -395,14 +688,21 @@ export default class WeaklogPlugin extends Plugin {
       const loadingNotice = new Notice('🤖 Analyzing entry with AI...', 0);
 
       try {
-        // Get configured LLM client
-        const llmClient = await this.getLLMClient();
+        // Route triage to its configured provider/model
+        const router = await this.createLLMRouter('triage');
 
         // Analyze with triage
-        const analyzer = new TriageAnalyzer(llmClient, this.settings.triageTemperature);
+        const analyzer = new TriageAnalyzer(
+          router,
+          this.settings.triageTemperature,
+          this.settings.triageRubric,
+          this.promptTemplates
+        );
         const triageResult = await analyzer.analyzeEntry(
           entry.content,
-          this.settings.responseLanguage
+          this.settings.responseLanguage,
+          file.basename,
+          forceRefresh
         );
 
         // Hide loading notice
@@ -414,7 +714,14 @@ export default class WeaklogPlugin extends Plugin {
           this.fileManager,
           this.cooldownManager,
           file,
-          triageResult
+          triageResult,
+          {
+            rubric: this.settings.triageRubric,
+            reviewLaterDays: this.settings.reviewLaterDays,
+            onDecision: () => this.cooldownScheduler.rearm(),
+            onRetry: () => this.handleTriageCommand(file, true),
+            onManualTriage: () => this.handleManualTriageCommand(file, triageResult.coreQuestion),
+          }
         );
         modal.open();
 
@@ -430,44 +737,229 @@ export default class WeaklogPlugin extends Plugin {
     }
   }
 
+  /**
+   * Handle manual triage command
+   * Collects a human judgement, then shows it in TriageModal for Adopt/Review/Reject
+   *
+   * @param file - Entry file in 02_Cooling
+   * @param initialCoreQuestion - Optional core question to prefill
+   */
+  private handleManualTriageCommand(file: TFile, initialCoreQuestion: string = ''): void {
+    const modal = new ManualTriageModal(
+      this.app,
+      file,
+      this.settings.triageRubric,
+      (triageResult) => {
+        if (!triageResult) {
+          return;
+        }
+
+        new TriageModal(
+          this.app,
+          this.fileManager,
+          this.cooldownManager,
+          file,
+          triageResult,
+          {
+            rubric: this.settings.triageRubric,
+            reviewLaterDays: this.settings.reviewLaterDays,
+            onDecision: () => this.cooldownScheduler.rearm(),
+          }
+        ).open();
+      },
+      initialCoreQuestion
+    );
+    modal.open();
+  }
+
+  /**
+   * Handle triage history command
+   * Entries triaged before history was kept show their last result as a single run
+   *
+   * @param file - Entry file
+   */
+  private async handleTriageHistoryCommand(file: TFile): Promise<void> {
+    const entry = await this.fileManager.readWeaklogEntry(file);
+    if (!entry) {
+      new Notice('❌ Failed to read entry', 3000);
+      return;
+    }
+
+    let history = entry.triageHistory ?? [];
+    if (history.length === 0 && entry.triageResult) {
+      history = [FileManager.createHistoryEntry(entry.triageResult, null, entry.triageResult.timestamp)];
+    }
+
+    new TriageHistoryModal(this.app, file, history, this.settings.triageRubric).open();
+  }
+
+  /**
+   * Handle batch triage command
+   * Analyzes all ready entries with a progress modal, then opens review queue
+   */
+  private async handleBatchTriageCommand(): Promise<void> {
+    try {
+      const ready = await this.cooldownManager.getReadyEntries();
+      if (ready.length === 0) {
+        new Notice('No entries ready for triage yet', 3000);
+        return;
+      }
+
+      // Resolve files and read content
+      const items: BatchTriageItem[] = [];
+      for (const cooldownEntry of ready) {
+        const file = this.app.vault.getAbstractFileByPath(cooldownEntry.filePath);
+        if (!(file instanceof TFile)) {
+          console.warn(`[Weaklog] Ready entry file not found: ${cooldownEntry.filePath}`);
+          continue;
+        }
+
+        const entry = await this.fileManager.readWeaklogEntry(file);
+        if (!entry || entry.content.trim().length === 0) {
+          console.warn(`[Weaklog] Skipping unreadable entry: ${cooldownEntry.weaklogId}`);
+          continue;
+        }
+
+        items.push({ weaklogId: cooldownEntry.weaklogId, file, content: entry.content });
+      }
+
+      if (items.length === 0) {
+        new Notice('❌ No readable ready entries found', 3000);
+        return;
+      }
+
+      const router = await this.createLLMRouter('triage');
+      const analyzer = new TriageAnalyzer(
+        router,
+        this.settings.triageTemperature,
+        this.settings.triageRubric,
+        this.promptTemplates
+      );
+
+      const modal = new BatchTriageModal(
+        this.app,
+        items,
+        analyzer,
+        this.settings.responseLanguage,
+        this.settings.batchTriageConcurrency,
+        (results) => this.openTriageQueue(results, 0, analyzer)
+      );
+      modal.open();
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[Weaklog] Batch triage command failed:', error);
+      new Notice(`❌ Batch triage failed: ${errorMessage}`, 5000);
+    }
+  }
+
+  /**
+   * Step through batch triage results one TriageModal at a time
+   * Dismissing a modal pauses the queue
+   *
+   * @param results - Successful batch results
+   * @param index - Index of result to show
+   * @param analyzer - Analyzer used for retrying failed analyses
+   */
+  private openTriageQueue(results: BatchTriageResult[], index: number, analyzer: TriageAnalyzer): void {
+    if (index >= results.length) {
+      new Notice(`✓ Review queue complete (${results.length} entries)`, 3000);
+      return;
+    }
+
+    const { item, triageResult } = results[index];
+    const modal = new TriageModal(
+      this.app,
+      this.fileManager,
+      this.cooldownManager,
+      item.file,
+      triageResult,
+      {
+        queuePosition: { index: index + 1, total: results.length },
+        rubric: this.settings.triageRubric,
+        reviewLaterDays: this.settings.reviewLaterDays,
+        onDecision: (decision) => {
+          this.cooldownScheduler.rearm();
+          if (decision === null) {
+            const remaining = results.length - index;
+            new Notice(`Review queue paused (${remaining} remaining)`, 3000);
+            return;
+          }
+          this.openTriageQueue(results, index + 1, analyzer);
+        },
+        onRetry: async () => {
+          const loadingNotice = new Notice('🤖 Re-analyzing entry with AI...', 0);
+          try {
+            const retried = await analyzer.analyzeEntry(item.content, this.settings.responseLanguage, item.weaklogId, true);
+            results[index] = { item, triageResult: retried };
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            new Notice(`❌ Triage failed: ${errorMessage}`, 5000);
+          } finally {
+            loadingNotice.hide();
+          }
+          this.openTriageQueue(results, index, analyzer);
+        },
+        onManualTriage: () => {
+          const modal = new ManualTriageModal(this.app, item.file, this.settings.triageRubric, (manualResult) => {
+            if (manualResult) {
+              results[index] = { item, triageResult: manualResult };
+            }
+            this.openTriageQueue(results, index, analyzer);
+          });
+          modal.open();
+        },
+      }
+    );
+    modal.open();
+  }
+
   /**
    * Handle synthesize command
    * Generates AI questions and opens SynthesisModal for transformation
+   * Resumes the autosaved session (same questions and answers) if one exists
+   *
+   * @param file - Entry file in 03_Triaged
+   * @param forceRefresh - Generate new questions even if cached ones exist
    */
-  private async handleSynthesizeCommand(file: any): Promise<void> {
+  private async handleSynthesizeCommand(file: any, forceRefresh: boolean = false): Promise<void> {
     try {
-      // Read entry
-      const entry = await this.fileManager.readWeaklogEntry(file);
+      const entry = await this.readTriagedEntry(file);
       if (!entry) {
-        new Notice('❌ Failed to read entry', 3000);
         return;
       }
 
-      // Validate triage result exists
-      if (!entry.triageResult) {
-        new Notice('❌ Entry has no triage result. Please triage first.', 5000);
-        console.error('[Weaklog] Synthesize attempted on entry without triage result');
-        return;
-      }
+      // Resume an autosaved session instead of regenerating questions
+      const session = entry.synthesisSession;
 
       // Show loading notice
-      const loadingNotice = new Notice('🤖 Generating synthesis questions...', 0);
+      const loadingNotice = new Notice(
+        session ? '🤖 Restoring synthesis session...' : '🤖 Generating synthesis questions...',
+        0
+      );
 
       try {
-        // Get configured LLM client
-        const llmClient = await this.getLLMClient();
-
-        // Generate synthesis questions
-        const synthesisGuide = new SynthesisGuide(llmClient, this.settings.synthesisTemperature);
-        const guide = await synthesisGuide.generateQuestions(
-          entry.content,
-          entry.triageResult,
-          this.settings.responseLanguage
-        );
+        // Route questions and drafts to their configured providers/models
+        const router = await this.createLLMRouter('questions', 'draft');
+
+        // Generate synthesis questions (skipped when resuming)
+        const synthesisGuide = new SynthesisGuide(router, this.settings.synthesisTemperature, this.promptTemplates, file.basename);
+        const guide = session
+          ? session.guide
+          : await synthesisGuide.generateQuestions(
+              entry.content,
+              entry.triageResult,
+              this.settings.responseLanguage,
+              forceRefresh
+            );
 
         // Hide loading notice
         loadingNotice.hide();
 
+        if (session) {
+          new Notice(`✓ Restored synthesis session from ${new Date(session.updatedAt).toLocaleString()}`, 3000);
+        }
+
         // Open synthesis modal
         const modal = new SynthesisModal(
           this.app,
@@ -477,7 +969,8 @@ export default class WeaklogPlugin extends Plugin {
           synthesisGuide,
           entry.triageResult,
           entry.content,
-          this.settings.responseLanguage
+          this.settings.responseLanguage,
+          session
         );
         modal.open();
 
@@ -493,23 +986,126 @@ export default class WeaklogPlugin extends Plugin {
     }
   }
 
+  /**
+   * Handle conversational synthesize command
+   * Opens SynthesisChatModal, which asks adaptive questions one at a time
+   */
+  private async handleSynthesizeChatCommand(file: TFile): Promise<void> {
+    try {
+      const entry = await this.readTriagedEntry(file);
+      if (!entry) {
+        return;
+      }
+
+      const router = await this.createLLMRouter('questions');
+      const synthesisGuide = new SynthesisGuide(router, this.settings.synthesisTemperature, this.promptTemplates, file.basename);
+
+      const modal = new SynthesisChatModal(
+        this.app,
+        this.fileManager,
+        file,
+        synthesisGuide,
+        entry.triageResult,
+        entry.content,
+        this.settings.responseLanguage
+      );
+      modal.open();
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[Weaklog] Synthesis chat command failed:', error);
+      new Notice(`❌ Synthesis failed: ${errorMessage}`, 5000);
+    }
+  }
+
+  /**
+   * Read an entry for synthesis and validate its triage result
+   * Shows a notice and returns null if the entry cannot be synthesized
+   *
+   * @param file - Entry file in 03_Triaged
+   * @returns Entry with a genuine triage result, or null
+   */
+  private async readTriagedEntry(file: TFile): Promise<(WeaklogEntry & { triageResult: TriageResult }) | null> {
+    const entry = await this.fileManager.readWeaklogEntry(file);
+    if (!entry) {
+      new Notice('❌ Failed to read entry', 3000);
+      return null;
+    }
+
+    // Validate triage result exists and is genuine
+    if (!entry.triageResult) {
+      new Notice('❌ Entry has no triage result. Please triage first.', 5000);
+      console.error('[Weaklog] Synthesize attempted on entry without triage result');
+      return null;
+    }
+
+    if (entry.triageResult.provenance === 'fallback') {
+      new Notice('❌ Stored triage result is from a failed analysis. Please triage again.', 5000);
+      console.error('[Weaklog] Synthesize attempted on entry with fallback triage result');
+      return null;
+    }
+
+    return entry as WeaklogEntry & { triageResult: TriageResult };
+  }
+
   /**
    * Handle publish command
-   * Finalizes entry and moves to 05_Published folder
+   * Runs the privacy check, asking for confirmation if anything is found
+   */
+  private async handlePublishCommand(file: TFile): Promise<void> {
+    try {
+      if (!this.settings.privacyGuardEnabled) {
+        await this.publishEntry(file, 'skipped');
+        return;
+      }
+
+      const report = await this.privacyGuard.check(file);
+      if (report.findings.length === 0 && report.warnings.length === 0) {
+        await this.publishEntry(file, 'passed');
+        return;
+      }
+
+      new PrivacyReportModal(this.app, file, report, () => {
+        this.publishEntry(file, 'overridden');
+      }).open();
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[Weaklog] Publish command failed:', error);
+      new Notice(`❌ Failed to publish: ${errorMessage}`, 5000);
+    }
+  }
+
+  /**
+   * Publish an entry
+   * Exports the final draft, moves the quoted raw entry to the archive,
+   * then finalizes entry and moves to 05_Published folder
+   *
+   * @param file - Synthesized note
+   * @param privacyCheck - Privacy check outcome recorded in frontmatter
    */
-  private async handlePublishCommand(file: any): Promise<void> {
+  private async publishEntry(file: TFile, privacyCheck: 'passed' | 'overridden' | 'skipped'): Promise<void> {
     try {
-      console.log('[Weaklog] Publishing entry');
+      console.log(`[Weaklog] Publishing entry (privacy check: ${privacyCheck})`);
+
+      // Export the final draft only; refuses notes without one
+      const exported = await this.publishManager.exportEntry(file);
+
+      // Keep the raw entry out of the published note
+      const originalPath = await this.publishManager.removeOriginalEntry(file);
 
-      // Update frontmatter with published status and timestamp
+      // Update frontmatter with published timestamp and export location
       await this.fileManager.updateFrontmatter(file, {
         published_at: new Date().toISOString(),
+        export_path: exported.path,
+        privacy_check: privacyCheck,
+        ...(originalPath ? { original_entry_path: originalPath } : {}),
       });
 
       // Move to 05_Published
       const publishedFile = await this.fileManager.moveFile(file, 'published');
 
-      new Notice(`✓ Entry published: ${file.basename}`, 3000);
+      new Notice(`✓ Entry published: ${file.basename} → ${exported.path}`, 3000);
       console.log('[Weaklog] Entry published successfully');
 
       // Open the published file
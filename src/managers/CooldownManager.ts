@@ -5,6 +5,7 @@
  * - Reads and writes .cooldown.json
  * - Registers new entries with cooldown periods
  * - Tracks which entries are ready for triage
+ * - Counts "Review Later" deferrals and flags entries that need a decision
  * - Provides user notifications for ready entries
  *
  * Data stored in: Weaklog/02_Cooling/.cooldown.json
@@ -19,10 +20,12 @@ import { WeaklogSettings, CooldownData, CooldownEntry } from '../types';
  */
 export class CooldownManager {
   private app: App;
+  private settings: WeaklogSettings;
   private cooldownFilePath: string;
 
   constructor(app: App, settings: WeaklogSettings) {
     this.app = app;
+    this.settings = settings;
     this.cooldownFilePath = normalizePath(
       `${settings.weaklogFolderPath}/02_Cooling/.cooldown.json`
     );
@@ -113,11 +116,13 @@ export class CooldownManager {
   /**
    * Register new entry for cooldown tracking
    * Calculates readyAt timestamp based on cooldownDays
+   * Re-registering (e.g. after "Review Later") replaces the previous entry
    *
    * @param file - File to register
    * @param cooldownDays - Number of days to cool down
+   * @param deferrals - Times the entry was sent back with "Review Later"
    */
-  async registerEntry(file: TFile, cooldownDays: number): Promise<void> {
+  async registerEntry(file: TFile, cooldownDays: number, deferrals: number = 0): Promise<void> {
     const data = await this.loadCooldownData();
     const createdAt = new Date().toISOString();
 
@@ -134,6 +139,9 @@ export class CooldownManager {
       cooldownDays,
       readyAt,
     };
+    if (deferrals > 0) {
+      entry.deferrals = deferrals;
+    }
 
     // Remove existing entry if present (update scenario)
     data.entries = data.entries.filter((e) => e.weaklogId !== file.basename);
@@ -192,6 +200,29 @@ export class CooldownManager {
     });
   }
 
+  /**
+   * Get the tracked entry for an ID
+   *
+   * @param weaklogId - Entry ID
+   * @returns CooldownEntry, or null if not tracked
+   */
+  async getEntry(weaklogId: string): Promise<CooldownEntry | null> {
+    const data = await this.loadCooldownData();
+    return data.entries.find((e) => e.weaklogId === weaklogId) ?? null;
+  }
+
+  /**
+   * Check whether an entry was deferred too often and needs a decision
+   * Uses the "Review Later Limit" setting (0 = never)
+   *
+   * @param entry - Tracked entry
+   * @returns true if deferrals exceed the limit
+   */
+  needsDecision(entry: CooldownEntry): boolean {
+    const limit = this.settings.maxReviewDeferrals;
+    return limit > 0 && (entry.deferrals ?? 0) > limit;
+  }
+
   // ========================================================================
   // User-Facing Status Check
   // ========================================================================
@@ -211,11 +242,16 @@ export class CooldownManager {
     }
 
     // Build notification message
-    const message =
+    let message =
       ready.length === 1
         ? `1 entry is ready for triage: ${ready[0].weaklogId}`
         : `${ready.length} entries are ready for triage`;
 
+    const undecided = ready.filter((entry) => this.needsDecision(entry)).length;
+    if (undecided > 0) {
+      message += ` (${undecided} deferred too often, time to decide)`;
+    }
+
     new Notice(message, 5000);
 
     // Log details to console for debugging
@@ -0,0 +1,237 @@
+/**
+ * CooldownScheduler - Background readiness notifications
+ *
+ * Watches cooldown tracking so nobody has to run the check command:
+ * - Arms a timer for the next readyAt in .cooldown.json
+ * - Re-arms on vault changes and after sleep/wake
+ * - Raises a Notice with links when entries become ready
+ * - Optionally shows a status-bar badge with the ready count
+ */
+
+import { Notice, Plugin, TAbstractFile, debounce } from 'obsidian';
+import { CooldownManager } from './CooldownManager';
+import { CooldownEntry, WeaklogSettings } from '../types';
+
+/** Heartbeat interval used to detect sleep/wake gaps */
+const HEARTBEAT_MS = 60 * 1000;
+
+/** Upper bound for a single timer (setTimeout drifts across sleep) */
+const MAX_TIMER_MS = 60 * 60 * 1000;
+
+/**
+ * CooldownScheduler class
+ * Fires notifications automatically when entries finish cooling
+ */
+export class CooldownScheduler {
+  private plugin: Plugin;
+  private cooldownManager: CooldownManager;
+  private settings: WeaklogSettings;
+  private onBadgeClick: () => void;
+  private timerId: number | null = null;
+  private stopped = false;
+
+  /** Incremented by each rearm() and by stop(); only the latest rearm() may arm a timer */
+  private generation = 0;
+  private lastHeartbeat = Date.now();
+  private notifiedIds = new Set<string>();
+  private statusBarEl: HTMLElement | null = null;
+  private requestRearm = debounce(() => this.rearm(), 2000, true);
+
+  constructor(
+    plugin: Plugin,
+    cooldownManager: CooldownManager,
+    settings: WeaklogSettings,
+    onBadgeClick: () => void
+  ) {
+    this.plugin = plugin;
+    this.cooldownManager = cooldownManager;
+    this.settings = settings;
+    this.onBadgeClick = onBadgeClick;
+  }
+
+  // ========================================================================
+  // Lifecycle
+  // ========================================================================
+
+  /**
+   * Start scheduling
+   * Registers vault listeners and heartbeat, then arms the first timer
+   */
+  start(): void {
+    const { app } = this.plugin;
+    this.stopped = false;
+
+    // Re-arm when weaklog files are created, moved or removed
+    const onVaultChange = (file: TAbstractFile) => {
+      if (file.path.startsWith(`${this.settings.weaklogFolderPath}/`)) {
+        this.requestRearm();
+      }
+    };
+    this.plugin.registerEvent(app.vault.on('create', onVaultChange));
+    this.plugin.registerEvent(app.vault.on('delete', onVaultChange));
+    this.plugin.registerEvent(app.vault.on('rename', onVaultChange));
+
+    // Detect sleep/wake: a heartbeat arriving much later than expected
+    this.plugin.registerInterval(
+      window.setInterval(() => {
+        const now = Date.now();
+        if (now - this.lastHeartbeat > HEARTBEAT_MS * 2) {
+          console.log('[Weaklog] Wake from sleep detected, re-arming cooldown scheduler');
+          this.rearm();
+        }
+        this.lastHeartbeat = now;
+      }, HEARTBEAT_MS)
+    );
+
+    this.plugin.register(() => this.stop());
+
+    this.rearm();
+    console.log('[Weaklog] Cooldown scheduler started');
+  }
+
+  /**
+   * Stop scheduling and remove the status-bar badge
+   */
+  stop(): void {
+    this.stopped = true;
+    this.generation++;
+    this.clearTimer();
+    this.statusBarEl?.remove();
+    this.statusBarEl = null;
+  }
+
+  // ========================================================================
+  // Scheduling
+  // ========================================================================
+
+  /**
+   * Check for ready entries and arm timer for the next readyAt
+   * Safe to call at any time; replaces any pending timer.
+   * If calls overlap, only the latest one acts; none acts after stop().
+   */
+  async rearm(): Promise<void> {
+    if (this.stopped) {
+      return;
+    }
+    const generation = ++this.generation;
+
+    let entries: CooldownEntry[];
+    try {
+      entries = await this.cooldownManager.getAllEntries();
+    } catch (error) {
+      console.error('[Weaklog] Cooldown scheduler failed to load entries:', error);
+      return;
+    }
+
+    // A newer rearm() or stop() ran while loading
+    if (this.stopped || generation !== this.generation) {
+      return;
+    }
+    this.clearTimer();
+
+    const now = Date.now();
+    const ready = entries.filter((e) => Date.parse(e.readyAt) <= now);
+
+    // Forget entries that are no longer ready (triaged, rejected or sent
+    // back with Review Later) so they are announced again when ready
+    const readyIds = new Set(ready.map((e) => e.weaklogId));
+    this.notifiedIds.forEach((id) => {
+      if (!readyIds.has(id)) {
+        this.notifiedIds.delete(id);
+      }
+    });
+
+    // Notify about entries that became ready since last check
+    const newlyReady = ready.filter((e) => !this.notifiedIds.has(e.weaklogId));
+    if (newlyReady.length > 0) {
+      newlyReady.forEach((e) => this.notifiedIds.add(e.weaklogId));
+      if (this.settings.cooldownNotifications) {
+        this.notifyReady(newlyReady);
+      }
+    }
+
+    this.updateStatusBar(ready.length);
+
+    // Arm timer for the next upcoming readyAt
+    const upcoming = entries
+      .map((e) => Date.parse(e.readyAt))
+      .filter((t) => !isNaN(t) && t > now);
+
+    if (upcoming.length === 0) {
+      return;
+    }
+
+    const delay = Math.min(Math.min(...upcoming) - now, MAX_TIMER_MS);
+    this.timerId = window.setTimeout(() => {
+      this.timerId = null;
+      this.rearm();
+    }, delay);
+
+    console.log(`[Weaklog] Cooldown scheduler armed for ${Math.round(delay / 1000)}s`);
+  }
+
+  /**
+   * Clear pending timer if any
+   */
+  private clearTimer(): void {
+    if (this.timerId !== null) {
+      window.clearTimeout(this.timerId);
+      this.timerId = null;
+    }
+  }
+
+  // ========================================================================
+  // User Notifications
+  // ========================================================================
+
+  /**
+   * Show notice with clickable links to ready entries
+   *
+   * @param entries - Entries that just became ready
+   */
+  private notifyReady(entries: CooldownEntry[]): void {
+    const fragment = document.createDocumentFragment();
+
+    const title = entries.length === 1
+      ? '⏰ 1 entry is ready for triage:'
+      : `⏰ ${entries.length} entries are ready for triage:`;
+    fragment.createDiv({ text: title });
+
+    const listEl = fragment.createEl('ul');
+    for (const entry of entries) {
+      const linkEl = listEl.createEl('li').createEl('a', {
+        text: entry.weaklogId,
+        href: '#',
+      });
+      linkEl.addEventListener('click', (evt) => {
+        evt.preventDefault();
+        this.plugin.app.workspace.openLinkText(entry.filePath, '', false);
+      });
+    }
+
+    new Notice(fragment, 10000);
+    console.log('[Weaklog] Notified ready entries:', entries.map((e) => e.weaklogId));
+  }
+
+  /**
+   * Update (or remove) the status-bar badge
+   *
+   * @param readyCount - Number of entries currently ready
+   */
+  updateStatusBar(readyCount: number): void {
+    if (!this.settings.showReadyBadge || readyCount === 0) {
+      this.statusBarEl?.remove();
+      this.statusBarEl = null;
+      return;
+    }
+
+    if (!this.statusBarEl) {
+      this.statusBarEl = this.plugin.addStatusBarItem();
+      this.statusBarEl.addClass('mod-clickable');
+      this.statusBarEl.addEventListener('click', () => this.onBadgeClick());
+    }
+
+    this.statusBarEl.setText(`⏰ ${readyCount} ready`);
+    this.statusBarEl.setAttribute('aria-label', 'Weaklog entries ready for triage');
+  }
+}
@@ -12,7 +12,19 @@
  */
 
 import { App, TFile, Notice, normalizePath } from 'obsidian';
-import { WeaklogSettings, WeaklogEntry, WeaklogStatus } from '../types';
+import {
+  WeaklogSettings,
+  WeaklogEntry,
+  WeaklogStatus,
+  TriageDecision,
+  TriageHistoryEntry,
+  TriageResult,
+  SynthesisGuide,
+  ChatMessage,
+  DraftHistory,
+  SynthesisSession,
+} from '../types';
+import { parseNameList } from '../utils/pii';
 
 /**
  * FileManager class
@@ -207,10 +219,142 @@ export class FileManager {
     }
   }
 
+  /**
+   * Replace the note body, keeping its frontmatter
+   * Used when synthesis rewrites an entry, so triage_result and triage_history survive
+   *
+   * @param file - File to update
+   * @param body - New content below the frontmatter
+   */
+  async replaceBody(file: TFile, body: string): Promise<void> {
+    try {
+      const content = await this.app.vault.read(file);
+      const frontmatter = content.match(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/)?.[0] ?? '';
+      await this.app.vault.modify(file, frontmatter + body);
+      console.log(`[Weaklog] Replaced body of ${file.path}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[Weaklog] Failed to replace note body:', error);
+      throw new Error(`Failed to update note: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Remove frontmatter fields
+   *
+   * @param file - File to update
+   * @param keys - Field names to delete
+   */
+  async removeFrontmatterFields(file: TFile, keys: string[]): Promise<void> {
+    try {
+      await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+        for (const key of keys) {
+          delete frontmatter[key];
+        }
+      });
+      console.log(`[Weaklog] Removed frontmatter fields from ${file.path}: ${keys.join(', ')}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[Weaklog] Failed to remove frontmatter fields:', error);
+      throw new Error(`Failed to update frontmatter: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Record a triage run and the decision taken on it
+   * Appends to triage_history and stores the result as the latest
+   * triage_result in one frontmatter update. If the note has a
+   * triage_result but no history yet, it is kept as the first run.
+   *
+   * @param file - Entry file
+   * @param result - Triage result of the run
+   * @param decision - Decision taken on the result
+   * @param updates - Additional frontmatter fields to set (e.g. status)
+   * @returns Recorded history entry
+   */
+  async recordTriageRun(
+    file: TFile,
+    result: TriageResult,
+    decision: TriageDecision,
+    updates: Record<string, any> = {}
+  ): Promise<TriageHistoryEntry> {
+    const run = FileManager.createHistoryEntry(result, decision, new Date().toISOString());
+
+    try {
+      await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+        const history = this.parseTriageHistory(frontmatter.triage_history, file);
+
+        if (history.length === 0 && frontmatter.triage_result) {
+          const previous = this.parseJsonField<TriageResult>(frontmatter.triage_result, 'triage_result', file);
+          if (previous) {
+            history.push(FileManager.createHistoryEntry(previous, null, previous.timestamp));
+          }
+        }
+
+        history.push(run);
+        Object.assign(frontmatter, updates, {
+          triage_result: JSON.stringify(result),
+          triage_history: JSON.stringify(history),
+        });
+      });
+      console.log(`[Weaklog] Recorded triage run for ${file.path} (${decision})`);
+      return run;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[Weaklog] Failed to record triage run:', error);
+      throw new Error(`Failed to update frontmatter: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Build a triage history entry from a result
+   *
+   * @param result - Triage result
+   * @param decision - Decision taken, or null if unknown
+   * @param timestamp - ISO 8601 timestamp of the decision
+   * @returns History entry
+   */
+  static createHistoryEntry(
+    result: TriageResult,
+    decision: TriageDecision | null,
+    timestamp: string
+  ): TriageHistoryEntry {
+    return {
+      result,
+      provider: result.source?.provider ?? null,
+      model: result.source?.model ?? null,
+      promptVersion: result.promptVersion ?? null,
+      decision,
+      overridden: decision !== null && decision !== result.recommendation,
+      timestamp,
+    };
+  }
+
   // ========================================================================
   // File Reading
   // ========================================================================
 
+  /**
+   * Read a name list note (one name per line)
+   *
+   * @param path - Vault path, with or without ".md" (empty = no list)
+   * @returns Names, or null if a path is set but the note does not exist
+   */
+  async readNameList(path: string): Promise<string[] | null> {
+    if (!path) {
+      return [];
+    }
+
+    const normalized = normalizePath(path);
+    const file = this.app.vault.getAbstractFileByPath(normalized.endsWith('.md') ? normalized : `${normalized}.md`);
+    if (!(file instanceof TFile)) {
+      console.warn(`[Weaklog] Name list not found: ${normalized}`);
+      return null;
+    }
+
+    return parseNameList(await this.app.vault.cachedRead(file));
+  }
+
   /**
    * Read weaklog entry from file
    * Parses frontmatter and content
@@ -241,29 +385,29 @@ export class FileManager {
       const bodyContent = contentMatch ? contentMatch[1].trim() : '';
 
       // Parse optional JSON fields
-      let triageResult = undefined;
-      if (fm.triage_result) {
-        try {
-          triageResult =
-            typeof fm.triage_result === 'string'
-              ? JSON.parse(fm.triage_result)
-              : fm.triage_result;
-        } catch (error) {
-          console.warn(`[Weaklog] Failed to parse triage_result in ${file.path}`);
-        }
-      }
+      const triageResult = fm.triage_result
+        ? this.parseJsonField<TriageResult>(fm.triage_result, 'triage_result', file) ?? undefined
+        : undefined;
 
-      let synthesisGuide = undefined;
-      if (fm.synthesis_guide) {
-        try {
-          synthesisGuide =
-            typeof fm.synthesis_guide === 'string'
-              ? JSON.parse(fm.synthesis_guide)
-              : fm.synthesis_guide;
-        } catch (error) {
-          console.warn(`[Weaklog] Failed to parse synthesis_guide in ${file.path}`);
-        }
-      }
+      const triageHistory = fm.triage_history
+        ? this.parseTriageHistory(fm.triage_history, file)
+        : undefined;
+
+      const synthesisGuide = fm.synthesis_guide
+        ? this.parseJsonField<SynthesisGuide>(fm.synthesis_guide, 'synthesis_guide', file) ?? undefined
+        : undefined;
+
+      const synthesisTranscript = fm.synthesis_transcript
+        ? this.parseJsonField<ChatMessage[]>(fm.synthesis_transcript, 'synthesis_transcript', file) ?? undefined
+        : undefined;
+
+      const draftHistory = fm.draft_versions
+        ? this.parseJsonField<DraftHistory>(fm.draft_versions, 'draft_versions', file) ?? undefined
+        : undefined;
+
+      const synthesisSession = fm.synthesis_session
+        ? this.parseJsonField<SynthesisSession>(fm.synthesis_session, 'synthesis_session', file) ?? undefined
+        : undefined;
 
       return {
         id: fm.weaklog_id,
@@ -272,7 +416,11 @@ export class FileManager {
         cooldownDays: fm.cooldown_days || this.settings.defaultCooldownDays,
         status: fm.status,
         triageResult,
+        triageHistory,
         synthesisGuide,
+        synthesisTranscript,
+        draftHistory,
+        synthesisSession,
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -282,6 +430,46 @@ export class FileManager {
     }
   }
 
+  /**
+   * Parse a JSON frontmatter field (stored as string or already an object)
+   *
+   * @param value - Raw frontmatter value
+   * @param field - Field name for the warning
+   * @param file - File for the warning
+   * @returns Parsed value, or null if invalid
+   */
+  private parseJsonField<T>(value: unknown, field: string, file: TFile): T | null {
+    try {
+      return (typeof value === 'string' ? JSON.parse(value) : value) as T;
+    } catch (error) {
+      console.warn(`[Weaklog] Failed to parse ${field} in ${file.path}`);
+      return null;
+    }
+  }
+
+  /**
+   * Parse the triage_history field, dropping malformed runs
+   *
+   * @param value - Raw frontmatter value
+   * @param file - File for warnings
+   * @returns History entries, oldest first (empty if missing or invalid)
+   */
+  private parseTriageHistory(value: unknown, file: TFile): TriageHistoryEntry[] {
+    if (!value) {
+      return [];
+    }
+
+    const history = this.parseJsonField<unknown>(value, 'triage_history', file);
+    if (!Array.isArray(history)) {
+      return [];
+    }
+
+    return history.filter(
+      (run): run is TriageHistoryEntry =>
+        typeof run === 'object' && run !== null && typeof run.result?.score === 'number'
+    );
+  }
+
   // ========================================================================
   // File Archival
   // ========================================================================
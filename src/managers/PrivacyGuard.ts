@@ -0,0 +1,91 @@
+/**
+ * PrivacyGuard - Pre-publish privacy check
+ *
+ * Raw logs are a safe space, so nothing from them may leak on publish:
+ * - Compares the publishable text with the quoted original entry (shingle overlap)
+ * - Scans for emails, phone numbers, addresses, listed names and custom patterns
+ *
+ * Produces a report; the publish command asks for confirmation when it has findings.
+ */
+
+import { App, TFile } from 'obsidian';
+import { PrivacyFinding, PrivacyReport, WeaklogSettings } from '../types';
+import { FileManager } from './FileManager';
+import { PublishManager } from './PublishManager';
+import { detectSensitive } from '../utils/pii';
+import { findVerbatimOverlap } from '../utils/shingles';
+
+/**
+ * PrivacyGuard class
+ * Checks a synthesized note's publishable text for private content
+ */
+export class PrivacyGuard {
+  private app: App;
+  private settings: WeaklogSettings;
+  private fileManager: FileManager;
+  private publishManager: PublishManager;
+
+  constructor(app: App, settings: WeaklogSettings, fileManager: FileManager, publishManager: PublishManager) {
+    this.app = app;
+    this.settings = settings;
+    this.fileManager = fileManager;
+    this.publishManager = publishManager;
+  }
+
+  // ========================================================================
+  // Check
+  // ========================================================================
+
+  /**
+   * Check what would be published from a note
+   *
+   * @param file - Synthesized note
+   * @returns Privacy report (empty findings = safe)
+   * @throws Error if the note has no final draft
+   */
+  async check(file: TFile): Promise<PrivacyReport> {
+    const content = await this.app.vault.read(file);
+    const draft = await this.publishManager.extractPublishable(file);
+    const publishable = `${draft.title}\n\n${draft.body}`;
+
+    const findings: PrivacyFinding[] = [];
+    const warnings: string[] = [];
+
+    // Verbatim overlap with the raw entry
+    const original = this.publishManager.extractOriginalEntry(content);
+    let overlapRatio = 0;
+    if (original) {
+      const overlap = findVerbatimOverlap(original, publishable, this.settings.privacyShingleSize);
+      overlapRatio = overlap.ratio;
+      overlap.passages.forEach((text) => findings.push({ type: 'verbatim', text }));
+    } else {
+      warnings.push('No "## Original Entry" section found, so verbatim overlap could not be checked');
+    }
+
+    // Sensitive patterns (deduplicated by type and text)
+    const names = await this.fileManager.readNameList(this.settings.privacyNameListPath);
+    if (names === null) {
+      warnings.push(`Name list note not found: ${this.settings.privacyNameListPath}`);
+    }
+    const seen = new Set<string>();
+    const matches = detectSensitive(publishable, {
+      names: names || [],
+      customPatterns: this.settings.privacyCustomPatterns,
+      builtinTypes: ['email', 'phone', 'address'],
+    });
+    for (const match of matches) {
+      const key = `${match.type}:${match.text.toLowerCase()}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        findings.push({ type: match.type, text: match.text });
+      }
+    }
+
+    console.log(
+      `[Weaklog] Privacy check for ${file.path}: ${findings.length} findings, ` +
+      `${Math.round(overlapRatio * 100)}% verbatim overlap`
+    );
+
+    return { findings, overlapRatio, warnings };
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * PromptTemplateManager - Vault-editable prompt templates
+ *
+ * Resolves prompt templates for the LLM analyzers:
+ * - Looks for "<template-id>.md" in the configured prompt folder
+ * - Falls back to the built-in template when no note exists
+ * - Strips frontmatter so notes can carry their own metadata
+ * - Exports the built-in templates as a starting point for editing
+ *
+ * Templates are read on every call, so edits apply immediately.
+ */
+
+import { App, TFile, normalizePath } from 'obsidian';
+import { WeaklogSettings } from '../types';
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  PromptTemplateId,
+  PromptVariables,
+  renderTemplate,
+} from '../llm/PromptTemplates';
+
+/**
+ * PromptTemplateManager class
+ * Loads prompt templates from the vault with built-in defaults
+ */
+export class PromptTemplateManager {
+  private app: App;
+  private settings: WeaklogSettings;
+
+  constructor(app: App, settings: WeaklogSettings) {
+    this.app = app;
+    this.settings = settings;
+  }
+
+  // ========================================================================
+  // Template Resolution
+  // ========================================================================
+
+  /**
+   * Get template text for an ID
+   * Vault override if present, otherwise the built-in default
+   *
+   * @param id - Template ID
+   * @returns Template text
+   */
+  async getTemplate(id: PromptTemplateId): Promise<string> {
+    const file = this.app.vault.getAbstractFileByPath(this.getTemplatePath(id));
+
+    if (file instanceof TFile) {
+      try {
+        const content = await this.app.vault.cachedRead(file);
+        const template = this.stripFrontmatter(content).trim();
+        if (template.length > 0) {
+          return template;
+        }
+        console.warn(`[Weaklog] Prompt template ${file.path} is empty, using built-in`);
+      } catch (error) {
+        console.error(`[Weaklog] Failed to read prompt template ${file.path}:`, error);
+      }
+    }
+
+    return DEFAULT_PROMPT_TEMPLATES[id];
+  }
+
+  /**
+   * Render template with variables
+   *
+   * @param id - Template ID
+   * @param variables - Variable values
+   * @returns Rendered prompt
+   */
+  async render(id: PromptTemplateId, variables: PromptVariables): Promise<string> {
+    return renderTemplate(await this.getTemplate(id), variables);
+  }
+
+  /**
+   * Check whether a vault override exists for a template
+   *
+   * @param id - Template ID
+   * @returns true if a note overrides the built-in template
+   */
+  hasOverride(id: PromptTemplateId): boolean {
+    return this.app.vault.getAbstractFileByPath(this.getTemplatePath(id)) instanceof TFile;
+  }
+
+  // ========================================================================
+  // Template Export
+  // ========================================================================
+
+  /**
+   * Write built-in templates into the prompt folder
+   * Existing notes are never overwritten
+   *
+   * @returns Number of templates created
+   */
+  async exportDefaults(): Promise<number> {
+    const folderPath = this.getFolderPath();
+
+    try {
+      if (!(await this.app.vault.adapter.exists(folderPath))) {
+        await this.app.vault.createFolder(folderPath);
+      }
+
+      let created = 0;
+      for (const id of Object.keys(DEFAULT_PROMPT_TEMPLATES) as PromptTemplateId[]) {
+        const path = this.getTemplatePath(id);
+        if (await this.app.vault.adapter.exists(path)) {
+          continue;
+        }
+        await this.app.vault.create(path, `${DEFAULT_PROMPT_TEMPLATES[id]}\n`);
+        created++;
+      }
+
+      console.log(`[Weaklog] Exported ${created} prompt templates to ${folderPath}`);
+      return created;
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[Weaklog] Failed to export prompt templates:', error);
+      throw new Error(`Failed to export prompt templates: ${errorMessage}`);
+    }
+  }
+
+  // ========================================================================
+  // Helpers
+  // ========================================================================
+
+  /**
+   * Get normalized prompt folder path
+   */
+  private getFolderPath(): string {
+    return normalizePath(this.settings.promptTemplateFolder);
+  }
+
+  /**
+   * Get vault path of a template note
+   */
+  private getTemplatePath(id: PromptTemplateId): string {
+    return normalizePath(`${this.settings.promptTemplateFolder}/${id}.md`);
+  }
+
+  /**
+   * Remove leading YAML frontmatter block
+   */
+  private stripFrontmatter(content: string): string {
+    return content.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/, '');
+  }
+}
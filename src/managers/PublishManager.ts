@@ -0,0 +1,468 @@
+/**
+ * PublishManager - Step 5 export
+ *
+ * Turns a synthesized note into clean, publishable output:
+ * - Extracts only the final draft ("## Draft Content" section)
+ * - Drops private sections (original entry, Q&A, conversation) and weaklog frontmatter
+ * - Writes Hugo/Jekyll Markdown, standalone HTML, or plain text to the export folder
+ *
+ * Publishing is refused when no final draft can be found, so a raw entry
+ * is never exported by mistake. The quoted raw entry is also moved out of
+ * the published note into 01_Raw/.archived.
+ */
+
+import { App, Component, MarkdownRenderer, TFile, normalizePath } from 'obsidian';
+import { ExportFormat, WeaklogSettings } from '../types';
+
+/** Heading of the editable draft section written by the synthesis modals */
+const DRAFT_SECTION_HEADING = 'Draft Content';
+
+/** Heading of the quoted raw entry written by the synthesis modals */
+const ORIGINAL_SECTION_HEADING = 'Original Entry';
+
+/** Sections written by the synthesis modals that must never be exported */
+const PRIVATE_SECTION_HEADINGS = [
+  ORIGINAL_SECTION_HEADING,
+  'Core Question',
+  'Synthesis Questions & Answers',
+  'Synthesis Conversation',
+];
+
+/** Sub-headings inside the draft section (question-list synthesis with AI draft) */
+const EDITED_HEADING = 'Your Edited Version';
+const SUGGESTED_HEADING = 'AI Suggested Draft';
+
+/** Placeholder lines inserted by the synthesis modals */
+const PLACEHOLDER_PATTERN = /^\*(Transform the above|Edit the AI suggestion).*\*$/;
+
+/** File extension per export format */
+const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  text: 'txt',
+};
+
+/**
+ * Publishable content extracted from a note
+ */
+export interface PublishableDraft {
+  title: string;
+  body: string;
+  date: string;
+  tags: string[];
+}
+
+/**
+ * PublishManager class
+ * Extracts the final draft and writes export files
+ */
+export class PublishManager {
+  private app: App;
+  private settings: WeaklogSettings;
+
+  constructor(app: App, settings: WeaklogSettings) {
+    this.app = app;
+    this.settings = settings;
+  }
+
+  // ========================================================================
+  // Export
+  // ========================================================================
+
+  /**
+   * Export a synthesized note in the configured format
+   * Existing exports of the same note are overwritten
+   *
+   * @param file - Synthesized note
+   * @param format - Export format (default: settings.exportFormat)
+   * @returns Exported file
+   * @throws Error if the note has no final draft
+   */
+  async exportEntry(file: TFile, format: ExportFormat = this.settings.exportFormat): Promise<TFile> {
+    const draft = await this.extractPublishable(file);
+
+    let output: string;
+    switch (format) {
+      case 'markdown':
+        output = this.renderMarkdown(draft);
+        break;
+      case 'html':
+        output = await this.renderHtml(draft, file.path);
+        break;
+      case 'text':
+        output = this.renderText(draft);
+        break;
+    }
+
+    const folderPath = normalizePath(this.settings.exportFolder);
+    const exportPath = normalizePath(`${folderPath}/${file.basename}.${EXPORT_EXTENSIONS[format]}`);
+
+    try {
+      if (!(await this.app.vault.adapter.exists(folderPath))) {
+        await this.app.vault.createFolder(folderPath);
+      }
+
+      const existing = this.app.vault.getAbstractFileByPath(exportPath);
+      let exported: TFile;
+      if (existing instanceof TFile) {
+        await this.app.vault.modify(existing, output);
+        exported = existing;
+      } else {
+        exported = await this.app.vault.create(exportPath, output);
+      }
+
+      console.log(`[Weaklog] Exported ${file.path} to ${exportPath} (${format})`);
+      return exported;
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[Weaklog] Failed to write export:', error);
+      throw new Error(`Failed to write export: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Read a note and extract title, final draft body, date and tags
+   *
+   * @param file - Synthesized note
+   * @returns Publishable draft
+   * @throws Error if the note has no final draft
+   */
+  async extractPublishable(file: TFile): Promise<PublishableDraft> {
+    const content = await this.app.vault.read(file);
+    const fm = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+
+    let body = this.extractFinalDraft(content);
+
+    // Title: frontmatter > first heading in draft > core question > file name
+    let title: string | undefined = typeof fm.title === 'string' && fm.title.trim() ? fm.title.trim() : undefined;
+    const headingMatch = body.match(/^#{1,6}\s+(.+)$/m);
+    if (!title && headingMatch && body.trimStart().startsWith(headingMatch[0])) {
+      title = headingMatch[1].trim();
+      body = body.trimStart().slice(headingMatch[0].length).trim();
+    }
+    if (!title) {
+      title = this.getCoreQuestion(fm.triage_result) || file.basename;
+    }
+
+    // Tags: frontmatter > default export tags
+    let tags: string[] = this.settings.exportTags;
+    if (Array.isArray(fm.tags)) {
+      tags = fm.tags.map((tag: unknown) => String(tag));
+    } else if (typeof fm.tags === 'string' && fm.tags.trim()) {
+      tags = fm.tags.split(/[,\s]+/).filter((tag: string) => tag.length > 0);
+    }
+
+    return {
+      title,
+      body,
+      date: typeof fm.published_at === 'string' ? fm.published_at : new Date().toISOString(),
+      tags: tags.map((tag) => tag.replace(/^#/, '')),
+    };
+  }
+
+  // ========================================================================
+  // Published Note Cleanup
+  // ========================================================================
+
+  /**
+   * Move the quoted raw entry out of a note being published
+   * Removes the "## Original Entry" section from the note and keeps the text
+   * in 01_Raw/.archived/<id>_original.md, so published notes hold no raw text
+   *
+   * @param file - Synthesized note
+   * @returns Path of the archived raw entry, or null if the note has no such section
+   */
+  async removeOriginalEntry(file: TFile): Promise<string | null> {
+    const content = await this.app.vault.read(file);
+    const original = this.extractOriginalEntry(content);
+    if (original === null) {
+      return null;
+    }
+
+    try {
+      const archivePath = await this.archiveOriginalEntry(file.basename, original);
+      await this.app.vault.modify(file, this.stripOriginalEntry(content));
+
+      console.log(`[Weaklog] Moved original entry of ${file.path} to ${archivePath}`);
+      return archivePath;
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[Weaklog] Failed to remove original entry:', error);
+      throw new Error(`Failed to remove original entry: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Remove the "## Original Entry" section (heading included) from note markdown
+   * Frontmatter and all other sections are kept
+   *
+   * @param markdown - Full note content
+   * @returns Markdown without the original entry section
+   */
+  stripOriginalEntry(markdown: string): string {
+    const frontmatter = markdown.match(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/)?.[0] ?? '';
+    const lines = markdown.slice(frontmatter.length).split('\n');
+
+    const range = this.findSection(lines, ORIGINAL_SECTION_HEADING, this.getOriginalStopHeadings());
+    if (range === null) {
+      return markdown;
+    }
+
+    lines.splice(range.start, range.end - range.start);
+    return frontmatter + lines.join('\n');
+  }
+
+  /**
+   * Write raw entry text to 01_Raw/.archived with a unique name
+   *
+   * @param basename - Note basename (weaklog ID)
+   * @param original - Raw entry text
+   * @returns Path of the written file
+   */
+  private async archiveOriginalEntry(basename: string, original: string): Promise<string> {
+    const archivePath = normalizePath(`${this.settings.weaklogFolderPath}/01_Raw/.archived`);
+    if (!(await this.app.vault.adapter.exists(archivePath))) {
+      await this.app.vault.createFolder(archivePath);
+    }
+
+    let targetPath = normalizePath(`${archivePath}/${basename}_original.md`);
+    for (let attempt = 1; await this.app.vault.adapter.exists(targetPath); attempt++) {
+      targetPath = normalizePath(`${archivePath}/${basename}_original_${attempt}.md`);
+    }
+
+    await this.app.vault.create(targetPath, `${original}\n`);
+    return targetPath;
+  }
+
+  // ========================================================================
+  // Draft Extraction
+  // ========================================================================
+
+  /**
+   * Extract the final draft from synthesized note markdown
+   * Prefers "Your Edited Version", then "AI Suggested Draft", then the whole draft section
+   *
+   * @param markdown - Full note content (frontmatter allowed)
+   * @returns Final draft markdown
+   * @throws Error if there is no draft section or it is empty
+   */
+  extractFinalDraft(markdown: string): string {
+    const body = markdown.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/, '');
+
+    const section = this.getSection(body, DRAFT_SECTION_HEADING, PRIVATE_SECTION_HEADINGS);
+    if (section === null) {
+      throw new Error(`No "## ${DRAFT_SECTION_HEADING}" section found; nothing safe to publish`);
+    }
+
+    const cleaned = this.cleanDraft(section);
+    const edited = this.cleanDraft(this.getSection(cleaned, EDITED_HEADING, []) || '');
+    const suggested = this.cleanDraft(this.getSection(cleaned, SUGGESTED_HEADING, [EDITED_HEADING]) || '');
+
+    const remainder = this.cleanDraft(
+      cleaned
+        .split('\n')
+        .filter((line) => !this.isHeading(line, [EDITED_HEADING, SUGGESTED_HEADING]))
+        .join('\n')
+    );
+
+    const draft = edited || suggested || remainder;
+    if (draft.length === 0) {
+      throw new Error('The final draft is empty; write it under "## Draft Content" first');
+    }
+
+    return draft;
+  }
+
+  /**
+   * Extract the quoted raw entry ("## Original Entry") from a synthesized note
+   * Used by the privacy guard to detect copied raw text
+   *
+   * @param markdown - Full note content
+   * @returns Raw entry text without quote markers, or null if the section is missing
+   */
+  extractOriginalEntry(markdown: string): string | null {
+    const body = markdown.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/, '');
+
+    const section = this.getSection(body, ORIGINAL_SECTION_HEADING, this.getOriginalStopHeadings());
+    if (section === null) {
+      return null;
+    }
+
+    return section
+      .split('\n')
+      .map((line) => line.replace(/^>\s?/, ''))
+      .join('\n')
+      .trim();
+  }
+
+  /**
+   * Get content under a heading, up to the next stop heading
+   * Other headings (e.g. the author's own title) stay inside the section
+   *
+   * @param markdown - Markdown to search
+   * @param heading - Heading text must start with this (any level)
+   * @param stopHeadings - Headings that end the section
+   * @returns Section content, or null if the heading is missing
+   */
+  private getSection(markdown: string, heading: string, stopHeadings: string[]): string | null {
+    const lines = markdown.split('\n');
+    const range = this.findSection(lines, heading, stopHeadings);
+    if (range === null) {
+      return null;
+    }
+
+    return lines.slice(range.start + 1, range.end).join('\n');
+  }
+
+  /**
+   * Find the line range of a section
+   *
+   * @param lines - Markdown lines
+   * @param heading - Heading text must start with this (any level)
+   * @param stopHeadings - Headings that end the section
+   * @returns Heading line index and end index (exclusive), or null if the heading is missing
+   */
+  private findSection(lines: string[], heading: string, stopHeadings: string[]): { start: number; end: number } | null {
+    const start = lines.findIndex((line) => this.isHeading(line, [heading]));
+    if (start === -1) {
+      return null;
+    }
+
+    const end = lines.findIndex((line, index) => index > start && this.isHeading(line, stopHeadings));
+    return { start, end: end === -1 ? lines.length : end };
+  }
+
+  /**
+   * Headings that end the original entry section
+   */
+  private getOriginalStopHeadings(): string[] {
+    return [
+      DRAFT_SECTION_HEADING,
+      ...PRIVATE_SECTION_HEADINGS.filter((heading) => heading !== ORIGINAL_SECTION_HEADING),
+    ];
+  }
+
+  /**
+   * Check whether a line is a heading starting with one of the given texts
+   */
+  private isHeading(line: string, headings: string[]): boolean {
+    const match = line.match(/^#{1,6}\s+(.*)$/);
+    return !!match && headings.some((heading) => match[1].trim().startsWith(heading));
+  }
+
+  /**
+   * Remove comments, placeholders and surrounding horizontal rules
+   */
+  private cleanDraft(markdown: string): string {
+    return markdown
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .split('\n')
+      .filter((line) => !PLACEHOLDER_PATTERN.test(line.trim()))
+      .join('\n')
+      .trim()
+      .replace(/^(?:-{3,}\s*)+/, '')
+      .replace(/(?:\s*-{3,})+$/, '')
+      .trim();
+  }
+
+  /**
+   * Read core question from triage_result frontmatter (JSON string)
+   */
+  private getCoreQuestion(triageResult: unknown): string | null {
+    try {
+      const parsed = typeof triageResult === 'string' ? JSON.parse(triageResult) : triageResult;
+      const coreQuestion = parsed?.coreQuestion;
+      return typeof coreQuestion === 'string' && coreQuestion.trim() ? coreQuestion.trim() : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // ========================================================================
+  // Renderers
+  // ========================================================================
+
+  /**
+   * Hugo/Jekyll Markdown with title/date/tags front matter
+   * Values are JSON-quoted, which is valid YAML
+   */
+  private renderMarkdown(draft: PublishableDraft): string {
+    const frontMatter = [
+      '---',
+      `title: ${JSON.stringify(draft.title)}`,
+      `date: ${draft.date}`,
+      `tags: [${draft.tags.map((tag) => JSON.stringify(tag)).join(', ')}]`,
+      '---',
+    ];
+    return `${frontMatter.join('\n')}\n\n${draft.body}\n`;
+  }
+
+  /**
+   * Standalone HTML document rendered with Obsidian's Markdown renderer
+   */
+  private async renderHtml(draft: PublishableDraft, sourcePath: string): Promise<string> {
+    const component = new Component();
+    component.load();
+
+    try {
+      const el = document.createElement('div');
+      await MarkdownRenderer.render(this.app, draft.body, el, sourcePath, component);
+
+      const title = escapeHtml(draft.title);
+      return [
+        '<!DOCTYPE html>',
+        '<html>',
+        '<head>',
+        '<meta charset="utf-8">',
+        '<meta name="viewport" content="width=device-width, initial-scale=1">',
+        `<title>${title}</title>`,
+        `<meta name="date" content="${escapeHtml(draft.date)}">`,
+        `<meta name="keywords" content="${escapeHtml(draft.tags.join(', '))}">`,
+        '<style>body{max-width:40em;margin:2em auto;padding:0 1em;font-family:sans-serif;line-height:1.7}</style>',
+        '</head>',
+        '<body>',
+        '<article>',
+        `<h1>${title}</h1>`,
+        el.innerHTML,
+        '</article>',
+        '</body>',
+        '</html>',
+        '',
+      ].join('\n');
+
+    } finally {
+      component.unload();
+    }
+  }
+
+  /**
+   * Plain text with Markdown syntax removed
+   */
+  private renderText(draft: PublishableDraft): string {
+    const text = draft.body
+      .replace(/^```.*$/gm, '')
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .replace(/\[\[(?:[^\]|]*\|)?([^\]]+)\]\]/g, '$1')
+      .replace(/^#{1,6}\s+/gm, '')
+      .replace(/^>\s?/gm, '')
+      .replace(/(\*\*|__|\*|_|~~|`)(.+?)\1/g, '$2')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+
+    return `${draft.title}\n\n${text}\n`;
+  }
+}
+
+/**
+ * Escape text for HTML content and attributes
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
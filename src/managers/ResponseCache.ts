@@ -0,0 +1,256 @@
+/**
+ * ResponseCache - Content-addressed LLM response cache
+ *
+ * Stores responses to identical requests so they are not paid for twice:
+ * - Keyed by SHA-256 of provider, model, system prompt, user prompt,
+ *   temperature and response schema
+ * - Entries expire after the configured TTL
+ * - Least recently used entries are evicted above the size cap
+ *
+ * Only calls that opt in (LLMCallOptions.cache) are cached.
+ *
+ * Data stored in: <plugin folder>/response-cache.json
+ */
+
+import { App, normalizePath } from 'obsidian';
+import {
+  CachedResponse,
+  ChatMessage,
+  LLMCallOptions,
+  LLMProviderType,
+  ResponseCacheData,
+  WeaklogSettings,
+} from '../types';
+import { sha256Hex } from '../utils/hash';
+
+/**
+ * Request fields that identify a cached response
+ */
+export interface CacheKeyInput {
+  provider: LLMProviderType;
+  model: string;
+  systemPrompt: string;
+
+  /** Single prompt (callAPI) or message history (callChat) */
+  prompt: string | ChatMessage[];
+
+  options: LLMCallOptions;
+}
+
+/**
+ * ResponseCache class
+ * JSON file cache with in-memory copy
+ */
+export class ResponseCache {
+  private app: App;
+  private settings: WeaklogSettings;
+  private cacheFilePath: string;
+  private data: ResponseCacheData | null = null;
+
+  constructor(app: App, settings: WeaklogSettings, pluginDir: string) {
+    this.app = app;
+    this.settings = settings;
+    this.cacheFilePath = normalizePath(`${pluginDir}/response-cache.json`);
+  }
+
+  // ========================================================================
+  // Keys
+  // ========================================================================
+
+  /**
+   * Create the cache key for a request
+   *
+   * @param input - Provider, model, prompts and call options
+   * @returns Hex SHA-256 digest
+   */
+  async createKey(input: CacheKeyInput): Promise<string> {
+    const material = JSON.stringify([
+      input.provider,
+      input.model,
+      input.systemPrompt,
+      input.prompt,
+      input.options.temperature ?? null,
+      input.options.responseSchema ?? null,
+    ]);
+
+    return sha256Hex(material);
+  }
+
+  // ========================================================================
+  // Lookup and Storage
+  // ========================================================================
+
+  /**
+   * Get a cached response
+   *
+   * @param key - Cache key from createKey
+   * @returns Cached response, or null if disabled, missing or expired
+   */
+  async get(key: string): Promise<CachedResponse | null> {
+    if (!this.settings.responseCacheEnabled) {
+      return null;
+    }
+
+    const data = await this.loadData();
+    const entry = data.entries[key];
+    if (!entry) {
+      return null;
+    }
+
+    if (this.isExpired(entry)) {
+      delete data.entries[key];
+      return null;
+    }
+
+    // Last use is kept in memory and written with the next save
+    entry.lastUsedAt = new Date().toISOString();
+    console.log(`[Weaklog] Response cache hit (${entry.source.model})`);
+    return entry;
+  }
+
+  /**
+   * Store a response
+   * Never throws: a failed write must not fail the LLM call
+   *
+   * @param key - Cache key from createKey
+   * @param entry - Response text and source
+   */
+  async set(key: string, entry: Pick<CachedResponse, 'text' | 'source'>): Promise<void> {
+    if (!this.settings.responseCacheEnabled) {
+      return;
+    }
+
+    try {
+      const data = await this.loadData();
+      const now = new Date().toISOString();
+      data.entries[key] = { ...entry, createdAt: now, lastUsedAt: now };
+
+      this.evict(data);
+      await this.saveData(data);
+    } catch (error) {
+      console.error('[Weaklog] Failed to store cached response:', error);
+    }
+  }
+
+  /**
+   * Remove all cached responses
+   */
+  async clear(): Promise<void> {
+    this.data = { entries: {} };
+    await this.saveData(this.data);
+    console.log('[Weaklog] Response cache cleared');
+  }
+
+  // ========================================================================
+  // Statistics
+  // ========================================================================
+
+  /**
+   * Get cache size
+   *
+   * @returns Entry count and approximate file size in bytes
+   */
+  async getStats(): Promise<{ entries: number; bytes: number }> {
+    const data = await this.loadData();
+    return {
+      entries: Object.keys(data.entries).length,
+      bytes: this.getSize(data),
+    };
+  }
+
+  // ========================================================================
+  // Eviction
+  // ========================================================================
+
+  /**
+   * Drop expired entries, then least recently used ones until under the size cap
+   *
+   * @param data - Cache data (modified in place)
+   */
+  private evict(data: ResponseCacheData): void {
+    for (const [key, entry] of Object.entries(data.entries)) {
+      if (this.isExpired(entry)) {
+        delete data.entries[key];
+      }
+    }
+
+    const maxBytes = this.settings.responseCacheMaxSizeMB * 1024 * 1024;
+    if (maxBytes <= 0) {
+      return;
+    }
+
+    const byLastUse = Object.entries(data.entries)
+      .sort(([, a], [, b]) => a.lastUsedAt.localeCompare(b.lastUsedAt));
+
+    let size = this.getSize(data);
+    for (const [key, entry] of byLastUse) {
+      if (size <= maxBytes) {
+        break;
+      }
+      delete data.entries[key];
+      size -= JSON.stringify(key).length + JSON.stringify(entry).length + 1;
+    }
+  }
+
+  /**
+   * Check if an entry is older than the TTL
+   */
+  private isExpired(entry: CachedResponse): boolean {
+    const ttlDays = this.settings.responseCacheTtlDays;
+    if (ttlDays <= 0) {
+      return false;
+    }
+
+    const ageMs = Date.now() - new Date(entry.createdAt).getTime();
+    return ageMs > ttlDays * 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Approximate serialized size of the cache
+   */
+  private getSize(data: ResponseCacheData): number {
+    return JSON.stringify(data).length;
+  }
+
+  // ========================================================================
+  // Data Persistence
+  // ========================================================================
+
+  /**
+   * Load cache data (cached after the first read)
+   * Starts empty if the file is missing or corrupted
+   *
+   * @returns Cache data
+   */
+  private async loadData(): Promise<ResponseCacheData> {
+    if (this.data) {
+      return this.data;
+    }
+
+    let data: ResponseCacheData = { entries: {} };
+
+    try {
+      if (await this.app.vault.adapter.exists(this.cacheFilePath)) {
+        const content = await this.app.vault.adapter.read(this.cacheFilePath);
+        const parsed = JSON.parse(content) as ResponseCacheData;
+        if (parsed && typeof parsed.entries === 'object' && parsed.entries !== null) {
+          data = parsed;
+        }
+      }
+    } catch (error) {
+      console.error('[Weaklog] Failed to load response cache, starting empty:', error);
+    }
+
+    this.data = data;
+    return data;
+  }
+
+  /**
+   * Write cache data to disk
+   *
+   * @param data - Cache data
+   */
+  private async saveData(data: ResponseCacheData): Promise<void> {
+    await this.app.vault.adapter.write(this.cacheFilePath, JSON.stringify(data));
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * UsageLedger - LLM token usage and cost tracking
+ *
+ * Records every successful LLM call:
+ * - Appends one JSON line per call to usage.jsonl
+ * - Prices calls from the settings price table (USD per million tokens)
+ * - Summarizes cost per month, task and entry
+ * - Enforces the optional monthly budget cap
+ *
+ * Cost is stored with each record, so later price changes do not
+ * rewrite history. Local Ollama calls cost nothing.
+ *
+ * Data stored in: <plugin folder>/usage.jsonl
+ */
+
+import { App, normalizePath } from 'obsidian';
+import { LLMError } from '../llm/LLMError';
+import { ModelPrice, UsageBucket, UsageRecord, WeaklogSettings } from '../types';
+
+/**
+ * Usage totals grouped for the stats panel
+ */
+export interface UsageSummary {
+  total: UsageBucket;
+
+  /** Newest month first */
+  byMonth: UsageBucket[];
+
+  /** Highest cost first */
+  byTask: UsageBucket[];
+
+  /** Highest cost first */
+  byEntry: UsageBucket[];
+}
+
+/**
+ * UsageLedger class
+ * Append-only usage log with in-memory cache
+ */
+export class UsageLedger {
+  private app: App;
+  private settings: WeaklogSettings;
+  private ledgerFilePath: string;
+  private records: UsageRecord[] | null = null;
+  private loading: Promise<UsageRecord[]> | null = null;
+
+  /** Tail of pending writes; each write waits for the one before it */
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(app: App, settings: WeaklogSettings, pluginDir: string) {
+    this.app = app;
+    this.settings = settings;
+    this.ledgerFilePath = normalizePath(`${pluginDir}/usage.jsonl`);
+  }
+
+  // ========================================================================
+  // Recording
+  // ========================================================================
+
+  /**
+   * Price a call and append it to the ledger
+   * Writes run one at a time, so concurrent calls cannot both create the file
+   * Never throws: a failed write must not fail the LLM call
+   *
+   * @param record - Call details without cost
+   */
+  record(record: Omit<UsageRecord, 'cost'>): Promise<void> {
+    const priced: UsageRecord = {
+      ...record,
+      cost: this.calculateCost(record),
+    };
+
+    this.writeQueue = this.writeQueue.then(() => this.writeRecord(priced));
+    return this.writeQueue;
+  }
+
+  /**
+   * Append one priced record to memory and to the ledger file
+   *
+   * @param priced - Record with cost
+   */
+  private async writeRecord(priced: UsageRecord): Promise<void> {
+    try {
+      const records = await this.loadRecords();
+      records.push(priced);
+
+      const line = `${JSON.stringify(priced)}\n`;
+      if (await this.app.vault.adapter.exists(this.ledgerFilePath)) {
+        await this.app.vault.adapter.append(this.ledgerFilePath, line);
+      } else {
+        await this.app.vault.adapter.write(this.ledgerFilePath, line);
+      }
+
+      const cost = priced.cost === null ? 'unpriced' : `$${priced.cost.toFixed(4)}`;
+      console.log(`[Weaklog] Usage: ${priced.model} ${priced.inputTokens} in / ${priced.outputTokens} out (${cost})`);
+    } catch (error) {
+      console.error('[Weaklog] Failed to record usage:', error);
+    }
+  }
+
+  /**
+   * Calculate cost of a call in USD
+   *
+   * @param record - Call details
+   * @returns Cost, or null if the model has no price
+   */
+  calculateCost(record: Pick<UsageRecord, 'provider' | 'model' | 'inputTokens' | 'outputTokens'>): number | null {
+    if (record.provider === 'ollama') {
+      return 0;
+    }
+
+    const price = this.findPrice(record.model);
+    if (!price) {
+      return null;
+    }
+
+    return (record.inputTokens * price.input + record.outputTokens * price.output) / 1000000;
+  }
+
+  /**
+   * Find the price for a model
+   * Exact match first, then the longest configured name the model starts with
+   * (so "claude-sonnet-4-5" also prices "claude-sonnet-4-5-20250929")
+   *
+   * @param model - Model identifier reported by the provider
+   * @returns Price, or null if none matches
+   */
+  findPrice(model: string): ModelPrice | null {
+    const prices = this.settings.modelPrices;
+    if (prices[model]) {
+      return prices[model];
+    }
+
+    const prefix = Object.keys(prices)
+      .filter((name) => name.length > 0 && model.startsWith(name))
+      .sort((a, b) => b.length - a.length)[0];
+
+    return prefix ? prices[prefix] : null;
+  }
+
+  // ========================================================================
+  // Budget
+  // ========================================================================
+
+  /**
+   * Block calls once this month's spend reaches the budget
+   *
+   * @throws LLMError (kind "budget") if the cap is reached
+   */
+  async checkBudget(): Promise<void> {
+    const budget = this.settings.monthlyBudget;
+    if (!budget || budget <= 0) {
+      return;
+    }
+
+    const spent = await this.getMonthCost();
+    if (spent >= budget) {
+      throw new LLMError(
+        'budget',
+        `Monthly LLM budget of $${budget.toFixed(2)} reached ($${spent.toFixed(2)} spent). Raise or remove the cap in settings to continue.`
+      );
+    }
+  }
+
+  /**
+   * Get total cost of a month
+   *
+   * @param date - Any date in the month (default: now)
+   * @returns Cost in USD of priced calls
+   */
+  async getMonthCost(date: Date = new Date()): Promise<number> {
+    const month = this.getMonthKey(date.toISOString());
+    const records = await this.loadRecords();
+    return records
+      .filter((record) => this.getMonthKey(record.timestamp) === month)
+      .reduce((sum, record) => sum + (record.cost ?? 0), 0);
+  }
+
+  // ========================================================================
+  // Statistics
+  // ========================================================================
+
+  /**
+   * Summarize all recorded usage
+   *
+   * @returns Totals per month, task and entry
+   */
+  async getSummary(): Promise<UsageSummary> {
+    const records = await this.loadRecords();
+
+    const total = this.createBucket('total');
+    const byMonth = new Map<string, UsageBucket>();
+    const byTask = new Map<string, UsageBucket>();
+    const byEntry = new Map<string, UsageBucket>();
+
+    for (const record of records) {
+      this.addToBucket(total, record);
+      this.addToBucket(this.getBucket(byMonth, this.getMonthKey(record.timestamp)), record);
+      this.addToBucket(this.getBucket(byTask, record.task ?? 'other'), record);
+      if (record.entryId) {
+        this.addToBucket(this.getBucket(byEntry, record.entryId), record);
+      }
+    }
+
+    const byCost = (a: UsageBucket, b: UsageBucket) => b.cost - a.cost || b.calls - a.calls;
+
+    return {
+      total,
+      byMonth: Array.from(byMonth.values()).sort((a, b) => b.key.localeCompare(a.key)),
+      byTask: Array.from(byTask.values()).sort(byCost),
+      byEntry: Array.from(byEntry.values()).sort(byCost),
+    };
+  }
+
+  // ========================================================================
+  // Data Loading
+  // ========================================================================
+
+  /**
+   * Load ledger records (cached after the first read)
+   * Skips lines that cannot be parsed
+   *
+   * @returns Records in call order
+   */
+  private async loadRecords(): Promise<UsageRecord[]> {
+    if (this.records) {
+      return this.records;
+    }
+
+    // Share one read between concurrent callers
+    if (!this.loading) {
+      this.loading = this.readRecords();
+    }
+    this.records = await this.loading;
+    this.loading = null;
+    return this.records;
+  }
+
+  /**
+   * Read all records from the ledger file
+   */
+  private async readRecords(): Promise<UsageRecord[]> {
+    const records: UsageRecord[] = [];
+
+    try {
+      if (await this.app.vault.adapter.exists(this.ledgerFilePath)) {
+        const content = await this.app.vault.adapter.read(this.ledgerFilePath);
+        for (const line of content.split('\n')) {
+          if (line.trim().length === 0) {
+            continue;
+          }
+          try {
+            records.push(JSON.parse(line) as UsageRecord);
+          } catch (error) {
+            console.warn('[Weaklog] Skipping invalid usage ledger line');
+          }
+        }
+      }
+    } catch (error) {
+      console.error('[Weaklog] Failed to load usage ledger:', error);
+    }
+
+    return records;
+  }
+
+  // ========================================================================
+  // Utility Methods
+  // ========================================================================
+
+  /**
+   * Get month key (YYYY-MM, local time) for a timestamp
+   */
+  private getMonthKey(timestamp: string): string {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  }
+
+  /**
+   * Create an empty bucket
+   */
+  private createBucket(key: string): UsageBucket {
+    return { key, calls: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpricedCalls: 0 };
+  }
+
+  /**
+   * Get bucket for a key, creating it on first use
+   */
+  private getBucket(buckets: Map<string, UsageBucket>, key: string): UsageBucket {
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = this.createBucket(key);
+      buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Add a record to a bucket's totals
+   */
+  private addToBucket(bucket: UsageBucket, record: UsageRecord): void {
+    bucket.calls++;
+    bucket.inputTokens += record.inputTokens;
+    bucket.outputTokens += record.outputTokens;
+    if (record.cost === null) {
+      bucket.unpricedCalls++;
+    } else {
+      bucket.cost += record.cost;
+    }
+  }
+}
@@ -9,13 +9,125 @@
 
 import { App, Notice, PluginSettingTab, Setting } from 'obsidian';
 import type WeaklogPlugin from './main';
-import { WeaklogSettings, SecurityStorageMethod } from './types';
+import { WeaklogSettings, SecurityStorageMethod, TriageRubric, RubricCriterion, ExportFormat, LLMProviderType, LLMTask, ModelPrice } from './types';
 import { LLMClient } from './llm/LLMClient';
+import { PROMPT_TEMPLATE_NAMES, PromptTemplateId } from './llm/PromptTemplates';
+import { PromptPreviewModal } from './views/PromptPreviewModal';
+import { UsageStatsModal } from './views/UsageStatsModal';
 
 // ============================================================================
 // Default Settings
 // ============================================================================
 
+/**
+ * Default triage rubric
+ * The original 4 criteria with equal weight: 4/4 = adopt, 2-3 = review, 0-1 = reject
+ */
+export const DEFAULT_TRIAGE_RUBRIC: TriageRubric = {
+  criteria: [
+    {
+      key: 'hasSpecifics',
+      label: 'Has Specifics',
+      description: 'Does it contain concrete situations, experiences, or observations (not just abstract feelings)?',
+      examples: [
+        'Pass: Specific events, moments, scenarios',
+        'Fail: Only vague emotions or generalizations',
+      ],
+      weight: 1,
+    },
+    {
+      key: 'canBeCorePhrase',
+      label: 'Can Be Core Phrase',
+      description: 'Can it be condensed into one essential question (under 40 characters)?',
+      examples: [
+        'Pass: Has a clear, focused theme',
+        'Fail: Too scattered or unfocused',
+      ],
+      weight: 1,
+    },
+    {
+      key: 'isTransferable',
+      label: 'Is Transferable',
+      description: 'Is it universally relatable (not overly personal or niche)?',
+      examples: [
+        'Pass: Others could relate to similar experiences',
+        "Fail: Too specific to author's unique circumstances",
+      ],
+      weight: 1,
+    },
+    {
+      key: 'isNonHarmful',
+      label: 'Is Non-Harmful',
+      description: 'Is it constructive and safe for readers (not harmful or triggering)?',
+      examples: [
+        'Pass: Reflective, growth-oriented',
+        'Fail: Harmful, destructive, or excessively dark',
+      ],
+      weight: 1,
+    },
+  ],
+  adoptThreshold: 100,
+  reviewThreshold: 50,
+};
+
+/**
+ * Default model per provider
+ * Used by task routes that switch provider without naming a model
+ */
+export const DEFAULT_PROVIDER_MODELS: Record<LLMProviderType, string> = {
+  anthropic: 'claude-sonnet-4-5',
+  openai: 'gpt-5.2',
+  gemini: 'gemini-3-pro-preview',
+  ollama: 'llama3.2',
+  'openai-compatible': '', // First model the server lists
+};
+
+/**
+ * Default prices in USD per million tokens (input/output)
+ * Check your provider's pricing page; edit in settings when prices change
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4-5': { input: 5, output: 25 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'gpt-5.2': { input: 1.75, output: 14 },
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'gemini-3-pro-preview': { input: 2, output: 12 },
+  'gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+};
+
+/**
+ * Provider display names for dropdowns
+ */
+const PROVIDER_NAMES: Record<LLMProviderType, string> = {
+  anthropic: 'Anthropic (Claude)',
+  openai: 'OpenAI (GPT)',
+  gemini: 'Google (Gemini)',
+  ollama: 'Ollama (Local)',
+  'openai-compatible': 'OpenAI-compatible (LM Studio, vLLM, OpenRouter…)',
+};
+
+/**
+ * Get the model to use for a provider when none is named
+ * The configured model applies to the default provider only
+ *
+ * @param settings - Plugin settings
+ * @param provider - Provider
+ * @returns Model identifier
+ */
+export function getDefaultModel(settings: WeaklogSettings, provider: LLMProviderType): string {
+  return provider === settings.llmProvider ? settings.model : DEFAULT_PROVIDER_MODELS[provider];
+}
+
 /**
  * Default plugin configuration
  * Used on first install or when settings are reset
@@ -35,6 +147,62 @@ export const DEFAULT_SETTINGS: WeaklogSettings = {
   openaiApiKey: '',
   geminiApiKey: '',
   ollamaEndpoint: 'http://localhost:11434',
+  openaiCompatibleBaseUrl: 'http://localhost:1234/v1',
+  openaiCompatibleApiKey: '',
+  openaiCompatibleHeaders: {},
+
+  // Cooldown scheduler defaults
+  cooldownNotifications: true,
+  showReadyBadge: true,
+  reviewLaterDays: 7,
+  maxReviewDeferrals: 3,
+  batchTriageConcurrency: 2,
+
+  // Triage rubric
+  triageRubric: DEFAULT_TRIAGE_RUBRIC,
+
+  // Prompt templates
+  promptTemplateFolder: 'Weaklog/Prompts',
+
+  // Publishing
+  exportFolder: 'Weaklog/Export',
+  exportFormat: 'markdown',
+  exportTags: [],
+
+  // Privacy guard
+  privacyGuardEnabled: true,
+  privacyShingleSize: 8,
+  privacyNameListPath: '',
+  privacyCustomPatterns: [],
+
+  // Request redaction (off by default; local Ollama rarely needs it)
+  redactPersonalData: {
+    anthropic: false,
+    openai: false,
+    gemini: false,
+    ollama: false,
+    'openai-compatible': false,
+  },
+  redactionCustomPatterns: [],
+
+  // Task routing (all tasks use the default provider/model until enabled)
+  taskProfiles: {
+    triage: { enabled: false, provider: 'ollama', model: '', temperature: 0.3, maxTokens: 1000 },
+    questions: { enabled: false, provider: 'anthropic', model: '', temperature: 0.7, maxTokens: 500 },
+    draft: { enabled: false, provider: 'anthropic', model: '', temperature: 0.7, maxTokens: 1500 },
+  },
+
+  // Provider fallback (none until configured)
+  fallbackProviders: [],
+
+  // Usage tracking (no budget cap until configured)
+  modelPrices: DEFAULT_MODEL_PRICES,
+  monthlyBudget: 0,
+
+  // Response cache (triage and questions)
+  responseCacheEnabled: true,
+  responseCacheTtlDays: 30,
+  responseCacheMaxSizeMB: 10,
 };
 
 // ============================================================================
@@ -71,10 +239,7 @@ export class WeaklogSettingTab extends PluginSettingTab {
       .setDesc('Choose your AI provider')
       .addDropdown((dropdown) =>
         dropdown
-          .addOption('anthropic', 'Anthropic (Claude)')
-          .addOption('openai', 'OpenAI (GPT)')
-          .addOption('gemini', 'Google (Gemini)')
-          .addOption('ollama', 'Ollama (Local)')
+          .addOptions(PROVIDER_NAMES)
           .setValue(this.plugin.settings.llmProvider)
           .onChange(async (value) => {
             this.plugin.settings.llmProvider = value as any;
@@ -150,10 +315,16 @@ export class WeaklogSettingTab extends PluginSettingTab {
         );
     }
 
+    // OpenAI-compatible: base URL, optional key, custom headers
+    if (provider === 'openai-compatible') {
+      this.addOpenAICompatibleSettings(containerEl);
+    }
+
     // Test connection button
     const providerName = provider === 'anthropic' ? 'Anthropic' :
                         provider === 'openai' ? 'OpenAI' :
                         provider === 'gemini' ? 'Gemini' :
+                        provider === 'openai-compatible' ? 'your OpenAI-compatible endpoint' :
                         'Ollama';
 
     new Setting(containerEl)
@@ -206,6 +377,18 @@ export class WeaklogSettingTab extends PluginSettingTab {
                   endpoint,
                   model: this.plugin.settings.model,
                 });
+              } else if (provider === 'openai-compatible') {
+                const endpoint = this.plugin.settings.openaiCompatibleBaseUrl;
+                if (!endpoint) {
+                  new Notice('⚠️ No base URL configured', 5000);
+                  return;
+                }
+                llmClient = LLMClient.createFromConfig('openai-compatible', {
+                  endpoint,
+                  apiKey: this.plugin.settings.openaiCompatibleApiKey || undefined,
+                  headers: this.plugin.settings.openaiCompatibleHeaders,
+                  model: this.plugin.settings.model,
+                });
               } else {
                 new Notice('⚠️ Unknown provider', 5000);
                 return;
@@ -223,6 +406,58 @@ export class WeaklogSettingTab extends PluginSettingTab {
           })
       );
 
+    // Redaction toggle (per provider)
+    new Setting(containerEl)
+      .setName('Redact Personal Data')
+      .setDesc(
+        provider === 'ollama'
+          ? 'Replace names, emails, phone numbers, addresses and URLs with placeholders before sending. Usually unnecessary for a local server.'
+          : `Replace names, emails, phone numbers, addresses and URLs with placeholders before sending to ${providerName}. Originals are restored in the results.`
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.redactPersonalData[provider])
+          .onChange(async (value) => {
+            this.plugin.settings.redactPersonalData[provider] = value;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    if (this.plugin.settings.redactPersonalData[provider]) {
+      new Setting(containerEl)
+        .setName('Redaction Patterns')
+        .setDesc('Extra regular expressions to redact, one per line (case-insensitive). Names come from the name list note under Publishing → Privacy Guard.')
+        .addTextArea((text) => {
+          text
+            .setPlaceholder('Project\\s+Falcon\nACME Corp')
+            .setValue(this.plugin.settings.redactionCustomPatterns.join('\n'))
+            .onChange(async (value) => {
+              const patterns = value
+                .split('\n')
+                .map((line) => line.trim())
+                .filter((line) => line.length > 0);
+
+              const invalid = patterns.find((pattern) => {
+                try {
+                  new RegExp(pattern);
+                  return false;
+                } catch (error) {
+                  return true;
+                }
+              });
+              if (invalid) {
+                new Notice(`Invalid pattern: ${invalid}`, 3000);
+                return;
+              }
+
+              this.plugin.settings.redactionCustomPatterns = patterns;
+              await this.plugin.saveSettings();
+            });
+          text.inputEl.rows = 3;
+        });
+    }
+
     // Security notice (cloud providers only)
     if (provider === 'anthropic' || provider === 'openai' || provider === 'gemini') {
       const securityNotice = containerEl.createDiv('weaklog-security-notice');
@@ -254,6 +489,18 @@ export class WeaklogSettingTab extends PluginSettingTab {
       });
     }
 
+    // Provider fallback chain
+    this.addFallbackSection(containerEl);
+
+    // Per-task routing
+    this.addTaskRoutingSection(containerEl);
+
+    // Token usage, prices and budget
+    this.addUsageSection(containerEl);
+
+    // Cached triage and question responses
+    this.addResponseCacheSection(containerEl);
+
     // ========================================================================
     // Section 2: Workflow Settings
     // ========================================================================
@@ -279,6 +526,44 @@ export class WeaklogSettingTab extends PluginSettingTab {
           })
       );
 
+    // Extra cooling offered by "Review Later"
+    new Setting(containerEl)
+      .setName('Review Later Period')
+      .setDesc('Extra days an entry cools after "Review Later" in the triage modal (1-365, adjustable per entry)')
+      .addText((text) =>
+        text
+          .setPlaceholder('7')
+          .setValue(String(this.plugin.settings.reviewLaterDays))
+          .onChange(async (value) => {
+            const days = parseInt(value);
+            if (isNaN(days) || days < 1 || days > 365) {
+              new Notice('Review Later period must be between 1 and 365 days', 3000);
+              return;
+            }
+            this.plugin.settings.reviewLaterDays = days;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Deferral limit
+    new Setting(containerEl)
+      .setName('Review Later Limit')
+      .setDesc('Flag entries sent back with "Review Later" more than this many times as needing a decision (0 = never flag)')
+      .addText((text) =>
+        text
+          .setPlaceholder('3')
+          .setValue(String(this.plugin.settings.maxReviewDeferrals))
+          .onChange(async (value) => {
+            const limit = parseInt(value);
+            if (isNaN(limit) || limit < 0 || limit > 50) {
+              new Notice('Review Later limit must be between 0 and 50', 3000);
+              return;
+            }
+            this.plugin.settings.maxReviewDeferrals = limit;
+            await this.plugin.saveSettings();
+          })
+      );
+
     // Weaklog folder path
     new Setting(containerEl)
       .setName('Weaklog Folder')
@@ -299,6 +584,33 @@ export class WeaklogSettingTab extends PluginSettingTab {
           })
       );
 
+    // Automatic ready notifications
+    new Setting(containerEl)
+      .setName('Ready Notifications')
+      .setDesc('Show a notice automatically when entries finish cooling')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.cooldownNotifications)
+          .onChange(async (value) => {
+            this.plugin.settings.cooldownNotifications = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Status bar badge
+    new Setting(containerEl)
+      .setName('Status Bar Badge')
+      .setDesc('Show the number of entries ready for triage in the status bar')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.showReadyBadge)
+          .onChange(async (value) => {
+            this.plugin.settings.showReadyBadge = value;
+            await this.plugin.saveSettings();
+            await this.plugin.cooldownScheduler.rearm();
+          })
+      );
+
     // Reset folder structure button
     new Setting(containerEl)
       .setName('Reset Folder Structure')
@@ -319,7 +631,25 @@ export class WeaklogSettingTab extends PluginSettingTab {
       );
 
     // ========================================================================
-    // Section 3: Advanced Settings
+    // Section 3: Triage Rubric
+    // ========================================================================
+
+    this.addRubricSection(containerEl);
+
+    // ========================================================================
+    // Section 4: Prompt Templates
+    // ========================================================================
+
+    this.addPromptTemplateSection(containerEl);
+
+    // ========================================================================
+    // Section 5: Publishing
+    // ========================================================================
+
+    this.addPublishSection(containerEl);
+
+    // ========================================================================
+    // Section 6: Advanced Settings
     // ========================================================================
 
     containerEl.createEl('h2', { text: 'Advanced Settings' });
@@ -328,11 +658,15 @@ export class WeaklogSettingTab extends PluginSettingTab {
     const modelFieldName = provider === 'anthropic' ? 'Claude Model' :
                           provider === 'openai' ? 'GPT Model' :
                           provider === 'gemini' ? 'Gemini Model' :
+                          provider === 'openai-compatible' ? 'Model' :
                           'Ollama Model';
 
     // For Ollama, dynamically fetch models from server
     if (provider === 'ollama') {
       this.addOllamaModelDropdown(containerEl, modelFieldName);
+    } else if (provider === 'openai-compatible') {
+      // Free text (gateways serve hundreds of models), suggestions from /models
+      this.addOpenAICompatibleModelInput(containerEl, modelFieldName);
     } else {
       // Static model lists for cloud providers
       new Setting(containerEl)
@@ -411,6 +745,25 @@ export class WeaklogSettingTab extends PluginSettingTab {
           })
       );
 
+    // Batch triage concurrency
+    new Setting(containerEl)
+      .setName('Batch Triage Concurrency')
+      .setDesc('Entries analyzed in parallel by "Triage all ready entries" (1-5, default: 2)')
+      .addText((text) =>
+        text
+          .setPlaceholder('2')
+          .setValue(String(this.plugin.settings.batchTriageConcurrency))
+          .onChange(async (value) => {
+            const concurrency = parseInt(value);
+            if (isNaN(concurrency) || concurrency < 1 || concurrency > 5) {
+              new Notice('Concurrency must be between 1 and 5', 3000);
+              return;
+            }
+            this.plugin.settings.batchTriageConcurrency = concurrency;
+            await this.plugin.saveSettings();
+          })
+      );
+
     // Response language
     new Setting(containerEl)
       .setName('Response Language')
@@ -428,67 +781,870 @@ export class WeaklogSettingTab extends PluginSettingTab {
   }
 
   /**
-   * Add security status indicator at top of API Configuration section
-   * Shows which storage method is currently active
+   * Add triage rubric editor
+   * Criteria can be added, removed, renamed and weighted; thresholds are
+   * percentages of the maximum weighted score. A criterion's key is set when
+   * it is added and never changes, so stored triage results keep matching it.
    */
-  private addSecurityStatus(containerEl: HTMLElement): void {
-    const statusContainer = containerEl.createDiv('weaklog-security-status');
-    statusContainer.style.padding = '8px 12px';
-    statusContainer.style.marginBottom = '16px';
-    statusContainer.style.backgroundColor = 'var(--background-secondary)';
-    statusContainer.style.borderRadius = '4px';
-    statusContainer.style.display = 'flex';
-    statusContainer.style.alignItems = 'center';
-    statusContainer.style.gap = '8px';
+  private addRubricSection(containerEl: HTMLElement): void {
+    const rubric = this.plugin.settings.triageRubric;
 
-    const method = this.getStorageMethod();
-    const icon = this.getSecurityIcon(method);
-    const text = this.getSecurityText(method);
+    containerEl.createEl('h2', { text: 'Triage Rubric' });
+    containerEl.createEl('p', {
+      text: 'Criteria used by AI and manual triage. An entry scores the weight of every criterion it passes.',
+      cls: 'setting-item-description',
+    });
 
-    statusContainer.createEl('span', { text: icon });
-    statusContainer.createEl('span', {
-      text: `API Key Storage: ${text}`,
+    rubric.criteria.forEach((criterion, index) => {
+      const criterionEl = containerEl.createDiv('weaklog-rubric-criterion');
+      criterionEl.style.padding = '0 12px';
+      criterionEl.style.marginBottom = '12px';
+      criterionEl.style.borderLeft = '3px solid var(--background-modifier-border)';
+
+      new Setting(criterionEl)
+        .setName(`Criterion ${index + 1}`)
+        .setDesc(`Key: ${criterion.key}`)
+        .addText((text) =>
+          text
+            .setPlaceholder('Label')
+            .setValue(criterion.label)
+            .onChange(async (value) => {
+              const label = value.trim();
+              if (!label) {
+                return;
+              }
+              criterion.label = label;
+              await this.plugin.saveSettings();
+            })
+        )
+        .addText((text) => {
+          text
+            .setPlaceholder('Weight')
+            .setValue(String(criterion.weight))
+            .onChange(async (value) => {
+              const weight = parseFloat(value);
+              if (isNaN(weight) || weight <= 0 || weight > 10) {
+                new Notice('Weight must be greater than 0 and at most 10', 3000);
+                return;
+              }
+              criterion.weight = weight;
+              await this.plugin.saveSettings();
+            });
+          text.inputEl.style.width = '60px';
+        })
+        .addExtraButton((button) =>
+          button
+            .setIcon('trash')
+            .setTooltip('Remove criterion')
+            .onClick(async () => {
+              if (rubric.criteria.length <= 1) {
+                new Notice('The rubric needs at least one criterion', 3000);
+                return;
+              }
+              rubric.criteria.splice(index, 1);
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+
+      new Setting(criterionEl)
+        .setName('Description')
+        .setDesc('What the evaluator should check for')
+        .addTextArea((text) =>
+          text
+            .setValue(criterion.description)
+            .onChange(async (value) => {
+              criterion.description = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+
+      new Setting(criterionEl)
+        .setName('Examples')
+        .setDesc('One per line, e.g. "Pass: ..." / "Fail: ..."')
+        .addTextArea((text) =>
+          text
+            .setValue(criterion.examples.join('\n'))
+            .onChange(async (value) => {
+              criterion.examples = value.split('\n').map((line) => line.trim()).filter((line) => line);
+              await this.plugin.saveSettings();
+            })
+        );
     });
+
+    new Setting(containerEl)
+      .addButton((button) =>
+        button
+          .setButtonText('Add Criterion')
+          .onClick(async () => {
+            const label = 'New Criterion';
+            rubric.criteria.push({
+              key: this.createCriterionKey(label, rubric.criteria),
+              label,
+              description: '',
+              examples: [],
+              weight: 1,
+            });
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText('Reset to Default')
+          .setWarning()
+          .onClick(async () => {
+            this.plugin.settings.triageRubric = JSON.parse(JSON.stringify(DEFAULT_TRIAGE_RUBRIC));
+            await this.plugin.saveSettings();
+            new Notice('✓ Triage rubric reset', 3000);
+            this.display();
+          })
+      );
+
+    // Thresholds
+    new Setting(containerEl)
+      .setName('Adopt Threshold')
+      .setDesc('Minimum score, as % of the maximum, recommended for adoption (default: 100)')
+      .addText((text) =>
+        text
+          .setPlaceholder('100')
+          .setValue(String(rubric.adoptThreshold))
+          .onChange(async (value) => {
+            const threshold = parseInt(value);
+            if (isNaN(threshold) || threshold < 0 || threshold > 100 || threshold < rubric.reviewThreshold) {
+              new Notice('Adopt threshold must be between the review threshold and 100', 3000);
+              return;
+            }
+            rubric.adoptThreshold = threshold;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Review Threshold')
+      .setDesc('Minimum score, as % of the maximum, kept for review; below this is rejected (default: 50)')
+      .addText((text) =>
+        text
+          .setPlaceholder('50')
+          .setValue(String(rubric.reviewThreshold))
+          .onChange(async (value) => {
+            const threshold = parseInt(value);
+            if (isNaN(threshold) || threshold < 0 || threshold > rubric.adoptThreshold) {
+              new Notice('Review threshold must be between 0 and the adopt threshold', 3000);
+              return;
+            }
+            rubric.reviewThreshold = threshold;
+            await this.plugin.saveSettings();
+          })
+      );
   }
 
   /**
-   * Determine which storage method is currently active
+   * Add prompt template settings
+   * Folder for vault overrides, export of built-ins, and rendered preview
    */
-  private getStorageMethod(): SecurityStorageMethod {
-    // Check environment variable
-    if (typeof process !== 'undefined' && process.env?.WEAKLOG_API_KEY) {
-      return 'environment';
-    }
+  private addPromptTemplateSection(containerEl: HTMLElement): void {
+    containerEl.createEl('h2', { text: 'Prompt Templates' });
+    containerEl.createEl('p', {
+      text: 'Override any prompt with a note named "<template>.md" in the template folder. ' +
+        'Variables: {{content}}, {{coreQuestion}}, {{qa}}, {{language}}, {{criteria}}, {{criteriaCount}}, ' +
+        '{{checksExample}}, {{triageContext}}, {{currentQuestion}}, {{instruction}}, {{draft}}.',
+      cls: 'setting-item-description',
+    });
 
-    // Check if SecretStorage has the key
-    try {
-      const adapter = this.app.vault.adapter as any;
-      if (adapter.secretStorage) {
-        // Note: Can't check synchronously if key exists without reading it
-        // Assume 'secret' if SecretStorage is available and data.json is empty
-        if (!this.plugin.settings.apiKey && adapter.secretStorage) {
-          return 'secret';
-        }
-      }
-    } catch (error) {
-      // SecretStorage not available
-    }
+    // Template folder
+    new Setting(containerEl)
+      .setName('Template Folder')
+      .setDesc('Vault folder containing prompt template notes')
+      .addText((text) =>
+        text
+          .setPlaceholder('Weaklog/Prompts')
+          .setValue(this.plugin.settings.promptTemplateFolder)
+          .onChange(async (value) => {
+            const sanitized = value.trim().replace(/^\/+|\/+$/g, '');
+            if (sanitized.includes('..')) {
+              new Notice('Invalid folder path: cannot contain ".."', 3000);
+              return;
+            }
+            this.plugin.settings.promptTemplateFolder = sanitized || DEFAULT_SETTINGS.promptTemplateFolder;
+            await this.plugin.saveSettings();
+          })
+      );
 
-    // Fallback to data.json
-    return 'data';
+    // Export built-in templates
+    new Setting(containerEl)
+      .setName('Export Built-in Templates')
+      .setDesc('Create editable notes for templates that are not overridden yet')
+      .addButton((button) =>
+        button
+          .setButtonText('Export')
+          .onClick(async () => {
+            try {
+              const created = await this.plugin.promptTemplates.exportDefaults();
+              new Notice(`✓ Exported ${created} prompt templates`, 3000);
+            } catch (error) {
+              const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+              new Notice(`❌ ${errorMessage}`, 5000);
+            }
+          })
+      );
+
+    // Preview
+    let previewId: PromptTemplateId = 'triage-system';
+    new Setting(containerEl)
+      .setName('Preview Prompt')
+      .setDesc('Render a template for the active entry')
+      .addDropdown((dropdown) => {
+        for (const [id, name] of Object.entries(PROMPT_TEMPLATE_NAMES)) {
+          dropdown.addOption(id, name);
+        }
+        dropdown
+          .setValue(previewId)
+          .onChange((value) => {
+            previewId = value as PromptTemplateId;
+          });
+      })
+      .addButton((button) =>
+        button
+          .setButtonText('Preview')
+          .onClick(() => {
+            new PromptPreviewModal(
+              this.app,
+              this.plugin.fileManager,
+              this.plugin.promptTemplates,
+              this.plugin.settings,
+              previewId
+            ).open();
+          })
+      );
   }
 
   /**
-   * Get icon for security status
+   * Add provider fallback section
+   * Ordered list of providers tried when the configured one is unavailable
    */
-  private getSecurityIcon(method: SecurityStorageMethod): string {
-    switch (method) {
-      case 'environment':
-        return '🔒';
-      case 'secret':
-        return '🔒';
-      case 'data':
-        return '⚠️';
+  private addFallbackSection(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: 'Fallback Providers' });
+    containerEl.createEl('p', {
+      text: 'If a provider cannot be reached, rejects the API key or is rate limited/out of quota, ' +
+        'these providers are tried in order. Content errors are not retried elsewhere. ' +
+        'Fallbacks use the API keys and Ollama endpoint from the provider settings and the provider\'s default model.',
+      cls: 'setting-item-description',
+    });
+
+    const chain = this.plugin.settings.fallbackProviders;
+
+    chain.forEach((fallbackProvider, index) => {
+      new Setting(containerEl)
+        .setName(`${index + 1}. ${PROVIDER_NAMES[fallbackProvider]}`)
+        .setDesc(`Model: ${getDefaultModel(this.plugin.settings, fallbackProvider) || 'first model served'}`)
+        .addExtraButton((button) =>
+          button
+            .setIcon('arrow-up')
+            .setTooltip('Move up')
+            .setDisabled(index === 0)
+            .onClick(async () => {
+              if (index === 0) {
+                return;
+              }
+              const reordered = [...chain];
+              [reordered[index - 1], reordered[index]] = [reordered[index], reordered[index - 1]];
+              this.plugin.settings.fallbackProviders = reordered;
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon('arrow-down')
+            .setTooltip('Move down')
+            .setDisabled(index === chain.length - 1)
+            .onClick(async () => {
+              if (index === chain.length - 1) {
+                return;
+              }
+              const reordered = [...chain];
+              [reordered[index], reordered[index + 1]] = [reordered[index + 1], reordered[index]];
+              this.plugin.settings.fallbackProviders = reordered;
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon('trash')
+            .setTooltip('Remove fallback')
+            .onClick(async () => {
+              this.plugin.settings.fallbackProviders = chain.filter((_, i) => i !== index);
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+    });
+
+    const available = (Object.keys(PROVIDER_NAMES) as LLMProviderType[])
+      .filter((candidate) => !chain.includes(candidate));
+    if (available.length === 0) {
+      return;
+    }
+
+    new Setting(containerEl)
+      .setName('Add Fallback')
+      .setDesc(chain.length === 0 ? 'No fallback configured; failures are reported immediately' : 'Append a provider to the chain')
+      .addDropdown((dropdown) => {
+        dropdown.addOption('', 'Select provider…');
+        available.forEach((candidate) => dropdown.addOption(candidate, PROVIDER_NAMES[candidate]));
+        dropdown.onChange(async (value) => {
+          if (!value) {
+            return;
+          }
+          this.plugin.settings.fallbackProviders = [...chain, value as LLMProviderType];
+          await this.plugin.saveSettings();
+          this.display();
+        });
+        return dropdown;
+      });
+  }
+
+  /**
+   * Add task routing section
+   * Lets triage, question generation and draft writing use their own provider/model
+   */
+  private addTaskRoutingSection(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: 'Task Routing' });
+    containerEl.createEl('p', {
+      text: 'By default every task uses the provider and model above. ' +
+        'Enable a custom route to send a task elsewhere, e.g. triage to a local Ollama model and drafts to a cloud model. ' +
+        'API keys and the Ollama endpoint are shared with the main provider settings.',
+      cls: 'setting-item-description',
+    });
+
+    const tasks: Array<{ task: LLMTask; name: string }> = [
+      { task: 'triage', name: 'Triage' },
+      { task: 'questions', name: 'Question Generation' },
+      { task: 'draft', name: 'Draft Writing' },
+    ];
+
+    for (const { task, name } of tasks) {
+      const profile = this.plugin.settings.taskProfiles[task];
+
+      new Setting(containerEl)
+        .setName(`${name}: Custom Route`)
+        .setDesc(profile.enabled ? `${name} uses the settings below` : `${name} uses the default provider and model`)
+        .addToggle((toggle) =>
+          toggle
+            .setValue(profile.enabled)
+            .onChange(async (value) => {
+              profile.enabled = value;
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+
+      if (!profile.enabled) {
+        continue;
+      }
+
+      new Setting(containerEl)
+        .setName(`${name}: Provider`)
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOptions(PROVIDER_NAMES)
+            .setValue(profile.provider)
+            .onChange(async (value) => {
+              profile.provider = value as LLMProviderType;
+              await this.plugin.saveSettings();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName(`${name}: Model`)
+        .setDesc('Leave empty for the provider default')
+        .addText((text) =>
+          text
+            .setPlaceholder(DEFAULT_PROVIDER_MODELS[profile.provider] || 'First model served')
+            .setValue(profile.model)
+            .onChange(async (value) => {
+              profile.model = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName(`${name}: Temperature`)
+        .addSlider((slider) =>
+          slider
+            .setLimits(0, 1, 0.1)
+            .setValue(profile.temperature)
+            .setDynamicTooltip()
+            .onChange(async (value) => {
+              profile.temperature = value;
+              await this.plugin.saveSettings();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName(`${name}: Max Tokens`)
+        .setDesc('Maximum response length (100-8000)')
+        .addText((text) =>
+          text
+            .setPlaceholder(String(DEFAULT_SETTINGS.taskProfiles[task].maxTokens))
+            .setValue(String(profile.maxTokens))
+            .onChange(async (value) => {
+              const num = parseInt(value);
+              if (!isNaN(num) && num >= 100 && num <= 8000) {
+                profile.maxTokens = num;
+                await this.plugin.saveSettings();
+              }
+            })
+        );
+    }
+  }
+
+  /**
+   * Add usage and budget section
+   * Monthly budget cap, stats panel and per-model price table
+   */
+  private addUsageSection(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: 'Usage & Budget' });
+    containerEl.createEl('p', {
+      text: 'Every LLM call is recorded with its token counts and cost in usage.jsonl in the plugin folder. ' +
+        'Costs use the prices below at the time of the call. Ollama calls are free; models without a price are counted as unpriced.',
+      cls: 'setting-item-description',
+    });
+
+    const budgetSetting = new Setting(containerEl)
+      .setName('Monthly Budget (USD)')
+      .setDesc('Block LLM calls once this month\'s spend reaches this amount (0 = no cap)')
+      .addText((text) =>
+        text
+          .setPlaceholder('0')
+          .setValue(String(this.plugin.settings.monthlyBudget))
+          .onChange(async (value) => {
+            const budget = parseFloat(value);
+            if (value.trim() === '') {
+              this.plugin.settings.monthlyBudget = 0;
+            } else if (!isNaN(budget) && budget >= 0) {
+              this.plugin.settings.monthlyBudget = budget;
+            } else {
+              return;
+            }
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Fill in this month's spend once the ledger is read
+    this.plugin.usageLedger.getMonthCost().then((spent) => {
+      budgetSetting.setDesc(
+        `Block LLM calls once this month's spend reaches this amount (0 = no cap). Spent this month: $${spent.toFixed(2)}`
+      );
+    });
+
+    new Setting(containerEl)
+      .setName('Usage Stats')
+      .setDesc('Cost per month, task and entry')
+      .addButton((button) =>
+        button
+          .setButtonText('View Usage')
+          .onClick(() => {
+            new UsageStatsModal(this.app, this.plugin.usageLedger, this.plugin.settings).open();
+          })
+      );
+
+    containerEl.createEl('h4', { text: 'Model Prices (USD per million tokens)' });
+    containerEl.createEl('p', {
+      text: 'Input / output price per model. A price also applies to versioned models starting with its name ' +
+        '(e.g. "claude-sonnet-4-5" prices "claude-sonnet-4-5-20250929").',
+      cls: 'setting-item-description',
+    });
+
+    const prices = this.plugin.settings.modelPrices;
+    const updatePrice = async (model: string, field: keyof ModelPrice, value: string) => {
+      const amount = parseFloat(value);
+      if (isNaN(amount) || amount < 0) {
+        return;
+      }
+      this.plugin.settings.modelPrices = {
+        ...this.plugin.settings.modelPrices,
+        [model]: { ...this.plugin.settings.modelPrices[model], [field]: amount },
+      };
+      await this.plugin.saveSettings();
+    };
+
+    Object.keys(prices).sort().forEach((model) => {
+      new Setting(containerEl)
+        .setName(model)
+        .addText((text) => {
+          text.inputEl.style.width = '80px';
+          text.inputEl.title = 'Input price';
+          return text
+            .setPlaceholder('Input')
+            .setValue(String(prices[model].input))
+            .onChange((value) => updatePrice(model, 'input', value));
+        })
+        .addText((text) => {
+          text.inputEl.style.width = '80px';
+          text.inputEl.title = 'Output price';
+          return text
+            .setPlaceholder('Output')
+            .setValue(String(prices[model].output))
+            .onChange((value) => updatePrice(model, 'output', value));
+        })
+        .addExtraButton((button) =>
+          button
+            .setIcon('trash')
+            .setTooltip('Remove price')
+            .onClick(async () => {
+              const remaining = { ...this.plugin.settings.modelPrices };
+              delete remaining[model];
+              this.plugin.settings.modelPrices = remaining;
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+    });
+
+    let newModel = '';
+    new Setting(containerEl)
+      .setName('Add Model Price')
+      .setDesc('Model name as sent to the provider')
+      .addText((text) =>
+        text
+          .setPlaceholder('e.g. gpt-5-nano')
+          .onChange((value) => {
+            newModel = value.trim();
+          })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText('Add')
+          .onClick(async () => {
+            if (!newModel || this.plugin.settings.modelPrices[newModel]) {
+              return;
+            }
+            this.plugin.settings.modelPrices = {
+              ...this.plugin.settings.modelPrices,
+              [newModel]: { input: 0, output: 0 },
+            };
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+  }
+
+  /**
+   * Add response cache section
+   * Enable toggle, TTL, size cap and clear button
+   */
+  private addResponseCacheSection(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: 'Response Cache' });
+    containerEl.createEl('p', {
+      text: 'Triage results and synthesis questions are stored in response-cache.json in the plugin folder, ' +
+        'so running a command again on an unchanged entry does not call the LLM. ' +
+        'Use "Retry" or the "(Skip Cache)" commands to get a fresh answer.',
+      cls: 'setting-item-description',
+    });
+
+    new Setting(containerEl)
+      .setName('Enable Response Cache')
+      .setDesc('Reuse responses for identical provider, model, prompts and temperature')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.responseCacheEnabled)
+          .onChange(async (value) => {
+            this.plugin.settings.responseCacheEnabled = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Cache Lifetime (days)')
+      .setDesc('Cached responses older than this are discarded (0 = never expire)')
+      .addText((text) =>
+        text
+          .setPlaceholder('30')
+          .setValue(String(this.plugin.settings.responseCacheTtlDays))
+          .onChange(async (value) => {
+            const days = parseInt(value);
+            if (!isNaN(days) && days >= 0) {
+              this.plugin.settings.responseCacheTtlDays = days;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Maximum Cache Size (MB)')
+      .setDesc('Least recently used responses are removed above this size (0 = no limit)')
+      .addText((text) =>
+        text
+          .setPlaceholder('10')
+          .setValue(String(this.plugin.settings.responseCacheMaxSizeMB))
+          .onChange(async (value) => {
+            const size = parseFloat(value);
+            if (!isNaN(size) && size >= 0) {
+              this.plugin.settings.responseCacheMaxSizeMB = size;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    const clearSetting = new Setting(containerEl)
+      .setName('Clear Cache')
+      .setDesc('Remove all cached responses')
+      .addButton((button) =>
+        button
+          .setButtonText('Clear Cache')
+          .setWarning()
+          .onClick(async () => {
+            try {
+              await this.plugin.responseCache.clear();
+              clearSetting.setDesc('Remove all cached responses (empty)');
+              new Notice('✓ Response cache cleared', 3000);
+            } catch (error) {
+              const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+              new Notice(`❌ Failed to clear cache: ${errorMessage}`, 5000);
+            }
+          })
+      );
+
+    // Fill in the cache size once the file is read
+    this.plugin.responseCache.getStats().then((stats) => {
+      clearSetting.setDesc(
+        `Remove all cached responses (${stats.entries} cached, ${(stats.bytes / 1024).toFixed(1)} KB)`
+      );
+    });
+  }
+
+  /**
+   * Add publishing section
+   * Export folder, format and default tags used by the Publish command, plus privacy guard
+   */
+  private addPublishSection(containerEl: HTMLElement): void {
+    containerEl.createEl('h2', { text: 'Publishing' });
+    containerEl.createEl('p', {
+      text: 'Publishing exports only the final draft (the "Draft Content" section). ' +
+        'The original entry, Q&A and weaklog frontmatter are never included.',
+      cls: 'setting-item-description',
+    });
+
+    // Export folder
+    new Setting(containerEl)
+      .setName('Export Folder')
+      .setDesc('Vault folder where published files are written')
+      .addText((text) =>
+        text
+          .setPlaceholder('Weaklog/Export')
+          .setValue(this.plugin.settings.exportFolder)
+          .onChange(async (value) => {
+            const sanitized = value.trim().replace(/^\/+|\/+$/g, '');
+            if (sanitized.includes('..')) {
+              new Notice('Invalid folder path: cannot contain ".."', 3000);
+              return;
+            }
+            this.plugin.settings.exportFolder = sanitized || DEFAULT_SETTINGS.exportFolder;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Export format
+    new Setting(containerEl)
+      .setName('Export Format')
+      .setDesc('Output written when an entry is published')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('markdown', 'Markdown (Hugo/Jekyll front matter)')
+          .addOption('html', 'Standalone HTML')
+          .addOption('text', 'Plain text')
+          .setValue(this.plugin.settings.exportFormat)
+          .onChange(async (value) => {
+            this.plugin.settings.exportFormat = value as ExportFormat;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Default tags
+    new Setting(containerEl)
+      .setName('Default Tags')
+      .setDesc('Comma-separated tags for exports; a note\'s own "tags" frontmatter takes precedence')
+      .addText((text) =>
+        text
+          .setPlaceholder('essay, reflection')
+          .setValue(this.plugin.settings.exportTags.join(', '))
+          .onChange(async (value) => {
+            this.plugin.settings.exportTags = value
+              .split(',')
+              .map((tag) => tag.trim())
+              .filter((tag) => tag.length > 0);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Privacy guard
+    containerEl.createEl('h3', { text: 'Privacy Guard' });
+
+    new Setting(containerEl)
+      .setName('Check Before Publishing')
+      .setDesc('Block publishing until you confirm if the export contains raw entry text or personal information')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.privacyGuardEnabled)
+          .onChange(async (value) => {
+            this.plugin.settings.privacyGuardEnabled = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Verbatim Overlap Length')
+      .setDesc('Flag any run of this many consecutive words (or CJK characters) copied from the raw entry')
+      .addSlider((slider) =>
+        slider
+          .setLimits(4, 20, 1)
+          .setValue(this.plugin.settings.privacyShingleSize)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.privacyShingleSize = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Name List Note')
+      .setDesc('Vault note with names to flag on publish and to redact from LLM requests, one per line (e.g. Weaklog/Private Names.md)')
+      .addText((text) =>
+        text
+          .setPlaceholder('Weaklog/Private Names.md')
+          .setValue(this.plugin.settings.privacyNameListPath)
+          .onChange(async (value) => {
+            const sanitized = value.trim().replace(/^\/+/, '');
+            if (sanitized.includes('..')) {
+              new Notice('Invalid path: cannot contain ".."', 3000);
+              return;
+            }
+            this.plugin.settings.privacyNameListPath = sanitized;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Custom Patterns')
+      .setDesc('Extra regular expressions to flag, one per line (case-insensitive). Emails, phone numbers and addresses are always checked.')
+      .addTextArea((text) => {
+        text
+          .setPlaceholder('Project\\s+Falcon\nACME Corp')
+          .setValue(this.plugin.settings.privacyCustomPatterns.join('\n'))
+          .onChange(async (value) => {
+            const patterns = value
+              .split('\n')
+              .map((line) => line.trim())
+              .filter((line) => line.length > 0);
+
+            const invalid = patterns.find((pattern) => {
+              try {
+                new RegExp(pattern);
+                return false;
+              } catch (error) {
+                return true;
+              }
+            });
+            if (invalid) {
+              new Notice(`Invalid pattern: ${invalid}`, 3000);
+              return;
+            }
+
+            this.plugin.settings.privacyCustomPatterns = patterns;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 4;
+      });
+  }
+
+  /**
+   * Derive a unique camelCase criterion key from a label
+   * Labels without ASCII letters (e.g. Japanese) fall back to "criterion"
+   *
+   * @param label - Criterion label
+   * @param others - Other criteria whose keys must not collide
+   * @returns Unique key
+   */
+  private createCriterionKey(label: string, others: RubricCriterion[]): string {
+    const words = label.toLowerCase().match(/[a-z0-9]+/g) || [];
+    const base = words
+      .map((word, i) => (i === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1)))
+      .join('') || 'criterion';
+
+    const taken = new Set(others.map((c) => c.key));
+    let key = base;
+    let suffix = 2;
+    while (taken.has(key)) {
+      key = `${base}${suffix++}`;
+    }
+    return key;
+  }
+
+  /**
+   * Add security status indicator at top of API Configuration section
+   * Shows which storage method is currently active
+   */
+  private addSecurityStatus(containerEl: HTMLElement): void {
+    const statusContainer = containerEl.createDiv('weaklog-security-status');
+    statusContainer.style.padding = '8px 12px';
+    statusContainer.style.marginBottom = '16px';
+    statusContainer.style.backgroundColor = 'var(--background-secondary)';
+    statusContainer.style.borderRadius = '4px';
+    statusContainer.style.display = 'flex';
+    statusContainer.style.alignItems = 'center';
+    statusContainer.style.gap = '8px';
+
+    const method = this.getStorageMethod();
+    const icon = this.getSecurityIcon(method);
+    const text = this.getSecurityText(method);
+
+    statusContainer.createEl('span', { text: icon });
+    statusContainer.createEl('span', {
+      text: `API Key Storage: ${text}`,
+    });
+  }
+
+  /**
+   * Determine which storage method is currently active
+   */
+  private getStorageMethod(): SecurityStorageMethod {
+    // Check environment variable
+    if (typeof process !== 'undefined' && process.env?.WEAKLOG_API_KEY) {
+      return 'environment';
+    }
+
+    // Check if SecretStorage has the key
+    try {
+      const adapter = this.app.vault.adapter as any;
+      if (adapter.secretStorage) {
+        // Note: Can't check synchronously if key exists without reading it
+        // Assume 'secret' if SecretStorage is available and data.json is empty
+        if (!this.plugin.settings.apiKey && adapter.secretStorage) {
+          return 'secret';
+        }
+      }
+    } catch (error) {
+      // SecretStorage not available
+    }
+
+    // Fallback to data.json
+    return 'data';
+  }
+
+  /**
+   * Get icon for security status
+   */
+  private getSecurityIcon(method: SecurityStorageMethod): string {
+    switch (method) {
+      case 'environment':
+        return '🔒';
+      case 'secret':
+        return '🔒';
+      case 'data':
+        return '⚠️';
     }
   }
 
@@ -506,6 +1662,124 @@ export class WeaklogSettingTab extends PluginSettingTab {
     }
   }
 
+  /**
+   * Add OpenAI-compatible connection settings
+   * Base URL, optional API key and custom headers
+   */
+  private addOpenAICompatibleSettings(containerEl: HTMLElement): void {
+    new Setting(containerEl)
+      .setName('Base URL')
+      .setDesc('API base URL including the version path, e.g. http://localhost:1234/v1 (LM Studio), http://localhost:8080/v1 (llama.cpp), https://openrouter.ai/api/v1')
+      .addText((text) =>
+        text
+          .setPlaceholder('http://localhost:1234/v1')
+          .setValue(this.plugin.settings.openaiCompatibleBaseUrl || '')
+          .onChange(async (value) => {
+            this.plugin.settings.openaiCompatibleBaseUrl = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('API Key')
+      .setDesc('Optional. Sent as a Bearer token; leave empty for local servers')
+      .addText((text) => {
+        text
+          .setPlaceholder('sk-...')
+          .setValue(this.plugin.settings.openaiCompatibleApiKey || '')
+          .onChange(async (value) => {
+            this.plugin.settings.openaiCompatibleApiKey = value.trim();
+            await this.plugin.saveSettings();
+          });
+
+        // Mask API key for security
+        text.inputEl.type = 'password';
+      });
+
+    new Setting(containerEl)
+      .setName('Custom Headers')
+      .setDesc('One "Name: value" per line, e.g. "api-key: ..." for Azure-style gateways or "HTTP-Referer: ..." for OpenRouter')
+      .addTextArea((text) => {
+        const headers = this.plugin.settings.openaiCompatibleHeaders || {};
+        text
+          .setPlaceholder('api-key: your-key')
+          .setValue(Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n'))
+          .onChange(async (value) => {
+            const parsed: Record<string, string> = {};
+            for (const line of value.split('\n')) {
+              const trimmed = line.trim();
+              if (trimmed.length === 0) {
+                continue;
+              }
+              const separator = trimmed.indexOf(':');
+              if (separator <= 0) {
+                new Notice(`Invalid header (expected "Name: value"): ${trimmed}`, 3000);
+                return;
+              }
+              parsed[trimmed.slice(0, separator).trim()] = trimmed.slice(separator + 1).trim();
+            }
+
+            this.plugin.settings.openaiCompatibleHeaders = parsed;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 3;
+      });
+  }
+
+  /**
+   * Add OpenAI-compatible model input
+   * Text field with suggestions loaded from the endpoint's /models list
+   */
+  private addOpenAICompatibleModelInput(containerEl: HTMLElement, fieldName: string): void {
+    const setting = new Setting(containerEl)
+      .setName(fieldName)
+      .setDesc('Loading models from server...');
+
+    const datalistEl = containerEl.createEl('datalist');
+    datalistEl.id = 'weaklog-openai-compatible-models';
+
+    setting.addText((text) => {
+      text
+        .setPlaceholder('Empty = first model served')
+        .setValue(this.plugin.settings.model)
+        .onChange(async (value) => {
+          this.plugin.settings.model = value.trim();
+          await this.plugin.saveSettings();
+        });
+      text.inputEl.setAttribute('list', datalistEl.id);
+    });
+
+    // Async load suggestions
+    this.loadOpenAICompatibleModels(setting, datalistEl);
+  }
+
+  /**
+   * Load model suggestions from the OpenAI-compatible endpoint
+   */
+  private async loadOpenAICompatibleModels(setting: Setting, datalistEl: HTMLElement): Promise<void> {
+    try {
+      const llmClient = LLMClient.createFromConfig('openai-compatible', {
+        endpoint: this.plugin.settings.openaiCompatibleBaseUrl || '',
+        apiKey: this.plugin.settings.openaiCompatibleApiKey || undefined,
+        headers: this.plugin.settings.openaiCompatibleHeaders,
+        model: this.plugin.settings.model,
+      });
+
+      const models = await llmClient.getAvailableModels();
+      for (const model of models) {
+        datalistEl.createEl('option', { attr: { value: model } });
+      }
+
+      setting.setDesc(`${models.length} models available from server`);
+      console.log(`[Weaklog] Loaded ${models.length} OpenAI-compatible models`);
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[Weaklog] Failed to load OpenAI-compatible models:', errorMessage);
+      setting.setDesc(`⚠️ Could not load models: ${errorMessage}`);
+    }
+  }
+
   /**
    * Add Ollama model dropdown with dynamic model loading
    * Fetches available models from Ollama server
@@ -18,7 +18,46 @@ export type LLMProviderType =
   | 'anthropic'  // Anthropic Claude (cloud)
   | 'openai'     // OpenAI GPT (cloud)
   | 'gemini'     // Google Gemini (cloud)
-  | 'ollama';    // Ollama (local)
+  | 'ollama'     // Ollama (local)
+  | 'openai-compatible'; // Any OpenAI-compatible endpoint (LM Studio, llama.cpp, vLLM, OpenRouter, gateways)
+
+/**
+ * LLM tasks that can be routed to their own provider/model
+ * - triage: Step 3 evaluation
+ * - questions: Synthesis questions, replacements and chat follow-ups
+ * - draft: AI draft suggestions and revisions
+ */
+export type LLMTask = 'triage' | 'questions' | 'draft';
+
+/**
+ * Provider/model profile for one task
+ * Disabled profiles keep their values but the task uses the default provider/model
+ */
+export interface TaskProfile {
+  enabled: boolean;
+  provider: LLMProviderType;
+
+  /** Model identifier (empty = default model) */
+  model: string;
+
+  temperature: number;
+  maxTokens: number;
+}
+
+/**
+ * Provider/model that actually produced an LLM response
+ * Differs from the configured one when a fallback provider answered
+ */
+export interface LLMResponseSource {
+  provider: LLMProviderType;
+  model: string;
+
+  /** True if the configured provider failed and a fallback answered */
+  fallback: boolean;
+
+  /** True if the response was served from the response cache */
+  cached?: boolean;
+}
 
 /**
  * Supported response languages
@@ -59,29 +98,62 @@ export interface CheckResult {
 }
 
 /**
- * Complete AI triage evaluation result
- * Evaluates entry against 4 criteria for creative potential
+ * Origin of a triage result
+ * - ai: validated model output
+ * - fallback: analysis failed; placeholder that must not be persisted as a real score
+ * - human: entered by the user in manual triage
  */
-export interface TriageResult {
-  /** Four evaluation criteria with pass/fail and reasons */
-  checks: {
-    /** Has concrete situations/experiences (not just abstract feelings) */
-    hasSpecifics: CheckResult;
+export type TriageProvenance = 'ai' | 'fallback' | 'human';
+
+/**
+ * Single triage criterion in the rubric
+ */
+export interface RubricCriterion {
+  /** Stable key used in TriageResult.checks (camelCase, e.g. "hasSpecifics") */
+  key: string;
+
+  /** Display name (e.g. "Has Specifics") */
+  label: string;
+
+  /** What the evaluator should check for */
+  description: string;
+
+  /** Optional pass/fail examples shown to the evaluator */
+  examples: string[];
+
+  /** Points added to the score when this criterion passes */
+  weight: number;
+}
 
-    /** Can be condensed to one essential question (<40 chars) */
-    canBeCorePhrase: CheckResult;
+/**
+ * Triage rubric: criteria plus recommendation thresholds
+ * Thresholds are percentages (0-100) of the maximum weighted score
+ */
+export interface TriageRubric {
+  criteria: RubricCriterion[];
 
-    /** Universal relevance (not overly personal/niche) */
-    isTransferable: CheckResult;
+  /** Minimum score percentage for "adopt" (default: 100) */
+  adoptThreshold: number;
 
-    /** Constructive and safe for readers (not harmful) */
-    isNonHarmful: CheckResult;
-  };
+  /** Minimum score percentage for "review" (default: 50) */
+  reviewThreshold: number;
+}
 
-  /** Score: 0-4 (count of passed checks) */
+/**
+ * Complete AI triage evaluation result
+ * Evaluates entry against the rubric criteria for creative potential
+ */
+export interface TriageResult {
+  /** Rubric criteria keyed by RubricCriterion.key, with pass/fail and reasons */
+  checks: Record<string, CheckResult>;
+
+  /** Weighted score: sum of weights of passed checks */
   score: number;
 
-  /** Recommendation based on score: 4=adopt, 2-3=review, 0-1=reject */
+  /** Maximum possible score for the rubric used (absent in older results = 4) */
+  maxScore?: number;
+
+  /** Recommendation based on score percentage and rubric thresholds */
   recommendation: 'adopt' | 'review' | 'reject';
 
   /** Essential question distilled from entry (max 40 chars) */
@@ -89,12 +161,63 @@ export interface TriageResult {
 
   /** ISO 8601 timestamp of analysis */
   timestamp: string;
+
+  /** Origin of this result (absent in results stored before provenance existed = 'ai') */
+  provenance?: TriageProvenance;
+
+  /** Why analysis failed (fallback results only) */
+  failureReason?: string;
+
+  /** Provider/model that produced the result (absent for manual and older results) */
+  source?: LLMResponseSource;
+
+  /** Short hash of the triage templates and rubric used (absent for manual and older results) */
+  promptVersion?: string;
+}
+
+/**
+ * User decision taken on a triage result
+ */
+export type TriageDecision = 'adopt' | 'review' | 'reject';
+
+/**
+ * One triage run and the decision taken on it
+ * Stored as a JSON array in the triage_history frontmatter field (oldest first)
+ */
+export interface TriageHistoryEntry {
+  /** Triage result of this run */
+  result: TriageResult;
+
+  /** Provider that answered (null for manual results) */
+  provider: string | null;
+
+  /** Model that answered (null for manual results) */
+  model: string | null;
+
+  /** Prompt version of the run (null for manual results) */
+  promptVersion: string | null;
+
+  /** Decision taken on the result (null for runs recorded before decisions were kept) */
+  decision: TriageDecision | null;
+
+  /** True if the decision differs from the recommendation */
+  overridden: boolean;
+
+  /** ISO 8601 timestamp of the decision */
+  timestamp: string;
 }
 
 // ============================================================================
 // Synthesis Types (Step 4)
 // ============================================================================
 
+/**
+ * Who wrote a synthesis question
+ * - ai: Generated (or regenerated) by the LLM
+ * - user: Written by the user in SynthesisModal
+ */
+export type QuestionOrigin = 'ai' | 'user';
+
 /**
  * AI-generated guidance for synthesis (transformation)
  * Provides questions to deepen and universalize content
@@ -103,13 +226,67 @@ export interface SynthesisGuide {
   /** 3-5 questions to guide transformation */
   questions: string[];
 
+  /** Origin per question index (absent = all AI-generated) */
+  questionOrigins?: QuestionOrigin[];
+
   /** Suggested tone for final work (e.g., "reflective", "analytical") */
   suggestedTone: string;
 
+  /** Provider/model that generated the questions (absent for generic and older guides) */
+  source?: LLMResponseSource;
+
+  /** ISO 8601 timestamp of generation */
+  timestamp: string;
+}
+
+/**
+ * One AI draft version in the revision loop
+ */
+export interface DraftVersion {
+  /** Draft text */
+  text: string;
+
+  /** Revision instruction (null for a fresh suggestion) */
+  instruction: string | null;
+
+  /** Index of the version this was revised from (null for a fresh suggestion) */
+  basedOn: number | null;
+
   /** ISO 8601 timestamp of generation */
   timestamp: string;
 }
 
+/**
+ * All AI draft versions for an entry and the one kept
+ */
+export interface DraftHistory {
+  versions: DraftVersion[];
+
+  /** Index of the version included in the draft */
+  selectedIndex: number;
+}
+
+/**
+ * Autosaved state of an unfinished synthesis
+ * Restored when the synthesize command is run again on the same file
+ */
+export interface SynthesisSession {
+  /** Questions generated for this session (reused instead of regenerating) */
+  guide: SynthesisGuide;
+
+  /** Answer per question index ('' if unanswered) */
+  answers: string[];
+
+  /** Last AI draft suggestion, if any */
+  aiSuggestedDraft: string | null;
+
+  /** AI draft versions (suggestions and revisions) */
+  draftHistory?: DraftHistory;
+
+  /** ISO 8601 timestamp of last save */
+  updatedAt: string;
+}
+
 // ============================================================================
 // Main Entry Type
 // ============================================================================
@@ -137,8 +314,20 @@ export interface WeaklogEntry {
   /** Triage evaluation result (populated after Step 3) */
   triageResult?: TriageResult;
 
+  /** Every triage run with its decision, oldest first (populated after Step 3) */
+  triageHistory?: TriageHistoryEntry[];
+
   /** Synthesis guidance (populated after Step 4) */
   synthesisGuide?: SynthesisGuide;
+
+  /** Conversational synthesis transcript (populated after Step 4 in chat mode) */
+  synthesisTranscript?: ChatMessage[];
+
+  /** AI draft version history (populated after Step 4) */
+  draftHistory?: DraftHistory;
+
+  /** In-progress synthesis answers (autosaved while SynthesisModal is open) */
+  synthesisSession?: SynthesisSession;
 }
 
 // ============================================================================
@@ -193,6 +382,130 @@ export interface WeaklogSettings {
 
   /** Ollama server endpoint (default: 'http://localhost:11434') */
   ollamaEndpoint?: string;
+
+  /** OpenAI-compatible base URL including the API version path (e.g. 'http://localhost:1234/v1') */
+  openaiCompatibleBaseUrl?: string;
+
+  /** OpenAI-compatible API key (optional; sent as Bearer token) */
+  openaiCompatibleApiKey?: string;
+
+  /** Extra headers for the OpenAI-compatible endpoint (e.g. "api-key" for Azure-style gateways) */
+  openaiCompatibleHeaders?: Record<string, string>;
+
+  // ========================================================================
+  // Cooldown Scheduler Settings
+  // ========================================================================
+
+  /** Show a notice automatically when entries finish cooling (default: true) */
+  cooldownNotifications: boolean;
+
+  /** Show ready-entry count in the status bar (default: true) */
+  showReadyBadge: boolean;
+
+  /** Extra cooling days offered by "Review Later" in the triage modal (default: 7) */
+  reviewLaterDays: number;
+
+  /** Flag entries sent back with "Review Later" more than this many times (0 = never, default: 3) */
+  maxReviewDeferrals: number;
+
+  /** Maximum parallel analyses for batch triage (default: 2) */
+  batchTriageConcurrency: number;
+
+  /** Triage criteria and thresholds */
+  triageRubric: TriageRubric;
+
+  /** Vault folder containing prompt template overrides (default: "Weaklog/Prompts") */
+  promptTemplateFolder: string;
+
+  /** Vault folder for published exports (default: "Weaklog/Export") */
+  exportFolder: string;
+
+  /** Output format written on publish (default: "markdown") */
+  exportFormat: ExportFormat;
+
+  /** Tags for exports whose note has no "tags" frontmatter */
+  exportTags: string[];
+
+  /** Check exports for raw entry text and personal information before publishing */
+  privacyGuardEnabled: boolean;
+
+  /** Consecutive words that count as verbatim overlap with the raw entry (default: 8) */
+  privacyShingleSize: number;
+
+  /** Vault note listing names to flag and redact, one per line (empty = none) */
+  privacyNameListPath: string;
+
+  /** Extra regular expressions to flag (case-insensitive) */
+  privacyCustomPatterns: string[];
+
+  /** Redact personal data before sending requests, per provider */
+  redactPersonalData: Record<LLMProviderType, boolean>;
+
+  /** Extra regular expressions to redact (case-insensitive) */
+  redactionCustomPatterns: string[];
+
+  /** Per-task provider/model profiles */
+  taskProfiles: Record<LLMTask, TaskProfile>;
+
+  /** Providers tried in order when the configured provider is unreachable, rejects the key or is out of quota */
+  fallbackProviders: LLMProviderType[];
+
+  /** Prices per model in USD per million tokens (used for the usage ledger) */
+  modelPrices: Record<string, ModelPrice>;
+
+  /** Monthly spend cap in USD; calls are blocked once reached (0 = no cap) */
+  monthlyBudget: number;
+
+  /** Reuse responses to identical triage and question requests */
+  responseCacheEnabled: boolean;
+
+  /** Days before a cached response expires */
+  responseCacheTtlDays: number;
+
+  /** Maximum cache file size in MB; least recently used responses are evicted */
+  responseCacheMaxSizeMB: number;
+}
+
+/**
+ * Publish export format
+ * - markdown: Hugo/Jekyll-ready Markdown with title/date/tags front matter
+ * - html: Standalone HTML document
+ * - text: Plain text
+ */
+export type ExportFormat = 'markdown' | 'html' | 'text';
+
+// ============================================================================
+// Privacy Types
+// ============================================================================
+
+/**
+ * Kind of sensitive information found in text
+ */
+export type SensitiveMatchType = 'email' | 'phone' | 'address' | 'url' | 'name' | 'custom';
+
+/**
+ * One privacy issue found before publishing
+ * - verbatim: Passage copied from the original raw entry
+ * - others: Sensitive pattern match
+ */
+export interface PrivacyFinding {
+  type: 'verbatim' | SensitiveMatchType;
+
+  /** Offending text */
+  text: string;
+}
+
+/**
+ * Result of the pre-publish privacy check
+ */
+export interface PrivacyReport {
+  findings: PrivacyFinding[];
+
+  /** Share of publishable words copied verbatim from the raw entry (0-1) */
+  overlapRatio: number;
+
+  /** Checks that could not run (e.g. missing original entry or name list) */
+  warnings: string[];
 }
 
 // ============================================================================
@@ -218,6 +531,9 @@ export interface CooldownEntry {
 
   /** ISO 8601 timestamp when entry becomes ready for triage */
   readyAt: string;
+
+  /** Times the entry was sent back with "Review Later" (absent = 0) */
+  deferrals?: number;
 }
 
 /**
@@ -245,6 +561,67 @@ export type SecurityStorageMethod =
   | 'secret'       // Obsidian SecretStorage API
   | 'data';        // Unencrypted data.json (least secure)
 
+/**
+ * JSON schema subset used for structured LLM output
+ * Kept to features every provider's native mechanism understands
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: Array<string | number>;
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * Named response schema for structured output
+ */
+export interface ResponseSchema {
+  /** Identifier (used as tool name / schema name by providers) */
+  name: string;
+
+  /** Short description of the expected output */
+  description?: string;
+
+  /** JSON schema the response must match */
+  schema: JsonSchema;
+}
+
+/**
+ * Single message in a multi-turn conversation
+ * System prompts are passed separately
+ */
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Token usage reported by a provider for one call
+ * Token counts are 0 when the provider does not report them
+ */
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+
+  /** Model that served the call */
+  model: string;
+
+  /** Time from request to complete response */
+  latencyMs: number;
+}
+
+/**
+ * Provider response with usage metadata
+ */
+export interface LLMResponse {
+  text: string;
+  usage: LLMUsage;
+}
+
 /**
  * LLM API call options
  */
@@ -255,6 +632,111 @@ export interface LLMCallOptions {
   /** Maximum tokens to generate */
   maxTokens?: number;
 
-  /** Timeout in milliseconds */
+  /** Timeout in milliseconds per attempt (idle timeout between chunks when streaming) */
   timeoutMs?: number;
+
+  /** Abort signal for caller-initiated cancellation */
+  signal?: AbortSignal;
+
+  /** Request structured JSON output matching this schema */
+  responseSchema?: ResponseSchema;
+
+  /** Called with the provider/model that answered (after any fallback) */
+  onSource?: (source: LLMResponseSource) => void;
+
+  /** Task recorded in the usage ledger */
+  task?: LLMTask;
+
+  /** Entry recorded in the usage ledger */
+  entryId?: string;
+
+  /** Serve identical requests from the response cache (non-streaming calls only) */
+  cache?: boolean;
+
+  /** Skip the cache lookup but store the fresh response */
+  forceRefresh?: boolean;
+
+  /** Check a response before caching it; failing responses are neither stored nor served */
+  validate?: (text: string) => boolean;
+}
+
+// ============================================================================
+// Usage Tracking Types
+// ============================================================================
+
+/**
+ * Model price in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * One LLM call in the usage ledger (usage.jsonl in the plugin folder)
+ */
+export interface UsageRecord {
+  /** ISO 8601 timestamp of the call */
+  timestamp: string;
+
+  provider: LLMProviderType;
+  model: string;
+
+  /** Task that made the call, if known */
+  task: LLMTask | null;
+
+  /** Entry the call was made for, if known */
+  entryId: string | null;
+
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+
+  /** Cost in USD at the time of the call, or null if the model has no price */
+  cost: number | null;
+
+  /** True if a fallback provider answered */
+  fallback: boolean;
+}
+
+/**
+ * Cached LLM response (response-cache.json in the plugin folder)
+ */
+export interface CachedResponse {
+  text: string;
+
+  /** Provider/model that produced the response */
+  source: LLMResponseSource;
+
+  /** ISO 8601 timestamp of the original call */
+  createdAt: string;
+
+  /** ISO 8601 timestamp of the last cache hit (for eviction) */
+  lastUsedAt: string;
+}
+
+/**
+ * Response cache file structure
+ */
+export interface ResponseCacheData {
+  /** Responses keyed by SHA-256 of the request */
+  entries: Record<string, CachedResponse>;
+}
+
+/**
+ * Usage totals for one month, task or entry
+ */
+export interface UsageBucket {
+  /** Month (YYYY-MM), task or entry ID */
+  key: string;
+
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+
+  /** Cost of priced calls in USD */
+  cost: number;
+
+  /** Calls whose model had no price */
+  unpricedCalls: number;
 }
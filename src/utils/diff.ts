@@ -0,0 +1,114 @@
+/**
+ * diff - Word-level text diff
+ *
+ * Used to show what changed between draft versions:
+ * - Text is split into words and whitespace runs
+ * - CJK characters are compared one by one (no spaces between words)
+ * - Longest common subsequence decides what was kept
+ *
+ * Very large inputs skip the LCS table and are shown as a full replacement.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One run of equal, added or removed text
+ */
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+/** Largest LCS table (tokens × tokens) computed before giving up */
+const MAX_TABLE_SIZE = 4_000_000;
+
+/** Whitespace runs, single CJK characters, or other word runs */
+const TOKEN_PATTERN = /\s+|[\u3000-\u30ff\u3400-\u9fff\uff00-\uffef]|[^\s\u3000-\u30ff\u3400-\u9fff\uff00-\uffef]+/g;
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+/**
+ * Split text into diff tokens
+ *
+ * @param text - Text to split
+ * @returns Tokens (concatenating them gives the original text)
+ */
+export function tokenize(text: string): string[] {
+  return text.match(TOKEN_PATTERN) || [];
+}
+
+/**
+ * Compute word-level diff between two texts
+ *
+ * @param before - Previous text
+ * @param after - New text
+ * @returns Segments in reading order, adjacent segments of the same type merged
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  if (a.length * b.length > MAX_TABLE_SIZE) {
+    return mergeSegments([
+      { type: 'removed', text: before },
+      { type: 'added', text: after },
+    ]);
+  }
+
+  // lcs[i * width + j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      segments.push({ type: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      segments.push({ type: 'removed', text: a[i++] });
+    } else {
+      segments.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) {
+    segments.push({ type: 'removed', text: a[i++] });
+  }
+  while (j < b.length) {
+    segments.push({ type: 'added', text: b[j++] });
+  }
+
+  return mergeSegments(segments);
+}
+
+/**
+ * Merge adjacent segments of the same type and drop empty ones
+ */
+function mergeSegments(segments: DiffSegment[]): DiffSegment[] {
+  const merged: DiffSegment[] = [];
+  for (const segment of segments) {
+    if (segment.text.length === 0) {
+      continue;
+    }
+    const last = merged[merged.length - 1];
+    if (last && last.type === segment.type) {
+      last.text += segment.text;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,19 @@
+/**
+ * hash - Content hashing
+ *
+ * SHA-256 via the Web Crypto API (available in Obsidian on desktop and mobile).
+ * Used for response cache keys and triage prompt versions.
+ */
+
+/**
+ * Hash text with SHA-256
+ *
+ * @param text - Text to hash (UTF-8 encoded)
+ * @returns Lowercase hex digest (64 characters)
+ */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
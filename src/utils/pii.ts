@@ -0,0 +1,165 @@
+/**
+ * pii - Sensitive pattern detection
+ *
+ * Finds personal information in text before it leaves the vault:
+ * - Built-in patterns: email addresses, phone numbers, street/postal addresses, URLs
+ * - Names from a user-maintained list
+ * - Custom regular expressions from settings
+ *
+ * Patterns are deliberately broad; false positives are shown to the user,
+ * who decides whether to continue.
+ */
+
+import { SensitiveMatchType } from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One sensitive match in the scanned text
+ */
+export interface SensitiveMatch {
+  type: SensitiveMatchType;
+
+  /** Matched text */
+  text: string;
+
+  /** Offset of the match in the scanned text */
+  index: number;
+}
+
+/**
+ * Options for detectSensitive
+ */
+export interface SensitiveScanOptions {
+  /** Names to look for (case-insensitive) */
+  names?: string[];
+
+  /** Custom regex sources (invalid ones are skipped) */
+  customPatterns?: string[];
+
+  /** Built-in pattern types to check (default: all) */
+  builtinTypes?: SensitiveMatchType[];
+}
+
+// ============================================================================
+// Built-in Patterns
+// ============================================================================
+
+/**
+ * Built-in patterns per type
+ * Sources only; a fresh global RegExp is created per scan
+ */
+const BUILTIN_PATTERNS: Array<{ type: SensitiveMatchType; source: string; flags: string }> = [
+  {
+    type: 'email',
+    source: '[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}',
+    flags: 'g',
+  },
+  {
+    // International/separated numbers (+81 90-1234-5678, (555) 123-4567) or 10-11 digit runs starting with 0
+    type: 'phone',
+    source: '(?:\\+\\d{1,3}[\\s-]?)?(?:\\(\\d{2,4}\\)\\s?|\\b\\d{2,4}[\\s-])\\d{2,4}[\\s-]\\d{3,4}\\b|\\b0\\d{9,10}\\b',
+    flags: 'g',
+  },
+  {
+    // "123 Main Street", "42 Elm Ave."
+    type: 'address',
+    source: '\\b\\d{1,5}\\s+(?:[A-Z][a-z]+\\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl)\\b\\.?',
+    flags: 'g',
+  },
+  {
+    // Japanese postal code (〒123-4567) or prefecture + municipality (東京都新宿区, 神奈川県横浜市)
+    type: 'address',
+    source: '〒\\s?\\d{3}-?\\d{4}|(?:東京都|北海道|京都府|大阪府|[\\u4e00-\\u9fff]{2,3}県)[\\u4e00-\\u9fff]{1,6}?[市区町村]',
+    flags: 'g',
+  },
+  {
+    type: 'url',
+    // Trailing punctuation belongs to the sentence, not the URL
+    source: '\\b(?:https?:\\/\\/|www\\.)[^\\s<>()"\\]]*[^\\s<>()"\\].,;:!?\'。、]',
+    flags: 'gi',
+  },
+];
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+/**
+ * Find sensitive patterns in text
+ *
+ * @param text - Text to scan
+ * @param options - Names and custom patterns
+ * @returns Matches sorted by position (overlapping matches of different types are all kept)
+ */
+export function detectSensitive(text: string, options: SensitiveScanOptions = {}): SensitiveMatch[] {
+  const matches: SensitiveMatch[] = [];
+
+  for (const pattern of BUILTIN_PATTERNS) {
+    if (options.builtinTypes && !options.builtinTypes.includes(pattern.type)) {
+      continue;
+    }
+    collectMatches(text, new RegExp(pattern.source, pattern.flags), pattern.type, matches);
+  }
+
+  for (const name of options.names || []) {
+    const regex = createNameRegex(name);
+    if (regex) {
+      collectMatches(text, regex, 'name', matches);
+    }
+  }
+
+  for (const source of options.customPatterns || []) {
+    try {
+      collectMatches(text, new RegExp(source, 'gi'), 'custom', matches);
+    } catch (error) {
+      console.warn(`[Weaklog] Skipping invalid sensitive pattern: ${source}`);
+    }
+  }
+
+  return matches.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Parse a name list note
+ * One name per line; list markers are stripped, blank lines and "#" comments ignored
+ *
+ * @param content - Note content
+ * @returns Names
+ */
+export function parseNameList(content: string): string[] {
+  return content
+    .replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n?/, '')
+    .split('\n')
+    .map((line) => line.replace(/^\s*(?:[-*+]|\d+\.)\s+/, '').trim())
+    .filter((line) => line.length > 0 && !line.startsWith('#'));
+}
+
+/**
+ * Build a case-insensitive regex for a name
+ * ASCII names match whole words; other scripts (e.g. Japanese) match anywhere
+ */
+function createNameRegex(name: string): RegExp | null {
+  const trimmed = name.trim();
+  if (trimmed.length === 0) {
+    return null;
+  }
+
+  const escaped = trimmed.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return /^[\x20-\x7e]+$/.test(trimmed)
+    ? new RegExp(`\\b${escaped}\\b`, 'gi')
+    : new RegExp(escaped, 'g');
+}
+
+/**
+ * Append all matches of a global regex
+ */
+function collectMatches(text: string, regex: RegExp, type: SensitiveMatchType, matches: SensitiveMatch[]): void {
+  for (const match of text.matchAll(regex)) {
+    if (match[0].length > 0 && match.index !== undefined) {
+      matches.push({ type, text: match[0], index: match.index });
+    }
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * shingles - Verbatim overlap detection
+ *
+ * Compares two texts by word n-grams ("shingles"):
+ * - Tokens are words (CJK: single characters), lowercased, punctuation removed
+ * - Every run of `size` consecutive tokens in the source is indexed
+ * - Candidate tokens covered by any indexed shingle are reported as passages
+ *
+ * Used to catch raw journal text that survived into a publishable draft.
+ */
+
+import { tokenize } from './diff';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Result of an overlap check
+ */
+export interface OverlapResult {
+  /** Candidate passages that appear verbatim in the source */
+  passages: string[];
+
+  /** Share of candidate tokens covered by overlapping shingles (0-1) */
+  ratio: number;
+}
+
+/**
+ * Token with its position in the original text
+ */
+interface PositionedToken {
+  key: string;
+  start: number;
+  end: number;
+}
+
+// ============================================================================
+// Overlap
+// ============================================================================
+
+/**
+ * Find verbatim passages of the source inside the candidate
+ *
+ * @param source - Private text (e.g. raw journal entry)
+ * @param candidate - Text about to be shared
+ * @param size - Shingle size in tokens
+ * @returns Overlapping candidate passages and coverage ratio
+ */
+export function findVerbatimOverlap(source: string, candidate: string, size: number): OverlapResult {
+  const sourceTokens = toPositionedTokens(source);
+  const candidateTokens = toPositionedTokens(candidate);
+  const n = Math.max(1, Math.floor(size));
+
+  if (sourceTokens.length < n || candidateTokens.length < n) {
+    return { passages: [], ratio: 0 };
+  }
+
+  const shingles = new Set<string>();
+  for (let i = 0; i + n <= sourceTokens.length; i++) {
+    shingles.add(shingleKey(sourceTokens, i, n));
+  }
+
+  const covered = new Array<boolean>(candidateTokens.length).fill(false);
+  for (let i = 0; i + n <= candidateTokens.length; i++) {
+    if (shingles.has(shingleKey(candidateTokens, i, n))) {
+      covered.fill(true, i, i + n);
+    }
+  }
+
+  // Merge runs of covered tokens into passages
+  const passages: string[] = [];
+  let runStart = -1;
+  for (let i = 0; i <= covered.length; i++) {
+    if (i < covered.length && covered[i]) {
+      if (runStart === -1) {
+        runStart = i;
+      }
+    } else if (runStart !== -1) {
+      passages.push(candidate.slice(candidateTokens[runStart].start, candidateTokens[i - 1].end));
+      runStart = -1;
+    }
+  }
+
+  const coveredCount = covered.filter(Boolean).length;
+  return { passages, ratio: coveredCount / candidateTokens.length };
+}
+
+/**
+ * Tokenize and normalize text, keeping positions
+ * Whitespace and punctuation-only tokens are dropped
+ */
+function toPositionedTokens(text: string): PositionedToken[] {
+  const tokens: PositionedToken[] = [];
+  let offset = 0;
+
+  for (const token of tokenize(text)) {
+    const key = token.toLowerCase().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+    if (key.length > 0) {
+      tokens.push({ key, start: offset, end: offset + token.length });
+    }
+    offset += token.length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Join n token keys into a set key
+ */
+function shingleKey(tokens: PositionedToken[], start: number, n: number): string {
+  return tokens.slice(start, start + n).map((token) => token.key).join(' ');
+}
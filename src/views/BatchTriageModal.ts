@@ -0,0 +1,299 @@
+/**
+ * BatchTriageModal - Step 3 batch progress UI
+ *
+ * Runs triage analysis for many ready entries at once:
+ * - Bounded concurrency to avoid hammering the provider
+ * - Live progress bar and per-entry status
+ * - Cancel stops scheduling new analyses
+ * - Hands successful results to the review queue when done
+ */
+
+import { App, Modal, TFile } from 'obsidian';
+import { TriageAnalyzer } from '../llm/TriageAnalyzer';
+import { ResponseLanguage, TriageResult } from '../types';
+
+/**
+ * Single entry queued for batch triage
+ */
+export interface BatchTriageItem {
+  /** Weaklog ID */
+  weaklogId: string;
+
+  /** File in 02_Cooling */
+  file: TFile;
+
+  /** Entry body content to analyze */
+  content: string;
+}
+
+/**
+ * Successful batch triage result
+ */
+export interface BatchTriageResult {
+  item: BatchTriageItem;
+  triageResult: TriageResult;
+}
+
+type ItemState = 'pending' | 'running' | 'done' | 'unparsed' | 'failed';
+
+/**
+ * BatchTriageModal class
+ * Analyzes entries with a concurrency limit and reports progress
+ */
+export class BatchTriageModal extends Modal {
+  private items: BatchTriageItem[];
+  private analyzer: TriageAnalyzer;
+  private language: ResponseLanguage;
+  private concurrency: number;
+  private onComplete: (results: BatchTriageResult[]) => void;
+  private results: Map<number, TriageResult> = new Map();
+  private states: ItemState[];
+  private errors: Map<number, string> = new Map();
+  private cancelled = false;
+  private finished = false;
+  private progressBarEl: HTMLElement | null = null;
+  private progressTextEl: HTMLElement | null = null;
+  private listEl: HTMLElement | null = null;
+  private actionsEl: HTMLElement | null = null;
+
+  constructor(
+    app: App,
+    items: BatchTriageItem[],
+    analyzer: TriageAnalyzer,
+    language: ResponseLanguage,
+    concurrency: number,
+    onComplete: (results: BatchTriageResult[]) => void
+  ) {
+    super(app);
+    this.items = items;
+    this.analyzer = analyzer;
+    this.language = language;
+    this.concurrency = Math.max(1, concurrency);
+    this.onComplete = onComplete;
+    this.states = items.map(() => 'pending');
+  }
+
+  // ========================================================================
+  // Modal Lifecycle
+  // ========================================================================
+
+  /**
+   * Called when modal is opened
+   * Builds progress UI and starts analysis
+   */
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('weaklog-batch-triage-modal');
+
+    // Header
+    contentEl.createEl('h2', { text: 'Batch Triage' });
+
+    // Progress bar
+    const progressEl = contentEl.createDiv('weaklog-batch-progress');
+    progressEl.style.height = '8px';
+    progressEl.style.marginBottom = '8px';
+    progressEl.style.backgroundColor = 'var(--background-secondary)';
+    progressEl.style.borderRadius = '4px';
+    progressEl.style.overflow = 'hidden';
+
+    this.progressBarEl = progressEl.createDiv();
+    this.progressBarEl.style.height = '100%';
+    this.progressBarEl.style.width = '0%';
+    this.progressBarEl.style.backgroundColor = 'var(--interactive-accent)';
+    this.progressBarEl.style.transition = 'width 0.3s ease';
+
+    this.progressTextEl = contentEl.createDiv('weaklog-batch-progress-text');
+    this.progressTextEl.style.fontSize = '13px';
+    this.progressTextEl.style.color = 'var(--text-muted)';
+    this.progressTextEl.style.marginBottom = '16px';
+
+    // Per-entry status list
+    this.listEl = contentEl.createDiv('weaklog-batch-list');
+    this.listEl.style.maxHeight = '300px';
+    this.listEl.style.overflowY = 'auto';
+    this.listEl.style.marginBottom = '16px';
+
+    // Actions
+    this.actionsEl = contentEl.createDiv('weaklog-actions');
+    this.actionsEl.style.display = 'flex';
+    this.actionsEl.style.justifyContent = 'flex-end';
+    this.actionsEl.style.gap = '8px';
+
+    this.render();
+    this.run();
+  }
+
+  /**
+   * Called when modal is closed
+   * Closing mid-run cancels remaining analyses
+   */
+  onClose(): void {
+    this.cancelled = true;
+    this.progressBarEl = null;
+    this.progressTextEl = null;
+    this.listEl = null;
+    this.actionsEl = null;
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+
+  // ========================================================================
+  // Batch Execution
+  // ========================================================================
+
+  /**
+   * Run analyses with bounded concurrency
+   */
+  private async run(): Promise<void> {
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+      while (!this.cancelled && next < this.items.length) {
+        const index = next++;
+        await this.analyzeItem(index);
+      }
+    };
+
+    const workerCount = Math.min(this.concurrency, this.items.length);
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+    this.finished = true;
+    console.log(`[Weaklog] Batch triage finished: ${this.results.size}/${this.items.length} analyzed`);
+    this.render();
+  }
+
+  /**
+   * Analyze a single item and record the outcome
+   *
+   * @param index - Item index
+   */
+  private async analyzeItem(index: number): Promise<void> {
+    const item = this.items[index];
+    this.states[index] = 'running';
+    this.render();
+
+    try {
+      const triageResult = await this.analyzer.analyzeEntry(item.content, this.language, item.weaklogId);
+      this.results.set(index, triageResult);
+
+      // Unparsed responses still go to the queue, where they can be retried
+      if (triageResult.provenance === 'fallback') {
+        this.states[index] = 'unparsed';
+        this.errors.set(index, 'Analysis failed - retry in review');
+      } else {
+        this.states[index] = 'done';
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Weaklog] Batch triage failed for ${item.weaklogId}:`, error);
+      this.errors.set(index, errorMessage);
+      this.states[index] = 'failed';
+    }
+
+    this.render();
+  }
+
+  // ========================================================================
+  // UI Rendering
+  // ========================================================================
+
+  /**
+   * Re-render progress, list and actions
+   */
+  private render(): void {
+    if (!this.progressBarEl || !this.progressTextEl || !this.listEl || !this.actionsEl) {
+      return;
+    }
+
+    const total = this.items.length;
+    const completed = this.states.filter((s) => s !== 'pending' && s !== 'running').length;
+    const failed = this.errors.size;
+
+    this.progressBarEl.style.width = `${total === 0 ? 100 : (completed / total) * 100}%`;
+
+    let progressText = `${completed} / ${total} analyzed`;
+    if (failed > 0) progressText += ` · ${failed} failed`;
+    if (this.cancelled && !this.finished) progressText += ' · cancelling...';
+    this.progressTextEl.textContent = progressText;
+
+    // Status list
+    this.listEl.empty();
+    this.items.forEach((item, index) => {
+      const rowEl = this.listEl!.createDiv('weaklog-batch-item');
+      rowEl.style.display = 'flex';
+      rowEl.style.gap = '8px';
+      rowEl.style.padding = '4px 0';
+      rowEl.style.fontSize = '13px';
+
+      rowEl.createSpan({ text: this.getStateIcon(this.states[index]) });
+      rowEl.createSpan({ text: item.weaklogId });
+
+      const error = this.errors.get(index);
+      if (error) {
+        const errorEl = rowEl.createSpan({ text: error });
+        errorEl.style.color = 'var(--text-error)';
+      }
+    });
+
+    // Actions
+    this.actionsEl.empty();
+
+    if (!this.finished) {
+      const cancelButton = this.actionsEl.createEl('button', { text: 'Cancel' });
+      cancelButton.disabled = this.cancelled;
+      cancelButton.addEventListener('click', () => {
+        this.cancelled = true;
+        this.render();
+      });
+      return;
+    }
+
+    const closeButton = this.actionsEl.createEl('button', { text: 'Close' });
+    closeButton.addEventListener('click', () => this.close());
+
+    if (this.results.size > 0) {
+      const reviewButton = this.actionsEl.createEl('button', {
+        text: `Review ${this.results.size} →`,
+        cls: 'mod-cta',
+      });
+      reviewButton.addEventListener('click', () => {
+        const results = this.getOrderedResults();
+        this.close();
+        this.onComplete(results);
+      });
+    }
+  }
+
+  /**
+   * Get successful results in original entry order
+   */
+  private getOrderedResults(): BatchTriageResult[] {
+    const ordered: BatchTriageResult[] = [];
+    this.items.forEach((item, index) => {
+      const triageResult = this.results.get(index);
+      if (triageResult) {
+        ordered.push({ item, triageResult });
+      }
+    });
+    return ordered;
+  }
+
+  /**
+   * Get icon for item state
+   */
+  private getStateIcon(state: ItemState): string {
+    switch (state) {
+      case 'pending':
+        return '○';
+      case 'running':
+        return '⏳';
+      case 'done':
+        return '✓';
+      case 'unparsed':
+        return '⚠';
+      case 'failed':
+        return '✗';
+    }
+  }
+}
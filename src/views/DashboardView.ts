@@ -0,0 +1,332 @@
+/**
+ * DashboardView - Pipeline overview
+ *
+ * Kanban-style board listing every weaklog entry:
+ * - One column per WeaklogStatus
+ * - Cards show ID, core question, triage score, days until readyAt and Review Later deferrals
+ * - Clicking a card opens the underlying file
+ * - Refreshes automatically when weaklog files change
+ */
+
+import { ItemView, TAbstractFile, TFile, WorkspaceLeaf, debounce } from 'obsidian';
+import { FileManager } from '../managers/FileManager';
+import { CooldownManager } from '../managers/CooldownManager';
+import { CooldownEntry, WeaklogEntry, WeaklogSettings, WeaklogStatus } from '../types';
+
+/**
+ * View type identifier used when registering the dashboard
+ */
+export const VIEW_TYPE_WEAKLOG_DASHBOARD = 'weaklog-dashboard';
+
+/**
+ * Column definition for the board
+ */
+interface DashboardColumn {
+  status: WeaklogStatus;
+  label: string;
+}
+
+/**
+ * Card data for a single entry
+ */
+interface DashboardCard {
+  file: TFile;
+  entry: WeaklogEntry;
+  readyAt: Date | null;
+
+  /** Cooldown tracking (cooling and ready entries only) */
+  cooldown?: CooldownEntry;
+}
+
+/**
+ * Columns in workflow order
+ */
+const COLUMNS: DashboardColumn[] = [
+  { status: 'raw', label: 'Raw' },
+  { status: 'cooling', label: 'Cooling' },
+  { status: 'ready-for-triage', label: 'Ready for Triage' },
+  { status: 'triaged', label: 'Triaged' },
+  { status: 'synthesized', label: 'Synthesized' },
+  { status: 'published', label: 'Published' },
+];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * DashboardView class
+ * Renders the weaklog pipeline as a board
+ */
+export class DashboardView extends ItemView {
+  private fileManager: FileManager;
+  private cooldownManager: CooldownManager;
+  private settings: WeaklogSettings;
+  private requestRefresh = debounce(() => this.refresh(), 500, true);
+
+  constructor(
+    leaf: WorkspaceLeaf,
+    fileManager: FileManager,
+    cooldownManager: CooldownManager,
+    settings: WeaklogSettings
+  ) {
+    super(leaf);
+    this.fileManager = fileManager;
+    this.cooldownManager = cooldownManager;
+    this.settings = settings;
+  }
+
+  // ========================================================================
+  // View Metadata
+  // ========================================================================
+
+  getViewType(): string {
+    return VIEW_TYPE_WEAKLOG_DASHBOARD;
+  }
+
+  getDisplayText(): string {
+    return 'Weaklog Dashboard';
+  }
+
+  getIcon(): string {
+    return 'layout-dashboard';
+  }
+
+  // ========================================================================
+  // View Lifecycle
+  // ========================================================================
+
+  /**
+   * Called when view is opened
+   * Renders board and subscribes to vault changes
+   */
+  async onOpen(): Promise<void> {
+    const onVaultChange = (file: TAbstractFile) => {
+      if (this.isWeaklogPath(file.path)) {
+        this.requestRefresh();
+      }
+    };
+
+    this.registerEvent(this.app.vault.on('create', onVaultChange));
+    this.registerEvent(this.app.vault.on('delete', onVaultChange));
+    this.registerEvent(this.app.vault.on('modify', onVaultChange));
+    this.registerEvent(
+      this.app.vault.on('rename', (file, oldPath) => {
+        if (this.isWeaklogPath(file.path) || this.isWeaklogPath(oldPath)) {
+          this.requestRefresh();
+        }
+      })
+    );
+
+    await this.refresh();
+  }
+
+  /**
+   * Called when view is closed
+   * Cleanup
+   */
+  async onClose(): Promise<void> {
+    this.contentEl.empty();
+  }
+
+  // ========================================================================
+  // Data Loading
+  // ========================================================================
+
+  /**
+   * Collect cards for all columns
+   * Entries in 02_Cooling are split into cooling / ready by readyAt
+   *
+   * @returns Map of status to cards
+   */
+  private async loadCards(): Promise<Map<WeaklogStatus, DashboardCard[]>> {
+    const cards = new Map<WeaklogStatus, DashboardCard[]>();
+    COLUMNS.forEach((column) => cards.set(column.status, []));
+
+    // Index cooldown tracking by ID for readyAt and deferral lookup
+    const cooldownEntries = await this.cooldownManager.getAllEntries();
+    const cooldownById = new Map<string, CooldownEntry>();
+    cooldownEntries.forEach((e) => cooldownById.set(e.weaklogId, e));
+
+    const now = new Date();
+
+    for (const column of COLUMNS) {
+      // 02_Cooling holds both cooling and ready entries - read it once
+      if (column.status === 'ready-for-triage') {
+        continue;
+      }
+
+      const files = await this.fileManager.getFilesByStatus(column.status);
+
+      for (const file of files) {
+        const entry = await this.fileManager.readWeaklogEntry(file);
+        if (!entry) {
+          continue;
+        }
+
+        const cooldown = column.status === 'cooling' ? cooldownById.get(entry.id) : undefined;
+        const readyAt = this.resolveReadyAt(entry, cooldown?.readyAt);
+        let status: WeaklogStatus = column.status;
+        if (status === 'cooling' && readyAt && readyAt <= now) {
+          status = 'ready-for-triage';
+        }
+
+        cards.get(status)!.push({ file, entry, readyAt, cooldown });
+      }
+    }
+
+    // Oldest first within each column
+    cards.forEach((list) => {
+      list.sort((a, b) => a.entry.createdAt.localeCompare(b.entry.createdAt));
+    });
+
+    return cards;
+  }
+
+  /**
+   * Resolve readyAt for an entry
+   * Prefers cooldown tracking data, falls back to created + cooldown_days
+   *
+   * @param entry - Parsed weaklog entry
+   * @param trackedReadyAt - readyAt from .cooldown.json, if tracked
+   * @returns readyAt date or null if unknown
+   */
+  private resolveReadyAt(entry: WeaklogEntry, trackedReadyAt?: string): Date | null {
+    if (trackedReadyAt && !isNaN(Date.parse(trackedReadyAt))) {
+      return new Date(trackedReadyAt);
+    }
+
+    if (isNaN(Date.parse(entry.createdAt))) {
+      return null;
+    }
+
+    const readyAt = new Date(entry.createdAt);
+    readyAt.setDate(readyAt.getDate() + entry.cooldownDays);
+    return readyAt;
+  }
+
+  // ========================================================================
+  // UI Rendering
+  // ========================================================================
+
+  /**
+   * Re-render the whole board
+   */
+  async refresh(): Promise<void> {
+    const cards = await this.loadCards();
+
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('weaklog-dashboard');
+
+    // Header
+    const headerEl = contentEl.createDiv('weaklog-dashboard-header');
+    headerEl.createEl('h2', { text: 'Weaklog Pipeline' });
+    const refreshButton = headerEl.createEl('button', { text: 'Refresh' });
+    refreshButton.addEventListener('click', () => this.refresh());
+
+    // Board
+    const boardEl = contentEl.createDiv('weaklog-dashboard-board');
+    for (const column of COLUMNS) {
+      this.renderColumn(boardEl, column, cards.get(column.status) || []);
+    }
+  }
+
+  /**
+   * Render a single status column
+   */
+  private renderColumn(boardEl: HTMLElement, column: DashboardColumn, cards: DashboardCard[]): void {
+    const columnEl = boardEl.createDiv('weaklog-dashboard-column');
+    columnEl.addClass(`weaklog-column-${column.status}`);
+
+    const titleEl = columnEl.createDiv('weaklog-dashboard-column-title');
+    titleEl.createSpan({ text: column.label });
+    titleEl.createSpan({ text: String(cards.length), cls: 'weaklog-dashboard-count' });
+
+    const listEl = columnEl.createDiv('weaklog-dashboard-cards');
+
+    if (cards.length === 0) {
+      listEl.createDiv({ text: 'No entries', cls: 'weaklog-dashboard-empty' });
+      return;
+    }
+
+    cards.forEach((card) => this.renderCard(listEl, card));
+  }
+
+  /**
+   * Render a single entry card
+   */
+  private renderCard(listEl: HTMLElement, card: DashboardCard): void {
+    const { entry, readyAt, cooldown } = card;
+
+    const cardEl = listEl.createDiv('weaklog-dashboard-card');
+    cardEl.addEventListener('click', () => {
+      this.app.workspace.getLeaf(false).openFile(card.file);
+    });
+
+    // ID
+    cardEl.createDiv({ text: entry.id, cls: 'weaklog-dashboard-card-id' });
+
+    // Core question (after triage)
+    if (entry.triageResult?.coreQuestion) {
+      cardEl.createDiv({
+        text: `"${entry.triageResult.coreQuestion}"`,
+        cls: 'weaklog-dashboard-card-question',
+      });
+    }
+
+    const metaEl = cardEl.createDiv('weaklog-dashboard-card-meta');
+
+    // Triage score
+    if (entry.triageResult) {
+      metaEl.createSpan({
+        text: `Score ${entry.triageResult.score}/${entry.triageResult.maxScore ?? 4}`,
+        cls: `weaklog-dashboard-badge weaklog-rec-${entry.triageResult.recommendation}`,
+      });
+    }
+
+    // Days until readyAt (only meaningful while cooling)
+    if (readyAt && (entry.status === 'cooling' || entry.status === 'ready-for-triage')) {
+      metaEl.createSpan({
+        text: this.formatDaysUntil(readyAt),
+        cls: 'weaklog-dashboard-badge',
+      });
+    }
+
+    // Review Later deferrals, highlighted once the entry needs a decision
+    if (cooldown?.deferrals) {
+      const needsDecision = this.cooldownManager.needsDecision(cooldown);
+      const deferralEl = metaEl.createSpan({
+        text: needsDecision ? `⚠️ Deferred ${cooldown.deferrals}×` : `Deferred ${cooldown.deferrals}×`,
+        cls: needsDecision ? 'weaklog-dashboard-badge weaklog-rec-review' : 'weaklog-dashboard-badge',
+      });
+      deferralEl.title = needsDecision
+        ? 'Sent back with Review Later more often than the limit - time to adopt or reject'
+        : 'Times sent back with Review Later';
+    }
+  }
+
+  // ========================================================================
+  // UI Helpers
+  // ========================================================================
+
+  /**
+   * Format days until readyAt for display
+   *
+   * @param readyAt - Date entry becomes ready
+   * @returns Human-readable label
+   */
+  private formatDaysUntil(readyAt: Date): string {
+    const days = Math.ceil((readyAt.getTime() - Date.now()) / MS_PER_DAY);
+
+    if (days > 1) return `Ready in ${days} days`;
+    if (days === 1) return 'Ready in 1 day';
+    if (days === 0) return 'Ready today';
+    return `Ready ${Math.abs(days)}d ago`;
+  }
+
+  /**
+   * Check whether a path is inside the weaklog folder
+   */
+  private isWeaklogPath(path: string): boolean {
+    return path.startsWith(`${this.settings.weaklogFolderPath}/`);
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * ManualTriageModal - Step 3 UI without an LLM
+ *
+ * Lets the user judge an entry themselves:
+ * - Rubric criteria as toggles with reason fields
+ * - Core question input
+ * - Live score and recommendation (same rules as AI triage)
+ * - Hands the human-authored result to TriageModal for Adopt/Review/Reject
+ */
+
+import { App, Modal, Notice, TFile } from 'obsidian';
+import { TriageAnalyzer } from '../llm/TriageAnalyzer';
+import { CheckResult, TriageResult, TriageRubric } from '../types';
+
+/** Maximum core question length (matches AI triage truncation) */
+const CORE_QUESTION_MAX_LENGTH = 40;
+
+/**
+ * ManualTriageModal class
+ * Collects a human triage judgement and builds a TriageResult from it
+ */
+export class ManualTriageModal extends Modal {
+  private file: TFile;
+  private rubric: TriageRubric;
+  private onComplete: (result: TriageResult | null) => void;
+  private checks: Record<string, CheckResult> = {};
+  private coreQuestion: string;
+  private result: TriageResult | null = null;
+  private summaryEl: HTMLElement | null = null;
+
+  constructor(
+    app: App,
+    file: TFile,
+    rubric: TriageRubric,
+    onComplete: (result: TriageResult | null) => void,
+    initialCoreQuestion: string = ''
+  ) {
+    super(app);
+    this.file = file;
+    this.rubric = rubric;
+    this.onComplete = onComplete;
+    this.coreQuestion = initialCoreQuestion.substring(0, CORE_QUESTION_MAX_LENGTH);
+    for (const criterion of rubric.criteria) {
+      this.checks[criterion.key] = { pass: false, reason: '' };
+    }
+  }
+
+  // ========================================================================
+  // Modal Lifecycle
+  // ========================================================================
+
+  /**
+   * Called when modal is opened
+   * Builds manual triage form
+   */
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('weaklog-manual-triage-modal');
+
+    // Header
+    contentEl.createEl('h2', { text: 'Manual Triage' });
+
+    const fileEl = contentEl.createDiv();
+    fileEl.style.marginTop = '-8px';
+    fileEl.style.marginBottom = '16px';
+    fileEl.style.fontSize = '13px';
+    fileEl.style.color = 'var(--text-muted)';
+    fileEl.textContent = this.file.basename;
+
+    // Live score summary
+    this.summaryEl = contentEl.createDiv('weaklog-triage-summary');
+    this.summaryEl.style.padding = '12px 16px';
+    this.summaryEl.style.marginBottom = '16px';
+    this.summaryEl.style.backgroundColor = 'var(--background-secondary)';
+    this.summaryEl.style.borderRadius = '6px';
+    this.summaryEl.style.fontWeight = '600';
+
+    // Core question
+    this.renderCoreQuestionInput(contentEl);
+
+    // Criteria toggles
+    this.renderCriteria(contentEl);
+
+    // Action buttons
+    this.renderActions(contentEl);
+
+    this.updateSummary();
+  }
+
+  /**
+   * Called when modal is closed
+   * Reports the built result, or null if dismissed
+   */
+  onClose(): void {
+    this.summaryEl = null;
+    const { contentEl } = this;
+    contentEl.empty();
+    this.onComplete(this.result);
+  }
+
+  // ========================================================================
+  // UI Rendering
+  // ========================================================================
+
+  /**
+   * Render core question input
+   */
+  private renderCoreQuestionInput(containerEl: HTMLElement): void {
+    const questionEl = containerEl.createDiv('weaklog-core-question');
+    questionEl.style.marginBottom = '16px';
+
+    const labelEl = questionEl.createEl('div', { text: 'Core Question:' });
+    labelEl.style.fontSize = '12px';
+    labelEl.style.fontWeight = '600';
+    labelEl.style.marginBottom = '4px';
+    labelEl.style.color = 'var(--text-muted)';
+
+    const inputEl = questionEl.createEl('input', {
+      type: 'text',
+      placeholder: 'The one question this entry asks',
+    });
+    inputEl.style.width = '100%';
+    inputEl.maxLength = CORE_QUESTION_MAX_LENGTH;
+    inputEl.value = this.coreQuestion;
+    inputEl.addEventListener('input', () => {
+      this.coreQuestion = inputEl.value;
+    });
+  }
+
+  /**
+   * Render a toggle and reason field per criterion
+   */
+  private renderCriteria(containerEl: HTMLElement): void {
+    const criteriaEl = containerEl.createDiv('weaklog-criteria');
+    criteriaEl.style.marginBottom = '24px';
+
+    this.rubric.criteria.forEach((criterion) => {
+      const itemEl = criteriaEl.createDiv('weaklog-criterion');
+      itemEl.style.padding = '12px';
+      itemEl.style.marginBottom = '8px';
+      itemEl.style.backgroundColor = 'var(--background-primary-alt)';
+      itemEl.style.borderRadius = '4px';
+
+      // Toggle row
+      const rowEl = itemEl.createEl('label');
+      rowEl.style.display = 'flex';
+      rowEl.style.alignItems = 'center';
+      rowEl.style.gap = '8px';
+      rowEl.style.cursor = 'pointer';
+
+      const checkboxEl = rowEl.createEl('input', { type: 'checkbox' });
+      checkboxEl.checked = this.checks[criterion.key].pass;
+      checkboxEl.addEventListener('change', () => {
+        this.checks[criterion.key].pass = checkboxEl.checked;
+        this.updateSummary();
+      });
+
+      const labelEl = rowEl.createSpan({ text: criterion.label });
+      labelEl.style.fontWeight = '600';
+
+      const descEl = itemEl.createEl('div', { text: criterion.description });
+      descEl.style.fontSize = '12px';
+      descEl.style.color = 'var(--text-muted)';
+      descEl.style.margin = '4px 0 8px';
+
+      // Reason
+      const reasonEl = itemEl.createEl('input', {
+        type: 'text',
+        placeholder: 'Reason (optional)',
+      });
+      reasonEl.style.width = '100%';
+      reasonEl.value = this.checks[criterion.key].reason;
+      reasonEl.addEventListener('input', () => {
+        this.checks[criterion.key].reason = reasonEl.value;
+      });
+    });
+  }
+
+  /**
+   * Render action buttons
+   */
+  private renderActions(containerEl: HTMLElement): void {
+    const actionsEl = containerEl.createDiv('weaklog-actions');
+    actionsEl.style.display = 'flex';
+    actionsEl.style.justifyContent = 'flex-end';
+    actionsEl.style.gap = '8px';
+
+    const cancelButton = actionsEl.createEl('button', { text: 'Cancel' });
+    cancelButton.addEventListener('click', () => this.close());
+
+    const continueButton = actionsEl.createEl('button', {
+      text: 'Continue →',
+      cls: 'mod-cta',
+    });
+    continueButton.addEventListener('click', () => this.handleContinue());
+  }
+
+  /**
+   * Refresh score and recommendation display
+   */
+  private updateSummary(): void {
+    if (!this.summaryEl) {
+      return;
+    }
+
+    const score = TriageAnalyzer.calculateScore(this.checks, this.rubric);
+    const maxScore = TriageAnalyzer.getMaxScore(this.rubric);
+    const recommendation = TriageAnalyzer.calculateRecommendation(score, maxScore, this.rubric);
+    this.summaryEl.textContent = `Score: ${score}/${maxScore} · Recommendation: ${recommendation.toUpperCase()}`;
+  }
+
+  // ========================================================================
+  // Action Handlers
+  // ========================================================================
+
+  /**
+   * Handle "Continue" action
+   * Builds the human-authored result and closes
+   */
+  private handleContinue(): void {
+    const coreQuestion = this.coreQuestion.trim();
+    if (coreQuestion.length === 0) {
+      new Notice('❌ Please enter a core question', 3000);
+      return;
+    }
+
+    const checks: Record<string, CheckResult> = {};
+    for (const { key } of this.rubric.criteria) {
+      const reason = this.checks[key].reason.trim();
+      checks[key] = {
+        pass: this.checks[key].pass,
+        reason: reason || (this.checks[key].pass ? 'Passed (manual)' : 'Failed (manual)'),
+      };
+    }
+
+    const score = TriageAnalyzer.calculateScore(checks, this.rubric);
+    const maxScore = TriageAnalyzer.getMaxScore(this.rubric);
+
+    this.result = {
+      checks,
+      score,
+      maxScore,
+      recommendation: TriageAnalyzer.calculateRecommendation(score, maxScore, this.rubric),
+      coreQuestion,
+      timestamp: new Date().toISOString(),
+      provenance: 'human',
+    };
+
+    console.log(`[Weaklog] Manual triage completed: score ${score}/${maxScore}`);
+    this.close();
+  }
+}
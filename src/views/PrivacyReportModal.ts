@@ -0,0 +1,169 @@
+/**
+ * PrivacyReportModal - Step 5 pre-publish report
+ *
+ * Shown when the privacy check finds something:
+ * - Passages copied verbatim from the raw entry
+ * - Emails, phone numbers, addresses, listed names, custom patterns
+ * - Checks that could not run
+ *
+ * Publishing continues only after the user ticks the confirmation box.
+ */
+
+import { App, Modal, TFile } from 'obsidian';
+import { PrivacyFinding, PrivacyReport } from '../types';
+
+/** Display labels per finding type */
+const FINDING_LABELS: Record<PrivacyFinding['type'], string> = {
+  verbatim: 'Copied from raw entry',
+  email: 'Email address',
+  phone: 'Phone number',
+  address: 'Address',
+  url: 'URL',
+  name: 'Name',
+  custom: 'Custom pattern',
+};
+
+/**
+ * PrivacyReportModal class
+ * Lists privacy findings and requires explicit confirmation to publish
+ */
+export class PrivacyReportModal extends Modal {
+  private file: TFile;
+  private report: PrivacyReport;
+  private onConfirm: () => void;
+
+  constructor(app: App, file: TFile, report: PrivacyReport, onConfirm: () => void) {
+    super(app);
+    this.file = file;
+    this.report = report;
+    this.onConfirm = onConfirm;
+  }
+
+  // ========================================================================
+  // Modal Lifecycle
+  // ========================================================================
+
+  /**
+   * Called when modal is opened
+   * Builds report and confirmation UI
+   */
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('weaklog-privacy-report-modal');
+
+    // Header
+    contentEl.createEl('h2', { text: '🔒 Privacy Check' });
+
+    const summaryEl = contentEl.createDiv();
+    summaryEl.style.marginBottom = '16px';
+    summaryEl.style.color = 'var(--text-muted)';
+    summaryEl.style.fontSize = '14px';
+    const overlapPercent = Math.round(this.report.overlapRatio * 100);
+    summaryEl.textContent =
+      `${this.file.basename}: ${this.report.findings.length} potential privacy issues found. ` +
+      `${overlapPercent}% of the text to publish is copied verbatim from the raw entry.`;
+
+    this.renderWarnings(contentEl);
+    this.renderFindings(contentEl);
+    this.renderActions(contentEl);
+  }
+
+  /**
+   * Called when modal is closed
+   */
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+
+  // ========================================================================
+  // UI Rendering
+  // ========================================================================
+
+  /**
+   * Render checks that could not run
+   */
+  private renderWarnings(containerEl: HTMLElement): void {
+    this.report.warnings.forEach((warning) => {
+      const warningEl = containerEl.createDiv();
+      warningEl.style.padding = '8px 12px';
+      warningEl.style.marginBottom = '8px';
+      warningEl.style.borderRadius = '4px';
+      warningEl.style.backgroundColor = 'var(--background-modifier-error)';
+      warningEl.style.fontSize = '13px';
+      warningEl.textContent = `⚠️ ${warning}`;
+    });
+  }
+
+  /**
+   * Render findings grouped by type
+   */
+  private renderFindings(containerEl: HTMLElement): void {
+    const listEl = containerEl.createDiv('weaklog-privacy-findings');
+    listEl.style.maxHeight = '45vh';
+    listEl.style.overflowY = 'auto';
+    listEl.style.marginBottom = '16px';
+
+    const types = Object.keys(FINDING_LABELS) as Array<PrivacyFinding['type']>;
+    for (const type of types) {
+      const findings = this.report.findings.filter((finding) => finding.type === type);
+      if (findings.length === 0) {
+        continue;
+      }
+
+      const groupEl = listEl.createDiv();
+      groupEl.style.marginBottom = '12px';
+
+      const headerEl = groupEl.createEl('h4', { text: `${FINDING_LABELS[type]} (${findings.length})` });
+      headerEl.style.margin = '0 0 6px 0';
+
+      findings.forEach((finding) => {
+        const itemEl = groupEl.createDiv();
+        itemEl.style.padding = '6px 10px';
+        itemEl.style.marginBottom = '4px';
+        itemEl.style.backgroundColor = 'var(--background-secondary)';
+        itemEl.style.borderRadius = '4px';
+        itemEl.style.fontSize = '13px';
+        itemEl.style.whiteSpace = 'pre-wrap';
+        itemEl.textContent = type === 'verbatim' ? `“${finding.text}”` : finding.text;
+      });
+    }
+  }
+
+  /**
+   * Render confirmation checkbox and buttons
+   */
+  private renderActions(containerEl: HTMLElement): void {
+    const confirmEl = containerEl.createEl('label');
+    confirmEl.style.display = 'flex';
+    confirmEl.style.gap = '8px';
+    confirmEl.style.alignItems = 'center';
+    confirmEl.style.marginBottom = '16px';
+    confirmEl.style.fontSize = '14px';
+
+    const checkboxEl = confirmEl.createEl('input', { type: 'checkbox' });
+    confirmEl.createSpan({ text: 'I reviewed these findings and want to publish anyway' });
+
+    const actionsEl = containerEl.createDiv('weaklog-actions');
+    actionsEl.style.display = 'flex';
+    actionsEl.style.justifyContent = 'flex-end';
+    actionsEl.style.gap = '8px';
+
+    const cancelButton = actionsEl.createEl('button', { text: 'Cancel' });
+    cancelButton.addEventListener('click', () => this.close());
+
+    const publishButton = actionsEl.createEl('button', { text: 'Publish Anyway', cls: 'mod-warning' });
+    publishButton.disabled = true;
+    checkboxEl.addEventListener('change', () => {
+      publishButton.disabled = !checkboxEl.checked;
+    });
+    publishButton.addEventListener('click', () => {
+      if (!checkboxEl.checked) {
+        return;
+      }
+      this.close();
+      this.onConfirm();
+    });
+  }
+}
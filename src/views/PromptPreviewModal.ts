@@ -0,0 +1,175 @@
+/**
+ * PromptPreviewModal - Rendered prompt preview
+ *
+ * Shows a prompt template rendered for the active entry:
+ * - Uses the vault override if present, otherwise the built-in template
+ * - Fills variables from the active note (content, core question, Q&A)
+ * - Falls back to sample values when the entry has not reached that stage
+ */
+
+import { App, Modal, TFile } from 'obsidian';
+import { FileManager } from '../managers/FileManager';
+import { PromptTemplateManager } from '../managers/PromptTemplateManager';
+import {
+  PROMPT_TEMPLATE_NAMES,
+  PromptTemplateId,
+  PromptVariables,
+  buildDraftVariables,
+  buildQuestionVariables,
+  buildRevisionVariables,
+  buildSynthesisVariables,
+  buildTriageVariables,
+} from '../llm/PromptTemplates';
+import { TriageResult, WeaklogEntry, WeaklogSettings } from '../types';
+
+/** Sample text used when no weaklog entry is active */
+const SAMPLE_CONTENT = '(No weaklog entry is active - open an entry to preview with its content)';
+
+/**
+ * PromptPreviewModal class
+ * Renders one template for the active entry
+ */
+export class PromptPreviewModal extends Modal {
+  private fileManager: FileManager;
+  private templates: PromptTemplateManager;
+  private settings: WeaklogSettings;
+  private templateId: PromptTemplateId;
+
+  constructor(
+    app: App,
+    fileManager: FileManager,
+    templates: PromptTemplateManager,
+    settings: WeaklogSettings,
+    templateId: PromptTemplateId
+  ) {
+    super(app);
+    this.fileManager = fileManager;
+    this.templates = templates;
+    this.settings = settings;
+    this.templateId = templateId;
+  }
+
+  // ========================================================================
+  // Modal Lifecycle
+  // ========================================================================
+
+  /**
+   * Called when modal is opened
+   * Renders the prompt asynchronously
+   */
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('weaklog-prompt-preview-modal');
+
+    contentEl.createEl('h2', { text: `Prompt Preview: ${PROMPT_TEMPLATE_NAMES[this.templateId]}` });
+
+    const sourceEl = contentEl.createDiv();
+    sourceEl.style.fontSize = '13px';
+    sourceEl.style.color = 'var(--text-muted)';
+    sourceEl.style.marginBottom = '8px';
+    sourceEl.textContent = this.templates.hasOverride(this.templateId)
+      ? `Source: ${this.settings.promptTemplateFolder}/${this.templateId}.md`
+      : 'Source: built-in template';
+
+    const previewEl = contentEl.createEl('pre');
+    previewEl.style.maxHeight = '60vh';
+    previewEl.style.overflow = 'auto';
+    previewEl.style.whiteSpace = 'pre-wrap';
+    previewEl.style.padding = '12px';
+    previewEl.style.backgroundColor = 'var(--background-secondary)';
+    previewEl.style.borderRadius = '4px';
+    previewEl.style.fontSize = '12px';
+    previewEl.textContent = 'Rendering...';
+
+    this.renderPreview(previewEl);
+  }
+
+  /**
+   * Called when modal is closed
+   */
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+
+  // ========================================================================
+  // Rendering
+  // ========================================================================
+
+  /**
+   * Render template into preview element
+   */
+  private async renderPreview(previewEl: HTMLElement): Promise<void> {
+    try {
+      const entry = await this.getActiveEntry();
+      const variables = this.buildVariables(entry);
+      previewEl.textContent = await this.templates.render(this.templateId, variables);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[Weaklog] Prompt preview failed:', error);
+      previewEl.textContent = `❌ Preview failed: ${errorMessage}`;
+    }
+  }
+
+  /**
+   * Read the active weaklog entry, if any
+   */
+  private async getActiveEntry(): Promise<WeaklogEntry | null> {
+    const file = this.app.workspace.getActiveFile();
+    if (!(file instanceof TFile) || !file.path.startsWith(`${this.settings.weaklogFolderPath}/`)) {
+      return null;
+    }
+    return this.fileManager.readWeaklogEntry(file);
+  }
+
+  /**
+   * Build variables for the selected template from the entry
+   * Stages the entry has not reached use sample values
+   */
+  private buildVariables(entry: WeaklogEntry | null): PromptVariables {
+    const content = entry?.content || SAMPLE_CONTENT;
+    const language = this.settings.responseLanguage;
+
+    const triageResult: TriageResult = entry?.triageResult || {
+      checks: {},
+      score: 0,
+      recommendation: 'review',
+      coreQuestion: '(core question from triage)',
+      timestamp: new Date().toISOString(),
+    };
+
+    switch (this.templateId) {
+      case 'triage-system':
+      case 'triage-user':
+        return buildTriageVariables(content, language, this.settings.triageRubric);
+
+      case 'synthesis-system':
+      case 'synthesis-user':
+      case 'synthesis-chat-system':
+      case 'synthesis-chat-user':
+        return buildSynthesisVariables(content, triageResult, language);
+
+      case 'question-system':
+      case 'question-user': {
+        const [currentQuestion, ...others] = entry?.synthesisGuide?.questions || ['(synthesis question)'];
+        const otherQuestions = others.map((question) => ({ question, answer: '(your answer)' }));
+        return buildQuestionVariables(content, triageResult, currentQuestion, otherQuestions, 'regenerate', language);
+      }
+
+      case 'draft-system':
+      case 'draft-user': {
+        const questions = entry?.synthesisGuide?.questions || ['(synthesis question)'];
+        const qa = questions.map((question) => ({ question, answer: '(your answer)' }));
+        return buildDraftVariables(content, triageResult, qa, language);
+      }
+
+      case 'revise-system':
+      case 'revise-user': {
+        const history = entry?.draftHistory;
+        const draft = history?.versions[history.selectedIndex]?.text || '(current draft)';
+        return buildRevisionVariables(content, triageResult, draft, 'Make it shorter', language);
+      }
+    }
+  }
+}
@@ -0,0 +1,358 @@
+/**
+ * SynthesisChatModal - Step 4 conversational UI
+ *
+ * Alternative to the static question list:
+ * - AI asks one question at a time
+ * - Each answer is sent back with the full history for an adaptive follow-up
+ * - Conversation runs for as many turns as the user wants
+ * - "Finish" writes the transcript into the synthesized note (04_Synthesized)
+ */
+
+import { App, Modal, Notice, TFile } from 'obsidian';
+import { FileManager } from '../managers/FileManager';
+import { SynthesisGuide } from '../llm/SynthesisGuide';
+import { ChatMessage, ResponseLanguage, TriageResult } from '../types';
+
+/**
+ * SynthesisChatModal class
+ * Runs a multi-turn synthesis conversation and saves the transcript
+ */
+export class SynthesisChatModal extends Modal {
+  private fileManager: FileManager;
+  private file: TFile;
+  private synthesisGuide: SynthesisGuide;
+  private triageResult: TriageResult;
+  private originalContent: string;
+  private responseLanguage: ResponseLanguage;
+  private transcript: ChatMessage[] = [];
+  private waiting = false;
+  private closed = false;
+  private transcriptEl: HTMLElement | null = null;
+  private answerEl: HTMLTextAreaElement | null = null;
+  private sendButton: HTMLButtonElement | null = null;
+  private finishButton: HTMLButtonElement | null = null;
+
+  constructor(
+    app: App,
+    fileManager: FileManager,
+    file: TFile,
+    synthesisGuide: SynthesisGuide,
+    triageResult: TriageResult,
+    originalContent: string,
+    responseLanguage: ResponseLanguage = 'english'
+  ) {
+    super(app);
+    this.fileManager = fileManager;
+    this.file = file;
+    this.synthesisGuide = synthesisGuide;
+    this.triageResult = triageResult;
+    this.originalContent = originalContent;
+    this.responseLanguage = responseLanguage;
+  }
+
+  // ========================================================================
+  // Modal Lifecycle
+  // ========================================================================
+
+  /**
+   * Called when modal is opened
+   * Builds chat UI and asks the first question
+   */
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('weaklog-synthesis-chat-modal');
+
+    // Header
+    contentEl.createEl('h2', { text: 'Synthesis Conversation' });
+
+    const descEl = contentEl.createDiv('weaklog-synthesis-description');
+    descEl.style.marginBottom = '16px';
+    descEl.style.color = 'var(--text-muted)';
+    descEl.style.fontSize = '14px';
+    descEl.createEl('p', {
+      text: 'Answer each question; the next one builds on what you said. Finish whenever you have found the insight.',
+    });
+
+    // Core question
+    const coreEl = contentEl.createDiv('weaklog-core-question');
+    coreEl.style.padding = '8px 12px';
+    coreEl.style.marginBottom = '16px';
+    coreEl.style.backgroundColor = 'var(--background-secondary)';
+    coreEl.style.borderRadius = '4px';
+    coreEl.style.fontSize = '13px';
+    coreEl.createEl('strong', { text: 'Core question: ' });
+    coreEl.createEl('span', { text: this.triageResult.coreQuestion }).style.fontStyle = 'italic';
+
+    // Transcript
+    this.transcriptEl = contentEl.createDiv('weaklog-chat-transcript');
+    this.transcriptEl.style.maxHeight = '45vh';
+    this.transcriptEl.style.overflowY = 'auto';
+    this.transcriptEl.style.marginBottom = '16px';
+
+    // Answer input
+    this.answerEl = contentEl.createEl('textarea', {
+      placeholder: 'Your answer... (Ctrl/Cmd+Enter to send)',
+    });
+    this.answerEl.style.width = '100%';
+    this.answerEl.style.minHeight = '100px';
+    this.answerEl.style.marginBottom = '12px';
+    this.answerEl.addEventListener('keydown', (evt) => {
+      if (evt.key === 'Enter' && (evt.ctrlKey || evt.metaKey)) {
+        evt.preventDefault();
+        this.handleSend();
+      }
+    });
+
+    // Actions
+    const actionsEl = contentEl.createDiv('weaklog-actions');
+    actionsEl.style.display = 'flex';
+    actionsEl.style.justifyContent = 'flex-end';
+    actionsEl.style.gap = '8px';
+
+    this.finishButton = actionsEl.createEl('button', { text: 'Finish & Create Draft' });
+    this.finishButton.addEventListener('click', () => this.handleFinish());
+
+    this.sendButton = actionsEl.createEl('button', { text: 'Send', cls: 'mod-cta' });
+    this.sendButton.addEventListener('click', () => this.handleSend());
+
+    this.renderTranscript();
+    this.askNextQuestion();
+  }
+
+  /**
+   * Called when modal is closed
+   * Cleanup; a pending question is discarded
+   */
+  onClose(): void {
+    this.closed = true;
+    this.transcriptEl = null;
+    this.answerEl = null;
+    this.sendButton = null;
+    this.finishButton = null;
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+
+  // ========================================================================
+  // Conversation
+  // ========================================================================
+
+  /**
+   * Request the next question from the AI and append it
+   */
+  private async askNextQuestion(): Promise<void> {
+    this.setWaiting(true);
+
+    try {
+      const question = await this.synthesisGuide.askFollowUp(
+        this.originalContent,
+        this.triageResult,
+        this.transcript,
+        this.responseLanguage
+      );
+
+      if (this.closed) {
+        return;
+      }
+
+      this.transcript.push({ role: 'assistant', content: question });
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[Weaklog] Failed to get next question:', error);
+      if (!this.closed) {
+        new Notice(`❌ ${errorMessage}`, 5000);
+      }
+    } finally {
+      if (!this.closed) {
+        this.setWaiting(false);
+        this.renderTranscript();
+        this.answerEl?.focus();
+      }
+    }
+  }
+
+  /**
+   * Handle "Send" action
+   * Appends the answer and asks a follow-up
+   */
+  private handleSend(): void {
+    if (this.waiting || !this.answerEl) {
+      return;
+    }
+
+    const answer = this.answerEl.value.trim();
+    if (answer.length === 0) {
+      new Notice('⚠️ Please write an answer first', 3000);
+      return;
+    }
+
+    // The history must alternate; retry the question if the last one failed
+    if (this.transcript.length === 0 || this.transcript[this.transcript.length - 1].role !== 'assistant') {
+      this.askNextQuestion();
+      return;
+    }
+
+    this.transcript.push({ role: 'user', content: answer });
+    this.answerEl.value = '';
+    this.renderTranscript();
+    this.askNextQuestion();
+  }
+
+  /**
+   * Handle "Finish" action
+   * Writes the transcript into the note and moves it to 04_Synthesized
+   */
+  private async handleFinish(): Promise<void> {
+    // Include an answer typed but not yet sent
+    const pending = this.answerEl?.value.trim();
+    if (pending && this.transcript[this.transcript.length - 1]?.role === 'assistant') {
+      this.transcript.push({ role: 'user', content: pending });
+    }
+
+    if (!this.transcript.some((message) => message.role === 'user')) {
+      new Notice('⚠️ Please answer at least one question', 3000);
+      return;
+    }
+
+    try {
+      this.setWaiting(true, 'Saving...');
+
+      console.log(`[Weaklog] Saving synthesis conversation (${this.transcript.length} messages)`);
+
+      // Drop a trailing unanswered question
+      const transcript = this.transcript[this.transcript.length - 1].role === 'assistant'
+        ? this.transcript.slice(0, -1)
+        : this.transcript;
+
+      await this.fileManager.replaceBody(this.file, this.buildDraftContent(transcript));
+
+      await this.fileManager.updateFrontmatter(this.file, {
+        synthesis_transcript: JSON.stringify(transcript),
+      });
+
+      const synthesizedFile = await this.fileManager.moveFile(this.file, 'synthesized');
+
+      new Notice(`✓ Synthesis draft generated: ${this.file.basename}`, 3000);
+      console.log('[Weaklog] Synthesis conversation saved successfully');
+
+      this.close();
+      this.app.workspace.getLeaf().openFile(synthesizedFile);
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[Weaklog] Failed to save synthesis conversation:', error);
+      new Notice(`❌ Failed to generate draft: ${errorMessage}`, 5000);
+      this.setWaiting(false);
+    }
+  }
+
+  // ========================================================================
+  // UI Rendering
+  // ========================================================================
+
+  /**
+   * Re-render the transcript
+   */
+  private renderTranscript(): void {
+    if (!this.transcriptEl) {
+      return;
+    }
+
+    this.transcriptEl.empty();
+
+    this.transcript.forEach((message) => {
+      const isCoach = message.role === 'assistant';
+      const messageEl = this.transcriptEl!.createDiv('weaklog-chat-message');
+      messageEl.style.padding = '8px 12px';
+      messageEl.style.marginBottom = '8px';
+      messageEl.style.borderRadius = '6px';
+      messageEl.style.whiteSpace = 'pre-wrap';
+      messageEl.style.backgroundColor = isCoach
+        ? 'var(--background-secondary)'
+        : 'var(--background-primary-alt)';
+      messageEl.style.marginLeft = isCoach ? '0' : '24px';
+      messageEl.style.marginRight = isCoach ? '24px' : '0';
+
+      const roleEl = messageEl.createEl('div', { text: isCoach ? 'Coach' : 'You' });
+      roleEl.style.fontSize = '12px';
+      roleEl.style.fontWeight = '600';
+      roleEl.style.color = 'var(--text-muted)';
+      roleEl.style.marginBottom = '4px';
+
+      messageEl.createEl('div', { text: message.content });
+    });
+
+    if (this.waiting) {
+      const typingEl = this.transcriptEl.createDiv({ text: '🤖 Thinking...' });
+      typingEl.style.color = 'var(--text-muted)';
+      typingEl.style.fontSize = '13px';
+    }
+
+    this.transcriptEl.scrollTop = this.transcriptEl.scrollHeight;
+  }
+
+  /**
+   * Toggle waiting state for buttons and input
+   */
+  private setWaiting(waiting: boolean, finishText?: string): void {
+    this.waiting = waiting;
+
+    if (this.sendButton) this.sendButton.disabled = waiting;
+    if (this.finishButton) {
+      this.finishButton.disabled = waiting;
+      this.finishButton.textContent = waiting && finishText ? finishText : 'Finish & Create Draft';
+    }
+
+    this.renderTranscript();
+  }
+
+  // ========================================================================
+  // Draft Generation
+  // ========================================================================
+
+  /**
+   * Build draft markdown content
+   * Same layout as the question-list draft, with the conversation as Q&A
+   *
+   * @param transcript - Conversation to save
+   * @returns Formatted markdown content
+   */
+  private buildDraftContent(transcript: ChatMessage[]): string {
+    const parts: string[] = [];
+
+    // Title
+    parts.push('# Synthesis Draft\n');
+
+    // Original entry section
+    parts.push('## Original Entry\n');
+    parts.push(`> ${this.originalContent.split('\n').join('\n> ')}\n`);
+    parts.push('');
+
+    // Core question from triage
+    parts.push('## Core Question\n');
+    parts.push(`> ${this.triageResult.coreQuestion}\n`);
+    parts.push('');
+
+    // Conversation transcript
+    parts.push('## Synthesis Conversation\n');
+    transcript.forEach((message) => {
+      const speaker = message.role === 'assistant' ? 'Coach' : 'You';
+      parts.push(`**${speaker}:** ${message.content}\n`);
+    });
+
+    parts.push('---\n');
+    parts.push('');
+
+    // Editable draft section
+    parts.push('## Draft Content (Edit Below)\n');
+    parts.push('');
+    parts.push('*Transform the above conversation into your final creative work...*\n');
+    parts.push('');
+    parts.push('<!-- Start writing your final draft here -->\n');
+    parts.push('');
+
+    return parts.join('\n');
+  }
+}
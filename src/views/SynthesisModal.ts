@@ -4,14 +4,34 @@
  * Displays AI-generated synthesis questions with:
  * - 3-5 deepening questions from SynthesisGuide
  * - Textarea for each answer
+ * - Per-question regenerate / deeper / write-my-own controls
+ * - Streaming "AI Suggest Draft" preview with cancel
+ * - Instruction-driven draft revisions with version history and word diff
  * - "Generate Draft" button
+ * - Autosaves answers to frontmatter so closing the modal keeps the work
  * - Creates synthesized document in 04_Synthesized
  */
 
-import { App, Modal, Notice, TFile } from 'obsidian';
+import { App, Debouncer, Modal, Notice, TFile, debounce } from 'obsidian';
 import { FileManager } from '../managers/FileManager';
-import { SynthesisGuide as SynthesisGuideType, TriageResult } from '../types';
+import {
+  DraftHistory,
+  DraftVersion,
+  QuestionOrigin,
+  SynthesisGuide as SynthesisGuideType,
+  SynthesisSession,
+  TriageResult,
+} from '../types';
 import { SynthesisGuide } from '../llm/SynthesisGuide';
+import { QuestionRewriteMode } from '../llm/PromptTemplates';
+import { LLMError } from '../llm/LLMError';
+import { diffWords } from '../utils/diff';
+
+/** Frontmatter key for the autosaved session */
+const SESSION_FRONTMATTER_KEY = 'synthesis_session';
+
+/** Delay after the last keystroke before autosaving */
+const AUTOSAVE_DELAY_MS = 1000;
 
 /**
  * Answer data structure for internal use
@@ -33,9 +53,17 @@ export class SynthesisModal extends Modal {
   private triageResult: TriageResult;
   private originalContent: string;
   private answers: Map<number, string>;
-  private aiSuggestedDraft: string | null;
+  private draftVersions: DraftVersion[] = [];
+  private selectedVersion = -1;
+  private showDiff = false;
   private suggestedDraftEl: HTMLElement | null;
+  private suggestionAbort: AbortController | null = null;
   private responseLanguage: 'english' | 'japanese';
+  private restoredSession: SynthesisSession | null;
+  private sessionDirty = false;
+  private sessionFinished = false;
+  private discardArmed = false;
+  private debouncedSave: Debouncer<[], void>;
 
   constructor(
     app: App,
@@ -45,7 +73,8 @@ export class SynthesisModal extends Modal {
     synthesisGuideInstance: SynthesisGuide,
     triageResult: TriageResult,
     originalContent: string,
-    responseLanguage: 'english' | 'japanese' = 'english'
+    responseLanguage: 'english' | 'japanese' = 'english',
+    restoredSession: SynthesisSession | null = null
   ) {
     super(app);
     this.fileManager = fileManager;
@@ -55,9 +84,38 @@ export class SynthesisModal extends Modal {
     this.triageResult = triageResult;
     this.originalContent = originalContent;
     this.answers = new Map();
-    this.aiSuggestedDraft = null;
     this.suggestedDraftEl = null;
     this.responseLanguage = responseLanguage;
+    this.restoredSession = restoredSession;
+    this.debouncedSave = debounce(() => this.saveSession(), AUTOSAVE_DELAY_MS, true);
+
+    // Restore answers and suggestion from a previous session
+    if (restoredSession) {
+      restoredSession.answers.forEach((answer, index) => {
+        if (answer.trim().length > 0) {
+          this.answers.set(index, answer.trim());
+        }
+      });
+      if (restoredSession.draftHistory) {
+        this.draftVersions = restoredSession.draftHistory.versions;
+        this.selectedVersion = restoredSession.draftHistory.selectedIndex;
+      } else if (restoredSession.aiSuggestedDraft) {
+        this.draftVersions = [{
+          text: restoredSession.aiSuggestedDraft,
+          instruction: null,
+          basedOn: null,
+          timestamp: restoredSession.updatedAt,
+        }];
+        this.selectedVersion = 0;
+      }
+    }
+  }
+
+  /**
+   * Selected AI draft version text (null if none generated yet)
+   */
+  private get aiSuggestedDraft(): string | null {
+    return this.draftVersions[this.selectedVersion]?.text ?? null;
   }
 
   // ========================================================================
@@ -85,6 +143,14 @@ export class SynthesisModal extends Modal {
       text: 'Answer these questions to transform your entry into a transferable creative work. You can skip questions, but at least one answer is required.',
     });
 
+    // Restored session hint
+    if (this.restoredSession) {
+      const restoredEl = descEl.createEl('p', {
+        text: `Resumed session saved ${new Date(this.restoredSession.updatedAt).toLocaleString()}. Answers are saved automatically.`,
+      });
+      restoredEl.style.fontSize = '12px';
+    }
+
     // Suggested tone
     const toneEl = contentEl.createDiv('weaklog-synthesis-tone');
     toneEl.style.padding = '8px 12px';
@@ -110,15 +176,36 @@ export class SynthesisModal extends Modal {
     this.suggestedDraftEl.style.borderRadius = '8px';
     this.suggestedDraftEl.style.border = '1px solid var(--background-modifier-border)';
 
+    if (this.aiSuggestedDraft) {
+      this.displaySuggestedDraft(this.aiSuggestedDraft);
+    }
+
     // Actions
     this.renderActions(contentEl);
+
+    // Persist freshly generated questions right away, so reopening
+    // resumes with the same questions even before anything is answered
+    if (!this.restoredSession) {
+      this.sessionDirty = true;
+      this.saveSession();
+    }
   }
 
   /**
    * Called when modal is closed
-   * Cleanup
+   * Flushes pending autosave, then cleanup
    */
   onClose(): void {
+    // Stop any in-flight suggestion stream
+    this.suggestionAbort?.abort();
+    this.suggestionAbort = null;
+
+    // Persist the latest answers immediately
+    this.debouncedSave.cancel();
+    if (this.sessionDirty && !this.sessionFinished) {
+      this.saveSession();
+    }
+
     const { contentEl } = this;
     contentEl.empty();
   }
@@ -134,52 +221,140 @@ export class SynthesisModal extends Modal {
     const questionsEl = containerEl.createDiv('weaklog-synthesis-questions');
     questionsEl.style.marginBottom = '24px';
 
-    this.synthesisGuideData.questions.forEach((question, index) => {
+    this.synthesisGuideData.questions.forEach((_, index) => {
       const questionEl = questionsEl.createDiv('weaklog-synthesis-question');
       questionEl.style.marginBottom = '20px';
+      this.renderQuestion(questionEl, index);
+    });
+  }
 
-      // Question label
-      const labelEl = questionEl.createEl('label', {
-        text: `Question ${index + 1}`,
-        cls: 'weaklog-question-label',
-      });
-      labelEl.style.display = 'block';
-      labelEl.style.fontWeight = '600';
-      labelEl.style.marginBottom = '8px';
-      labelEl.style.color = 'var(--text-normal)';
-
-      // Question text
-      const questionTextEl = questionEl.createDiv('weaklog-question-text');
-      questionTextEl.style.marginBottom = '8px';
-      questionTextEl.style.padding = '8px';
-      questionTextEl.style.backgroundColor = 'var(--background-primary-alt)';
-      questionTextEl.style.borderRadius = '4px';
-      questionTextEl.style.fontSize = '14px';
-      questionTextEl.style.fontStyle = 'italic';
-      questionTextEl.textContent = question;
-
-      // Answer textarea
-      const textareaEl = questionEl.createEl('textarea', {
-        cls: 'weaklog-answer-textarea',
-      }) as HTMLTextAreaElement;
-      textareaEl.placeholder = 'Your answer...';
-      textareaEl.rows = 4;
-      textareaEl.style.width = '100%';
-      textareaEl.style.padding = '8px';
-      textareaEl.style.fontSize = '14px';
-      textareaEl.style.fontFamily = 'inherit';
-      textareaEl.style.resize = 'vertical';
-
-      // Save answer on input
-      textareaEl.addEventListener('input', () => {
-        const value = textareaEl.value.trim();
-        if (value.length > 0) {
-          this.answers.set(index, value);
-        } else {
-          this.answers.delete(index);
-        }
-      });
+  /**
+   * Render one question with its controls and answer textarea
+   * Re-rendered in place when the question is replaced
+   */
+  private renderQuestion(questionEl: HTMLElement, index: number): void {
+    questionEl.empty();
+    const question = this.synthesisGuideData.questions[index];
+    const origin = this.getQuestionOrigin(index);
+
+    // Question label with per-question controls
+    const headerEl = questionEl.createDiv();
+    headerEl.style.display = 'flex';
+    headerEl.style.justifyContent = 'space-between';
+    headerEl.style.alignItems = 'center';
+    headerEl.style.marginBottom = '8px';
+
+    const labelEl = headerEl.createEl('label', {
+      text: origin === 'user' ? `Question ${index + 1} (your question)` : `Question ${index + 1}`,
+      cls: 'weaklog-question-label',
+    });
+    labelEl.style.fontWeight = '600';
+    labelEl.style.color = 'var(--text-normal)';
+
+    const controlsEl = headerEl.createDiv('weaklog-question-controls');
+    controlsEl.style.display = 'flex';
+    controlsEl.style.gap = '4px';
+
+    const regenerateButton = controlsEl.createEl('button', { text: '↻ Regenerate' });
+    regenerateButton.title = 'Replace with a question on a different angle';
+    regenerateButton.addEventListener('click', () =>
+      this.handleReplaceQuestion(questionEl, index, 'regenerate', regenerateButton)
+    );
+
+    const deeperButton = controlsEl.createEl('button', { text: '⤵ Deeper' });
+    deeperButton.title = 'Rewrite this question to probe deeper';
+    deeperButton.addEventListener('click', () =>
+      this.handleReplaceQuestion(questionEl, index, 'deeper', deeperButton)
+    );
+
+    const writeButton = controlsEl.createEl('button', { text: '✎ Write my own' });
+    writeButton.addEventListener('click', () => this.renderQuestionEditor(questionEl, questionTextEl, index));
+
+    [regenerateButton, deeperButton, writeButton].forEach((button) => {
+      button.addClass('weaklog-question-control');
+      button.style.fontSize = '12px';
+      button.style.padding = '2px 8px';
+    });
+
+    // Question text
+    const questionTextEl = questionEl.createDiv('weaklog-question-text');
+    questionTextEl.style.marginBottom = '8px';
+    questionTextEl.style.padding = '8px';
+    questionTextEl.style.backgroundColor = 'var(--background-primary-alt)';
+    questionTextEl.style.borderRadius = '4px';
+    questionTextEl.style.fontSize = '14px';
+    questionTextEl.style.fontStyle = 'italic';
+    questionTextEl.textContent = question;
+
+    // Answer textarea
+    const textareaEl = questionEl.createEl('textarea', {
+      cls: 'weaklog-answer-textarea',
+    }) as HTMLTextAreaElement;
+    textareaEl.placeholder = 'Your answer...';
+    textareaEl.rows = 4;
+    textareaEl.style.width = '100%';
+    textareaEl.style.padding = '8px';
+    textareaEl.style.fontSize = '14px';
+    textareaEl.style.fontFamily = 'inherit';
+    textareaEl.style.resize = 'vertical';
+    textareaEl.value = this.answers.get(index) ?? '';
+
+    // Save answer on input
+    textareaEl.addEventListener('input', () => {
+      const value = textareaEl.value.trim();
+      if (value.length > 0) {
+        this.answers.set(index, value);
+      } else {
+        this.answers.delete(index);
+      }
+      this.scheduleSave();
+    });
+  }
+
+  /**
+   * Swap question text for an inline editor ("Write my own")
+   */
+  private renderQuestionEditor(questionEl: HTMLElement, questionTextEl: HTMLElement, index: number): void {
+    questionTextEl.empty();
+    questionTextEl.style.fontStyle = 'normal';
+
+    const inputEl = questionTextEl.createEl('input', { type: 'text' });
+    inputEl.value = this.synthesisGuideData.questions[index];
+    inputEl.style.width = '100%';
+    inputEl.style.marginBottom = '8px';
+
+    const buttonsEl = questionTextEl.createDiv();
+    buttonsEl.style.display = 'flex';
+    buttonsEl.style.justifyContent = 'flex-end';
+    buttonsEl.style.gap = '4px';
+
+    const cancelButton = buttonsEl.createEl('button', { text: 'Cancel' });
+    cancelButton.addEventListener('click', () => this.renderQuestion(questionEl, index));
+
+    const saveButton = buttonsEl.createEl('button', { text: 'Use question', cls: 'mod-cta' });
+    const save = () => {
+      const value = inputEl.value.trim();
+      if (value.length === 0) {
+        new Notice('⚠️ Question cannot be empty', 3000);
+        return;
+      }
+      this.replaceQuestion(index, value, 'user');
+      this.renderQuestion(questionEl, index);
+    };
+    saveButton.addEventListener('click', save);
+    inputEl.addEventListener('keydown', (evt) => {
+      if (evt.key === 'Enter') {
+        evt.preventDefault();
+        save();
+      } else if (evt.key === 'Escape') {
+        evt.preventDefault();
+        evt.stopPropagation();
+        this.renderQuestion(questionEl, index);
+      }
     });
+
+    inputEl.focus();
+    inputEl.select();
   }
 
   /**
@@ -200,6 +375,14 @@ export class SynthesisModal extends Modal {
     cancelButton.style.flex = '1';
     cancelButton.addEventListener('click', () => this.close());
 
+    // Discard session button (click twice to confirm)
+    const discardButton = actionsEl.createEl('button', {
+      text: 'Discard Session',
+      cls: 'weaklog-button-discard',
+    });
+    discardButton.style.flex = '1';
+    discardButton.addEventListener('click', () => this.handleDiscardSession(discardButton));
+
     // AI Suggest Draft button
     const suggestButton = actionsEl.createEl('button', {
       text: 'AI Suggest Draft',
@@ -223,83 +406,197 @@ export class SynthesisModal extends Modal {
 
   /**
    * Handle "AI Suggest Draft" action
-   * Generates AI-powered draft suggestion based on Q&A
+   * Streams a fresh draft suggestion based on Q&A and adds it as a new version
    */
   private async handleSuggestDraft(): Promise<void> {
-    try {
-      // Validate: at least one answer required
-      if (this.answers.size === 0) {
-        new Notice('⚠️ Please answer at least one question first', 3000);
-        return;
-      }
+    // Validate: at least one answer required
+    if (this.answers.size === 0) {
+      new Notice('⚠️ Please answer at least one question first', 3000);
+      return;
+    }
 
-      // Disable buttons and show loading
-      this.setButtonsDisabled(true, 'Generating AI suggestion...', 'AI Suggest Draft');
+    console.log(`[Weaklog] Generating AI draft suggestion with ${this.answers.size} answers`);
 
-      console.log(`[Weaklog] Generating AI draft suggestion with ${this.answers.size} answers`);
+    // Build Q&A pairs
+    const qaList: QuestionAnswer[] = [];
+    this.synthesisGuideData.questions.forEach((question, index) => {
+      const answer = this.answers.get(index);
+      if (answer) {
+        qaList.push({ question, answer });
+      }
+    });
 
-      // Build Q&A pairs
-      const qaList: QuestionAnswer[] = [];
-      this.synthesisGuideData.questions.forEach((question, index) => {
-        const answer = this.answers.get(index);
-        if (answer) {
-          qaList.push({ question, answer });
-        }
-      });
+    await this.streamDraftVersion(
+      'AI Suggest Draft',
+      'Generating AI suggestion...',
+      null,
+      (onChunk, signal) =>
+        this.synthesisGuideInstance.streamDraftSuggestion(
+          this.originalContent,
+          this.triageResult,
+          qaList,
+          onChunk,
+          this.responseLanguage,
+          signal
+        )
+    );
+  }
 
-      // Call AI to generate draft suggestion
-      const suggestion = await this.synthesisGuideInstance.generateDraftSuggestion(
-        this.originalContent,
-        this.triageResult,
-        qaList,
-        this.responseLanguage
-      );
+  /**
+   * Handle "Revise" action
+   * Streams a revision of the selected version following the instruction
+   */
+  private async handleReviseDraft(instruction: string): Promise<void> {
+    const base = this.aiSuggestedDraft;
+    if (!base) {
+      return;
+    }
+    if (instruction.trim().length === 0) {
+      new Notice('⚠️ Please describe how to revise the draft', 3000);
+      return;
+    }
+
+    await this.streamDraftVersion(
+      'Revise',
+      'Revising...',
+      instruction.trim(),
+      (onChunk, signal) =>
+        this.synthesisGuideInstance.streamDraftRevision(
+          this.originalContent,
+          this.triageResult,
+          base,
+          instruction,
+          onChunk,
+          this.responseLanguage,
+          signal
+        )
+    );
+  }
 
-      // Store suggestion
-      this.aiSuggestedDraft = suggestion;
+  /**
+   * Stream a draft into the preview and append it as a new version
+   * On failure or cancel, the previously selected version is shown again
+   *
+   * @param buttonText - Text of the button that started the stream
+   * @param loadingText - Button text while streaming
+   * @param instruction - Revision instruction (null for a fresh suggestion)
+   * @param stream - Starts the stream
+   */
+  private async streamDraftVersion(
+    buttonText: string,
+    loadingText: string,
+    instruction: string | null,
+    stream: (onChunk: (text: string) => void, signal: AbortSignal) => Promise<string>
+  ): Promise<void> {
+    const basedOn = instruction === null ? null : this.selectedVersion;
+    const abortController = new AbortController();
+    this.suggestionAbort = abortController;
 
-      // Display suggestion
-      this.displaySuggestedDraft(suggestion);
+    try {
+      // Disable buttons and show loading
+      this.setButtonsDisabled(true, loadingText, buttonText);
+
+      // Show empty preview with cancel button, then append as text arrives
+      const previewEl = this.displaySuggestedDraft('', () => abortController.abort());
+
+      const text = await stream((chunk) => {
+        previewEl.textContent = (previewEl.textContent || '') + chunk;
+        previewEl.scrollTop = previewEl.scrollHeight;
+      }, abortController.signal);
+
+      // Store as newest version and select it
+      this.draftVersions.push({
+        text,
+        instruction,
+        basedOn,
+        timestamp: new Date().toISOString(),
+      });
+      this.selectedVersion = this.draftVersions.length - 1;
+      this.scheduleSave();
 
-      new Notice('✓ AI draft suggestion generated', 3000);
-      console.log('[Weaklog] AI draft suggestion generated successfully');
+      // Display final version (without cancel button)
+      this.displaySuggestedDraft(text);
 
-      this.setButtonsDisabled(false);
+      new Notice(instruction === null ? '✓ AI draft suggestion generated' : '✓ Draft revised', 3000);
+      console.log(`[Weaklog] Draft version ${this.draftVersions.length} created`);
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      console.error('[Weaklog] Failed to generate AI suggestion:', error);
-      new Notice(`❌ Failed to generate AI suggestion: ${errorMessage}`, 5000);
+
+      // Restore selected version (or hide preview) on failure/cancel
+      if (this.aiSuggestedDraft) {
+        this.displaySuggestedDraft(this.aiSuggestedDraft);
+      } else if (this.suggestedDraftEl) {
+        this.suggestedDraftEl.empty();
+        this.suggestedDraftEl.style.display = 'none';
+      }
+
+      if (error instanceof LLMError && error.kind === 'cancelled') {
+        console.log('[Weaklog] AI draft stream cancelled');
+        new Notice('AI suggestion cancelled', 3000);
+      } else {
+        console.error('[Weaklog] Failed to generate AI draft:', error);
+        new Notice(`❌ Failed to generate AI suggestion: ${errorMessage}`, 5000);
+      }
+
+    } finally {
+      if (this.suggestionAbort === abortController) {
+        this.suggestionAbort = null;
+      }
       this.setButtonsDisabled(false);
     }
   }
 
   /**
    * Display AI suggested draft in the modal
+   * Finished drafts get version navigation, a diff toggle and revision input
+   *
+   * @param suggestion - Draft text to show (empty while streaming)
+   * @param onCancel - If provided, shows a cancel button for in-flight streams
+   * @returns Draft content element (for appending streamed text)
    */
-  private displaySuggestedDraft(suggestion: string): void {
-    if (!this.suggestedDraftEl) return;
+  private displaySuggestedDraft(suggestion: string, onCancel?: () => void): HTMLElement {
+    const suggestedDraftEl = this.suggestedDraftEl!;
 
-    this.suggestedDraftEl.empty();
-    this.suggestedDraftEl.style.display = 'block';
+    suggestedDraftEl.empty();
+    suggestedDraftEl.style.display = 'block';
 
     // Header
-    const headerEl = this.suggestedDraftEl.createEl('h3', {
-      text: '✨ AI Suggested Draft',
+    const headerRowEl = suggestedDraftEl.createDiv();
+    headerRowEl.style.display = 'flex';
+    headerRowEl.style.justifyContent = 'space-between';
+    headerRowEl.style.alignItems = 'center';
+    headerRowEl.style.marginBottom = '12px';
+
+    const headerEl = headerRowEl.createEl('h3', {
+      text: onCancel ? '✨ AI Suggested Draft (writing...)' : '✨ AI Suggested Draft',
     });
-    headerEl.style.marginTop = '0';
-    headerEl.style.marginBottom = '12px';
+    headerEl.style.margin = '0';
     headerEl.style.color = 'var(--text-accent)';
 
+    // Cancel button while streaming
+    if (onCancel) {
+      const cancelButton = headerRowEl.createEl('button', {
+        text: 'Stop',
+        cls: 'weaklog-button-stop',
+      });
+      cancelButton.addEventListener('click', () => {
+        cancelButton.disabled = true;
+        onCancel();
+      });
+    } else if (this.draftVersions.length > 0) {
+      this.renderVersionNav(headerRowEl);
+    }
+
     // Info text
-    const infoEl = this.suggestedDraftEl.createDiv();
+    const infoEl = suggestedDraftEl.createDiv();
     infoEl.style.fontSize = '13px';
     infoEl.style.color = 'var(--text-muted)';
     infoEl.style.marginBottom = '12px';
-    infoEl.textContent = 'This AI-generated draft will be included in your final document. You can edit it after clicking "Generate Draft".';
+    infoEl.textContent = 'The selected version will be included in your final document; all versions are saved with the note. You can edit it after clicking "Generate Draft".';
 
     // Draft content
-    const contentEl = this.suggestedDraftEl.createDiv('weaklog-draft-preview');
+    const contentEl = suggestedDraftEl.createDiv('weaklog-draft-preview');
     contentEl.style.padding = '12px';
     contentEl.style.backgroundColor = 'var(--background-primary)';
     contentEl.style.borderRadius = '4px';
@@ -309,7 +606,121 @@ export class SynthesisModal extends Modal {
     contentEl.style.lineHeight = '1.6';
     contentEl.style.maxHeight = '300px';
     contentEl.style.overflowY = 'auto';
-    contentEl.textContent = suggestion;
+
+    const version = this.draftVersions[this.selectedVersion];
+    const previous = version && version.basedOn !== null ? this.draftVersions[version.basedOn] : undefined;
+    if (!onCancel && this.showDiff && previous) {
+      this.renderDiff(contentEl, previous.text, suggestion);
+    } else {
+      contentEl.textContent = suggestion;
+    }
+
+    if (!onCancel && this.draftVersions.length > 0) {
+      this.renderRevisionInput(suggestedDraftEl);
+    }
+
+    return contentEl;
+  }
+
+  /**
+   * Render version navigation (◀ v2/3 ▶) and diff toggle
+   */
+  private renderVersionNav(containerEl: HTMLElement): void {
+    const navEl = containerEl.createDiv('weaklog-draft-versions');
+    navEl.style.display = 'flex';
+    navEl.style.alignItems = 'center';
+    navEl.style.gap = '6px';
+    navEl.style.fontSize = '13px';
+
+    const version = this.draftVersions[this.selectedVersion];
+
+    const prevButton = navEl.createEl('button', { text: '◀' });
+    prevButton.disabled = this.selectedVersion <= 0;
+    prevButton.addEventListener('click', () => this.selectVersion(this.selectedVersion - 1));
+
+    const labelEl = navEl.createSpan({
+      text: `v${this.selectedVersion + 1}/${this.draftVersions.length}`,
+    });
+    labelEl.title = version.instruction ? `Revised: ${version.instruction}` : 'AI suggestion';
+
+    const nextButton = navEl.createEl('button', { text: '▶' });
+    nextButton.disabled = this.selectedVersion >= this.draftVersions.length - 1;
+    nextButton.addEventListener('click', () => this.selectVersion(this.selectedVersion + 1));
+
+    if (version.basedOn !== null) {
+      const diffButton = navEl.createEl('button', {
+        text: this.showDiff ? 'Hide changes' : 'Show changes',
+      });
+      diffButton.addEventListener('click', () => {
+        this.showDiff = !this.showDiff;
+        this.displaySuggestedDraft(version.text);
+      });
+    }
+  }
+
+  /**
+   * Render revision instruction input and "Revise" button
+   */
+  private renderRevisionInput(containerEl: HTMLElement): void {
+    const version = this.draftVersions[this.selectedVersion];
+
+    if (version.instruction) {
+      const instructionEl = containerEl.createDiv();
+      instructionEl.style.fontSize = '12px';
+      instructionEl.style.color = 'var(--text-muted)';
+      instructionEl.style.marginTop = '8px';
+      instructionEl.textContent = `v${this.selectedVersion + 1} = v${(version.basedOn ?? 0) + 1} revised with: "${version.instruction}"`;
+    }
+
+    const reviseEl = containerEl.createDiv('weaklog-draft-revise');
+    reviseEl.style.display = 'flex';
+    reviseEl.style.gap = '8px';
+    reviseEl.style.marginTop = '12px';
+
+    const inputEl = reviseEl.createEl('input', {
+      type: 'text',
+      placeholder: 'Revise: "shorter", "less self-pitying", "add a concrete scene"...',
+    });
+    inputEl.style.flex = '1';
+
+    const reviseButton = reviseEl.createEl('button', {
+      text: 'Revise',
+      cls: 'weaklog-button-revise',
+    });
+    reviseButton.addEventListener('click', () => this.handleReviseDraft(inputEl.value));
+    inputEl.addEventListener('keydown', (evt) => {
+      if (evt.key === 'Enter' && !reviseButton.disabled) {
+        evt.preventDefault();
+        this.handleReviseDraft(inputEl.value);
+      }
+    });
+  }
+
+  /**
+   * Render word-level diff between two versions
+   */
+  private renderDiff(containerEl: HTMLElement, before: string, after: string): void {
+    diffWords(before, after).forEach((segment) => {
+      const spanEl = containerEl.createSpan({ text: segment.text });
+      if (segment.type === 'added') {
+        spanEl.style.backgroundColor = 'rgba(var(--color-green-rgb), 0.2)';
+      } else if (segment.type === 'removed') {
+        spanEl.style.backgroundColor = 'rgba(var(--color-red-rgb), 0.2)';
+        spanEl.style.textDecoration = 'line-through';
+      }
+    });
+  }
+
+  /**
+   * Select a draft version to keep
+   */
+  private selectVersion(index: number): void {
+    if (index < 0 || index >= this.draftVersions.length) {
+      return;
+    }
+    this.selectedVersion = index;
+    this.displaySuggestedDraft(this.draftVersions[index].text);
+    this.scheduleSave();
   }
 
   /**
@@ -341,13 +752,20 @@ export class SynthesisModal extends Modal {
       // Generate draft content
       const draftContent = this.buildDraftContent(qaList);
 
-      // Update file content
-      await this.app.vault.modify(this.file, draftContent);
+      // Update file content (frontmatter is kept)
+      await this.fileManager.replaceBody(this.file, draftContent);
 
-      // Update frontmatter with synthesis guide
+      // Session is complete; stop autosaving and drop the saved state
+      this.sessionFinished = true;
+      this.debouncedSave.cancel();
+
+      // Update frontmatter with synthesis guide and all draft versions
+      const draftHistory = this.getDraftHistory();
       await this.fileManager.updateFrontmatter(this.file, {
         synthesis_guide: JSON.stringify(this.synthesisGuideData),
+        ...(draftHistory ? { draft_versions: JSON.stringify(draftHistory) } : {}),
       });
+      await this.fileManager.removeFrontmatterFields(this.file, [SESSION_FRONTMATTER_KEY]);
 
       // Move to 04_Synthesized
       const synthesizedFile = await this.fileManager.moveFile(this.file, 'synthesized');
@@ -364,10 +782,156 @@ export class SynthesisModal extends Modal {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error('[Weaklog] Failed to generate draft:', error);
       new Notice(`❌ Failed to generate draft: ${errorMessage}`, 5000);
+      this.sessionFinished = false;
       this.setButtonsDisabled(false);
     }
   }
 
+  /**
+   * Handle "Regenerate" / "Deeper" for one question
+   * Existing answers are kept and sent as context
+   */
+  private async handleReplaceQuestion(
+    questionEl: HTMLElement,
+    index: number,
+    mode: QuestionRewriteMode,
+    button: HTMLButtonElement
+  ): Promise<void> {
+    const controls = questionEl.querySelectorAll<HTMLButtonElement>('.weaklog-question-control');
+    controls.forEach((control) => (control.disabled = true));
+    button.textContent = '...';
+
+    try {
+      const question = await this.synthesisGuideInstance.generateReplacementQuestion(
+        this.originalContent,
+        this.triageResult,
+        this.synthesisGuideData.questions,
+        this.answers,
+        index,
+        mode,
+        this.responseLanguage
+      );
+
+      this.replaceQuestion(index, question, 'ai');
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[Weaklog] Failed to replace question:', error);
+      new Notice(`❌ ${errorMessage}`, 5000);
+    }
+
+    // Modal may have been closed while waiting
+    if (questionEl.isConnected) {
+      this.renderQuestion(questionEl, index);
+    }
+  }
+
+  /**
+   * Replace a question and record its origin
+   */
+  private replaceQuestion(index: number, question: string, origin: QuestionOrigin): void {
+    const questions = [...this.synthesisGuideData.questions];
+    const origins = questions.map((_, i) => this.getQuestionOrigin(i));
+    questions[index] = question;
+    origins[index] = origin;
+
+    this.synthesisGuideData = {
+      ...this.synthesisGuideData,
+      questions,
+      questionOrigins: origins,
+    };
+
+    console.log(`[Weaklog] Question ${index + 1} replaced (${origin})`);
+    this.scheduleSave();
+  }
+
+  /**
+   * Get origin of a question (AI-generated unless recorded otherwise)
+   */
+  private getQuestionOrigin(index: number): QuestionOrigin {
+    return this.synthesisGuideData.questionOrigins?.[index] ?? 'ai';
+  }
+
+  /**
+   * Handle "Discard Session" action
+   * First click arms the button, second click deletes saved answers and closes
+   */
+  private async handleDiscardSession(button: HTMLButtonElement): Promise<void> {
+    if (!this.discardArmed) {
+      this.discardArmed = true;
+      button.textContent = 'Click again to discard';
+      button.addClass('mod-warning');
+      return;
+    }
+
+    this.sessionFinished = true;
+    this.debouncedSave.cancel();
+
+    try {
+      await this.fileManager.removeFrontmatterFields(this.file, [SESSION_FRONTMATTER_KEY]);
+      new Notice('✓ Synthesis session discarded', 3000);
+      console.log(`[Weaklog] Discarded synthesis session for ${this.file.path}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[Weaklog] Failed to discard synthesis session:', error);
+      new Notice(`❌ Failed to discard session: ${errorMessage}`, 5000);
+    }
+
+    this.close();
+  }
+
+  // ========================================================================
+  // Session Persistence
+  // ========================================================================
+
+  /**
+   * Get draft version history (undefined if no draft was generated)
+   */
+  private getDraftHistory(): DraftHistory | undefined {
+    if (this.draftVersions.length === 0) {
+      return undefined;
+    }
+    return { versions: this.draftVersions, selectedIndex: this.selectedVersion };
+  }
+
+  /**
+   * Mark session as changed and save after a short pause
+   */
+  private scheduleSave(): void {
+    if (this.sessionFinished) {
+      return;
+    }
+    this.sessionDirty = true;
+    this.debouncedSave();
+  }
+
+  /**
+   * Write current answers and suggestion to frontmatter
+   */
+  private async saveSession(): Promise<void> {
+    if (this.sessionFinished || !this.sessionDirty) {
+      return;
+    }
+    this.sessionDirty = false;
+
+    const session: SynthesisSession = {
+      guide: this.synthesisGuideData,
+      answers: this.synthesisGuideData.questions.map((_, index) => this.answers.get(index) ?? ''),
+      aiSuggestedDraft: this.aiSuggestedDraft,
+      draftHistory: this.getDraftHistory(),
+      updatedAt: new Date().toISOString(),
+    };
+
+    try {
+      await this.fileManager.updateFrontmatter(this.file, {
+        [SESSION_FRONTMATTER_KEY]: JSON.stringify(session),
+      });
+    } catch (error) {
+      console.error('[Weaklog] Failed to autosave synthesis session:', error);
+      this.sessionDirty = true;
+    }
+  }
+
   // ========================================================================
   // Draft Generation
   // ========================================================================
@@ -452,10 +1016,14 @@ export class SynthesisModal extends Modal {
         // Restore original text
         if (btn.classList.contains('weaklog-button-cancel')) {
           btn.textContent = 'Cancel';
+        } else if (btn.classList.contains('weaklog-button-discard')) {
+          btn.textContent = this.discardArmed ? 'Click again to discard' : 'Discard Session';
         } else if (btn.classList.contains('weaklog-button-suggest')) {
           btn.textContent = 'AI Suggest Draft';
         } else if (btn.classList.contains('weaklog-button-generate')) {
           btn.textContent = 'Generate Draft';
+        } else if (btn.classList.contains('weaklog-button-revise')) {
+          btn.textContent = 'Revise';
         }
       }
     });
@@ -0,0 +1,236 @@
+/**
+ * TriageHistoryModal - Triage runs of one entry
+ *
+ * Shows every recorded triage run (triage_history frontmatter):
+ * - Score trend across runs
+ * - How often the recommendation was overridden
+ * - Per run: score, recommendation, decision, criteria that changed,
+ *   provider/model and prompt version
+ */
+
+import { App, Modal, TFile } from 'obsidian';
+import { TriageDecision, TriageHistoryEntry, TriageResult, TriageRubric } from '../types';
+
+/** Display labels per decision */
+const DECISION_LABELS: Record<TriageDecision, string> = {
+  adopt: 'Adopted',
+  review: 'Review Later',
+  reject: 'Rejected',
+};
+
+/**
+ * Describe a run in one line (e.g. "3/4 review → Adopted")
+ *
+ * @param run - Triage history entry
+ * @returns Short description
+ */
+export function describeTriageRun(run: TriageHistoryEntry): string {
+  const score = `${run.result.score}/${run.result.maxScore ?? 4} ${run.result.recommendation}`;
+  return run.decision ? `${score} → ${DECISION_LABELS[run.decision]}` : score;
+}
+
+/**
+ * Get display label for a criterion key
+ * Uses the rubric label, or splits a camelCase key for criteria no longer in the rubric
+ *
+ * @param key - Criterion key from a triage result
+ * @param rubric - Current rubric, if known
+ * @returns Label to show
+ */
+export function getCriterionLabel(key: string, rubric?: TriageRubric): string {
+  const criterion = rubric?.criteria.find((c) => c.key === key);
+  if (criterion) {
+    return criterion.label;
+  }
+
+  const words = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Get text color for a recommendation
+ *
+ * @param recommendation - Triage recommendation
+ * @returns CSS color value
+ */
+export function getRecommendationColor(recommendation: TriageResult['recommendation']): string {
+  switch (recommendation) {
+    case 'adopt':
+      return 'var(--text-success)';
+    case 'review':
+      return 'var(--text-warning)';
+    case 'reject':
+      return 'var(--text-error)';
+  }
+}
+
+/**
+ * TriageHistoryModal class
+ * Read-only view of an entry's triage history
+ */
+export class TriageHistoryModal extends Modal {
+  private file: TFile;
+  private history: TriageHistoryEntry[];
+  private rubric: TriageRubric | undefined;
+
+  constructor(app: App, file: TFile, history: TriageHistoryEntry[], rubric?: TriageRubric) {
+    super(app);
+    this.file = file;
+    this.history = history;
+    this.rubric = rubric;
+  }
+
+  // ========================================================================
+  // Modal Lifecycle
+  // ========================================================================
+
+  /**
+   * Called when modal is opened
+   * Renders trend summary and the run table
+   */
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('weaklog-triage-history-modal');
+
+    contentEl.createEl('h2', { text: 'Triage History' });
+
+    const subtitleEl = contentEl.createDiv({ text: this.file.basename });
+    subtitleEl.style.marginTop = '-8px';
+    subtitleEl.style.marginBottom = '16px';
+    subtitleEl.style.fontSize = '13px';
+    subtitleEl.style.color = 'var(--text-muted)';
+
+    if (this.history.length === 0) {
+      const emptyEl = contentEl.createDiv({ text: 'No triage runs recorded yet.' });
+      emptyEl.style.color = 'var(--text-muted)';
+      return;
+    }
+
+    this.renderTrend(contentEl);
+    this.renderRuns(contentEl);
+  }
+
+  /**
+   * Called when modal is closed
+   */
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+
+  // ========================================================================
+  // UI Rendering
+  // ========================================================================
+
+  /**
+   * Render score trend (oldest → newest) and override count
+   */
+  private renderTrend(containerEl: HTMLElement): void {
+    const trendEl = containerEl.createDiv('weaklog-triage-trend');
+    trendEl.style.padding = '12px';
+    trendEl.style.marginBottom = '16px';
+    trendEl.style.borderRadius = '4px';
+    trendEl.style.backgroundColor = 'var(--background-secondary)';
+
+    const scoresEl = trendEl.createDiv();
+    scoresEl.style.fontSize = '16px';
+    scoresEl.style.fontWeight = '600';
+    this.history.forEach((run, index) => {
+      if (index > 0) {
+        scoresEl.createSpan({ text: ' → ' }).style.color = 'var(--text-muted)';
+      }
+      const scoreEl = scoresEl.createSpan({ text: `${run.result.score}/${run.result.maxScore ?? 4}` });
+      scoreEl.style.color = getRecommendationColor(run.result.recommendation);
+      scoreEl.title = `${run.result.recommendation} · ${this.formatDate(run.timestamp)}`;
+    });
+
+    const decided = this.history.filter((run) => run.decision !== null);
+    const overridden = decided.filter((run) => run.overridden).length;
+    const countEl = trendEl.createDiv();
+    countEl.style.marginTop = '4px';
+    countEl.style.fontSize = '13px';
+    countEl.style.color = 'var(--text-muted)';
+    countEl.textContent = overridden > 0
+      ? `${this.history.length} runs · recommendation overridden in ${overridden} of ${decided.length} decisions`
+      : `${this.history.length} runs · recommendation followed in every decision`;
+  }
+
+  /**
+   * Render one row per run, newest first
+   */
+  private renderRuns(containerEl: HTMLElement): void {
+    const tableEl = containerEl.createEl('table');
+    tableEl.style.width = '100%';
+    tableEl.style.fontSize = '13px';
+    tableEl.style.borderCollapse = 'collapse';
+
+    const headerRow = tableEl.createEl('thead').createEl('tr');
+    ['Date', 'Score', 'Decision', 'Changed', 'Model', 'Prompt'].forEach((label) => {
+      const cellEl = headerRow.createEl('th', { text: label });
+      cellEl.style.textAlign = 'left';
+      cellEl.style.padding = '4px 8px';
+      cellEl.style.borderBottom = '1px solid var(--background-modifier-border)';
+    });
+
+    const bodyEl = tableEl.createEl('tbody');
+    for (let index = this.history.length - 1; index >= 0; index--) {
+      const run = this.history[index];
+      const previous = index > 0 ? this.history[index - 1] : null;
+      const rowEl = bodyEl.createEl('tr');
+      rowEl.title = `Core question: "${run.result.coreQuestion}"`;
+
+      this.createCell(rowEl, this.formatDate(run.timestamp));
+
+      const scoreEl = this.createCell(rowEl, `${run.result.score}/${run.result.maxScore ?? 4} ${run.result.recommendation}`);
+      scoreEl.style.color = getRecommendationColor(run.result.recommendation);
+
+      const decisionEl = this.createCell(rowEl, run.decision ? DECISION_LABELS[run.decision] : '—');
+      if (run.overridden) {
+        decisionEl.textContent += ' (override)';
+        decisionEl.style.color = 'var(--text-warning)';
+        decisionEl.title = `Recommended: ${run.result.recommendation}`;
+      }
+
+      this.createCell(rowEl, previous ? this.describeChanges(previous, run) : '—');
+
+      const model = run.provider ? `${run.provider} (${run.model})` : 'Manual';
+      this.createCell(rowEl, model).style.color = 'var(--text-muted)';
+      this.createCell(rowEl, run.promptVersion ?? '—').style.fontFamily = 'var(--font-monospace)';
+    }
+  }
+
+  /**
+   * Create a table cell
+   */
+  private createCell(rowEl: HTMLElement, text: string): HTMLElement {
+    const cellEl = rowEl.createEl('td', { text });
+    cellEl.style.padding = '4px 8px';
+    cellEl.style.verticalAlign = 'top';
+    return cellEl;
+  }
+
+  // ========================================================================
+  // UI Helpers
+  // ========================================================================
+
+  /**
+   * Describe criteria that flipped since the previous run
+   * (e.g. "+Has Specifics −Is Transferable")
+   */
+  private describeChanges(previous: TriageHistoryEntry, run: TriageHistoryEntry): string {
+    const changes = Object.entries(run.result.checks)
+      .filter(([key, check]) => previous.result.checks[key] && previous.result.checks[key].pass !== check.pass)
+      .map(([key, check]) => `${check.pass ? '+' : '−'}${getCriterionLabel(key, this.rubric)}`);
+
+    return changes.length > 0 ? changes.join(' ') : 'No change';
+  }
+
+  /**
+   * Format an ISO timestamp as a local date and time
+   */
+  private formatDate(timestamp: string): string {
+    const date = new Date(timestamp);
+    return isNaN(date.getTime()) ? timestamp : date.toLocaleString();
+  }
+}
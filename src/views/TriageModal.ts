@@ -1,17 +1,45 @@
 /**
  * TriageModal - Step 3 UI
  *
- * Displays AI triage results with:
- * - 4 criteria checks (pass/fail with icons)
+ * Displays AI (or manual) triage results with:
+ * - Rubric criteria checks (pass/fail with icons)
  * - Score and recommendation
  * - Core question
- * - Three action buttons (Adopt/Review/Reject)
+ * - Three action buttons (Adopt/Review/Reject), each recorded in the triage history
+ * - Previous runs of the entry (score trend, overrides)
+ * - "Review Later" with an extra cooling period; entries deferred too often are flagged
+ * - Optional queue mode for stepping through batch results
+ * - Distinct error state for fallback results (Retry / Triage manually)
  */
 
 import { App, Modal, Notice, TFile } from 'obsidian';
 import { FileManager } from '../managers/FileManager';
 import { CooldownManager } from '../managers/CooldownManager';
-import { TriageResult } from '../types';
+import { TriageDecision, TriageResult, TriageRubric } from '../types';
+import { describeTriageRun, getCriterionLabel, getRecommendationColor } from './TriageHistoryModal';
+
+/**
+ * Options for showing the modal as part of a review queue
+ */
+export interface TriageModalOptions {
+  /** Position in the review queue (1-based) and queue length */
+  queuePosition?: { index: number; total: number };
+
+  /** Called on close with the decision taken, or null if dismissed */
+  onDecision?: (decision: TriageDecision | null) => void;
+
+  /** Re-run the analysis (offered when analysis failed) */
+  onRetry?: () => void;
+
+  /** Switch to manual triage (offered when analysis failed) */
+  onManualTriage?: () => void;
+
+  /** Rubric used to label criteria (keys are shown for unknown criteria) */
+  rubric?: TriageRubric;
+
+  /** Extra cooling days preselected for "Review Later" (default: 7) */
+  reviewLaterDays?: number;
+}
 
 /**
  * TriageModal class
@@ -22,19 +50,24 @@ export class TriageModal extends Modal {
   private cooldownManager: CooldownManager;
   private file: TFile;
   private triageResult: TriageResult;
+  private options: TriageModalOptions;
+  private decision: TriageDecision | null = null;
+  private handedOff = false;
 
   constructor(
     app: App,
     fileManager: FileManager,
     cooldownManager: CooldownManager,
     file: TFile,
-    triageResult: TriageResult
+    triageResult: TriageResult,
+    options: TriageModalOptions = {}
   ) {
     super(app);
     this.fileManager = fileManager;
     this.cooldownManager = cooldownManager;
     this.file = file;
     this.triageResult = triageResult;
+    this.options = options;
   }
 
   // ========================================================================
@@ -53,15 +86,38 @@ export class TriageModal extends Modal {
     // Header
     contentEl.createEl('h2', { text: 'Triage Results' });
 
+    // Queue position (batch review)
+    if (this.options.queuePosition) {
+      const { index, total } = this.options.queuePosition;
+      const queueEl = contentEl.createDiv('weaklog-triage-queue-position');
+      queueEl.style.marginTop = '-8px';
+      queueEl.style.marginBottom = '16px';
+      queueEl.style.fontSize = '13px';
+      queueEl.style.color = 'var(--text-muted)';
+      queueEl.textContent = `${this.file.basename} · Entry ${index} of ${total}`;
+    }
+
+    // Analysis failed: no score to show, offer retry / manual triage instead
+    if (this.isFallbackResult()) {
+      this.renderFailure(contentEl);
+      return;
+    }
+
     // Score and recommendation summary
     this.renderSummary(contentEl);
 
+    // Earlier runs of this entry (loaded from frontmatter)
+    this.renderPreviousRuns(contentEl);
+
     // Core question
     this.renderCoreQuestion(contentEl);
 
     // Criteria checks
     this.renderCriteria(contentEl);
 
+    // Warning for entries sent back too often
+    this.renderDeferralWarning(contentEl);
+
     // Action buttons
     this.renderActions(contentEl);
   }
@@ -73,12 +129,75 @@ export class TriageModal extends Modal {
   onClose(): void {
     const { contentEl } = this;
     contentEl.empty();
+
+    // Retry / manual triage take over the flow; don't report a dismissal
+    if (!this.handedOff) {
+      this.options.onDecision?.(this.decision);
+    }
   }
 
   // ========================================================================
   // UI Rendering
   // ========================================================================
 
+  /**
+   * Render error state for a failed analysis
+   * Replaces summary, criteria and Adopt/Reject actions
+   */
+  private renderFailure(containerEl: HTMLElement): void {
+    const failureEl = containerEl.createDiv('weaklog-triage-failure');
+    failureEl.style.padding = '16px';
+    failureEl.style.marginBottom = '16px';
+    failureEl.style.backgroundColor = 'var(--background-secondary)';
+    failureEl.style.borderRadius = '6px';
+    failureEl.style.borderLeft = '3px solid var(--text-error)';
+
+    const titleEl = failureEl.createEl('div', { text: '❌ Analysis failed' });
+    titleEl.style.fontSize = '16px';
+    titleEl.style.fontWeight = '600';
+    titleEl.style.marginBottom = '8px';
+
+    const reasonEl = failureEl.createEl('div', {
+      text: this.triageResult.failureReason || 'The AI response could not be parsed.',
+    });
+    reasonEl.style.fontSize = '13px';
+    reasonEl.style.color = 'var(--text-muted)';
+    reasonEl.style.marginBottom = '8px';
+
+    failureEl.createEl('div', {
+      text: 'No score was produced, so this entry cannot be adopted or rejected from this result.',
+    }).style.fontSize = '13px';
+
+    // Actions
+    const actionsEl = containerEl.createDiv('weaklog-actions');
+    actionsEl.style.display = 'flex';
+    actionsEl.style.justifyContent = 'flex-end';
+    actionsEl.style.gap = '8px';
+
+    const closeButton = actionsEl.createEl('button', { text: 'Close' });
+    closeButton.addEventListener('click', () => this.close());
+
+    const { onManualTriage, onRetry } = this.options;
+
+    if (onManualTriage) {
+      const manualButton = actionsEl.createEl('button', { text: 'Triage manually' });
+      manualButton.addEventListener('click', () => {
+        this.handedOff = true;
+        this.close();
+        onManualTriage();
+      });
+    }
+
+    if (onRetry) {
+      const retryButton = actionsEl.createEl('button', { text: 'Retry', cls: 'mod-cta' });
+      retryButton.addEventListener('click', () => {
+        this.handedOff = true;
+        this.close();
+        onRetry();
+      });
+    }
+  }
+
   /**
    * Render score and recommendation summary
    */
@@ -95,15 +214,15 @@ export class TriageModal extends Modal {
     // Score
     const scoreEl = summaryEl.createDiv();
     scoreEl.createEl('div', {
-      text: `Score: ${this.triageResult.score}/4`,
+      text: `Score: ${this.triageResult.score}/${this.triageResult.maxScore ?? 4}`,
       cls: 'weaklog-score',
     });
     scoreEl.style.fontSize = '18px';
     scoreEl.style.fontWeight = '600';
 
-    // Add emoji based on score
-    const emoji = this.triageResult.score === 4 ? '✅' :
-                  this.triageResult.score >= 2 ? '⚠️' : '❌';
+    // Add emoji based on recommendation
+    const emoji = this.triageResult.recommendation === 'adopt' ? '✅' :
+                  this.triageResult.recommendation === 'review' ? '⚠️' : '❌';
     scoreEl.createEl('span', { text: ` ${emoji}` });
 
     // Recommendation
@@ -115,7 +234,88 @@ export class TriageModal extends Modal {
     });
     recEl.style.fontSize = '14px';
     recEl.style.fontWeight = '500';
-    recEl.style.color = this.getRecommendationColor();
+    recEl.style.color = getRecommendationColor(this.triageResult.recommendation);
+
+    if (this.triageResult.provenance === 'human') {
+      const manualEl = recEl.createEl('div', { text: '✍️ Manual triage' });
+      manualEl.style.fontSize = '12px';
+      manualEl.style.color = 'var(--text-muted)';
+      manualEl.style.textAlign = 'right';
+    }
+
+    // Show which provider answered, highlighted when a fallback was used
+    const source = this.triageResult.source;
+    if (source) {
+      const label = source.fallback
+        ? `↪ Fallback: ${source.provider} (${source.model})`
+        : `${source.provider} (${source.model})`;
+      const sourceEl = recEl.createEl('div', {
+        text: source.cached ? `${label} · cached` : label,
+      });
+      if (source.cached) {
+        sourceEl.title = 'Loaded from the response cache. Use Retry for a fresh analysis.';
+      }
+      sourceEl.style.fontSize = '12px';
+      sourceEl.style.color = source.fallback ? 'var(--text-warning)' : 'var(--text-muted)';
+      sourceEl.style.textAlign = 'right';
+    }
+  }
+
+  /**
+   * Render earlier triage runs of this entry
+   * Loads the history asynchronously; stays empty for a first run
+   */
+  private renderPreviousRuns(containerEl: HTMLElement): void {
+    const historyEl = containerEl.createDiv('weaklog-triage-previous-runs');
+    historyEl.style.marginTop = '-8px';
+    historyEl.style.marginBottom = '16px';
+    historyEl.style.fontSize = '12px';
+    historyEl.style.color = 'var(--text-muted)';
+
+    this.fileManager.readWeaklogEntry(this.file)
+      .then((entry) => {
+        const history = entry?.triageHistory ?? [];
+        if (history.length === 0) {
+          historyEl.remove();
+          return;
+        }
+
+        const overridden = history.filter((run) => run.overridden).length;
+        historyEl.textContent = `Previous runs: ${history.map(describeTriageRun).join(' · ')}`;
+        if (overridden > 0) {
+          historyEl.textContent += ` (${overridden} overridden)`;
+        }
+      })
+      .catch((error) => {
+        console.warn('[Weaklog] Failed to load triage history:', error);
+        historyEl.remove();
+      });
+  }
+
+  /**
+   * Render a warning if the entry was deferred more often than the limit
+   * Loads cooldown tracking asynchronously; stays empty otherwise
+   */
+  private renderDeferralWarning(containerEl: HTMLElement): void {
+    const warningEl = containerEl.createDiv('weaklog-triage-deferral-warning');
+    warningEl.style.display = 'none';
+    warningEl.style.padding = '8px 12px';
+    warningEl.style.marginBottom = '16px';
+    warningEl.style.borderRadius = '4px';
+    warningEl.style.borderLeft = '3px solid var(--text-warning)';
+    warningEl.style.backgroundColor = 'var(--background-secondary)';
+    warningEl.style.fontSize = '13px';
+
+    this.cooldownManager.getEntry(this.file.basename)
+      .then((tracked) => {
+        if (tracked && this.cooldownManager.needsDecision(tracked)) {
+          warningEl.textContent = `⚠️ Sent back with Review Later ${tracked.deferrals} times. Time to adopt or reject.`;
+          warningEl.style.display = '';
+        }
+      })
+      .catch((error) => {
+        console.warn('[Weaklog] Failed to load cooldown entry:', error);
+      });
   }
 
   /**
@@ -153,29 +353,11 @@ export class TriageModal extends Modal {
     const criteriaEl = containerEl.createDiv('weaklog-criteria');
     criteriaEl.style.marginBottom = '24px';
 
-    const checks = this.triageResult.checks;
-    const criteria = [
-      {
-        key: 'hasSpecifics',
-        label: 'Has Specifics',
-        check: checks.hasSpecifics,
-      },
-      {
-        key: 'canBeCorePhrase',
-        label: 'Can Be Core Phrase',
-        check: checks.canBeCorePhrase,
-      },
-      {
-        key: 'isTransferable',
-        label: 'Is Transferable',
-        check: checks.isTransferable,
-      },
-      {
-        key: 'isNonHarmful',
-        label: 'Is Non-Harmful',
-        check: checks.isNonHarmful,
-      },
-    ];
+    const criteria = Object.entries(this.triageResult.checks).map(([key, check]) => ({
+      key,
+      label: getCriterionLabel(key, this.options.rubric),
+      check,
+    }));
 
     criteria.forEach((criterion) => {
       const itemEl = criteriaEl.createDiv('weaklog-criterion-item');
@@ -238,7 +420,7 @@ export class TriageModal extends Modal {
       cls: 'weaklog-button-review',
     });
     reviewButton.style.flex = '1';
-    reviewButton.addEventListener('click', () => this.handleReview());
+    reviewButton.addEventListener('click', () => this.showReviewLaterPicker(actionsEl));
 
     // Adopt button (right, primary)
     const adoptButton = actionsEl.createEl('button', {
@@ -249,25 +431,78 @@ export class TriageModal extends Modal {
     adoptButton.addEventListener('click', () => this.handleAdopt());
   }
 
+  /**
+   * Replace action buttons with the extra cooling period picker
+   *
+   * @param actionsEl - Action button row to hide while picking
+   */
+  private showReviewLaterPicker(actionsEl: HTMLElement): void {
+    actionsEl.style.display = 'none';
+
+    const pickerEl = this.contentEl.createDiv('weaklog-review-later');
+    pickerEl.style.display = 'flex';
+    pickerEl.style.alignItems = 'center';
+    pickerEl.style.gap = '8px';
+
+    pickerEl.createSpan({ text: 'Cool for another' });
+    const daysInput = pickerEl.createEl('input', { type: 'number' });
+    daysInput.min = '1';
+    daysInput.max = '365';
+    daysInput.value = String(this.options.reviewLaterDays ?? 7);
+    daysInput.style.width = '64px';
+    const unitEl = pickerEl.createSpan({ text: 'days' });
+    unitEl.style.flex = '1';
+
+    const backButton = pickerEl.createEl('button', { text: 'Back' });
+    backButton.addEventListener('click', () => {
+      pickerEl.remove();
+      actionsEl.style.display = 'flex';
+    });
+
+    const confirmButton = pickerEl.createEl('button', { text: 'Review Later', cls: 'mod-cta' });
+    const confirm = () => {
+      const days = parseInt(daysInput.value);
+      if (isNaN(days) || days < 1 || days > 365) {
+        new Notice('⚠️ Cooling days must be between 1 and 365', 3000);
+        daysInput.focus();
+        return;
+      }
+      this.handleReview(days);
+    };
+    confirmButton.addEventListener('click', confirm);
+    daysInput.addEventListener('keydown', (evt) => {
+      if (evt.key === 'Enter') {
+        evt.preventDefault();
+        confirm();
+      }
+    });
+
+    daysInput.focus();
+    daysInput.select();
+  }
+
   // ========================================================================
   // Action Handlers
   // ========================================================================
 
   /**
    * Handle "Adopt" action
-   * Moves file to 03_Triaged, saves triage result, unregisters cooldown
+   * Records the run, moves file to 03_Triaged, unregisters cooldown
    */
   private async handleAdopt(): Promise<void> {
+    if (this.isFallbackResult()) {
+      new Notice('❌ Cannot adopt: analysis failed, no genuine score to save', 5000);
+      return;
+    }
+
     try {
       // Disable buttons
       this.setButtonsDisabled(true, 'Adopting...');
 
       console.log('[Weaklog] Adopting entry');
 
-      // Save triage result to frontmatter
-      await this.fileManager.updateFrontmatter(this.file, {
-        triage_result: JSON.stringify(this.triageResult),
-      });
+      // Save triage result and history to frontmatter
+      await this.fileManager.recordTriageRun(this.file, this.triageResult, 'adopt');
 
       // Move to 03_Triaged
       const triagedFile = await this.fileManager.moveFile(this.file, 'triaged');
@@ -278,10 +513,13 @@ export class TriageModal extends Modal {
       new Notice(`✓ Entry adopted: ${this.file.basename}`, 3000);
       console.log('[Weaklog] Entry adopted successfully');
 
+      this.decision = 'adopt';
       this.close();
 
-      // Open the adopted file
-      this.app.workspace.getLeaf().openFile(triagedFile);
+      // Open the adopted file (not while stepping through a queue)
+      if (!this.options.queuePosition) {
+        this.app.workspace.getLeaf().openFile(triagedFile);
+      }
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -293,28 +531,53 @@ export class TriageModal extends Modal {
 
   /**
    * Handle "Review Later" action
-   * Simply closes modal, keeps entry in 02_Cooling
+   * Records the run and re-registers the entry in 02_Cooling for another
+   * cooling period, counting the deferral
+   *
+   * @param days - Extra cooling days from now
    */
-  private handleReview(): void {
-    console.log('[Weaklog] Entry marked for review later');
-    new Notice('Entry remains in cooling for later review', 3000);
-    this.close();
+  private async handleReview(days: number): Promise<void> {
+    try {
+      this.setButtonsDisabled(true, 'Saving...');
+
+      const tracked = await this.cooldownManager.getEntry(this.file.basename);
+      const deferrals = (tracked?.deferrals ?? 0) + 1;
+
+      // Save triage result and history, then restart cooling
+      await this.fileManager.recordTriageRun(this.file, this.triageResult, 'review');
+      await this.cooldownManager.registerEntry(this.file, days, deferrals);
+
+      console.log(`[Weaklog] Entry deferred for ${days} days (deferral ${deferrals})`);
+      new Notice(`✓ Entry cools for ${days} more days (deferred ${deferrals}×)`, 3000);
+      this.decision = 'review';
+      this.close();
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[Weaklog] Failed to save review decision:', error);
+      new Notice(`❌ Failed to save: ${errorMessage}`, 5000);
+      this.setButtonsDisabled(false);
+    }
   }
 
   /**
    * Handle "Reject" action
-   * Archives file, unregisters cooldown
+   * Records the run, archives file, unregisters cooldown
    */
   private async handleReject(): Promise<void> {
+    if (this.isFallbackResult()) {
+      new Notice('❌ Cannot reject: analysis failed, no genuine score to save', 5000);
+      return;
+    }
+
     try {
       // Disable buttons
       this.setButtonsDisabled(true, 'Rejecting...');
 
       console.log('[Weaklog] Rejecting entry');
 
-      // Save triage result before archiving (for record-keeping)
-      await this.fileManager.updateFrontmatter(this.file, {
-        triage_result: JSON.stringify(this.triageResult),
+      // Save triage result and history before archiving (for record-keeping)
+      await this.fileManager.recordTriageRun(this.file, this.triageResult, 'reject', {
         status: 'rejected',
       });
 
@@ -327,6 +590,7 @@ export class TriageModal extends Modal {
       new Notice(`✓ Entry rejected and archived: ${this.file.basename}`, 3000);
       console.log('[Weaklog] Entry rejected and archived');
 
+      this.decision = 'reject';
       this.close();
 
     } catch (error) {
@@ -342,17 +606,10 @@ export class TriageModal extends Modal {
   // ========================================================================
 
   /**
-   * Get color for recommendation badge
+   * Check whether the result is a placeholder from a failed analysis
    */
-  private getRecommendationColor(): string {
-    switch (this.triageResult.recommendation) {
-      case 'adopt':
-        return 'var(--text-success)';
-      case 'review':
-        return 'var(--text-warning)';
-      case 'reject':
-        return 'var(--text-error)';
-    }
+  private isFallbackResult(): boolean {
+    return this.triageResult.provenance === 'fallback';
   }
 
   /**
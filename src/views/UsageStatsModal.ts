@@ -0,0 +1,225 @@
+/**
+ * UsageStatsModal - LLM token usage and cost panel
+ *
+ * Shows where the LLM spend goes, from the usage ledger:
+ * - This month's spend against the budget cap
+ * - Cost per month
+ * - Cost per task (triage, questions, drafts)
+ * - Cost per entry
+ */
+
+import { App, Modal } from 'obsidian';
+import { UsageLedger, UsageSummary } from '../managers/UsageLedger';
+import { UsageBucket, WeaklogSettings } from '../types';
+
+/** Display labels per task */
+const TASK_LABELS: Record<string, string> = {
+  triage: 'Triage',
+  questions: 'Question Generation',
+  draft: 'Draft Writing',
+  other: 'Other',
+};
+
+/** Entries listed in the per-entry table */
+const MAX_ENTRY_ROWS = 20;
+
+/**
+ * UsageStatsModal class
+ * Read-only summary of the usage ledger
+ */
+export class UsageStatsModal extends Modal {
+  private usageLedger: UsageLedger;
+  private settings: WeaklogSettings;
+
+  constructor(app: App, usageLedger: UsageLedger, settings: WeaklogSettings) {
+    super(app);
+    this.usageLedger = usageLedger;
+    this.settings = settings;
+  }
+
+  // ========================================================================
+  // Modal Lifecycle
+  // ========================================================================
+
+  /**
+   * Called when modal is opened
+   * Loads the ledger summary and renders it
+   */
+  async onOpen(): Promise<void> {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('weaklog-usage-modal');
+
+    contentEl.createEl('h2', { text: '📊 LLM Usage' });
+
+    const loadingEl = contentEl.createDiv({ text: 'Loading usage ledger...' });
+    loadingEl.style.color = 'var(--text-muted)';
+
+    try {
+      const summary = await this.usageLedger.getSummary();
+      const monthCost = await this.usageLedger.getMonthCost();
+      loadingEl.remove();
+
+      if (summary.total.calls === 0) {
+        const emptyEl = contentEl.createDiv({ text: 'No LLM calls recorded yet.' });
+        emptyEl.style.color = 'var(--text-muted)';
+        return;
+      }
+
+      this.renderBudget(contentEl, monthCost, summary);
+      this.renderTable(contentEl, 'By Month', 'Month', summary.byMonth);
+      this.renderTable(
+        contentEl,
+        'By Task',
+        'Task',
+        summary.byTask.map((bucket) => ({ ...bucket, key: TASK_LABELS[bucket.key] || bucket.key }))
+      );
+      this.renderTable(
+        contentEl,
+        summary.byEntry.length > MAX_ENTRY_ROWS ? `By Entry (top ${MAX_ENTRY_ROWS})` : 'By Entry',
+        'Entry',
+        summary.byEntry.slice(0, MAX_ENTRY_ROWS)
+      );
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      loadingEl.textContent = `❌ Failed to load usage: ${errorMessage}`;
+    }
+  }
+
+  /**
+   * Called when modal is closed
+   */
+  onClose(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+
+  // ========================================================================
+  // UI Rendering
+  // ========================================================================
+
+  /**
+   * Render this month's spend, budget cap and all-time totals
+   */
+  private renderBudget(containerEl: HTMLElement, monthCost: number, summary: UsageSummary): void {
+    const budget = this.settings.monthlyBudget;
+
+    const summaryEl = containerEl.createDiv();
+    summaryEl.style.padding = '12px';
+    summaryEl.style.marginBottom = '16px';
+    summaryEl.style.borderRadius = '4px';
+    summaryEl.style.backgroundColor = 'var(--background-secondary)';
+
+    const monthEl = summaryEl.createDiv();
+    monthEl.style.fontSize = '16px';
+    monthEl.style.fontWeight = 'bold';
+    monthEl.textContent = budget > 0
+      ? `This month: $${monthCost.toFixed(2)} of $${budget.toFixed(2)}`
+      : `This month: $${monthCost.toFixed(2)} (no budget cap)`;
+
+    if (budget > 0) {
+      const ratio = Math.min(monthCost / budget, 1);
+      const barEl = summaryEl.createDiv();
+      barEl.style.height = '6px';
+      barEl.style.margin = '8px 0';
+      barEl.style.borderRadius = '3px';
+      barEl.style.backgroundColor = 'var(--background-modifier-border)';
+
+      const fillEl = barEl.createDiv();
+      fillEl.style.height = '100%';
+      fillEl.style.width = `${Math.round(ratio * 100)}%`;
+      fillEl.style.borderRadius = '3px';
+      fillEl.style.backgroundColor = ratio >= 1
+        ? 'var(--text-error)'
+        : ratio >= 0.8 ? 'var(--text-warning)' : 'var(--interactive-accent)';
+
+      if (ratio >= 1) {
+        const blockedEl = summaryEl.createDiv({ text: '⚠️ Budget reached - LLM calls are blocked until next month or until the cap is raised' });
+        blockedEl.style.color = 'var(--text-error)';
+        blockedEl.style.fontSize = '13px';
+      }
+    }
+
+    const { total } = summary;
+    const totalEl = summaryEl.createDiv();
+    totalEl.style.marginTop = '4px';
+    totalEl.style.color = 'var(--text-muted)';
+    totalEl.style.fontSize = '13px';
+    totalEl.textContent =
+      `All time: ${this.formatCost(total)} · ${total.calls} calls · ` +
+      `${this.formatTokens(total.inputTokens)} in / ${this.formatTokens(total.outputTokens)} out`;
+  }
+
+  /**
+   * Render a usage table
+   *
+   * @param containerEl - Parent element
+   * @param title - Section heading
+   * @param keyLabel - Header of the first column
+   * @param buckets - Rows
+   */
+  private renderTable(containerEl: HTMLElement, title: string, keyLabel: string, buckets: UsageBucket[]): void {
+    if (buckets.length === 0) {
+      return;
+    }
+
+    containerEl.createEl('h3', { text: title });
+
+    const tableEl = containerEl.createEl('table');
+    tableEl.style.width = '100%';
+    tableEl.style.marginBottom = '16px';
+    tableEl.style.fontSize = '13px';
+    tableEl.style.borderCollapse = 'collapse';
+
+    const headerRow = tableEl.createEl('thead').createEl('tr');
+    [keyLabel, 'Calls', 'Input', 'Output', 'Cost'].forEach((label, index) => {
+      const cellEl = headerRow.createEl('th', { text: label });
+      cellEl.style.textAlign = index === 0 ? 'left' : 'right';
+      cellEl.style.padding = '4px 8px';
+      cellEl.style.borderBottom = '1px solid var(--background-modifier-border)';
+    });
+
+    const bodyEl = tableEl.createEl('tbody');
+    buckets.forEach((bucket) => {
+      const rowEl = bodyEl.createEl('tr');
+      const cells = [
+        bucket.key,
+        String(bucket.calls),
+        this.formatTokens(bucket.inputTokens),
+        this.formatTokens(bucket.outputTokens),
+        this.formatCost(bucket),
+      ];
+      cells.forEach((text, index) => {
+        const cellEl = rowEl.createEl('td', { text });
+        cellEl.style.textAlign = index === 0 ? 'left' : 'right';
+        cellEl.style.padding = '4px 8px';
+      });
+    });
+  }
+
+  // ========================================================================
+  // Formatting
+  // ========================================================================
+
+  /**
+   * Format a bucket's cost, noting calls without a price
+   */
+  private formatCost(bucket: UsageBucket): string {
+    const cost = `$${bucket.cost.toFixed(bucket.cost > 0 && bucket.cost < 0.01 ? 4 : 2)}`;
+    return bucket.unpricedCalls > 0 ? `${cost} (+${bucket.unpricedCalls} unpriced)` : cost;
+  }
+
+  /**
+   * Format a token count (e.g. 12.3k)
+   */
+  private formatTokens(tokens: number): string {
+    if (tokens >= 1000000) {
+      return `${(tokens / 1000000).toFixed(1)}M`;
+    }
+    if (tokens >= 1000) {
+      return `${(tokens / 1000).toFixed(1)}k`;
+    }
+    return String(tokens);
+  }
+}
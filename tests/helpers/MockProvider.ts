@@ -0,0 +1,492 @@
+/**
+ * MockProvider - Scripted/recorded LLM provider for tests
+ *
+ * Implements ILLMProvider without any network access:
+ * - Serves responses from a fixture (scripted or recorded)
+ * - Simulates failures: malformed output, provider errors
+ *   (rate limits with Retry-After, auth, quota...) and timeouts
+ * - Logs every request so tests can assert on prompts and options
+ *
+ * RecordingProvider wraps a real provider and captures its exchanges
+ * as a fixture, so real responses can be replayed by MockProvider.
+ *
+ * Test-only; wrap with LLMClient.fromProvider().
+ */
+
+import { ILLMProvider } from '../../src/llm/providers/ILLMProvider';
+import { StreamController } from '../../src/llm/providers/StreamController';
+import { LLMError, LLMErrorContext, LLMErrorKind, toLLMError } from '../../src/llm/LLMError';
+import { ChatMessage, LLMCallOptions, LLMProviderType, LLMResponse } from '../../src/types';
+
+// ============================================================================
+// Fixture Types
+// ============================================================================
+
+/**
+ * One scripted exchange
+ * Exactly one of text, error or timeout should be set
+ */
+export interface MockExchange {
+  /** Only serve this exchange if the last user message contains this text */
+  match?: string;
+
+  /** Response text (may be deliberately malformed) */
+  text?: string;
+
+  /** Reported token usage (default: 0 / 0) */
+  usage?: { inputTokens: number; outputTokens: number };
+
+  /** Provider failure to throw instead of responding */
+  error?: {
+    kind: LLMErrorKind;
+    message?: string;
+    status?: number;
+    retryAfterMs?: number;
+  };
+
+  /** Never respond; the call only ends when LLMClient's timeout aborts it */
+  timeout?: boolean;
+
+  /** Simulated latency before responding */
+  delayMs?: number;
+
+  /** Request that produced a recorded exchange (informational) */
+  request?: {
+    systemPrompt: string;
+    messages: ChatMessage[];
+  };
+}
+
+/**
+ * Fixture file contents
+ */
+export interface MockFixture {
+  description?: string;
+
+  /** Provider the exchanges were recorded from (or imitate) */
+  provider: LLMProviderType;
+
+  model: string;
+
+  /** Served in order; exchanges with a match are skipped until it matches */
+  exchanges: MockExchange[];
+}
+
+/**
+ * Request received by MockProvider
+ */
+export interface MockCall {
+  method: 'callAPI' | 'callChat' | 'streamAPI';
+  systemPrompt: string;
+  messages: ChatMessage[];
+  options: LLMCallOptions;
+}
+
+/** Characters per chunk when streaming a scripted response */
+const STREAM_CHUNK_SIZE = 16;
+
+// ============================================================================
+// Mock Provider
+// ============================================================================
+
+/**
+ * MockProvider class
+ * Replays fixture exchanges; each exchange is served once
+ */
+export class MockProvider implements ILLMProvider {
+  private fixture: MockFixture;
+  private model: string;
+  private pending: MockExchange[];
+  private initialized = false;
+
+  /** Every request received, in order */
+  readonly calls: MockCall[] = [];
+
+  constructor(fixture: MockFixture) {
+    this.fixture = fixture;
+    this.model = fixture.model;
+    this.pending = [...fixture.exchanges];
+  }
+
+  // ========================================================================
+  // Initialization
+  // ========================================================================
+
+  /**
+   * Initialize provider (nothing to set up)
+   */
+  initialize(): void {
+    this.initialized = true;
+  }
+
+  // ========================================================================
+  // API Communication
+  // ========================================================================
+
+  /**
+   * Serve the next exchange for a single user message
+   *
+   * @param systemPrompt - System instruction
+   * @param userPrompt - User message content
+   * @param options - Call options (logged; signal honoured)
+   * @returns Scripted response text and usage
+   * @throws LLMError for scripted failures or when the script is exhausted
+   */
+  async callAPI(systemPrompt: string, userPrompt: string, options: LLMCallOptions = {}): Promise<LLMResponse> {
+    return this.respond('callAPI', systemPrompt, [{ role: 'user', content: userPrompt }], options);
+  }
+
+  /**
+   * Serve the next exchange for a message history
+   *
+   * @param systemPrompt - System instruction
+   * @param messages - Conversation so far
+   * @param options - Call options (logged; signal honoured)
+   * @returns Scripted response text and usage
+   * @throws LLMError for scripted failures or when the script is exhausted
+   */
+  async callChat(systemPrompt: string, messages: ChatMessage[], options: LLMCallOptions = {}): Promise<LLMResponse> {
+    return this.respond('callChat', systemPrompt, messages, options);
+  }
+
+  /**
+   * Stream the next exchange in fixed-size chunks
+   * Scripted timeouts end with the idle timeout, like a stalled stream
+   *
+   * @param systemPrompt - System instruction
+   * @param userPrompt - User message content
+   * @param onChunk - Called with each chunk
+   * @param options - Call options (idle timeout, signal)
+   * @returns Full response text and usage
+   */
+  async streamAPI(
+    systemPrompt: string,
+    userPrompt: string,
+    onChunk: (text: string) => void,
+    options: LLMCallOptions = {}
+  ): Promise<LLMResponse> {
+    const stream = new StreamController(options.timeoutMs ?? 30000, options.signal);
+
+    try {
+      const response = await this.respond(
+        'streamAPI',
+        systemPrompt,
+        [{ role: 'user', content: userPrompt }],
+        { ...options, signal: stream.signal }
+      );
+
+      for (let i = 0; i < response.text.length; i += STREAM_CHUNK_SIZE) {
+        stream.touch();
+        onChunk(response.text.slice(i, i + STREAM_CHUNK_SIZE));
+      }
+
+      return response;
+
+    } catch (error) {
+      throw stream.toError(error, this.getErrorContext());
+
+    } finally {
+      stream.dispose();
+    }
+  }
+
+  // ========================================================================
+  // Connection Testing
+  // ========================================================================
+
+  /**
+   * Test connection (always succeeds)
+   */
+  async testConnection(): Promise<boolean> {
+    return true;
+  }
+
+  // ========================================================================
+  // Model Management
+  // ========================================================================
+
+  /**
+   * Get available models
+   * @returns The fixture model
+   */
+  getAvailableModels(): string[] {
+    return [this.fixture.model];
+  }
+
+  /**
+   * Check if client is initialized
+   * @returns true after initialize()
+   */
+  isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  /**
+   * Get current model
+   * @returns Model identifier
+   */
+  getModel(): string {
+    return this.model;
+  }
+
+  /**
+   * Update model
+   * @param model - New model to report
+   */
+  setModel(model: string): void {
+    this.model = model;
+  }
+
+  // ========================================================================
+  // Script State
+  // ========================================================================
+
+  /**
+   * Get exchanges not served yet
+   * Tests can assert this is empty to check every scripted call happened
+   *
+   * @returns Remaining exchanges in order
+   */
+  getPendingExchanges(): MockExchange[] {
+    return [...this.pending];
+  }
+
+  // ========================================================================
+  // Utility Methods
+  // ========================================================================
+
+  /**
+   * Log the request, take the next matching exchange and play it
+   */
+  private async respond(
+    method: MockCall['method'],
+    systemPrompt: string,
+    messages: ChatMessage[],
+    options: LLMCallOptions
+  ): Promise<LLMResponse> {
+    this.calls.push({ method, systemPrompt, messages, options });
+
+    const lastUserMessage = [...messages].reverse().find((message) => message.role === 'user')?.content ?? '';
+    const index = this.pending.findIndex((exchange) => !exchange.match || lastUserMessage.includes(exchange.match));
+    if (index === -1) {
+      throw new LLMError(
+        'unknown',
+        `MockProvider: no scripted response left for ${method} call ${this.calls.length}`
+      );
+    }
+
+    const [exchange] = this.pending.splice(index, 1);
+    const startedAt = Date.now();
+
+    if (exchange.timeout) {
+      await this.wait(null, options.signal);
+    } else if (exchange.delayMs) {
+      await this.wait(exchange.delayMs, options.signal);
+    }
+
+    if (exchange.error) {
+      throw new LLMError(
+        exchange.error.kind,
+        exchange.error.message || `MockProvider: scripted ${exchange.error.kind} error`,
+        { status: exchange.error.status, retryAfterMs: exchange.error.retryAfterMs }
+      );
+    }
+
+    return {
+      text: exchange.text ?? '',
+      usage: {
+        inputTokens: exchange.usage?.inputTokens ?? 0,
+        outputTokens: exchange.usage?.outputTokens ?? 0,
+        model: this.model,
+        latencyMs: Date.now() - startedAt,
+      },
+    };
+  }
+
+  /**
+   * Wait for a delay, rejecting like a fetch if the signal aborts
+   *
+   * @param ms - Delay, or null to wait until aborted
+   * @param signal - Abort signal of the attempt
+   */
+  private wait(ms: number | null, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const abortError = () => Object.assign(new Error('This operation was aborted'), { name: 'AbortError' });
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+
+      const timeoutId = ms === null ? null : setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        if (timeoutId !== null) {
+          clearTimeout(timeoutId);
+        }
+        reject(abortError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Provider details for error messages
+   */
+  private getErrorContext(): LLMErrorContext {
+    return { provider: 'Mock', model: this.model };
+  }
+}
+
+// ============================================================================
+// Recording Provider
+// ============================================================================
+
+/**
+ * RecordingProvider class
+ * Delegates to a real provider and records each exchange for replay
+ */
+export class RecordingProvider implements ILLMProvider {
+  private provider: ILLMProvider;
+  private providerType: LLMProviderType;
+  private exchanges: MockExchange[] = [];
+
+  constructor(provider: ILLMProvider, providerType: LLMProviderType) {
+    this.provider = provider;
+    this.providerType = providerType;
+  }
+
+  // ========================================================================
+  // Delegation (recorded)
+  // ========================================================================
+
+  /**
+   * Initialize the wrapped provider
+   */
+  initialize(): void {
+    this.provider.initialize();
+  }
+
+  /**
+   * Call the wrapped provider and record the exchange
+   */
+  async callAPI(systemPrompt: string, userPrompt: string, options?: LLMCallOptions): Promise<LLMResponse> {
+    return this.record(systemPrompt, [{ role: 'user', content: userPrompt }], () =>
+      this.provider.callAPI(systemPrompt, userPrompt, options)
+    );
+  }
+
+  /**
+   * Call the wrapped provider with a message history and record the exchange
+   */
+  async callChat(systemPrompt: string, messages: ChatMessage[], options?: LLMCallOptions): Promise<LLMResponse> {
+    return this.record(systemPrompt, messages, () => this.provider.callChat(systemPrompt, messages, options));
+  }
+
+  /**
+   * Stream from the wrapped provider and record the full response
+   */
+  async streamAPI(
+    systemPrompt: string,
+    userPrompt: string,
+    onChunk: (text: string) => void,
+    options?: LLMCallOptions
+  ): Promise<LLMResponse> {
+    return this.record(systemPrompt, [{ role: 'user', content: userPrompt }], () =>
+      this.provider.streamAPI(systemPrompt, userPrompt, onChunk, options)
+    );
+  }
+
+  /**
+   * Test the wrapped provider's connection (not recorded)
+   */
+  async testConnection(): Promise<boolean> {
+    return this.provider.testConnection();
+  }
+
+  /**
+   * Get the wrapped provider's models
+   */
+  getAvailableModels(): string[] | Promise<string[]> {
+    return this.provider.getAvailableModels();
+  }
+
+  /**
+   * Check if the wrapped provider is initialized
+   */
+  isInitialized(): boolean {
+    return this.provider.isInitialized();
+  }
+
+  /**
+   * Get the wrapped provider's model
+   */
+  getModel(): string {
+    return this.provider.getModel();
+  }
+
+  /**
+   * Update the wrapped provider's model
+   */
+  setModel(model: string): void {
+    this.provider.setModel(model);
+  }
+
+  // ========================================================================
+  // Fixture Export
+  // ========================================================================
+
+  /**
+   * Get recorded exchanges as a fixture for MockProvider
+   *
+   * @param description - Fixture description
+   * @returns Fixture (serialize with JSON.stringify)
+   */
+  toFixture(description?: string): MockFixture {
+    return {
+      description,
+      provider: this.providerType,
+      model: this.provider.getModel(),
+      exchanges: [...this.exchanges],
+    };
+  }
+
+  /**
+   * Run a provider call and record its response or failure
+   * Cancelled calls are not recorded (a timeout cannot be told apart from
+   * the caller cancelling at this level)
+   */
+  private async record(
+    systemPrompt: string,
+    messages: ChatMessage[],
+    call: () => Promise<LLMResponse>
+  ): Promise<LLMResponse> {
+    const request = { systemPrompt, messages };
+
+    try {
+      const response = await call();
+      this.exchanges.push({
+        text: response.text,
+        usage: { inputTokens: response.usage.inputTokens, outputTokens: response.usage.outputTokens },
+        request,
+      });
+      return response;
+
+    } catch (error) {
+      const llmError = toLLMError(error, { provider: this.providerType, model: this.provider.getModel() });
+      if (llmError.kind !== 'cancelled') {
+        this.exchanges.push({
+          error: {
+            kind: llmError.kind,
+            message: llmError.message,
+            status: llmError.status ?? undefined,
+            retryAfterMs: llmError.retryAfterMs ?? undefined,
+          },
+          request,
+        });
+      }
+      throw llmError;
+    }
+  }
+}
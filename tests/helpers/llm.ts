@@ -0,0 +1,102 @@
+/**
+ * Test helpers for LLM code paths
+ *
+ * Loads fixtures from tests/fixtures/llm and wires MockProvider into an
+ * LLMRouter, so analyzers run without network access.
+ *
+ * Record mode: set WEAKLOG_RECORD to a provider type to send fixture-backed
+ * requests to the real provider and overwrite the fixture with the responses:
+ *
+ *   WEAKLOG_RECORD=anthropic WEAKLOG_API_KEY=sk-... npm test -- tests/llm/recorded.test.ts
+ *
+ * WEAKLOG_MODEL and WEAKLOG_ENDPOINT (Ollama, OpenAI-compatible) are optional.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { LLMClient } from '../../src/llm/LLMClient';
+import { LLMRouter } from '../../src/llm/LLMRouter';
+import { MockFixture, MockProvider, RecordingProvider } from './MockProvider';
+import { ILLMProvider } from '../../src/llm/providers/ILLMProvider';
+import { LLMProviderType, WeaklogSettings } from '../../src/types';
+import { getDefaultModel } from '../../src/settings';
+import { createTestSettings } from './vault';
+
+const FIXTURE_DIR = join(__dirname, '..', 'fixtures', 'llm');
+
+/**
+ * Load a fixture by name (file name without .json)
+ */
+export function loadFixture(name: string): MockFixture {
+  return JSON.parse(readFileSync(join(FIXTURE_DIR, `${name}.json`), 'utf-8')) as MockFixture;
+}
+
+/**
+ * Save a fixture by name
+ */
+export function saveFixture(name: string, fixture: MockFixture): void {
+  writeFileSync(join(FIXTURE_DIR, `${name}.json`), `${JSON.stringify(fixture, null, 2)}\n`);
+}
+
+/**
+ * Create a router whose every task is served by one provider
+ *
+ * @param provider - Provider for all tasks
+ * @param providerType - Provider type reported by the client
+ * @param settings - Settings (task profiles are applied)
+ * @returns Router and the shared client
+ */
+export function createRouter(
+  provider: ILLMProvider,
+  providerType: LLMProviderType,
+  settings: WeaklogSettings = createTestSettings()
+): { router: LLMRouter; client: LLMClient } {
+  const client = LLMClient.fromProvider(provider, providerType);
+  return {
+    router: new LLMRouter(settings, async () => client),
+    client,
+  };
+}
+
+/**
+ * Create a router that replays a fixture
+ *
+ * @param fixture - Fixture name or inline fixture
+ * @returns Router, client and the mock (for call assertions)
+ */
+export function createMockRouter(fixture: string | MockFixture): {
+  router: LLMRouter;
+  client: LLMClient;
+  mock: MockProvider;
+} {
+  const loaded = typeof fixture === 'string' ? loadFixture(fixture) : fixture;
+  const mock = new MockProvider(loaded);
+  return { ...createRouter(mock, loaded.provider), mock };
+}
+
+/**
+ * Create a router for a recorded fixture
+ * Replays the fixture, or records it from a real provider when WEAKLOG_RECORD is set
+ *
+ * @param name - Fixture name
+ * @returns Router and save(), which writes the recording (no-op when replaying)
+ */
+export function createRecordedRouter(name: string): { router: LLMRouter; save: (description: string) => void } {
+  const recordProvider = process.env.WEAKLOG_RECORD as LLMProviderType | undefined;
+  if (!recordProvider) {
+    return { router: createMockRouter(name).router, save: () => undefined };
+  }
+
+  const settings = createTestSettings();
+  const provider = LLMClient.createProvider(recordProvider, {
+    apiKey: process.env.WEAKLOG_API_KEY,
+    model: process.env.WEAKLOG_MODEL || getDefaultModel(settings, recordProvider),
+    endpoint: process.env.WEAKLOG_ENDPOINT,
+  });
+  const recorder = new RecordingProvider(provider, recordProvider);
+
+  return {
+    router: createRouter(recorder, recordProvider, settings).router,
+    save: (description) => saveFixture(name, recorder.toFixture(description)),
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Test helpers for vault-backed managers
+ *
+ * Builds an in-memory App (see tests/mocks/obsidian.ts) with fresh
+ * settings, and writes weaklog entries in the plugin's frontmatter format.
+ */
+
+import { App, TFile } from 'obsidian';
+import { App as MemoryApp } from '../mocks/obsidian';
+import { DEFAULT_SETTINGS } from '../../src/settings';
+import { WeaklogSettings, WeaklogStatus } from '../../src/types';
+
+/**
+ * Create an empty in-memory vault
+ */
+export function createTestApp(): App {
+  return new MemoryApp() as unknown as App;
+}
+
+/**
+ * Create settings with defaults (deep-copied so tests cannot leak changes)
+ */
+export function createTestSettings(overrides: Partial<WeaklogSettings> = {}): WeaklogSettings {
+  return { ...structuredClone(DEFAULT_SETTINGS), ...overrides };
+}
+
+/**
+ * Write a weaklog entry with frontmatter
+ *
+ * @param app - Test app
+ * @param folder - Workflow folder (e.g. "02_Cooling")
+ * @param id - Weaklog ID (file basename)
+ * @param content - Entry body
+ * @param fields - Extra or overriding frontmatter fields
+ * @returns Created file
+ */
+export async function createEntry(
+  app: App,
+  folder: string,
+  id: string,
+  content: string,
+  fields: Record<string, string | number> & { status?: WeaklogStatus } = {}
+): Promise<TFile> {
+  const frontmatter: Record<string, string | number> = {
+    weaklog_id: id,
+    created: '2026-01-27T09:00:00.000Z',
+    cooldown_days: 7,
+    status: 'cooling',
+    ...fields,
+  };
+
+  const lines = Object.entries(frontmatter).map(([key, value]) => `${key}: ${value}`);
+  return app.vault.create(`Weaklog/${folder}/${id}.md`, `---\n${lines.join('\n')}\n---\n${content}`);
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { LLMClient } from '../../src/llm/LLMClient';
+import { LLMError } from '../../src/llm/LLMError';
+import { MockProvider } from '../helpers/MockProvider';
+import { AnthropicProvider } from '../../src/llm/providers/AnthropicProvider';
+import { ResponseCache } from '../../src/managers/ResponseCache';
+import { UsageLedger } from '../../src/managers/UsageLedger';
+import { LLMResponseSource } from '../../src/types';
+import { loadFixture } from '../helpers/llm';
+import { createTestApp, createTestSettings } from '../helpers/vault';
+
+const PLUGIN_DIR = '.obsidian/plugins/weaklog-processor';
+
+/**
+ * Client answering every call with one text
+ */
+function createAnsweringClient(text: string, calls = 5): { client: LLMClient; mock: MockProvider } {
+  const mock = new MockProvider({
+    provider: 'anthropic',
+    model: 'claude-sonnet-4-5',
+    exchanges: Array.from({ length: calls }, () => ({ text, usage: { inputTokens: 1000, outputTokens: 500 } })),
+  });
+  return { client: LLMClient.fromProvider(mock, 'anthropic'), mock };
+}
+
+describe('LLMClient', () => {
+  describe('createFromConfig', () => {
+    it('raises typed errors for missing or invalid settings', () => {
+      expect(() => LLMClient.createFromConfig('anthropic', { apiKey: '', model: 'claude-sonnet-4-5' }))
+        .toThrow(expect.objectContaining({ kind: 'auth' }));
+      expect(() => LLMClient.createFromConfig('openai-compatible', { model: '' }))
+        .toThrow(expect.objectContaining({ kind: 'config' }));
+
+      const client = LLMClient.createFromConfig('ollama', { endpoint: 'not a url', model: 'llama3.2' });
+      expect(() => client.initialize()).toThrow(expect.objectContaining({ kind: 'config' }));
+    });
+  });
+
+  describe('fallback', () => {
+    it('answers from the fallback when the primary rejects the key', async () => {
+      const primary = LLMClient.fromProvider(new MockProvider(loadFixture('fallback-chain')), 'openai');
+      const { client: fallback } = createAnsweringClient('from fallback');
+      primary.setFallbacks([fallback]);
+      let source: LLMResponseSource | undefined;
+
+      const text = await primary.callAPI('system', 'prompt', { onSource: (answered) => (source = answered) });
+
+      expect(text).toBe('from fallback');
+      expect(source).toEqual({ provider: 'anthropic', model: 'claude-sonnet-4-5', fallback: true });
+    });
+
+    it('fails over without retrying when the primary has no API key', async () => {
+      const primary = LLMClient.fromProvider(new AnthropicProvider('', 'claude-sonnet-4-5'), 'anthropic');
+      const { client: fallback, mock } = createAnsweringClient('from fallback');
+
+      await expect(primary.callAPI('system', 'prompt')).rejects.toMatchObject({ kind: 'auth' });
+
+      primary.setFallbacks([fallback]);
+      expect(await primary.callAPI('system', 'prompt')).toBe('from fallback');
+      expect(mock.calls).toHaveLength(1);
+    });
+
+    it('does not fail over on content errors', async () => {
+      const primary = LLMClient.fromProvider(new MockProvider({
+        provider: 'openai',
+        model: 'gpt-5-mini',
+        exchanges: [{ error: { kind: 'content-filter' } }],
+      }), 'openai');
+      const { client: fallback, mock } = createAnsweringClient('from fallback');
+      primary.setFallbacks([fallback]);
+
+      await expect(primary.callAPI('system', 'prompt')).rejects.toBeInstanceOf(LLMError);
+      expect(mock.calls).toHaveLength(0);
+    });
+  });
+
+  describe('response cache', () => {
+    it('serves repeated calls from the cache unless refreshed', async () => {
+      const app = createTestApp();
+      const { client, mock } = createAnsweringClient('cached answer');
+      client.setResponseCache(new ResponseCache(app, createTestSettings(), PLUGIN_DIR));
+      const sources: LLMResponseSource[] = [];
+      const options = { cache: true, temperature: 0.3, onSource: (answered: LLMResponseSource) => sources.push(answered) };
+
+      await client.callAPI('system', 'prompt', options);
+      await client.callAPI('system', 'prompt', options);
+      await client.callAPI('system', 'prompt', { ...options, forceRefresh: true });
+      await client.callAPI('system', 'prompt', { ...options, temperature: 0.5 });
+
+      expect(mock.calls).toHaveLength(3);
+      expect(sources.map((source) => source.cached ?? false)).toEqual([false, true, false, false]);
+    });
+
+    it('does not store or serve responses that fail validation', async () => {
+      const app = createTestApp();
+      const { client, mock } = createAnsweringClient('not json');
+      client.setResponseCache(new ResponseCache(app, createTestSettings(), PLUGIN_DIR));
+      let valid = false;
+      const options = { cache: true, validate: () => valid };
+
+      await client.callAPI('system', 'prompt', options);
+      await client.callAPI('system', 'prompt', options);
+      valid = true;
+      await client.callAPI('system', 'prompt', options);
+      await client.callAPI('system', 'prompt', options);
+
+      expect(mock.calls).toHaveLength(3);
+    });
+  });
+
+  describe('usage ledger', () => {
+    it('records cost and blocks calls once the budget is reached', async () => {
+      const app = createTestApp();
+      const settings = createTestSettings({ monthlyBudget: 0.01 });
+      const ledger = new UsageLedger(app, settings, PLUGIN_DIR);
+      const { client, mock } = createAnsweringClient('answer');
+      client.setUsageLedger(ledger);
+
+      await client.callAPI('system', 'prompt', { task: 'triage', entryId: '2026-01-20_001' });
+
+      // 1000 in × $3 + 500 out × $15 per million tokens
+      expect(await ledger.getMonthCost()).toBeCloseTo(0.0105);
+      await expect(client.callAPI('system', 'prompt')).rejects.toMatchObject({ kind: 'budget' });
+      expect(mock.calls).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { toLLMError } from '../../src/llm/LLMError';
+
+const CONTEXT = { provider: 'Gemini', model: 'gemini-2.5-flash' };
+
+describe('toLLMError', () => {
+  it('classifies safety blocks as content-filter', () => {
+    expect(toLLMError(new Error('Candidate was blocked due to SAFETY'), CONTEXT).kind).toBe('content-filter');
+    expect(toLLMError(new Error('Response blocked by content policy'), CONTEXT).kind).toBe('content-filter');
+  });
+
+  it('does not treat every "blocked" message as a safety block', () => {
+    expect(toLLMError(new Error('403 Request blocked by firewall'), CONTEXT).kind).toBe('auth');
+    expect(toLLMError(new Error('Connection error: host blocked'), CONTEXT).kind).toBe('network');
+  });
+});
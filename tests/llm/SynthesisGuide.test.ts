@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { SynthesisGuide } from '../../src/llm/SynthesisGuide';
+import { TriageResult } from '../../src/types';
+import { createMockRouter } from '../helpers/llm';
+
+const ENTRY = 'In the planning meeting I disagreed with the deadline but said nothing.';
+
+const TRIAGE_RESULT: TriageResult = {
+  checks: {
+    hasSpecifics: { pass: true, reason: '' },
+    canBeCorePhrase: { pass: true, reason: '' },
+    isTransferable: { pass: true, reason: '' },
+    isNonHarmful: { pass: true, reason: '' },
+  },
+  score: 4,
+  maxScore: 4,
+  recommendation: 'adopt',
+  coreQuestion: 'Why do I stay silent when I disagree?',
+  timestamp: '2026-01-27T09:00:00.000Z',
+};
+
+describe('SynthesisGuide', () => {
+  describe('generateQuestions', () => {
+    it('cleans numbering and normalizes the tone', async () => {
+      const { router, mock } = createMockRouter('synthesis-valid');
+      const guide = new SynthesisGuide(router, 0.7, null, '2026-01-20_001');
+
+      const result = await guide.generateQuestions(ENTRY, TRIAGE_RESULT);
+
+      expect(result.questions).toHaveLength(5);
+      expect(result.questions[0]).toBe('What did staying silent protect you from?');
+      expect(result.questions[2]).toBe('What would the meeting have looked like if you had disagreed?');
+      expect(result.suggestedTone).toBe('analytical');
+      expect(result.source?.provider).toBe('anthropic');
+      expect(mock.calls[0].options).toMatchObject({ task: 'questions', entryId: '2026-01-20_001' });
+    });
+
+    it('uses generic questions when the response and the repair are invalid', async () => {
+      const { router, mock } = createMockRouter('synthesis-malformed');
+      const guide = new SynthesisGuide(router);
+
+      const result = await guide.generateQuestions(ENTRY, TRIAGE_RESULT);
+
+      expect(mock.calls).toHaveLength(2);
+      expect(result.questions).toHaveLength(4);
+      expect(result.questions[0]).toBe('What universal pattern or truth does this experience reveal?');
+      expect(result.suggestedTone).toBe('reflective');
+      expect(result.source).toBeUndefined();
+    });
+
+    it('uses generic questions in the response language', async () => {
+      const { router } = createMockRouter('synthesis-malformed');
+      const guide = new SynthesisGuide(router);
+
+      const result = await guide.generateQuestions(ENTRY, TRIAGE_RESULT, 'japanese');
+
+      expect(result.questions[0]).toBe('この経験が示す普遍的なパターンや真実は何ですか？');
+    });
+  });
+
+  describe('generateReplacementQuestion', () => {
+    it('strips list markers and quotes from the question', async () => {
+      const { router } = createMockRouter({
+        provider: 'ollama',
+        model: 'llama3.2',
+        exchanges: [{ text: '1. "What were you afraid would happen?"' }],
+      });
+      const guide = new SynthesisGuide(router);
+
+      const question = await guide.generateReplacementQuestion(
+        ENTRY,
+        TRIAGE_RESULT,
+        ['First?', 'Second?', 'Third?'],
+        new Map([[0, 'An answer']]),
+        1,
+        'deeper'
+      );
+
+      expect(question).toBe('What were you afraid would happen?');
+    });
+
+    it('fails on an empty response', async () => {
+      const { router } = createMockRouter({ provider: 'ollama', model: 'llama3.2', exchanges: [{ text: '  ' }] });
+      const guide = new SynthesisGuide(router);
+
+      await expect(
+        guide.generateReplacementQuestion(ENTRY, TRIAGE_RESULT, ['First?', 'Second?', 'Third?'], new Map(), 0, 'regenerate')
+      ).rejects.toThrow('Question replacement failed: Empty response from AI');
+    });
+  });
+
+  describe('streamDraftSuggestion', () => {
+    it('streams the draft in chunks', async () => {
+      const draft = 'I used to think silence kept the peace. It only postponed the argument.';
+      const { router } = createMockRouter({ provider: 'anthropic', model: 'claude-sonnet-4-5', exchanges: [{ text: draft }] });
+      const guide = new SynthesisGuide(router);
+      const chunks: string[] = [];
+
+      const result = await guide.streamDraftSuggestion(
+        ENTRY,
+        TRIAGE_RESULT,
+        [{ question: 'What did silence protect you from?', answer: 'Conflict.' }],
+        (chunk) => chunks.push(chunk)
+      );
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.join('')).toBe(draft);
+      expect(result).toBe(draft);
+    });
+  });
+});
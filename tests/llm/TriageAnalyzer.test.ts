@@ -0,0 +1,153 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { TriageAnalyzer } from '../../src/llm/TriageAnalyzer';
+import { DEFAULT_TRIAGE_RUBRIC } from '../../src/settings';
+import { LLMResponseSource } from '../../src/types';
+import { ResponseCache } from '../../src/managers/ResponseCache';
+import { createMockRouter, loadFixture } from '../helpers/llm';
+import { createTestApp, createTestSettings } from '../helpers/vault';
+
+const ENTRY = 'In the planning meeting I disagreed with the deadline but said nothing. Afterwards I was annoyed at myself.';
+
+describe('TriageAnalyzer', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('scores a valid response with the rubric', async () => {
+    const { router, mock } = createMockRouter('triage-valid');
+    const analyzer = new TriageAnalyzer(router);
+
+    const result = await analyzer.analyzeEntry(ENTRY, 'english', '2026-01-20_001');
+
+    expect(result.provenance).toBe('ai');
+    expect(result.score).toBe(3);
+    expect(result.maxScore).toBe(4);
+    expect(result.recommendation).toBe('review');
+    expect(result.checks.isTransferable.pass).toBe(false);
+    expect(result.coreQuestion).toBe('Why do I stay silent when I disagree?');
+    expect(result.source).toEqual<LLMResponseSource>({
+      provider: 'anthropic',
+      model: 'claude-sonnet-4-5',
+      fallback: false,
+    });
+
+    const [call] = mock.calls;
+    expect(call.messages[0].content).toContain(ENTRY);
+    expect(call.options).toMatchObject({ task: 'triage', entryId: '2026-01-20_001', cache: true });
+    expect(call.options.responseSchema?.name).toBe('triage_result');
+  });
+
+  it('repairs malformed JSON with a second call', async () => {
+    const { router, mock } = createMockRouter('triage-malformed-repaired');
+    const analyzer = new TriageAnalyzer(router);
+
+    const result = await analyzer.analyzeEntry(ENTRY);
+
+    expect(mock.calls).toHaveLength(2);
+    expect(mock.calls[1].messages[0].content).toContain('Problems found:');
+    expect(result.provenance).toBe('ai');
+    expect(result.recommendation).toBe('adopt');
+  });
+
+  it('caches only responses that pass validation', async () => {
+    const malformed = loadFixture('triage-malformed-repaired');
+    const { router, client, mock } = createMockRouter({
+      ...malformed,
+      exchanges: [...malformed.exchanges, ...loadFixture('triage-valid').exchanges],
+    });
+    client.setResponseCache(new ResponseCache(createTestApp(), createTestSettings(), '.obsidian/plugins/weaklog-processor'));
+    const analyzer = new TriageAnalyzer(router);
+
+    await analyzer.analyzeEntry(ENTRY);
+    const fresh = await analyzer.analyzeEntry(ENTRY);
+    const cached = await analyzer.analyzeEntry(ENTRY);
+
+    // Malformed first answer and its repair are not cached; the valid answer is
+    expect(mock.calls).toHaveLength(3);
+    expect(mock.calls[1].options.cache).toBe(false);
+    expect(fresh.score).toBe(3);
+    expect(cached.score).toBe(3);
+    expect(cached.source?.cached).toBe(true);
+  });
+
+  it('falls back when the repair is invalid too', async () => {
+    const { router } = createMockRouter('triage-malformed');
+    const analyzer = new TriageAnalyzer(router);
+
+    const result = await analyzer.analyzeEntry(ENTRY);
+
+    expect(result.provenance).toBe('fallback');
+    expect(result.score).toBe(0);
+    expect(result.recommendation).toBe('review');
+    expect(result.failureReason).toContain('$.checks');
+    expect(Object.values(result.checks).every((check) => !check.pass)).toBe(true);
+    expect(result.coreQuestion).toBe(`${ENTRY.substring(0, 37)}...`);
+  });
+
+  it('waits for Retry-After when rate limited', async () => {
+    vi.useFakeTimers();
+    const { router, mock } = createMockRouter('triage-rate-limit');
+    const analyzer = new TriageAnalyzer(router);
+
+    const pending = analyzer.analyzeEntry(ENTRY);
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(mock.calls).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    const result = await pending;
+
+    expect(mock.calls).toHaveLength(2);
+    expect(result.provenance).toBe('ai');
+  });
+
+  it('gives up after three timed out attempts', async () => {
+    vi.useFakeTimers();
+    const { router, mock } = createMockRouter('triage-timeout');
+    const analyzer = new TriageAnalyzer(router);
+
+    const assertion = expect(analyzer.analyzeEntry(ENTRY)).rejects.toThrow(
+      'Triage analysis failed: No response from gemini-2.5-flash within 30s'
+    );
+    await vi.runAllTimersAsync();
+    await assertion;
+
+    expect(mock.calls).toHaveLength(3);
+    expect(mock.getPendingExchanges()).toHaveLength(0);
+  });
+
+  it('stamps a prompt version that follows the rubric', async () => {
+    const rubric = { ...DEFAULT_TRIAGE_RUBRIC, adoptThreshold: 75 };
+    const first = await new TriageAnalyzer(createMockRouter('triage-valid').router).analyzeEntry(ENTRY);
+    const second = await new TriageAnalyzer(createMockRouter('triage-valid').router).analyzeEntry(`${ENTRY} Again.`);
+    const changed = await new TriageAnalyzer(createMockRouter('triage-valid').router, 0.3, rubric).analyzeEntry(ENTRY);
+
+    expect(first.promptVersion).toMatch(/^[0-9a-f]{8}$/);
+    expect(second.promptVersion).toBe(first.promptVersion);
+    expect(changed.promptVersion).not.toBe(first.promptVersion);
+  });
+
+  it('rejects empty content without calling the provider', async () => {
+    const { router, mock } = createMockRouter('triage-valid');
+    const analyzer = new TriageAnalyzer(router);
+
+    await expect(analyzer.analyzeEntry('   ')).rejects.toThrow('Content cannot be empty');
+    expect(mock.calls).toHaveLength(0);
+  });
+
+  describe('scoring', () => {
+    const checks = (passes: boolean[]) => Object.fromEntries(
+      DEFAULT_TRIAGE_RUBRIC.criteria.map((criterion, index) => [criterion.key, { pass: passes[index], reason: '' }])
+    );
+
+    it.each([
+      [[true, true, true, true], 'adopt'],
+      [[true, true, false, false], 'review'],
+      [[true, false, false, false], 'reject'],
+    ] as const)('recommends by score percentage (%j → %s)', (passes, recommendation) => {
+      const score = TriageAnalyzer.calculateScore(checks([...passes]), DEFAULT_TRIAGE_RUBRIC);
+      const maxScore = TriageAnalyzer.getMaxScore(DEFAULT_TRIAGE_RUBRIC);
+
+      expect(TriageAnalyzer.calculateRecommendation(score, maxScore, DEFAULT_TRIAGE_RUBRIC)).toBe(recommendation);
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OpenAICompatibleProvider } from '../../../src/llm/providers/OpenAICompatibleProvider';
+
+/**
+ * fetch that never answers, but rejects like fetch once its signal aborts
+ */
+function hangingFetch() {
+  return vi.fn((_url: string, init?: RequestInit) => new Promise<Response>((_resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted.', 'AbortError')));
+  }));
+}
+
+describe('OpenAICompatibleProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('aborts the model lookup when the caller cancels', async () => {
+    const fetchMock = hangingFetch();
+    vi.stubGlobal('fetch', fetchMock);
+    const provider = new OpenAICompatibleProvider('http://localhost:4000/v1', '');
+    const controller = new AbortController();
+
+    const call = provider.callAPI('system', 'prompt', { signal: controller.signal });
+    controller.abort();
+
+    await expect(call).rejects.toMatchObject({ kind: 'cancelled' });
+    expect(fetchMock.mock.calls[0][0]).toContain('/models');
+  });
+
+  it('aborts the model lookup when a stream is stopped', async () => {
+    vi.stubGlobal('fetch', hangingFetch());
+    const provider = new OpenAICompatibleProvider('http://localhost:4000/v1', '');
+    const controller = new AbortController();
+
+    const call = provider.streamAPI('system', 'prompt', () => {}, { signal: controller.signal });
+    controller.abort();
+
+    await expect(call).rejects.toMatchObject({ kind: 'cancelled' });
+  });
+});
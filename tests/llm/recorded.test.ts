@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { SynthesisGuide } from '../../src/llm/SynthesisGuide';
+import { TriageAnalyzer } from '../../src/llm/TriageAnalyzer';
+import { DEFAULT_TRIAGE_RUBRIC } from '../../src/settings';
+import { createRecordedRouter } from '../helpers/llm';
+
+const SAMPLE_ENTRY =
+  'My manager asked if anyone had concerns about the release date. I had three, and I said nothing. ' +
+  'On the way home I rehearsed what I should have said, word for word.';
+
+// Replays recorded fixtures; set WEAKLOG_RECORD to refresh them from a real provider (see tests/helpers/llm.ts)
+describe('recorded exchanges', () => {
+  it('triages the sample entry', async () => {
+    const { router, save } = createRecordedRouter('recorded/triage-sample');
+
+    const result = await new TriageAnalyzer(router).analyzeEntry(SAMPLE_ENTRY);
+    save('Triage of the sample entry');
+
+    expect(result.provenance).toBe('ai');
+    expect(Object.keys(result.checks).sort()).toEqual(DEFAULT_TRIAGE_RUBRIC.criteria.map((c) => c.key).sort());
+    expect(result.coreQuestion.length).toBeGreaterThan(0);
+    expect(result.coreQuestion.length).toBeLessThanOrEqual(40);
+  });
+
+  it('generates questions for the triaged sample entry', async () => {
+    const { router: triageRouter } = createRecordedRouter('recorded/triage-sample');
+    const triageResult = await new TriageAnalyzer(triageRouter).analyzeEntry(SAMPLE_ENTRY);
+    const { router, save } = createRecordedRouter('recorded/synthesis-sample');
+
+    const guide = await new SynthesisGuide(router).generateQuestions(SAMPLE_ENTRY, triageResult);
+    save('Synthesis questions for the sample entry');
+
+    expect(guide.source).toBeDefined();
+    expect(guide.questions.length).toBeGreaterThanOrEqual(3);
+    expect(guide.questions.length).toBeLessThanOrEqual(5);
+  });
+});
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { App } from 'obsidian';
+import { CooldownManager } from '../../src/managers/CooldownManager';
+import { createEntry, createTestApp, createTestSettings } from '../helpers/vault';
+
+const COOLDOWN_FILE = 'Weaklog/02_Cooling/.cooldown.json';
+
+describe('CooldownManager', () => {
+  let app: App;
+  let cooldownManager: CooldownManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-27T09:00:00.000Z'));
+    app = createTestApp();
+    cooldownManager = new CooldownManager(app, createTestSettings());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('starts empty without a cooldown file', async () => {
+    expect(await cooldownManager.getAllEntries()).toEqual([]);
+  });
+
+  it('registers an entry with readyAt after the cooling period', async () => {
+    const file = await createEntry(app, '02_Cooling', '2026-01-27_001', 'entry');
+
+    await cooldownManager.registerEntry(file, 3);
+
+    const [entry] = await cooldownManager.getAllEntries();
+    expect(entry).toMatchObject({
+      weaklogId: '2026-01-27_001',
+      filePath: 'Weaklog/02_Cooling/2026-01-27_001.md',
+      cooldownDays: 3,
+      readyAt: '2026-01-30T09:00:00.000Z',
+    });
+  });
+
+  it('becomes ready once readyAt has passed', async () => {
+    const file = await createEntry(app, '02_Cooling', '2026-01-27_001', 'entry');
+    await cooldownManager.registerEntry(file, 3);
+
+    vi.setSystemTime(new Date('2026-01-30T08:59:59.000Z'));
+    expect(await cooldownManager.getReadyEntries()).toHaveLength(0);
+
+    vi.setSystemTime(new Date('2026-01-30T09:00:00.000Z'));
+    expect(await cooldownManager.getReadyEntries()).toHaveLength(1);
+  });
+
+  it('replaces the entry when registered again', async () => {
+    const file = await createEntry(app, '02_Cooling', '2026-01-27_001', 'entry');
+    await cooldownManager.registerEntry(file, 3);
+
+    await cooldownManager.registerEntry(file, 10);
+
+    const entries = await cooldownManager.getAllEntries();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].cooldownDays).toBe(10);
+  });
+
+  it('restarts cooling with the deferral count when re-registered', async () => {
+    const file = await createEntry(app, '02_Cooling', '2026-01-27_001', 'entry');
+    await cooldownManager.registerEntry(file, 3);
+
+    vi.setSystemTime(new Date('2026-01-31T09:00:00.000Z'));
+    await cooldownManager.registerEntry(file, 5, 1);
+
+    expect(await cooldownManager.getReadyEntries()).toHaveLength(0);
+    expect(await cooldownManager.getEntry('2026-01-27_001')).toMatchObject({
+      readyAt: '2026-02-05T09:00:00.000Z',
+      deferrals: 1,
+    });
+  });
+
+  it('flags entries deferred more often than the limit', async () => {
+    const file = await createEntry(app, '02_Cooling', '2026-01-27_001', 'entry');
+    const limited = new CooldownManager(app, createTestSettings({ maxReviewDeferrals: 2 }));
+    const unlimited = new CooldownManager(app, createTestSettings({ maxReviewDeferrals: 0 }));
+
+    await limited.registerEntry(file, 1, 2);
+    expect(limited.needsDecision((await limited.getEntry('2026-01-27_001'))!)).toBe(false);
+
+    await limited.registerEntry(file, 1, 3);
+    const entry = (await limited.getEntry('2026-01-27_001'))!;
+    expect(limited.needsDecision(entry)).toBe(true);
+    expect(unlimited.needsDecision(entry)).toBe(false);
+  });
+
+  it('unregisters a processed entry', async () => {
+    const first = await createEntry(app, '02_Cooling', '2026-01-27_001', 'first');
+    const second = await createEntry(app, '02_Cooling', '2026-01-27_002', 'second');
+    await cooldownManager.registerEntry(first, 1);
+    await cooldownManager.registerEntry(second, 1);
+
+    await cooldownManager.unregisterEntry('2026-01-27_001');
+
+    expect((await cooldownManager.getAllEntries()).map((entry) => entry.weaklogId)).toEqual(['2026-01-27_002']);
+  });
+
+  it('backs up the previous data before saving', async () => {
+    const file = await createEntry(app, '02_Cooling', '2026-01-27_001', 'entry');
+    await cooldownManager.registerEntry(file, 1);
+    const before = await app.vault.adapter.read(COOLDOWN_FILE);
+
+    await cooldownManager.unregisterEntry('2026-01-27_001');
+
+    expect(await app.vault.adapter.read('Weaklog/02_Cooling/.cooldown.backup.json')).toBe(before);
+  });
+
+  it('treats a corrupted cooldown file as empty', async () => {
+    await app.vault.adapter.write(COOLDOWN_FILE, '{ not json');
+
+    expect(await cooldownManager.getAllEntries()).toEqual([]);
+  });
+
+  it('removes entries with missing files or invalid dates', async () => {
+    const file = await createEntry(app, '02_Cooling', '2026-01-27_001', 'entry');
+    await cooldownManager.registerEntry(file, 1);
+    const data = JSON.parse(await app.vault.adapter.read(COOLDOWN_FILE));
+    data.entries.push(
+      { ...data.entries[0], weaklogId: '2026-01-27_002', filePath: 'Weaklog/02_Cooling/2026-01-27_002.md' },
+      { ...data.entries[0], weaklogId: '2026-01-27_003', readyAt: 'someday' }
+    );
+    await app.vault.adapter.write(COOLDOWN_FILE, JSON.stringify(data));
+
+    expect(await cooldownManager.validateAndCleanData()).toBe(2);
+    expect((await cooldownManager.getAllEntries()).map((entry) => entry.weaklogId)).toEqual(['2026-01-27_001']);
+  });
+});
@@ -0,0 +1,75 @@
+// @vitest-environment happy-dom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Plugin } from 'obsidian';
+import { CooldownManager } from '../../src/managers/CooldownManager';
+import { CooldownScheduler } from '../../src/managers/CooldownScheduler';
+import { CooldownEntry } from '../../src/types';
+import { createTestApp, createTestSettings } from '../helpers/vault';
+
+const ENTRIES: CooldownEntry[] = [
+  {
+    weaklogId: '2026-01-20_001',
+    filePath: 'Weaklog/02_Cooling/2026-01-20_001.md',
+    createdAt: '2026-01-20T09:00:00.000Z',
+    cooldownDays: 7,
+    readyAt: '2026-01-27T08:00:00.000Z',
+  },
+  {
+    weaklogId: '2026-01-21_001',
+    filePath: 'Weaklog/02_Cooling/2026-01-21_001.md',
+    createdAt: '2026-01-21T09:00:00.000Z',
+    cooldownDays: 7,
+    readyAt: '2026-01-28T09:00:00.000Z',
+  },
+];
+
+describe('CooldownScheduler', () => {
+  let addStatusBarItem: ReturnType<typeof vi.fn>;
+  let pending: Array<(entries: CooldownEntry[]) => void>;
+  let scheduler: CooldownScheduler;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-27T09:00:00.000Z'));
+
+    addStatusBarItem = vi.fn(() => document.createElement('div'));
+    const plugin = { app: createTestApp(), addStatusBarItem } as unknown as Plugin;
+
+    // Each load waits until the test resolves it
+    pending = [];
+    const cooldownManager = {
+      getAllEntries: () => new Promise<CooldownEntry[]>((resolve) => pending.push(resolve)),
+    } as unknown as CooldownManager;
+
+    scheduler = new CooldownScheduler(plugin, cooldownManager, createTestSettings({ showReadyBadge: true }), () => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('arms one timer when rearm() calls overlap', async () => {
+    const first = scheduler.rearm();
+    const second = scheduler.rearm();
+
+    pending[1](ENTRIES);
+    pending[0](ENTRIES);
+    await Promise.all([first, second]);
+
+    expect(vi.getTimerCount()).toBe(1);
+    expect(addStatusBarItem).toHaveBeenCalledTimes(1);
+  });
+
+  it('arms nothing when stopped while a rearm() is loading', async () => {
+    const rearm = scheduler.rearm();
+    scheduler.stop();
+
+    pending[0](ENTRIES);
+    await rearm;
+
+    expect(vi.getTimerCount()).toBe(0);
+    expect(addStatusBarItem).not.toHaveBeenCalled();
+    await scheduler.rearm();
+    expect(pending).toHaveLength(1);
+  });
+});
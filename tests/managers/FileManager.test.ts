@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { App, TFile } from 'obsidian';
+import { FileManager } from '../../src/managers/FileManager';
+import { TriageResult } from '../../src/types';
+import { createEntry, createTestApp, createTestSettings } from '../helpers/vault';
+
+describe('FileManager', () => {
+  let app: App;
+  let fileManager: FileManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2026, 0, 27, 9, 30));
+    app = createTestApp();
+    fileManager = new FileManager(app, createTestSettings());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('generateWeaklogId', () => {
+    it('starts at 001 for the first entry of the day', async () => {
+      expect(await fileManager.generateWeaklogId()).toBe('2026-01-27_001');
+    });
+
+    it('continues after the highest number of today', async () => {
+      await createEntry(app, '01_Raw', '2026-01-27_001', 'first');
+      await createEntry(app, '01_Raw', '2026-01-27_004', 'fourth');
+      await createEntry(app, '01_Raw', '2026-01-26_009', 'yesterday');
+
+      expect(await fileManager.generateWeaklogId()).toBe('2026-01-27_005');
+    });
+
+    it('ignores entries of today outside 01_Raw', async () => {
+      await createEntry(app, '02_Cooling', '2026-01-27_003', 'cooling');
+
+      expect(await fileManager.generateWeaklogId()).toBe('2026-01-27_001');
+    });
+
+    it('skips numbers taken by files the index does not list', async () => {
+      await app.vault.adapter.write('Weaklog/01_Raw/2026-01-27_001.md', 'not indexed');
+
+      expect(await fileManager.generateWeaklogId()).toBe('2026-01-27_002');
+    });
+  });
+
+  describe('createRawLog', () => {
+    it('creates the entry in 01_Raw with frontmatter', async () => {
+      const file = await fileManager.createRawLog('I stayed silent again.', 3);
+
+      expect(file.path).toBe('Weaklog/01_Raw/2026-01-27_001.md');
+      const entry = await fileManager.readWeaklogEntry(file);
+      expect(entry).toMatchObject({
+        id: '2026-01-27_001',
+        content: 'I stayed silent again.',
+        cooldownDays: 3,
+        status: 'raw',
+      });
+    });
+  });
+
+  describe('moveFile', () => {
+    it('moves the file to the status folder and updates the status', async () => {
+      const file = await createEntry(app, '02_Cooling', '2026-01-20_001', 'entry');
+
+      const moved = await fileManager.moveFile(file, 'triaged');
+
+      expect(moved).toBeInstanceOf(TFile);
+      expect(moved.path).toBe('Weaklog/03_Triaged/2026-01-20_001.md');
+      expect(await app.vault.adapter.exists('Weaklog/02_Cooling/2026-01-20_001.md')).toBe(false);
+      expect(app.metadataCache.getFileCache(moved)?.frontmatter?.status).toBe('triaged');
+    });
+
+    it('keeps the body and other frontmatter', async () => {
+      const file = await createEntry(app, '03_Triaged', '2026-01-20_002', 'Body text\n\nSecond paragraph');
+
+      const moved = await fileManager.moveFile(file, 'synthesized');
+      const entry = await fileManager.readWeaklogEntry(moved);
+
+      expect(entry?.content).toBe('Body text\n\nSecond paragraph');
+      expect(entry?.cooldownDays).toBe(7);
+    });
+
+    it('refuses to overwrite an existing file', async () => {
+      const file = await createEntry(app, '02_Cooling', '2026-01-20_003', 'cooling');
+      await createEntry(app, '03_Triaged', '2026-01-20_003', 'already triaged');
+
+      await expect(fileManager.moveFile(file, 'triaged')).rejects.toThrow('Target file already exists');
+      expect(await app.vault.read(file)).toContain('cooling');
+    });
+  });
+
+  describe('replaceBody', () => {
+    it('replaces the content below the frontmatter', async () => {
+      const file = await createEntry(app, '03_Triaged', '2026-01-20_004', 'Old body', { status: 'triaged' });
+
+      await fileManager.replaceBody(file, '# Synthesis Draft\n');
+      const entry = await fileManager.readWeaklogEntry(file);
+
+      expect(entry?.content).toBe('# Synthesis Draft');
+      expect(entry?.status).toBe('triaged');
+      expect(entry?.cooldownDays).toBe(7);
+    });
+  });
+
+  describe('readWeaklogEntry', () => {
+    it('returns null without required frontmatter', async () => {
+      const file = await app.vault.create('Weaklog/02_Cooling/note.md', '---\ntitle: Not a weaklog\n---\nText');
+
+      expect(await fileManager.readWeaklogEntry(file)).toBeNull();
+    });
+
+    it('parses JSON frontmatter fields', async () => {
+      const file = await createEntry(app, '03_Triaged', '2026-01-20_004', 'entry');
+      const triageResult = { score: 3, maxScore: 4, recommendation: 'review', coreQuestion: 'Why?' };
+      await fileManager.updateFrontmatter(file, { triage_result: JSON.stringify(triageResult) });
+
+      const entry = await fileManager.readWeaklogEntry(file);
+
+      expect(entry?.triageResult).toEqual(triageResult);
+    });
+
+    it('skips JSON fields that do not parse', async () => {
+      const file = await createEntry(app, '04_Synthesized', '2026-01-20_005', 'entry', { status: 'synthesized' });
+      await fileManager.updateFrontmatter(file, {
+        synthesis_guide: '{"questions": [',
+        draft_versions: JSON.stringify({ versions: [], selected: 0 }),
+      });
+
+      const entry = await fileManager.readWeaklogEntry(file);
+
+      expect(entry?.synthesisGuide).toBeUndefined();
+      expect(entry?.draftHistory).toEqual({ versions: [], selected: 0 });
+      expect(console.warn).toHaveBeenCalledWith('[Weaklog] Failed to parse synthesis_guide in Weaklog/04_Synthesized/2026-01-20_005.md');
+    });
+  });
+
+  describe('recordTriageRun', () => {
+    const result = (score: number, recommendation: TriageResult['recommendation']): TriageResult => ({
+      checks: {},
+      score,
+      maxScore: 4,
+      recommendation,
+      coreQuestion: 'Why?',
+      timestamp: '2026-01-27T09:00:00.000Z',
+      source: { provider: 'anthropic', model: 'claude-sonnet-4-5', fallback: false },
+      promptVersion: '3f9a0c12',
+    });
+
+    it('appends every run and keeps the latest as triage_result', async () => {
+      const file = await createEntry(app, '02_Cooling', '2026-01-20_006', 'entry');
+
+      await fileManager.recordTriageRun(file, result(2, 'review'), 'review');
+      await fileManager.recordTriageRun(file, result(4, 'adopt'), 'reject', { status: 'rejected' });
+      const entry = await fileManager.readWeaklogEntry(file);
+
+      expect(entry?.status).toBe('rejected');
+      expect(entry?.triageResult?.score).toBe(4);
+      expect(entry?.triageHistory).toHaveLength(2);
+      expect(entry?.triageHistory?.[0]).toMatchObject({
+        provider: 'anthropic',
+        model: 'claude-sonnet-4-5',
+        promptVersion: '3f9a0c12',
+        decision: 'review',
+        overridden: false,
+        timestamp: '2026-01-27T09:30:00.000Z',
+      });
+      expect(entry?.triageHistory?.[1]).toMatchObject({ decision: 'reject', overridden: true });
+    });
+
+    it('keeps a triage_result from before history existed as the first run', async () => {
+      const file = await createEntry(app, '02_Cooling', '2026-01-20_007', 'entry');
+      await fileManager.updateFrontmatter(file, { triage_result: JSON.stringify(result(1, 'reject')) });
+
+      await fileManager.recordTriageRun(file, result(3, 'review'), 'review');
+      const entry = await fileManager.readWeaklogEntry(file);
+
+      expect(entry?.triageHistory?.map((run) => [run.result.score, run.decision])).toEqual([
+        [1, null],
+        [3, 'review'],
+      ]);
+      expect(entry?.triageHistory?.[0].overridden).toBe(false);
+    });
+
+    it('ignores a malformed history', async () => {
+      const file = await createEntry(app, '02_Cooling', '2026-01-20_008', 'entry');
+      await fileManager.updateFrontmatter(file, { triage_history: '[{"broken": true}' });
+
+      await fileManager.recordTriageRun(file, result(3, 'review'), 'review');
+
+      expect((await fileManager.readWeaklogEntry(file))?.triageHistory).toHaveLength(1);
+    });
+  });
+
+  describe('archiveFile', () => {
+    it('moves the file into 01_Raw/.archived with a unique name', async () => {
+      await app.vault.adapter.write('Weaklog/01_Raw/.archived/2026-01-20_005.md', 'older copy');
+      const file = await createEntry(app, '02_Cooling', '2026-01-20_005', 'rejected');
+
+      await fileManager.archiveFile(file);
+
+      expect(file.path).toBe('Weaklog/01_Raw/.archived/2026-01-20_005_1.md');
+    });
+  });
+});
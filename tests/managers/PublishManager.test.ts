@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { App } from 'obsidian';
+import { PublishManager } from '../../src/managers/PublishManager';
+import { createEntry, createTestApp, createTestSettings } from '../helpers/vault';
+
+const NOTE = [
+  '# Synthesis Draft\n',
+  '## Original Entry\n',
+  '> In the planning meeting I disagreed with the deadline but said nothing.\n> Afterwards I was annoyed.\n',
+  '',
+  '## Core Question\n',
+  '> Why do I stay silent when I disagree?\n',
+  '',
+  '## Draft Content (Edit Below)\n',
+  'Silence only postpones the argument.',
+].join('\n');
+
+describe('PublishManager', () => {
+  let app: App;
+  let publishManager: PublishManager;
+
+  beforeEach(() => {
+    app = createTestApp();
+    publishManager = new PublishManager(app, createTestSettings());
+  });
+
+  describe('removeOriginalEntry', () => {
+    it('moves the raw entry out of the note and keeps everything else', async () => {
+      const file = await createEntry(app, '04_Synthesized', '2026-01-20_001', NOTE, { status: 'synthesized' });
+
+      const archivedPath = await publishManager.removeOriginalEntry(file);
+
+      expect(archivedPath).toBe('Weaklog/01_Raw/.archived/2026-01-20_001_original.md');
+      expect(await app.vault.adapter.read(archivedPath!)).toBe(
+        'In the planning meeting I disagreed with the deadline but said nothing.\nAfterwards I was annoyed.\n'
+      );
+
+      const content = await app.vault.read(file);
+      expect(content).not.toContain('Original Entry');
+      expect(content).not.toContain('said nothing');
+      expect(content).toContain('## Core Question');
+      expect(content).toContain('Silence only postpones the argument.');
+      expect(app.metadataCache.getFileCache(file)?.frontmatter?.weaklog_id).toBe('2026-01-20_001');
+    });
+
+    it('does nothing for a note without the section', async () => {
+      const file = await createEntry(app, '04_Synthesized', '2026-01-20_002', '## Draft Content\n\nFinal text');
+
+      expect(await publishManager.removeOriginalEntry(file)).toBeNull();
+      expect(await app.vault.read(file)).toContain('Final text');
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { UsageLedger } from '../../src/managers/UsageLedger';
+import { createTestApp, createTestSettings } from '../helpers/vault';
+
+const LEDGER_FILE = '.obsidian/plugins/weaklog-processor/usage.jsonl';
+
+describe('UsageLedger', () => {
+  it('keeps every record when calls finish at the same time', async () => {
+    const app = createTestApp();
+    const ledger = new UsageLedger(app, createTestSettings(), '.obsidian/plugins/weaklog-processor');
+
+    await Promise.all(['001', '002', '003'].map((id) => ledger.record({
+      timestamp: '2026-01-27T09:00:00.000Z',
+      provider: 'anthropic',
+      model: 'claude-sonnet-4-5',
+      task: 'triage',
+      entryId: `2026-01-27_${id}`,
+      inputTokens: 1000,
+      outputTokens: 500,
+      latencyMs: 800,
+      fallback: false,
+    })));
+
+    const lines = (await app.vault.adapter.read(LEDGER_FILE)).trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line).entryId)).toEqual(['2026-01-27_001', '2026-01-27_002', '2026-01-27_003']);
+    expect((await ledger.getSummary()).total.calls).toBe(3);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Obsidian's DOM helpers (createEl, createDiv, empty, addClass...)
+ *
+ * Obsidian adds these to Node/HTMLElement at startup; view tests run in
+ * happy-dom, so the setup file installs the subset the views use.
+ */
+
+/** Options accepted by createEl/createDiv/createSpan (or a class name) */
+type ElementInfo = string | {
+  text?: string;
+  cls?: string | string[];
+  attr?: Record<string, string | number | boolean>;
+  title?: string;
+  type?: string;
+  href?: string;
+  placeholder?: string;
+  value?: string;
+};
+
+/**
+ * Create an element under a parent like Obsidian's createEl
+ */
+function createChild(parent: Node, tag: string, info?: ElementInfo): HTMLElement {
+  const el = document.createElement(tag);
+  const options = typeof info === 'string' ? { cls: info } : info ?? {};
+
+  if (options.cls) {
+    const classes = Array.isArray(options.cls) ? options.cls : options.cls.split(' ');
+    el.classList.add(...classes.filter((cls) => cls.length > 0));
+  }
+  if (options.text !== undefined) {
+    el.textContent = options.text;
+  }
+  for (const key of ['title', 'type', 'href', 'placeholder', 'value'] as const) {
+    if (options[key] !== undefined) {
+      el.setAttribute(key, options[key]!);
+    }
+  }
+  Object.entries(options.attr ?? {}).forEach(([key, value]) => el.setAttribute(key, String(value)));
+
+  parent.appendChild(el);
+  return el;
+}
+
+/**
+ * Install the helpers on Node and HTMLElement prototypes
+ * No-op outside a DOM environment
+ */
+export function installDomHelpers(): void {
+  if (typeof HTMLElement === 'undefined') {
+    return;
+  }
+
+  const nodeProto = Node.prototype as any;
+  nodeProto.createEl = function (tag: string, info?: ElementInfo) {
+    return createChild(this, tag, info);
+  };
+  nodeProto.createDiv = function (info?: ElementInfo) {
+    return createChild(this, 'div', info);
+  };
+  nodeProto.createSpan = function (info?: ElementInfo) {
+    return createChild(this, 'span', info);
+  };
+  nodeProto.empty = function () {
+    while (this.firstChild) {
+      this.removeChild(this.firstChild);
+    }
+  };
+
+  const elementProto = HTMLElement.prototype as any;
+  elementProto.addClass = function (...classes: string[]) {
+    this.classList.add(...classes);
+  };
+  elementProto.removeClass = function (...classes: string[]) {
+    this.classList.remove(...classes);
+  };
+  elementProto.toggleClass = function (cls: string, value: boolean) {
+    this.classList.toggle(cls, value);
+  };
+  elementProto.hasClass = function (cls: string) {
+    return this.classList.contains(cls);
+  };
+  elementProto.setText = function (text: string) {
+    this.textContent = text;
+  };
+}
@@ -0,0 +1,438 @@
+/**
+ * In-memory stand-in for the Obsidian API (aliased as "obsidian" in vitest.config.ts)
+ *
+ * Implements the parts the plugin's managers and analyzers use:
+ * - Vault: create/read/modify, folders, markdown file index
+ * - DataAdapter: exists/read/write/append on raw paths (including dotfiles)
+ * - FileManager: renameFile and processFrontMatter
+ * - MetadataCache: frontmatter parsed from current file content
+ *
+ * Frontmatter is written as "key: value" lines with JSON for non-plain
+ * values (valid YAML flow style). Modal renders into a detached element for
+ * view tests; other UI classes are inert shells so modules that import them
+ * can load.
+ */
+
+// ============================================================================
+// Paths
+// ============================================================================
+
+/**
+ * Normalize a vault path like Obsidian (forward slashes, no leading/trailing or duplicate slashes)
+ */
+export function normalizePath(path: string): string {
+  return path
+    .replace(/\\/g, '/')
+    .replace(/\/+/g, '/')
+    .replace(/^\/|\/$/g, '');
+}
+
+/**
+ * Get parent folder of a path ('' for the vault root)
+ */
+function getParentPath(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.substring(0, index);
+}
+
+// ============================================================================
+// Files and Folders
+// ============================================================================
+
+export abstract class TAbstractFile {
+  path = '';
+  name = '';
+}
+
+export class TFolder extends TAbstractFile {
+  constructor(path: string) {
+    super();
+    this.path = path;
+    this.name = path.split('/').pop() || '';
+  }
+}
+
+export class TFile extends TAbstractFile {
+  basename = '';
+  extension = '';
+  stat = { ctime: Date.now(), mtime: Date.now(), size: 0 };
+
+  constructor(path: string) {
+    super();
+    this.setPath(path);
+  }
+
+  /**
+   * Update path and derived names (Obsidian mutates TFile on rename)
+   */
+  setPath(path: string): void {
+    this.path = path;
+    this.name = path.split('/').pop() || '';
+    const dot = this.name.lastIndexOf('.');
+    this.basename = dot > 0 ? this.name.substring(0, dot) : this.name;
+    this.extension = dot > 0 ? this.name.substring(dot + 1) : '';
+  }
+}
+
+// ============================================================================
+// Frontmatter
+// ============================================================================
+
+const FRONTMATTER_PATTERN = /^---\n([\s\S]*?)\n---\n?/;
+
+/**
+ * Parse "key: value" frontmatter lines
+ * JSON values (numbers, booleans, quoted strings, objects, arrays) are decoded; others stay strings
+ */
+export function parseFrontmatter(content: string): Record<string, any> | null {
+  const match = content.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const frontmatter: Record<string, any> = {};
+  for (const line of match[1].split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+    const key = line.substring(0, separator).trim();
+    const raw = line.substring(separator + 1).trim();
+    try {
+      frontmatter[key] = JSON.parse(raw);
+    } catch (error) {
+      frontmatter[key] = raw;
+    }
+  }
+  return frontmatter;
+}
+
+/**
+ * Serialize frontmatter, keeping plain strings unquoted like Obsidian
+ */
+function stringifyFrontmatter(frontmatter: Record<string, any>): string {
+  const lines = Object.entries(frontmatter).map(([key, value]) => {
+    const plain = typeof value === 'string' && /^[\w.:+-][\w .:+-]*$/.test(value) && !/^(true|false|null|-?\d+(\.\d+)?)$/.test(value);
+    return `${key}: ${plain ? value : JSON.stringify(value)}`;
+  });
+  return `---\n${lines.join('\n')}\n---\n`;
+}
+
+// ============================================================================
+// Vault
+// ============================================================================
+
+/**
+ * Raw storage shared by Vault and DataAdapter
+ */
+class MemoryStore {
+  contents = new Map<string, string>();
+  folders = new Set<string>(['']);
+  files = new Map<string, TFile>();
+
+  ensureFolder(path: string): void {
+    let current = path;
+    while (current && !this.folders.has(current)) {
+      this.folders.add(current);
+      current = getParentPath(current);
+    }
+  }
+}
+
+export class DataAdapter {
+  constructor(private store: MemoryStore) {}
+
+  async exists(path: string): Promise<boolean> {
+    const normalized = normalizePath(path);
+    return this.store.contents.has(normalized) || this.store.folders.has(normalized);
+  }
+
+  async read(path: string): Promise<string> {
+    const content = this.store.contents.get(normalizePath(path));
+    if (content === undefined) {
+      throw new Error(`ENOENT: no such file, open '${path}'`);
+    }
+    return content;
+  }
+
+  async write(path: string, data: string): Promise<void> {
+    const normalized = normalizePath(path);
+    this.store.ensureFolder(getParentPath(normalized));
+    this.store.contents.set(normalized, data);
+  }
+
+  async append(path: string, data: string): Promise<void> {
+    const normalized = normalizePath(path);
+    await this.write(normalized, (this.store.contents.get(normalized) ?? '') + data);
+  }
+
+  async remove(path: string): Promise<void> {
+    this.store.contents.delete(normalizePath(path));
+  }
+}
+
+export class Vault {
+  adapter: DataAdapter;
+  configDir = '.obsidian';
+
+  constructor(private store: MemoryStore) {
+    this.adapter = new DataAdapter(store);
+  }
+
+  getMarkdownFiles(): TFile[] {
+    return this.getFiles().filter((file) => file.extension === 'md');
+  }
+
+  getFiles(): TFile[] {
+    return Array.from(this.store.files.values());
+  }
+
+  getAbstractFileByPath(path: string): TAbstractFile | null {
+    const normalized = normalizePath(path);
+    const file = this.store.files.get(normalized);
+    if (file) {
+      return file;
+    }
+    return this.store.folders.has(normalized) ? new TFolder(normalized) : null;
+  }
+
+  async create(path: string, data: string): Promise<TFile> {
+    const normalized = normalizePath(path);
+    if (this.store.contents.has(normalized)) {
+      throw new Error('File already exists.');
+    }
+
+    this.store.ensureFolder(getParentPath(normalized));
+    this.store.contents.set(normalized, data);
+    const file = new TFile(normalized);
+    this.store.files.set(normalized, file);
+    return file;
+  }
+
+  async createFolder(path: string): Promise<void> {
+    const normalized = normalizePath(path);
+    if (this.store.folders.has(normalized)) {
+      throw new Error('Folder already exists.');
+    }
+    this.store.ensureFolder(normalized);
+  }
+
+  async read(file: TFile): Promise<string> {
+    return this.adapter.read(file.path);
+  }
+
+  async cachedRead(file: TFile): Promise<string> {
+    return this.adapter.read(file.path);
+  }
+
+  async modify(file: TFile, data: string): Promise<void> {
+    if (!this.store.contents.has(file.path)) {
+      throw new Error(`File does not exist: ${file.path}`);
+    }
+    this.store.contents.set(file.path, data);
+    file.stat.mtime = Date.now();
+  }
+
+  async delete(file: TFile): Promise<void> {
+    this.store.contents.delete(file.path);
+    this.store.files.delete(file.path);
+  }
+
+  on(): { unload: () => void } {
+    return { unload: () => undefined };
+  }
+
+  off(): void {
+    // No events in memory
+  }
+}
+
+export class MetadataCache {
+  constructor(private store: MemoryStore) {}
+
+  getFileCache(file: TFile): { frontmatter?: Record<string, any> } | null {
+    const content = this.store.contents.get(file.path);
+    if (content === undefined) {
+      return null;
+    }
+    const frontmatter = parseFrontmatter(content);
+    return frontmatter ? { frontmatter } : {};
+  }
+
+  on(): { unload: () => void } {
+    return { unload: () => undefined };
+  }
+}
+
+export class FileManager {
+  constructor(private store: MemoryStore) {}
+
+  async renameFile(file: TFile, newPath: string): Promise<void> {
+    const normalized = normalizePath(newPath);
+    if (this.store.contents.has(normalized)) {
+      throw new Error('Destination file already exists!');
+    }
+
+    const content = this.store.contents.get(file.path) ?? '';
+    this.store.contents.delete(file.path);
+    this.store.files.delete(file.path);
+
+    this.store.ensureFolder(getParentPath(normalized));
+    this.store.contents.set(normalized, content);
+    file.setPath(normalized);
+    this.store.files.set(normalized, file);
+  }
+
+  async processFrontMatter(file: TFile, fn: (frontmatter: any) => void): Promise<void> {
+    const content = this.store.contents.get(file.path);
+    if (content === undefined) {
+      throw new Error(`File does not exist: ${file.path}`);
+    }
+
+    const frontmatter = parseFrontmatter(content) ?? {};
+    fn(frontmatter);
+
+    const body = content.replace(FRONTMATTER_PATTERN, '');
+    this.store.contents.set(file.path, stringifyFrontmatter(frontmatter) + body);
+  }
+}
+
+export class App {
+  vault: Vault;
+  metadataCache: MetadataCache;
+  fileManager: FileManager;
+  workspace = {
+    getActiveFile: (): TFile | null => null,
+    getLeaf: () => ({ openFile: async (): Promise<void> => undefined }),
+    on: () => ({ unload: () => undefined }),
+  };
+
+  constructor() {
+    const store = new MemoryStore();
+    this.vault = new Vault(store);
+    this.metadataCache = new MetadataCache(store);
+    this.fileManager = new FileManager(store);
+  }
+}
+
+// ============================================================================
+// UI Shells
+// ============================================================================
+
+export class Notice {
+  /** Every message shown, for assertions */
+  static messages: string[] = [];
+
+  constructor(message: string) {
+    Notice.messages.push(message);
+  }
+
+  setMessage(message: string): this {
+    Notice.messages.push(message);
+    return this;
+  }
+
+  hide(): void {
+    // Nothing to hide
+  }
+}
+
+export class Component {
+  load(): void {}
+  unload(): void {}
+}
+
+/**
+ * Modal that renders into a detached element (view tests run in happy-dom)
+ * open()/close() call onOpen()/onClose() synchronously
+ */
+export class Modal {
+  app: App;
+  containerEl: HTMLElement;
+  modalEl: HTMLElement;
+  titleEl: HTMLElement;
+  contentEl: HTMLElement;
+  isOpen = false;
+
+  constructor(app: App) {
+    this.app = app;
+    this.containerEl = document.createElement('div');
+    this.modalEl = this.containerEl.createDiv('modal');
+    this.titleEl = this.modalEl.createDiv('modal-title');
+    this.contentEl = this.modalEl.createDiv('modal-content');
+  }
+
+  open(): void {
+    this.isOpen = true;
+    this.onOpen();
+  }
+
+  close(): void {
+    if (!this.isOpen) {
+      return;
+    }
+    this.isOpen = false;
+    this.onClose();
+  }
+
+  onOpen(): void | Promise<void> {}
+  onClose(): void {}
+}
+
+export class Plugin extends Component {}
+
+export class PluginSettingTab {
+  constructor(public app: App, public plugin: unknown) {}
+}
+
+export class Setting {
+  constructor(public containerEl: unknown) {}
+}
+
+export class ItemView extends Component {
+  constructor(public leaf: unknown) {
+    super();
+  }
+}
+
+export class WorkspaceLeaf {}
+
+export const MarkdownRenderer = {
+  render: async (): Promise<void> => undefined,
+};
+
+/**
+ * Debounce like Obsidian (trailing call, with cancel/run)
+ */
+export function debounce<T extends unknown[]>(callback: (...args: T) => unknown, timeout = 0) {
+  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+  let lastArgs: T | null = null;
+
+  const debounced = (...args: T) => {
+    lastArgs = args;
+    if (timeoutId !== null) {
+      clearTimeout(timeoutId);
+    }
+    timeoutId = setTimeout(() => {
+      timeoutId = null;
+      callback(...args);
+    }, timeout);
+    return debounced;
+  };
+  debounced.cancel = () => {
+    if (timeoutId !== null) {
+      clearTimeout(timeoutId);
+      timeoutId = null;
+    }
+    return debounced;
+  };
+  debounced.run = () => {
+    if (timeoutId !== null && lastArgs) {
+      clearTimeout(timeoutId);
+      timeoutId = null;
+      return callback(...lastArgs);
+    }
+    return undefined;
+  };
+  return debounced;
+}
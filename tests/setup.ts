@@ -0,0 +1,14 @@
+/**
+ * Test setup (runs before every test file)
+ * - Silences the plugin's console logging
+ * - Installs Obsidian's DOM helpers for view tests
+ */
+
+import { vi } from 'vitest';
+import { installDomHelpers } from './mocks/dom';
+
+vi.spyOn(console, 'log').mockImplementation(() => undefined);
+vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+installDomHelpers();
@@ -0,0 +1,76 @@
+// @vitest-environment happy-dom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { App, TFile } from 'obsidian';
+import { FileManager } from '../../src/managers/FileManager';
+import { SynthesisGuide } from '../../src/llm/SynthesisGuide';
+import { SynthesisGuide as SynthesisGuideData, TriageResult } from '../../src/types';
+import { SynthesisModal } from '../../src/views/SynthesisModal';
+import { createMockRouter } from '../helpers/llm';
+import { createEntry, createTestApp, createTestSettings } from '../helpers/vault';
+
+const CONTENT = 'In the planning meeting I disagreed with the deadline but said nothing.';
+
+const TRIAGE_RESULT: TriageResult = {
+  checks: {},
+  score: 4,
+  maxScore: 4,
+  recommendation: 'adopt',
+  coreQuestion: 'Why do I stay silent when I disagree?',
+  timestamp: '2026-01-27T09:00:00.000Z',
+};
+
+const GUIDE: SynthesisGuideData = {
+  questions: ['What did staying silent protect you from?', 'Who else stays silent?', 'What would you say now?'],
+  suggestedTone: 'reflective',
+  timestamp: '2026-01-27T09:00:00.000Z',
+};
+
+describe('SynthesisModal', () => {
+  let app: App;
+  let fileManager: FileManager;
+  let file: TFile;
+
+  beforeEach(async () => {
+    app = createTestApp();
+    fileManager = new FileManager(app, createTestSettings());
+    file = await createEntry(app, '03_Triaged', '2026-01-20_001', CONTENT, { status: 'triaged' });
+  });
+
+  /**
+   * Open the modal for a freshly generated guide
+   */
+  function openModal(): SynthesisModal {
+    const { router } = createMockRouter({ provider: 'anthropic', model: 'claude-sonnet-4-5', exchanges: [] });
+    const modal = new SynthesisModal(app, fileManager, file, GUIDE, new SynthesisGuide(router), TRIAGE_RESULT, CONTENT);
+    modal.open();
+    return modal;
+  }
+
+  it('saves freshly generated questions before anything is answered', async () => {
+    const modal = openModal();
+    modal.close();
+
+    await expect.poll(async () => (await fileManager.readWeaklogEntry(file))?.synthesisSession).toMatchObject({
+      guide: { questions: GUIDE.questions },
+      answers: ['', '', ''],
+    });
+  });
+
+  it('keeps triage history and result when the draft is generated', async () => {
+    await fileManager.recordTriageRun(file, TRIAGE_RESULT, 'adopt');
+    const modal = openModal();
+
+    const textarea = modal.contentEl.querySelector<HTMLTextAreaElement>('.weaklog-answer-textarea')!;
+    textarea.value = 'It kept the meeting calm.';
+    textarea.dispatchEvent(new Event('input'));
+    modal.contentEl.querySelector<HTMLButtonElement>('.weaklog-button-generate')!.click();
+
+    await expect.poll(() => file.path).toBe('Weaklog/04_Synthesized/2026-01-20_001.md');
+    const entry = await fileManager.readWeaklogEntry(file);
+    expect(entry?.status).toBe('synthesized');
+    expect(entry?.triageResult?.coreQuestion).toBe(TRIAGE_RESULT.coreQuestion);
+    expect(entry?.triageHistory).toHaveLength(1);
+    expect(entry?.triageHistory?.[0].decision).toBe('adopt');
+    expect(await app.vault.read(file)).toContain('It kept the meeting calm.');
+  });
+});
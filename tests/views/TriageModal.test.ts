@@ -0,0 +1,161 @@
+// @vitest-environment happy-dom
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { App, TFile } from 'obsidian';
+import { CooldownManager } from '../../src/managers/CooldownManager';
+import { FileManager } from '../../src/managers/FileManager';
+import { TriageDecision, TriageResult } from '../../src/types';
+import { TriageModal, TriageModalOptions } from '../../src/views/TriageModal';
+import { createEntry, createTestApp, createTestSettings } from '../helpers/vault';
+
+const RESULT: TriageResult = {
+  checks: {
+    hasSpecifics: { pass: true, reason: 'Names the planning meeting' },
+    canBeCorePhrase: { pass: true, reason: '' },
+    isTransferable: { pass: false, reason: '' },
+    isNonHarmful: { pass: true, reason: '' },
+  },
+  score: 3,
+  maxScore: 4,
+  recommendation: 'review',
+  coreQuestion: 'Why do I stay silent when I disagree?',
+  timestamp: '2026-01-27T09:00:00.000Z',
+  provenance: 'ai',
+  source: { provider: 'anthropic', model: 'claude-sonnet-4-5', fallback: false },
+};
+
+/**
+ * Find a button by its label
+ */
+function getButton(modal: TriageModal, text: string): HTMLButtonElement | undefined {
+  return Array.from(modal.contentEl.querySelectorAll('button')).find((button) => button.textContent === text);
+}
+
+describe('TriageModal', () => {
+  let app: App;
+  let fileManager: FileManager;
+  let cooldownManager: CooldownManager;
+  let file: TFile;
+
+  beforeEach(async () => {
+    app = createTestApp();
+    const settings = createTestSettings();
+    fileManager = new FileManager(app, settings);
+    cooldownManager = new CooldownManager(app, settings);
+    file = await createEntry(app, '02_Cooling', '2026-01-20_001', 'In the planning meeting I said nothing.');
+    await cooldownManager.registerEntry(file, 7);
+  });
+
+  /**
+   * Open the modal and resolve with the decision reported on close
+   */
+  function openModal(result: TriageResult, options: TriageModalOptions = {}): { modal: TriageModal; decided: Promise<TriageDecision | null> } {
+    let modal!: TriageModal;
+    const decided = new Promise<TriageDecision | null>((resolve) => {
+      modal = new TriageModal(app, fileManager, cooldownManager, file, result, { ...options, onDecision: resolve });
+    });
+    modal.open();
+    return { modal, decided };
+  }
+
+  it('shows the score, recommendation and core question', () => {
+    const { modal } = openModal(RESULT);
+
+    expect(modal.contentEl.textContent).toContain('Score: 3/4');
+    expect(modal.contentEl.textContent).toContain('Recommendation: REVIEW');
+    expect(modal.contentEl.textContent).toContain('"Why do I stay silent when I disagree?"');
+    expect(modal.contentEl.textContent).toContain('anthropic (claude-sonnet-4-5)');
+  });
+
+  it('adopts: records the run, moves the entry and stops cooling', async () => {
+    const { modal, decided } = openModal(RESULT);
+
+    getButton(modal, 'Adopt →')!.click();
+
+    expect(await decided).toBe('adopt');
+    expect(file.path).toBe('Weaklog/03_Triaged/2026-01-20_001.md');
+    const entry = await fileManager.readWeaklogEntry(file);
+    expect(entry?.status).toBe('triaged');
+    expect(entry?.triageHistory).toHaveLength(1);
+    expect(entry?.triageHistory?.[0]).toMatchObject({ decision: 'adopt', overridden: true, provider: 'anthropic' });
+    expect(await cooldownManager.getAllEntries()).toHaveLength(0);
+  });
+
+  it('rejects: records the run and archives the entry', async () => {
+    const { modal, decided } = openModal(RESULT);
+
+    getButton(modal, 'Reject')!.click();
+
+    expect(await decided).toBe('reject');
+    expect(file.path).toBe('Weaklog/01_Raw/.archived/2026-01-20_001.md');
+    const entry = await fileManager.readWeaklogEntry(file);
+    expect(entry?.status).toBe('rejected');
+    expect(entry?.triageHistory?.[0].decision).toBe('reject');
+    expect(await cooldownManager.getAllEntries()).toHaveLength(0);
+  });
+
+  it('reviews later: keeps the result and restarts cooling for the picked period', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-27T09:00:00.000Z'));
+    try {
+      const { modal, decided } = openModal(RESULT, { reviewLaterDays: 5 });
+
+      getButton(modal, 'Review Later')!.click();
+      const daysInput = modal.contentEl.querySelector('input') as HTMLInputElement;
+      expect(daysInput.value).toBe('5');
+      daysInput.value = '10';
+      (modal.contentEl.querySelector('.weaklog-review-later .mod-cta') as HTMLButtonElement).click();
+
+      expect(await decided).toBe('review');
+      expect(file.path).toBe('Weaklog/02_Cooling/2026-01-20_001.md');
+      expect((await fileManager.readWeaklogEntry(file))?.triageResult?.score).toBe(3);
+      expect(await cooldownManager.getEntry('2026-01-20_001')).toMatchObject({
+        readyAt: '2026-02-06T09:00:00.000Z',
+        deferrals: 1,
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('reports a dismissal without recording anything', async () => {
+    const { modal, decided } = openModal(RESULT);
+
+    modal.close();
+
+    expect(await decided).toBeNull();
+    expect((await fileManager.readWeaklogEntry(file))?.triageHistory).toBeUndefined();
+  });
+
+  describe('failed analysis', () => {
+    const fallback: TriageResult = {
+      ...RESULT,
+      score: 0,
+      recommendation: 'review',
+      provenance: 'fallback',
+      failureReason: 'Missing $.checks',
+      source: undefined,
+    };
+
+    it('shows the failure instead of a score and decision buttons', () => {
+      const { modal } = openModal(fallback, { onRetry: () => undefined });
+
+      expect(modal.contentEl.textContent).toContain('Analysis failed');
+      expect(modal.contentEl.textContent).toContain('Missing $.checks');
+      expect(modal.contentEl.textContent).not.toContain('Score:');
+      expect(getButton(modal, 'Adopt →')).toBeUndefined();
+      expect(getButton(modal, 'Reject')).toBeUndefined();
+    });
+
+    it('hands off to retry without reporting a decision', () => {
+      const onRetry = vi.fn();
+      const onDecision = vi.fn();
+      const modal = new TriageModal(app, fileManager, cooldownManager, file, fallback, { onRetry, onDecision });
+      modal.open();
+
+      getButton(modal, 'Retry')!.click();
+
+      expect(onRetry).toHaveBeenCalledOnce();
+      expect(onDecision).not.toHaveBeenCalled();
+    });
+  });
+});
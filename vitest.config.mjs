@@ -0,0 +1,17 @@
+import { defineConfig } from 'vitest/config';
+import { fileURLToPath } from 'url';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      // Obsidian ships types only; tests run against an in-memory vault
+      obsidian: fileURLToPath(new URL('./tests/mocks/obsidian.ts', import.meta.url)),
+    },
+  },
+  test: {
+    include: ['tests/**/*.test.ts'],
+    setupFiles: ['tests/setup.ts'],
+    // View tests opt into happy-dom with a @vitest-environment comment
+    environment: 'node',
+  },
+});